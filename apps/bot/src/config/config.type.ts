@@ -17,12 +17,39 @@ export const configSchema = type.module({
               type.string.matching(/^#[0-9a-fA-F]{6}$/),
             ),
           },
+          'musicChannelId?': 'string',
         },
       },
       token: 'string',
     },
     'youtube?': {
       'cookiesPath?': 'string',
+      'backend?': "'sabr' | 'ytdlp' | 'sabr-then-ytdlp'",
+    },
+    'music?': {
+      'persistence?': {
+        'store?': "'sqlite' | 'memory'",
+        'sqlitePath?': 'string',
+        'resumeOnStartup?': 'boolean',
+      },
+      'playlists?': {
+        'maxTracks?': 'number.integer > 0',
+      },
+      'history?': {
+        'maxEntries?': 'number.integer > 0',
+      },
+      'normalization?': {
+        'enabled?': 'boolean',
+        'targetLufs?': '-70 <= number <= -5',
+      },
+      'transitions?': {
+        'prefetchSeconds?': '0 <= number <= 60',
+        'crossfadeSeconds?': '0 <= number <= 12',
+      },
+      'voteSkip?': {
+        'enabled?': 'boolean',
+        'threshold?': '0 < number <= 1',
+      },
     },
   },
   env: {
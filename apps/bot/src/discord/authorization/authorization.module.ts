@@ -7,14 +7,16 @@ import { RoleGuard } from './role.guard';
 @Module({
   imports: [ConfigModule],
   providers: [
+    RoleGuard,
     {
       provide: APP_FILTER,
       useClass: DiscordForbiddenFilter,
     },
     {
       provide: APP_GUARD,
-      useClass: RoleGuard,
+      useExisting: RoleGuard,
     },
   ],
+  exports: [RoleGuard],
 })
 export class AuthorizationModule {}
@@ -143,4 +143,23 @@ describe('RoleGuard', () => {
       "Vous n'avez pas les permissions nécessaires pour utiliser cette fonctionnalité.",
     );
   });
+
+  describe('hasRole', () => {
+    beforeEach(async () => {
+      await createGuard(undefined);
+    });
+
+    it('maps role ids to roles for the guild', () => {
+      expect(
+        service.hasRole('testGuild', ['other', 'admin-role'], Role.Admin),
+      ).toBe(true);
+      expect(service.hasRole('testGuild', ['other'], Role.Admin)).toBe(false);
+    });
+
+    it('denies guilds without role settings', () => {
+      expect(service.hasRole('otherGuild', ['admin-role'], Role.Admin)).toBe(
+        false,
+      );
+    });
+  });
 });
@@ -32,6 +32,18 @@ export class RoleGuard implements CanActivate {
     );
   }
 
+  public hasRole(
+    guildId: string,
+    roleIds: readonly string[],
+    requiredRole: Role,
+  ): boolean {
+    const roleMap = this.roleIdToEnum[guildId];
+    return (
+      roleMap !== undefined &&
+      this.getHighestRank(roleMap, roleIds) >= RoleRank[requiredRole]
+    );
+  }
+
   canActivate(
     context: ExecutionContext,
   ): boolean | Promise<boolean> | Observable<boolean> {
@@ -66,23 +78,29 @@ export class RoleGuard implements CanActivate {
       ? memberRoles
       : memberRoles.cache.map((role) => role.id);
 
-    const mappedRoles = userRoleIds
-      .map((roleId) => roleMap.get(roleId))
-      .filter((role): role is Role => role !== undefined);
+    const highestUserRoleRank = this.getHighestRank(roleMap, userRoleIds);
 
-    if (mappedRoles.length === 0) {
+    if (highestUserRoleRank === 0) {
       throw new DiscordForbiddenException();
     }
 
-    const highestUserRoleRank = Math.max(
-      0,
-      ...mappedRoles.map((role) => RoleRank[role]),
-    );
-
     if (highestUserRoleRank >= RoleRank[requiredRole]) {
       return true;
     }
 
     throw new DiscordForbiddenException();
   }
+
+  private getHighestRank(
+    roleMap: Map<string, Role>,
+    roleIds: readonly string[],
+  ): number {
+    return Math.max(
+      0,
+      ...roleIds
+        .map((roleId) => roleMap.get(roleId))
+        .filter((role): role is Role => role !== undefined)
+        .map((role) => RoleRank[role]),
+    );
+  }
 }
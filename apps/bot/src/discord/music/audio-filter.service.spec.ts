@@ -0,0 +1,195 @@
+import { PassThrough } from 'node:stream';
+import { StreamType } from '@discordjs/voice';
+import type { ConfigService } from '@nestjs/config';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockSpawnFfmpeg } = vi.hoisted(() => ({
+  mockSpawnFfmpeg: vi.fn(),
+}));
+
+vi.mock('./ffmpeg.util', () => ({
+  spawnFfmpeg: mockSpawnFfmpeg,
+}));
+
+import type { Config } from '../../config/config.type';
+import { AudioFilterService } from './audio-filter.service';
+import { NO_AUDIO_FILTERS } from './audio-filters';
+
+function createConfigService(
+  normalization?: NonNullable<Config['music']>['normalization'],
+): ConfigService<Config, true> {
+  return {
+    get: vi.fn().mockReturnValue(normalization && { normalization }),
+  } as unknown as ConfigService<Config, true>;
+}
+
+describe('AudioFilterService', () => {
+  let service: AudioFilterService;
+  const filtered = new PassThrough();
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSpawnFfmpeg.mockReturnValue(filtered);
+    service = new AudioFilterService(createConfigService());
+  });
+
+  it('stores filters per guild', () => {
+    service.setFilters('guild-123', {
+      presets: ['nightcore'],
+      equalizer: [],
+    });
+
+    expect(service.getFilters('guild-123').presets).toEqual(['nightcore']);
+    expect(service.getPlaybackRate('guild-123')).toBe(1.25);
+    expect(service.getFilters('guild-456')).toBe(NO_AUDIO_FILTERS);
+  });
+
+  it('clears filters when the bot leaves voice', () => {
+    service.setFilters('guild-123', { presets: ['8d'], equalizer: [] });
+
+    service.handleVoiceLeft('guild-123');
+
+    expect(service.getFilters('guild-123')).toBe(NO_AUDIO_FILTERS);
+  });
+
+  it('passes audio through untouched without filters', () => {
+    const audio = {
+      source: 'https://example.com/audio.webm',
+      streamType: StreamType.WebmOpus,
+    };
+
+    expect(service.apply('guild-123', audio)).toBe(audio);
+    expect(mockSpawnFfmpeg).not.toHaveBeenCalled();
+  });
+
+  it('filters URLs through ffmpeg into raw PCM', () => {
+    service.setFilters('guild-123', { presets: ['8d'], equalizer: [] });
+
+    const audio = service.apply('guild-123', {
+      source: 'https://example.com/audio.webm',
+      streamType: StreamType.WebmOpus,
+    });
+
+    expect(mockSpawnFfmpeg).toHaveBeenCalledWith(
+      [
+        '-i',
+        'https://example.com/audio.webm',
+        '-vn',
+        '-af',
+        'apulsator=hz=0.08',
+        '-f',
+        's16le',
+        '-ar',
+        '48000',
+        '-ac',
+        '2',
+        'pipe:1',
+      ],
+      undefined,
+    );
+    expect(audio).toEqual({
+      source: filtered,
+      streamType: StreamType.Raw,
+    });
+  });
+
+  it('pipes streams into ffmpeg', () => {
+    const input = new PassThrough();
+    service.setFilters('guild-123', { presets: ['karaoke'], equalizer: [] });
+
+    service.apply('guild-123', {
+      source: input,
+      streamType: StreamType.OggOpus,
+    });
+
+    expect(mockSpawnFfmpeg).toHaveBeenCalledWith(
+      expect.arrayContaining(['pipe:0', 'stereotools=mlev=0.03']),
+      input,
+    );
+  });
+
+  it('decodes to raw PCM without filters when asked to', () => {
+    const audio = service.decode('guild-123', {
+      source: 'https://example.com/audio.webm',
+      streamType: StreamType.WebmOpus,
+    });
+
+    expect(mockSpawnFfmpeg).toHaveBeenCalledWith(
+      [
+        '-i',
+        'https://example.com/audio.webm',
+        '-vn',
+        '-f',
+        's16le',
+        '-ar',
+        '48000',
+        '-ac',
+        '2',
+        'pipe:1',
+      ],
+      undefined,
+    );
+    expect(audio.streamType).toBe(StreamType.Raw);
+  });
+
+  describe('loudness normalization', () => {
+    beforeEach(() => {
+      service = new AudioFilterService(
+        createConfigService({ enabled: true, targetLufs: -16 }),
+      );
+    });
+
+    it('normalizes unmeasured streams with loudnorm before the filters', () => {
+      service.setFilters('guild-123', { presets: ['8d'], equalizer: [] });
+
+      service.apply('guild-123', {
+        source: 'https://example.com/radio',
+        streamType: StreamType.Arbitrary,
+      });
+
+      expect(mockSpawnFfmpeg).toHaveBeenCalledWith(
+        expect.arrayContaining([
+          'loudnorm=I=-16:TP=-1.5:LRA=11,apulsator=hz=0.08',
+        ]),
+        undefined,
+      );
+    });
+
+    it('uses the measured loudness instead of loudnorm', () => {
+      const audio = {
+        source: 'https://example.com/audio.webm',
+        streamType: StreamType.WebmOpus,
+        loudnessDb: 4,
+      };
+
+      expect(service.apply('guild-123', audio)).toBe(audio);
+      expect(service.getNormalizationGain(audio)).toBeCloseTo(10 ** (-6 / 20));
+    });
+
+    it('limits how much quiet tracks are boosted', () => {
+      expect(
+        service.getNormalizationGain({
+          source: 'https://example.com/audio.webm',
+          streamType: StreamType.WebmOpus,
+          loudnessDb: -20,
+        }),
+      ).toBeCloseTo(10 ** (6 / 20));
+    });
+
+    it('does nothing when disabled', () => {
+      service = new AudioFilterService(createConfigService());
+      const audio = {
+        source: 'https://example.com/audio.webm',
+        streamType: StreamType.WebmOpus,
+        loudnessDb: 4,
+      };
+
+      expect(service.getNormalizationGain(audio)).toBeUndefined();
+      service.apply('guild-123', {
+        source: 'https://example.com/radio',
+        streamType: StreamType.Arbitrary,
+      });
+      expect(mockSpawnFfmpeg).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,120 @@
+import type { Readable } from 'node:stream';
+import { StreamType } from '@discordjs/voice';
+import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import type { Config } from '../../config/config.type';
+import { VOICE_EVENTS } from '../voice/voice.service';
+import {
+  type AudioFilters,
+  buildFilterGraph,
+  getPlaybackRate,
+  NO_AUDIO_FILTERS,
+} from './audio-filters';
+import { spawnFfmpeg } from './ffmpeg.util';
+import type { AudioInfo } from './providers/music-provider.interface';
+
+const DEFAULT_TARGET_LUFS = -14;
+// YouTube measures loudnessDb against its own -14 LUFS playback level
+const YOUTUBE_REFERENCE_LUFS = -14;
+// Boosting quiet tracks further than this clips without a limiter
+const MAX_NORMALIZATION_GAIN_DB = 6;
+
+@Injectable()
+export class AudioFilterService {
+  private readonly logger = new Logger(AudioFilterService.name);
+  private readonly filters = new Map<string, AudioFilters>();
+  private readonly normalize: boolean;
+  private readonly targetLufs: number;
+
+  public constructor(configService: ConfigService<Config, true>) {
+    const normalization = configService.get('music', {
+      infer: true,
+    })?.normalization;
+    this.normalize = normalization?.enabled ?? false;
+    this.targetLufs = normalization?.targetLufs ?? DEFAULT_TARGET_LUFS;
+  }
+
+  public getFilters(guildId: string): AudioFilters {
+    return this.filters.get(guildId) ?? NO_AUDIO_FILTERS;
+  }
+
+  public setFilters(guildId: string, filters: AudioFilters): void {
+    this.filters.set(guildId, filters);
+  }
+
+  public getPlaybackRate(guildId: string): number {
+    return getPlaybackRate(this.getFilters(guildId));
+  }
+
+  // Gain for streams whose loudness is already known, so they skip the loudnorm pass
+  public getNormalizationGain(audio: AudioInfo): number | undefined {
+    if (!this.normalize || audio.loudnessDb === undefined) {
+      return undefined;
+    }
+
+    const gainDb = Math.min(
+      this.targetLufs - (YOUTUBE_REFERENCE_LUFS + audio.loudnessDb),
+      MAX_NORMALIZATION_GAIN_DB,
+    );
+    return 10 ** (gainDb / 20);
+  }
+
+  @OnEvent(VOICE_EVENTS.LEFT)
+  public handleVoiceLeft(guildId: string): void {
+    this.filters.delete(guildId);
+  }
+
+  // Decodes to raw PCM so @discordjs/voice doesn't have to probe the filtered stream again
+  public apply(guildId: string, audio: AudioInfo): AudioInfo {
+    return this.getFilterGraph(guildId, audio) === undefined
+      ? audio
+      : this.decode(guildId, audio);
+  }
+
+  // Always decodes, for consumers that need PCM such as the crossfade mixer
+  public decode(
+    guildId: string,
+    audio: AudioInfo,
+  ): AudioInfo & { source: Readable } {
+    const graph = this.getFilterGraph(guildId, audio);
+    if (graph) {
+      this.logger.debug(`audio.filters: ${graph} in guild ${guildId}`);
+    }
+
+    const input = audio.source;
+    const isUrl = typeof input === 'string';
+    const source = spawnFfmpeg(
+      [
+        '-i',
+        isUrl ? input : 'pipe:0',
+        '-vn',
+        ...(graph ? ['-af', graph] : []),
+        '-f',
+        's16le',
+        '-ar',
+        '48000',
+        '-ac',
+        '2',
+        'pipe:1',
+      ],
+      isUrl ? undefined : input,
+    );
+
+    return { ...audio, source, streamType: StreamType.Raw };
+  }
+
+  private getFilterGraph(
+    guildId: string,
+    audio: AudioInfo,
+  ): string | undefined {
+    const stages = [
+      ...(this.normalize && audio.loudnessDb === undefined
+        ? [`loudnorm=I=${String(this.targetLufs)}:TP=-1.5:LRA=11`]
+        : []),
+      buildFilterGraph(this.getFilters(guildId)),
+    ].filter((stage) => stage !== undefined);
+
+    return stages.length > 0 ? stages.join(',') : undefined;
+  }
+}
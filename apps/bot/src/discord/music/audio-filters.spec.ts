@@ -0,0 +1,160 @@
+import { describe, expect, it } from 'vitest';
+import {
+  buildFilterGraph,
+  describeAudioFilters,
+  getPlaybackRate,
+  hasAudioFilters,
+  isAudioFilterPreset,
+  NO_AUDIO_FILTERS,
+  parseEqualizerBands,
+} from './audio-filters';
+
+describe('audio-filters', () => {
+  describe('isAudioFilterPreset', () => {
+    it('accepts known presets only', () => {
+      expect(isAudioFilterPreset('nightcore')).toBe(true);
+      expect(isAudioFilterPreset('8d')).toBe(true);
+      expect(isAudioFilterPreset('toString')).toBe(false);
+      expect(isAudioFilterPreset('reverb')).toBe(false);
+    });
+  });
+
+  describe('hasAudioFilters', () => {
+    it('is false without presets or bands', () => {
+      expect(hasAudioFilters(NO_AUDIO_FILTERS)).toBe(false);
+      expect(
+        hasAudioFilters({
+          presets: [],
+          equalizer: [{ frequency: 60, gain: 6 }],
+        }),
+      ).toBe(true);
+    });
+
+    it('ignores neutral speed and pitch', () => {
+      expect(hasAudioFilters({ ...NO_AUDIO_FILTERS, speed: 1, pitch: 0 })).toBe(
+        false,
+      );
+      expect(hasAudioFilters({ ...NO_AUDIO_FILTERS, pitch: -2 })).toBe(true);
+    });
+  });
+
+  describe('buildFilterGraph', () => {
+    it('returns undefined without filters', () => {
+      expect(buildFilterGraph(NO_AUDIO_FILTERS)).toBeUndefined();
+    });
+
+    it('applies the equalizer before presets in a fixed order', () => {
+      expect(
+        buildFilterGraph({
+          presets: ['tremolo', 'bassboost'],
+          equalizer: [{ frequency: 1000, gain: -3 }],
+        }),
+      ).toBe(
+        'equalizer=f=1000:width_type=o:width=1:g=-3,bass=g=10:f=110:w=0.6,tremolo=f=6:d=0.5',
+      );
+    });
+
+    it('changes the speed with atempo', () => {
+      expect(buildFilterGraph({ ...NO_AUDIO_FILTERS, speed: 1.5 })).toBe(
+        'atempo=1.5',
+      );
+    });
+
+    it('shifts the pitch by resampling and restores the tempo', () => {
+      expect(buildFilterGraph({ ...NO_AUDIO_FILTERS, pitch: 3 })).toBe(
+        'aresample=48000,asetrate=57082,aresample=48000,atempo=0.8409',
+      );
+    });
+
+    it('chains atempo for factors outside its range', () => {
+      expect(
+        buildFilterGraph({ ...NO_AUDIO_FILTERS, speed: 2, pitch: -12 }),
+      ).toBe(
+        'aresample=48000,asetrate=24000,aresample=48000,atempo=2,atempo=2',
+      );
+      expect(
+        buildFilterGraph({ ...NO_AUDIO_FILTERS, speed: 0.5, pitch: 12 }),
+      ).toBe(
+        'aresample=48000,asetrate=96000,aresample=48000,atempo=0.5,atempo=0.5',
+      );
+    });
+  });
+
+  describe('getPlaybackRate', () => {
+    it('multiplies the rates of tempo-changing presets', () => {
+      expect(getPlaybackRate(NO_AUDIO_FILTERS)).toBe(1);
+      expect(
+        getPlaybackRate({ presets: ['nightcore', 'karaoke'], equalizer: [] }),
+      ).toBe(1.25);
+      expect(
+        getPlaybackRate({ presets: ['nightcore', 'vaporwave'], equalizer: [] }),
+      ).toBe(1);
+    });
+
+    it('includes the playback speed', () => {
+      expect(
+        getPlaybackRate({ presets: ['nightcore'], equalizer: [], speed: 0.8 }),
+      ).toBe(1);
+      expect(getPlaybackRate({ ...NO_AUDIO_FILTERS, pitch: 5 })).toBe(1);
+    });
+  });
+
+  describe('describeAudioFilters', () => {
+    it('lists presets and equalizer bands', () => {
+      expect(
+        describeAudioFilters({
+          presets: ['bassboost'],
+          equalizer: [
+            { frequency: 60, gain: 6 },
+            { frequency: 1000, gain: -3 },
+          ],
+        }),
+      ).toEqual(['🔊 Bass Boost', '🎚️ EQ 60Hz +6dB, 1kHz -3dB']);
+    });
+
+    it('lists speed and pitch', () => {
+      expect(
+        describeAudioFilters({ ...NO_AUDIO_FILTERS, speed: 1.25, pitch: 1 }),
+      ).toEqual(['⏩ 1.25×', '🎼 +1 semitone']);
+    });
+  });
+
+  describe('parseEqualizerBands', () => {
+    it('parses frequency:gain pairs with optional units', () => {
+      expect(parseEqualizerBands('60:6, 1k:-3 250hz:+1.5')).toEqual([
+        { frequency: 60, gain: 6 },
+        { frequency: 1000, gain: -3 },
+        { frequency: 250, gain: 1.5 },
+      ]);
+    });
+
+    it('returns no bands for empty input', () => {
+      expect(parseEqualizerBands('  ')).toEqual([]);
+    });
+
+    it('rejects malformed bands', () => {
+      expect(() => parseEqualizerBands('60=6')).toThrow(
+        'Invalid equalizer band "60=6"',
+      );
+    });
+
+    it('rejects out of range values', () => {
+      expect(() => parseEqualizerBands('10:6')).toThrow(
+        'between 20Hz and 20kHz',
+      );
+      expect(() => parseEqualizerBands('60:30')).toThrow(
+        'between -20dB and +20dB',
+      );
+    });
+
+    it('limits the number of bands', () => {
+      expect(() =>
+        parseEqualizerBands(
+          Array.from({ length: 11 }, (_, i) => `${String(100 + i)}:1`).join(
+            ' ',
+          ),
+        ),
+      ).toThrow('at most 10 equalizer bands');
+    });
+  });
+});
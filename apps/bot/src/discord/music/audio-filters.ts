@@ -0,0 +1,232 @@
+export interface AudioFilterPreset {
+  label: string;
+  emoji: string;
+  description: string;
+  filter: string;
+  // Presets that resample change the tempo as well as the pitch
+  rate?: number;
+}
+
+export type AudioFilterPresetName =
+  'bassboost' | 'nightcore' | 'vaporwave' | '8d' | 'karaoke' | 'tremolo';
+
+export const AUDIO_FILTER_PRESETS: Record<
+  AudioFilterPresetName,
+  AudioFilterPreset
+> = {
+  bassboost: {
+    label: 'Bass Boost',
+    emoji: '🔊',
+    description: 'Boost the low end',
+    filter: 'bass=g=10:f=110:w=0.6',
+  },
+  nightcore: {
+    label: 'Nightcore',
+    emoji: '🌙',
+    description: 'Faster and higher pitched',
+    filter: 'aresample=48000,asetrate=60000,aresample=48000',
+    rate: 1.25,
+  },
+  vaporwave: {
+    label: 'Vaporwave',
+    emoji: '🌴',
+    description: 'Slower and lower pitched',
+    filter: 'aresample=48000,asetrate=38400,aresample=48000',
+    rate: 0.8,
+  },
+  '8d': {
+    label: '8D',
+    emoji: '🎧',
+    description: 'Pan the audio around your head',
+    filter: 'apulsator=hz=0.08',
+  },
+  karaoke: {
+    label: 'Karaoke',
+    emoji: '🎤',
+    description: 'Suppress centre-panned vocals',
+    filter: 'stereotools=mlev=0.03',
+  },
+  tremolo: {
+    label: 'Tremolo',
+    emoji: '〰️',
+    description: 'Pulse the volume',
+    filter: 'tremolo=f=6:d=0.5',
+  },
+};
+
+export const AUDIO_FILTER_PRESET_NAMES = Object.keys(
+  AUDIO_FILTER_PRESETS,
+) as AudioFilterPresetName[];
+
+export interface EqualizerBand {
+  frequency: number;
+  gain: number;
+}
+
+export interface AudioFilters {
+  presets: AudioFilterPresetName[];
+  equalizer: EqualizerBand[];
+  speed?: number;
+  // Semitones, applied without changing the tempo
+  pitch?: number;
+}
+
+export const NO_AUDIO_FILTERS: AudioFilters = { presets: [], equalizer: [] };
+
+export const MAX_EQUALIZER_BANDS = 10;
+const MIN_FREQUENCY = 20;
+const MAX_FREQUENCY = 20_000;
+const MAX_GAIN_DB = 20;
+export const MIN_SPEED = 0.5;
+export const MAX_SPEED = 2;
+export const MAX_PITCH_SEMITONES = 12;
+const SAMPLE_RATE = 48_000;
+// atempo only accepts factors in this range, so larger changes are chained
+const MIN_ATEMPO = 0.5;
+const MAX_ATEMPO = 2;
+
+export function isAudioFilterPreset(
+  name: string,
+): name is AudioFilterPresetName {
+  return Object.hasOwn(AUDIO_FILTER_PRESETS, name);
+}
+
+export function hasAudioFilters(filters: AudioFilters): boolean {
+  return (
+    filters.presets.length > 0 ||
+    filters.equalizer.length > 0 ||
+    (filters.speed ?? 1) !== 1 ||
+    (filters.pitch ?? 0) !== 0
+  );
+}
+
+export function buildFilterGraph(filters: AudioFilters): string | undefined {
+  const stages = [
+    ...filters.equalizer.map(
+      (band) =>
+        `equalizer=f=${String(band.frequency)}:width_type=o:width=1:g=${String(band.gain)}`,
+    ),
+    ...buildSpeedAndPitchStages(filters.speed ?? 1, filters.pitch ?? 0),
+    // Preset order is fixed so the same selection always sounds the same
+    ...AUDIO_FILTER_PRESET_NAMES.filter((name) =>
+      filters.presets.includes(name),
+    ).map((name) => AUDIO_FILTER_PRESETS[name].filter),
+  ];
+
+  return stages.length > 0 ? stages.join(',') : undefined;
+}
+
+export function getPlaybackRate(filters: AudioFilters): number {
+  return filters.presets.reduce(
+    (rate, name) => rate * (AUDIO_FILTER_PRESETS[name].rate ?? 1),
+    filters.speed ?? 1,
+  );
+}
+
+export function describeAudioFilters(filters: AudioFilters): string[] {
+  const labels = filters.presets.map((name) => {
+    const preset = AUDIO_FILTER_PRESETS[name];
+    return `${preset.emoji} ${preset.label}`;
+  });
+
+  if ((filters.speed ?? 1) !== 1) {
+    labels.push(`⏩ ${formatNumber(filters.speed ?? 1)}×`);
+  }
+
+  if ((filters.pitch ?? 0) !== 0) {
+    labels.push(`🎼 ${formatSemitones(filters.pitch ?? 0)}`);
+  }
+
+  if (filters.equalizer.length > 0) {
+    labels.push(
+      `🎚️ EQ ${filters.equalizer
+        .map(
+          (band) =>
+            `${formatFrequency(band.frequency)} ${band.gain > 0 ? '+' : ''}${String(band.gain)}dB`,
+        )
+        .join(', ')}`,
+    );
+  }
+
+  return labels;
+}
+
+// Accepts "frequency:gain" pairs separated by spaces or commas, e.g. "60:6 1k:-3"
+export function parseEqualizerBands(input: string): EqualizerBand[] {
+  const entries = input.split(/[\s,]+/).filter((entry) => entry.length > 0);
+  if (entries.length > MAX_EQUALIZER_BANDS) {
+    throw new Error(
+      `Use at most ${String(MAX_EQUALIZER_BANDS)} equalizer bands.`,
+    );
+  }
+
+  return entries.map((entry) => {
+    const match = /^(\d+(?:\.\d+)?)(k?)(?:hz)?:([+-]?\d+(?:\.\d+)?)$/i.exec(
+      entry,
+    );
+    if (!match) {
+      throw new Error(
+        `Invalid equalizer band "${entry}". Use frequency:gain, e.g. 60:6.`,
+      );
+    }
+
+    const [, rawFrequency = '', kilo, rawGain = ''] = match;
+    const frequency = Number(rawFrequency) * (kilo ? 1000 : 1);
+    const gain = Number(rawGain);
+    if (frequency < MIN_FREQUENCY || frequency > MAX_FREQUENCY) {
+      throw new Error(
+        `Equalizer frequencies must be between ${String(MIN_FREQUENCY)}Hz and ${formatFrequency(MAX_FREQUENCY)}.`,
+      );
+    }
+    if (Math.abs(gain) > MAX_GAIN_DB) {
+      throw new Error(
+        `Equalizer gains must be between -${String(MAX_GAIN_DB)}dB and +${String(MAX_GAIN_DB)}dB.`,
+      );
+    }
+
+    return { frequency, gain };
+  });
+}
+
+export function formatSemitones(semitones: number): string {
+  return `${semitones > 0 ? '+' : ''}${formatNumber(semitones)} semitone${Math.abs(semitones) === 1 ? '' : 's'}`;
+}
+
+// Resampling shifts the pitch and the tempo together, so atempo undoes the
+// tempo part and applies the requested speed in the same pass
+function buildSpeedAndPitchStages(speed: number, pitch: number): string[] {
+  const pitchRatio = 2 ** (pitch / 12);
+  const stages =
+    pitch === 0
+      ? []
+      : [
+          `aresample=${String(SAMPLE_RATE)}`,
+          `asetrate=${String(Math.round(SAMPLE_RATE * pitchRatio))}`,
+          `aresample=${String(SAMPLE_RATE)}`,
+        ];
+
+  let tempo = speed / pitchRatio;
+  while (tempo > MAX_ATEMPO) {
+    stages.push(`atempo=${String(MAX_ATEMPO)}`);
+    tempo /= MAX_ATEMPO;
+  }
+  while (tempo < MIN_ATEMPO) {
+    stages.push(`atempo=${String(MIN_ATEMPO)}`);
+    tempo /= MIN_ATEMPO;
+  }
+  if (Math.abs(tempo - 1) > 1e-6) {
+    stages.push(`atempo=${formatNumber(tempo)}`);
+  }
+
+  return stages;
+}
+
+function formatNumber(value: number): string {
+  return String(Number(value.toFixed(4)));
+}
+
+function formatFrequency(frequency: number): string {
+  return frequency >= 1000
+    ? `${String(frequency / 1000)}kHz`
+    : `${String(frequency)}Hz`;
+}
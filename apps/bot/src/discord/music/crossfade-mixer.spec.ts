@@ -0,0 +1,98 @@
+import { PassThrough, type Readable } from 'node:stream';
+import { describe, expect, it } from 'vitest';
+import { CrossfadeMixer } from './crossfade-mixer';
+
+const FRAME_SAMPLES = 1920;
+
+function pcm(value: number, frames: number): Buffer {
+  const buffer = Buffer.alloc(FRAME_SAMPLES * 2 * frames);
+  for (let offset = 0; offset < buffer.length; offset += 2) {
+    buffer.writeInt16LE(value, offset);
+  }
+  return buffer;
+}
+
+function source(value: number, frames: number): PassThrough {
+  const stream = new PassThrough();
+  stream.end(pcm(value, frames));
+  return stream;
+}
+
+async function collect(stream: Readable): Promise<Buffer> {
+  const chunks: Buffer[] = [];
+  for await (const chunk of stream) {
+    chunks.push(chunk as Buffer);
+  }
+  return Buffer.concat(chunks);
+}
+
+function frameSample(output: Buffer, frame: number): number {
+  return output.readInt16LE(frame * FRAME_SAMPLES * 2);
+}
+
+describe('CrossfadeMixer', () => {
+  it('passes a single source through', async () => {
+    const output = await collect(new CrossfadeMixer(source(1000, 3)));
+
+    expect(output).toEqual(pcm(1000, 3));
+  });
+
+  it('applies the source gain', async () => {
+    const output = await collect(new CrossfadeMixer(source(1000, 1), 0.5));
+
+    expect(frameSample(output, 0)).toBe(500);
+  });
+
+  it('fades the incoming source in while the outgoing fades out', async () => {
+    const mixer = new CrossfadeMixer(source(10_000, 4));
+    mixer.crossfade(source(20_000, 6), 80);
+
+    const output = await collect(mixer);
+
+    // Equal-power fade over four frames, then the incoming source alone
+    expect(output.length).toBe(pcm(0, 6).length);
+    for (const frame of [0, 1, 2, 3]) {
+      const angle = (frame / 4) * (Math.PI / 2);
+      expect(frameSample(output, frame)).toBe(
+        Math.round(10_000 * Math.cos(angle) + 20_000 * Math.sin(angle)),
+      );
+    }
+    expect(frameSample(output, 4)).toBe(20_000);
+    expect(frameSample(output, 5)).toBe(20_000);
+    expect(mixer.isFading()).toBe(false);
+  });
+
+  it('keeps fading in when the outgoing source ends early', async () => {
+    const mixer = new CrossfadeMixer(source(10_000, 1));
+    mixer.crossfade(source(20_000, 4), 60);
+
+    const output = await collect(mixer);
+
+    expect(frameSample(output, 0)).toBe(10_000);
+    expect(frameSample(output, 1)).toBe(
+      Math.round(20_000 * Math.sin(Math.PI / 6)),
+    );
+    expect(frameSample(output, 2)).toBe(
+      Math.round(20_000 * Math.sin(Math.PI / 3)),
+    );
+    expect(frameSample(output, 3)).toBe(20_000);
+  });
+
+  it('clips instead of wrapping around', async () => {
+    const mixer = new CrossfadeMixer(source(30_000, 1), 2);
+
+    const output = await collect(mixer);
+
+    expect(frameSample(output, 0)).toBe(32_767);
+  });
+
+  it('fails when a source fails', async () => {
+    const failing = new PassThrough();
+    const mixer = new CrossfadeMixer(failing);
+    const result = collect(mixer);
+
+    failing.destroy(new Error('stream reset'));
+
+    await expect(result).rejects.toThrow('stream reset');
+  });
+});
@@ -0,0 +1,189 @@
+import { Readable } from 'node:stream';
+
+// 20ms of 48kHz stereo s16le, the frame size @discordjs/voice encodes
+const FRAME_BYTES = 3840;
+const FRAME_MS = 20;
+const MAX_SAMPLE = 32_767;
+const MIN_SAMPLE = -32_768;
+
+interface MixerInput {
+  source: Readable;
+  gain: number;
+  ended: boolean;
+  pending: Buffer | undefined;
+}
+
+interface IncomingInput extends MixerInput {
+  frame: number;
+  totalFrames: number;
+}
+
+/**
+ * Plays raw 48kHz stereo PCM and blends in the next track's PCM with an
+ * equal-power fade, so one audio resource can carry a track into the next.
+ * Ends once the last source it was given ends.
+ */
+export class CrossfadeMixer extends Readable {
+  private current: MixerInput;
+  private incoming: IncomingInput | undefined;
+  private wantsData = false;
+
+  public constructor(source: Readable, gain = 1) {
+    super();
+    this.current = this.attach(source, gain);
+  }
+
+  public isFading(): boolean {
+    return this.incoming !== undefined;
+  }
+
+  public crossfade(source: Readable, durationMs: number, gain = 1): void {
+    if (this.incoming) {
+      this.promoteIncoming();
+    }
+
+    // Listeners update the input in place, so it must not be copied
+    this.incoming = Object.assign(this.attach(source, gain), {
+      frame: 0,
+      totalFrames: Math.max(1, Math.round(durationMs / FRAME_MS)),
+    });
+    this.pump();
+  }
+
+  public override _read(): void {
+    this.wantsData = true;
+    this.pump();
+  }
+
+  public override _destroy(
+    error: Error | null,
+    callback: (error?: Error | null) => void,
+  ): void {
+    this.current.source.destroy();
+    this.incoming?.source.destroy();
+    callback(error);
+  }
+
+  private attach(source: Readable, gain: number): MixerInput {
+    const input: MixerInput = {
+      source,
+      gain,
+      ended: false,
+      pending: undefined,
+    };
+
+    source.on('readable', () => {
+      this.pump();
+    });
+    source.on('end', () => {
+      input.ended = true;
+      this.pump();
+    });
+    source.on('error', (error) => {
+      this.destroy(error);
+    });
+
+    return input;
+  }
+
+  private pump(): void {
+    while (this.wantsData && !this.destroyed) {
+      const outgoing = this.peek(this.current);
+      if (outgoing === 'wait') {
+        return;
+      }
+
+      if (!this.incoming) {
+        if (outgoing === 'ended') {
+          this.push(null);
+          this.wantsData = false;
+          return;
+        }
+
+        this.current.pending = undefined;
+        this.wantsData = this.push(scale(outgoing, this.current.gain));
+        continue;
+      }
+
+      const incoming = this.incoming;
+      const next = this.peek(incoming);
+      if (next === 'wait') {
+        return;
+      }
+
+      if (outgoing === 'ended' && next === 'ended') {
+        this.push(null);
+        this.wantsData = false;
+        return;
+      }
+
+      this.current.pending = undefined;
+      incoming.pending = undefined;
+
+      const progress = incoming.frame / incoming.totalFrames;
+      incoming.frame++;
+      const frame = mix(
+        outgoing === 'ended' ? undefined : outgoing,
+        this.current.gain * Math.cos((progress * Math.PI) / 2),
+        next === 'ended' ? undefined : next,
+        incoming.gain * Math.sin((progress * Math.PI) / 2),
+      );
+
+      if (incoming.frame >= incoming.totalFrames) {
+        this.promoteIncoming();
+      }
+
+      this.wantsData = this.push(frame);
+    }
+  }
+
+  private promoteIncoming(): void {
+    if (!this.incoming) {
+      return;
+    }
+
+    this.current.source.destroy();
+    this.current = this.incoming;
+    this.incoming = undefined;
+  }
+
+  private peek(input: MixerInput): Buffer | 'wait' | 'ended' {
+    if (input.pending) {
+      return input.pending;
+    }
+
+    const chunk = input.source.read(FRAME_BYTES) as Buffer | null;
+    if (chunk) {
+      input.pending = chunk;
+      return chunk;
+    }
+
+    return input.ended ? 'ended' : 'wait';
+  }
+}
+
+function scale(frame: Buffer, gain: number): Buffer {
+  return gain === 1 ? frame : mix(frame, gain, undefined, 0);
+}
+
+function mix(
+  a: Buffer | undefined,
+  gainA: number,
+  b: Buffer | undefined,
+  gainB: number,
+): Buffer {
+  const length = Math.max(a?.length ?? 0, b?.length ?? 0) & ~1;
+  const output = Buffer.alloc(length);
+
+  for (let offset = 0; offset < length; offset += 2) {
+    const sampleA = a && offset + 1 < a.length ? a.readInt16LE(offset) : 0;
+    const sampleB = b && offset + 1 < b.length ? b.readInt16LE(offset) : 0;
+    const sample = Math.round(sampleA * gainA + sampleB * gainB);
+    output.writeInt16LE(
+      Math.max(MIN_SAMPLE, Math.min(MAX_SAMPLE, sample)),
+      offset,
+    );
+  }
+
+  return output;
+}
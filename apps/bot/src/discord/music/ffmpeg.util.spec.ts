@@ -0,0 +1,93 @@
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockSpawn } = vi.hoisted(() => ({
+  mockSpawn: vi.fn(),
+}));
+
+vi.mock('node:child_process', () => ({
+  spawn: mockSpawn,
+}));
+
+import { probeMedia } from './ffmpeg.util';
+
+function createProcess() {
+  return Object.assign(new EventEmitter(), {
+    stdin: new PassThrough(),
+    stdout: new EventEmitter(),
+    stderr: new EventEmitter(),
+    kill: vi.fn(),
+  });
+}
+
+describe('probeMedia', () => {
+  let process: ReturnType<typeof createProcess>;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+    process = createProcess();
+    mockSpawn.mockReturnValue(process);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+  });
+
+  it('reads the duration and audio codec', async () => {
+    const probe = probeMedia('https://example.com/song.mp3');
+
+    process.stdout.emit(
+      'data',
+      Buffer.from(
+        JSON.stringify({
+          streams: [{ codec_type: 'audio', codec_name: 'mp3' }],
+          format: { duration: '181.5' },
+        }),
+      ),
+    );
+    process.emit('close', 0);
+
+    await expect(probe).resolves.toEqual({
+      duration: 181.5,
+      audioCodec: 'mp3',
+    });
+  });
+
+  it('probes a piped stream and releases it when done', async () => {
+    const input = new PassThrough();
+    const probe = probeMedia(input);
+
+    expect(mockSpawn).toHaveBeenCalledWith(
+      'ffprobe',
+      expect.arrayContaining(['pipe:0']),
+      { stdio: ['pipe', 'pipe', 'pipe'] },
+    );
+    process.stdout.emit('data', Buffer.from('{}'));
+    process.emit('close', 0);
+
+    await expect(probe).resolves.toEqual({ duration: 0 });
+    expect(input.destroyed).toBe(true);
+  });
+
+  it('kills a stalled probe and rejects', async () => {
+    const probe = probeMedia('https://example.com/stalled.mp3');
+    const failure = probe.catch((error: unknown) => error);
+
+    vi.advanceTimersByTime(10_000);
+
+    expect(await failure).toEqual(new Error('ffprobe timed out'));
+    expect(process.kill).toHaveBeenCalledWith('SIGKILL');
+  });
+
+  it('does not kill a probe that finished in time', async () => {
+    const probe = probeMedia('https://example.com/song.mp3');
+    process.stdout.emit('data', Buffer.from('{}'));
+    process.emit('close', 0);
+    await probe;
+
+    await vi.advanceTimersByTimeAsync(10_000);
+
+    expect(process.kill).not.toHaveBeenCalled();
+  });
+});
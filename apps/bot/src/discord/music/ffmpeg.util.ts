@@ -0,0 +1,138 @@
+import { spawn } from 'node:child_process';
+import { PassThrough, type Readable } from 'node:stream';
+
+// A server that accepts the connection and then stalls would hold ffprobe open forever
+const PROBE_TIMEOUT_MS = 10_000;
+
+export function spawnFfmpeg(args: string[], input?: Readable): Readable {
+  const process = spawn('ffmpeg', ['-loglevel', 'error', ...args], {
+    stdio: [input ? 'pipe' : 'ignore', 'pipe', 'pipe'],
+  });
+  const output = new PassThrough();
+
+  let stderr = '';
+
+  process.stderr?.on('data', (data: Buffer) => {
+    stderr += data.toString();
+  });
+
+  process.stdout?.pipe(output);
+
+  if (input && process.stdin) {
+    // ffmpeg closes stdin early once it has read what it needs
+    process.stdin.on('error', () => undefined);
+    input.on('error', (error) => {
+      output.destroy(error);
+    });
+    input.pipe(process.stdin);
+  }
+
+  process.on('close', (code) => {
+    if (code !== 0 && code !== null && !output.destroyed) {
+      output.destroy(
+        new Error(`ffmpeg exited with code ${String(code)}: ${stderr}`),
+      );
+    }
+  });
+
+  process.on('error', (error) => {
+    output.destroy(new Error(`Failed to spawn ffmpeg: ${error.message}`));
+  });
+
+  output.on('close', () => {
+    input?.destroy();
+    if (process.exitCode === null) {
+      process.kill('SIGKILL');
+    }
+  });
+
+  return output;
+}
+
+export interface MediaProbe {
+  duration: number;
+  audioCodec?: string;
+}
+
+interface FfprobeOutput {
+  streams?: { codec_type?: string; codec_name?: string }[];
+  format?: { duration?: string };
+}
+
+export function probeMedia(input: string | Readable): Promise<MediaProbe> {
+  return new Promise((resolve, reject) => {
+    const piped = typeof input !== 'string';
+    const process = spawn(
+      'ffprobe',
+      [
+        '-v',
+        'error',
+        '-print_format',
+        'json',
+        '-show_entries',
+        'format=duration:stream=codec_type,codec_name',
+        piped ? 'pipe:0' : input,
+      ],
+      { stdio: [piped ? 'pipe' : 'ignore', 'pipe', 'pipe'] },
+    );
+
+    if (piped && process.stdin) {
+      // ffprobe closes stdin as soon as it has read the headers
+      process.stdin.on('error', () => undefined);
+      input.on('error', () => undefined);
+      input.pipe(process.stdin);
+    }
+
+    let stdout = '';
+    let stderr = '';
+
+    const timeout = setTimeout(() => {
+      process.kill('SIGKILL');
+      reject(new Error('ffprobe timed out'));
+    }, PROBE_TIMEOUT_MS);
+
+    process.stdout?.on('data', (data: Buffer) => {
+      stdout += data.toString();
+    });
+
+    process.stderr?.on('data', (data: Buffer) => {
+      stderr += data.toString();
+    });
+
+    process.on('close', (code) => {
+      clearTimeout(timeout);
+      if (piped) {
+        input.destroy();
+      }
+      if (code !== 0) {
+        reject(
+          new Error(`ffprobe exited with code ${String(code)}: ${stderr}`),
+        );
+        return;
+      }
+
+      try {
+        const output = JSON.parse(stdout) as FfprobeOutput;
+        const duration = Number(output.format?.duration);
+        const audioCodec = output.streams?.find(
+          (stream) => stream.codec_type === 'audio',
+        )?.codec_name;
+
+        resolve({
+          duration: Number.isFinite(duration) ? duration : 0,
+          ...(audioCodec && { audioCodec }),
+        });
+      } catch {
+        reject(new Error('ffprobe returned invalid output'));
+      }
+    });
+
+    process.on('error', (error) => {
+      clearTimeout(timeout);
+      if (piped) {
+        input.destroy();
+      }
+      reject(new Error(`Failed to spawn ffprobe: ${error.message}`));
+    });
+  });
+}
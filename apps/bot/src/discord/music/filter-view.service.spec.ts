@@ -0,0 +1,76 @@
+import { ComponentType } from 'discord.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { NO_AUDIO_FILTERS } from './audio-filters';
+import { FilterViewService } from './filter-view.service';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+
+describe('FilterViewService', () => {
+  let service: FilterViewService;
+  let musicService: MusicService;
+
+  beforeEach(() => {
+    musicService = {
+      getFilters: vi.fn().mockReturnValue(NO_AUDIO_FILTERS),
+    } as unknown as MusicService;
+
+    const nowPlayingService = {
+      getAccentColor: vi.fn().mockReturnValue(0x5865f2),
+    } as unknown as NowPlayingService;
+
+    service = new FilterViewService(musicService, nowPlayingService);
+  });
+
+  it('lists every preset and marks the active ones', () => {
+    vi.mocked(musicService.getFilters).mockReturnValue({
+      presets: ['nightcore', '8d'],
+      equalizer: [{ frequency: 60, gain: 6 }],
+    });
+
+    const [container] = service.build('guild-123');
+
+    expect(container?.data.accent_color).toBe(0x5865f2);
+
+    const [summary, , selectRow, buttonRow] =
+      container?.toJSON().components ?? [];
+
+    expect(summary).toMatchObject({
+      type: ComponentType.TextDisplay,
+      content: '### 🎛️ Audio Filters\n🌙 Nightcore\n🎧 8D\n🎚️ EQ 60Hz +6dB',
+    });
+    expect(selectRow).toMatchObject({
+      components: [
+        {
+          custom_id: 'music_filter_select',
+          min_values: 0,
+          max_values: 6,
+        },
+      ],
+    });
+
+    const options =
+      selectRow?.type === ComponentType.ActionRow &&
+      selectRow.components[0]?.type === ComponentType.StringSelect
+        ? selectRow.components[0].options
+        : [];
+    expect(
+      options.filter((option) => option.default).map((option) => option.value),
+    ).toEqual(['nightcore', '8d']);
+    expect(buttonRow).toMatchObject({
+      components: [{ custom_id: 'music_filter_reset', disabled: false }],
+    });
+  });
+
+  it('disables reset when no filters are active', () => {
+    const [container] = service.build('guild-123');
+
+    const [summary, , , buttonRow] = container?.toJSON().components ?? [];
+
+    expect(summary).toMatchObject({
+      content: '### 🎛️ Audio Filters\nNo filters are active.',
+    });
+    expect(buttonRow).toMatchObject({
+      components: [{ disabled: true }],
+    });
+  });
+});
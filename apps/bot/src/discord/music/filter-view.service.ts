@@ -0,0 +1,79 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ContainerBuilder,
+  StringSelectMenuBuilder,
+  TextDisplayBuilder,
+} from 'discord.js';
+import {
+  AUDIO_FILTER_PRESET_NAMES,
+  AUDIO_FILTER_PRESETS,
+  describeAudioFilters,
+  hasAudioFilters,
+} from './audio-filters';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+
+export const FILTER_SELECT_ID = 'music_filter_select';
+export const FILTER_RESET_BUTTON_ID = 'music_filter_reset';
+
+@Injectable()
+export class FilterViewService {
+  public constructor(
+    private readonly musicService: MusicService,
+    private readonly nowPlayingService: NowPlayingService,
+  ) {}
+
+  public build(guildId: string): ContainerBuilder[] {
+    const filters = this.musicService.getFilters(guildId);
+    const active = hasAudioFilters(filters)
+      ? describeAudioFilters(filters).join('\n')
+      : 'No filters are active.';
+
+    const select = new StringSelectMenuBuilder()
+      .setCustomId(FILTER_SELECT_ID)
+      .setPlaceholder('Choose filter presets')
+      .setMinValues(0)
+      .setMaxValues(AUDIO_FILTER_PRESET_NAMES.length)
+      .addOptions(
+        AUDIO_FILTER_PRESET_NAMES.map((name) => {
+          const preset = AUDIO_FILTER_PRESETS[name];
+          return {
+            label: preset.label,
+            description: preset.description,
+            emoji: preset.emoji,
+            value: name,
+            default: filters.presets.includes(name),
+          };
+        }),
+      );
+
+    return [
+      new ContainerBuilder()
+        .setAccentColor(this.nowPlayingService.getAccentColor(guildId))
+        .addTextDisplayComponents(
+          new TextDisplayBuilder().setContent(
+            `### 🎛️ Audio Filters\n${active}`,
+          ),
+          new TextDisplayBuilder().setContent(
+            '-# Set equalizer bands with `/music filter equalizer:60:6 1k:-3`',
+          ),
+        )
+        .addActionRowComponents(
+          new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select),
+        )
+        .addActionRowComponents(
+          new ActionRowBuilder<ButtonBuilder>().addComponents(
+            new ButtonBuilder()
+              .setCustomId(FILTER_RESET_BUTTON_ID)
+              .setLabel('Reset')
+              .setEmoji('🧹')
+              .setStyle(ButtonStyle.Secondary)
+              .setDisabled(!hasAudioFilters(filters)),
+          ),
+        ),
+    ];
+  }
+}
@@ -0,0 +1,146 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+import type {
+  ButtonInteraction,
+  StringSelectMenuInteraction,
+  VoiceChannel,
+} from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { NO_AUDIO_FILTERS } from './audio-filters';
+import { FilterComponents } from './filter.components';
+import { FilterViewService } from './filter-view.service';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+
+function createInteraction(
+  voiceChannel: VoiceChannel | null = { id: 'voice-123' } as VoiceChannel,
+): StringSelectMenuInteraction {
+  return {
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    user: { id: 'user-123', tag: 'user#1234' },
+    guild: {
+      members: {
+        cache: {
+          get: vi.fn().mockReturnValue({
+            voice: { channel: voiceChannel },
+          }),
+        },
+      },
+    },
+    inGuild: vi.fn().mockReturnValue(true),
+    reply: vi.fn().mockResolvedValue(undefined),
+    deferUpdate: vi.fn().mockResolvedValue(undefined),
+    editReply: vi.fn().mockResolvedValue(undefined),
+    followUp: vi.fn().mockResolvedValue(undefined),
+  } as unknown as StringSelectMenuInteraction;
+}
+
+describe('FilterComponents', () => {
+  let components: FilterComponents;
+  let musicService: MusicService;
+  let nowPlayingService: NowPlayingService;
+  let filterView: FilterViewService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    musicService = {
+      getFilters: vi.fn().mockReturnValue({
+        presets: ['bassboost'],
+        equalizer: [{ frequency: 60, gain: 6 }],
+      }),
+      setFilters: vi.fn().mockResolvedValue(true),
+    } as unknown as MusicService;
+
+    nowPlayingService = {
+      updateNowPlaying: vi.fn().mockResolvedValue(undefined),
+    } as unknown as NowPlayingService;
+
+    filterView = {
+      build: vi.fn().mockReturnValue(['filters']),
+    } as unknown as FilterViewService;
+
+    components = new FilterComponents(
+      musicService,
+      nowPlayingService,
+      filterView,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('onPresetSelect', () => {
+    it('replaces the presets and keeps the equalizer', async () => {
+      const interaction = createInteraction();
+
+      await components.onPresetSelect(
+        [interaction],
+        ['nightcore', 'bogus', 'karaoke'],
+      );
+
+      expect(interaction.deferUpdate).toHaveBeenCalled();
+      expect(musicService.setFilters).toHaveBeenCalledWith('guild-123', {
+        presets: ['nightcore', 'karaoke'],
+        equalizer: [{ frequency: 60, gain: 6 }],
+      });
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        components: ['filters'],
+      });
+      expect(nowPlayingService.updateNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+    });
+
+    it('requires the user to be in a voice channel', async () => {
+      const interaction = createInteraction(null);
+
+      await components.onPresetSelect([interaction], ['nightcore']);
+
+      expect(musicService.setFilters).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'You must be in a voice channel to use this command.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('reports failures to restart the stream', async () => {
+      vi.mocked(musicService.setFilters).mockRejectedValueOnce(
+        new Error('SABR stream failed'),
+      );
+      const interaction = createInteraction();
+
+      await components.onPresetSelect([interaction], ['nightcore']);
+
+      expect(interaction.followUp).toHaveBeenCalledWith({
+        content: 'Failed to apply filters: SABR stream failed',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('onResetButton', () => {
+    it('clears every filter', async () => {
+      const interaction = createInteraction() as unknown as ButtonInteraction;
+
+      await components.onResetButton([interaction]);
+
+      expect(musicService.setFilters).toHaveBeenCalledWith(
+        'guild-123',
+        NO_AUDIO_FILTERS,
+      );
+      expect(filterView.build).toHaveBeenCalledWith('guild-123');
+    });
+
+    it('does nothing when not in guild', async () => {
+      const interaction = createInteraction() as unknown as ButtonInteraction;
+      vi.mocked(interaction.inGuild).mockReturnValue(false);
+
+      await components.onResetButton([interaction]);
+
+      expect(musicService.setFilters).not.toHaveBeenCalled();
+    });
+  });
+});
@@ -0,0 +1,95 @@
+import { Injectable, Logger } from '@nestjs/common';
+import {
+  MessageFlags,
+  type ButtonInteraction,
+  type StringSelectMenuInteraction,
+} from 'discord.js';
+import {
+  Button,
+  type ButtonContext,
+  Ctx,
+  SelectedStrings,
+  StringSelect,
+  type StringSelectContext,
+} from 'necord';
+import {
+  type AudioFilters,
+  isAudioFilterPreset,
+  NO_AUDIO_FILTERS,
+} from './audio-filters';
+import {
+  FILTER_RESET_BUTTON_ID,
+  FILTER_SELECT_ID,
+  FilterViewService,
+} from './filter-view.service';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+
+@Injectable()
+export class FilterComponents {
+  private readonly logger = new Logger(FilterComponents.name);
+
+  public constructor(
+    private readonly musicService: MusicService,
+    private readonly nowPlayingService: NowPlayingService,
+    private readonly filterView: FilterViewService,
+  ) {}
+
+  @StringSelect(FILTER_SELECT_ID)
+  public async onPresetSelect(
+    @Ctx() [interaction]: StringSelectContext,
+    @SelectedStrings() values: string[],
+  ) {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    const current = this.musicService.getFilters(interaction.guildId);
+    return this.applyFilters(interaction, {
+      ...current,
+      presets: values.filter((value) => isAudioFilterPreset(value)),
+    });
+  }
+
+  @Button(FILTER_RESET_BUTTON_ID)
+  public async onResetButton(@Ctx() [interaction]: ButtonContext) {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    return this.applyFilters(interaction, NO_AUDIO_FILTERS);
+  }
+
+  private async applyFilters(
+    interaction:
+      | StringSelectMenuInteraction<'cached' | 'raw'>
+      | ButtonInteraction<'cached' | 'raw'>,
+    filters: AudioFilters,
+  ) {
+    const member = interaction.guild?.members.cache.get(interaction.user.id);
+    if (!member?.voice.channel) {
+      return interaction.reply({
+        content: 'You must be in a voice channel to use this command.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const guildId = interaction.guildId;
+    await interaction.deferUpdate();
+
+    try {
+      await this.musicService.setFilters(guildId, filters);
+      await interaction.editReply({
+        components: this.filterView.build(guildId),
+      });
+      await this.nowPlayingService.updateNowPlaying(guildId);
+      return;
+    } catch (error) {
+      this.logger.error('Failed to apply audio filters', error);
+      return interaction.followUp({
+        content: `Failed to apply filters: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+}
@@ -0,0 +1,135 @@
+import type { ButtonBuilder, StringSelectMenuBuilder } from 'discord.js';
+import { ComponentType } from 'discord.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { HistoryViewService } from './history-view.service';
+import type { Track } from './music-queue';
+import { NowPlayingService } from './now-playing.service';
+import type { HistoryEntry } from './persistence/history-store.interface';
+import { PlayHistoryService } from './persistence/play-history.service';
+
+const mockTrack: Track = {
+  url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+  title: 'Test Video',
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+};
+
+const entries: HistoryEntry[] = [
+  { id: 12, track: mockTrack, playedAt: 1_700_000_000_000 },
+  {
+    id: 11,
+    track: { ...mockTrack, title: 'Older Video', duration: 3725 },
+    playedAt: 1_699_999_000_000,
+  },
+];
+
+interface RowLike {
+  components: (ButtonBuilder | StringSelectMenuBuilder)[];
+}
+
+describe('HistoryViewService', () => {
+  let service: HistoryViewService;
+  let playHistoryService: PlayHistoryService;
+
+  beforeEach(() => {
+    playHistoryService = {
+      getPage: vi.fn().mockResolvedValue({
+        entries,
+        page: 1,
+        totalPages: 3,
+        total: 22,
+        offset: 10,
+      }),
+    } as unknown as PlayHistoryService;
+
+    const nowPlayingService = {
+      getAccentColor: vi.fn().mockReturnValue(0x5865f2),
+    } as unknown as NowPlayingService;
+
+    service = new HistoryViewService(playHistoryService, nowPlayingService);
+  });
+
+  it('renders a page of history with replay and paging controls', async () => {
+    const [container] = await service.build('guild-123', 1);
+
+    expect(playHistoryService.getPage).toHaveBeenCalledWith('guild-123', 1, 10);
+    expect(container?.data.accent_color).toBe(0x5865f2);
+
+    const json = container?.toJSON();
+    const [list, footer, selectRow, buttonRow] = json?.components ?? [];
+
+    expect(list).toMatchObject({
+      type: ComponentType.TextDisplay,
+      content:
+        '### 🕘 Play History\n' +
+        '**11.** [Test Video](https://youtube.com/watch?v=dQw4w9WgXcQ) • 3:00 • <t:1700000000:R>\n' +
+        '**12.** [Older Video](https://youtube.com/watch?v=dQw4w9WgXcQ) • 1:02:05 • <t:1699999000:R>',
+    });
+    expect(footer).toMatchObject({ content: '-# Page 2/3 • 22 tracks' });
+    expect(selectRow).toMatchObject({
+      components: [
+        {
+          custom_id: 'music_history_replay/1',
+          options: [
+            {
+              label: '11. Test Video',
+              description: '3:00 • Requested by user#1234',
+              value: '12',
+            },
+            {
+              label: '12. Older Video',
+              description: '1:02:05 • Requested by user#1234',
+              value: '11',
+            },
+          ],
+        },
+      ],
+    });
+    expect(buttonRow).toMatchObject({
+      components: [
+        { custom_id: 'music_history/0', disabled: false },
+        { custom_id: 'music_history/2', disabled: false },
+      ],
+    });
+  });
+
+  it('disables paging past either end', async () => {
+    vi.mocked(playHistoryService.getPage).mockResolvedValue({
+      entries,
+      page: 0,
+      totalPages: 1,
+      total: 2,
+      offset: 0,
+    });
+
+    const [container] = await service.build('guild-123', 0);
+
+    const buttonRow = container?.components.at(-1) as unknown as RowLike;
+    expect(buttonRow.components.map((button) => button.data)).toMatchObject([
+      { disabled: true },
+      { disabled: true },
+    ]);
+  });
+
+  it('shows a notice when nothing has been played', async () => {
+    vi.mocked(playHistoryService.getPage).mockResolvedValue({
+      entries: [],
+      page: 0,
+      totalPages: 1,
+      total: 0,
+      offset: 0,
+    });
+
+    const [container] = await service.build('guild-123', 0);
+
+    expect(container?.toJSON().components).toEqual([
+      {
+        type: ComponentType.TextDisplay,
+        content:
+          '### 🕘 Play History\nNothing has been played in this server yet.',
+      },
+    ]);
+  });
+});
@@ -0,0 +1,111 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ContainerBuilder,
+  StringSelectMenuBuilder,
+  TextDisplayBuilder,
+} from 'discord.js';
+import { formatDuration } from './music-queue';
+import { NowPlayingService } from './now-playing.service';
+import { PlayHistoryService } from './persistence/play-history.service';
+
+export const HISTORY_PAGE_BUTTON_PREFIX = 'music_history';
+export const HISTORY_REPLAY_SELECT_PREFIX = 'music_history_replay';
+
+const HISTORY_PAGE_SIZE = 10;
+const SELECT_TEXT_LIMIT = 100;
+
+@Injectable()
+export class HistoryViewService {
+  public constructor(
+    private readonly playHistoryService: PlayHistoryService,
+    private readonly nowPlayingService: NowPlayingService,
+  ) {}
+
+  public async build(
+    guildId: string,
+    page: number,
+  ): Promise<ContainerBuilder[]> {
+    const history = await this.playHistoryService.getPage(
+      guildId,
+      page,
+      HISTORY_PAGE_SIZE,
+    );
+
+    const container = new ContainerBuilder().setAccentColor(
+      this.nowPlayingService.getAccentColor(guildId),
+    );
+
+    if (history.entries.length === 0) {
+      return [
+        container.addTextDisplayComponents(
+          new TextDisplayBuilder().setContent(
+            '### 🕘 Play History\nNothing has been played in this server yet.',
+          ),
+        ),
+      ];
+    }
+
+    const lines = history.entries.map(
+      (entry, index) =>
+        `**${String(history.offset + index + 1)}.** [${entry.track.title}](${entry.track.url}) • ${formatDuration(entry.track.duration)} • <t:${String(Math.floor(entry.playedAt / 1000))}:R>`,
+    );
+
+    container.addTextDisplayComponents(
+      new TextDisplayBuilder().setContent(
+        `### 🕘 Play History\n${lines.join('\n')}`,
+      ),
+      new TextDisplayBuilder().setContent(
+        `-# Page ${String(history.page + 1)}/${String(history.totalPages)} • ${String(history.total)} tracks`,
+      ),
+    );
+
+    const select = new StringSelectMenuBuilder()
+      .setCustomId(`${HISTORY_REPLAY_SELECT_PREFIX}/${String(history.page)}`)
+      .setPlaceholder('Requeue a track')
+      .addOptions(
+        history.entries.map((entry, index) => ({
+          label: this.truncate(
+            `${String(history.offset + index + 1)}. ${entry.track.title}`,
+          ),
+          description: this.truncate(
+            `${formatDuration(entry.track.duration)} • Requested by ${entry.track.requestedBy}`,
+          ),
+          value: String(entry.id),
+        })),
+      );
+
+    container
+      .addActionRowComponents(
+        new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select),
+      )
+      .addActionRowComponents(
+        new ActionRowBuilder<ButtonBuilder>().addComponents(
+          new ButtonBuilder()
+            .setCustomId(
+              `${HISTORY_PAGE_BUTTON_PREFIX}/${String(history.page - 1)}`,
+            )
+            .setEmoji('◀️')
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(history.page === 0),
+          new ButtonBuilder()
+            .setCustomId(
+              `${HISTORY_PAGE_BUTTON_PREFIX}/${String(history.page + 1)}`,
+            )
+            .setEmoji('▶️')
+            .setStyle(ButtonStyle.Secondary)
+            .setDisabled(history.page >= history.totalPages - 1),
+        ),
+      );
+
+    return [container];
+  }
+
+  private truncate(text: string): string {
+    return text.length > SELECT_TEXT_LIMIT
+      ? `${text.slice(0, SELECT_TEXT_LIMIT - 1)}…`
+      : text;
+  }
+}
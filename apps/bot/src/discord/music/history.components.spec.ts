@@ -0,0 +1,190 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+import type {
+  ButtonInteraction,
+  StringSelectMenuInteraction,
+  VoiceChannel,
+} from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VoiceService } from '../voice/voice.service';
+import { HistoryComponents } from './history.components';
+import { HistoryViewService } from './history-view.service';
+import type { Track } from './music-queue';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+import { PlayHistoryService } from './persistence/play-history.service';
+
+const mockTrack: Track = {
+  url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+  title: 'Test Video',
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'someone#0001',
+  requesterId: 'someone',
+};
+
+function createInteraction(
+  voiceChannel: VoiceChannel | null = { id: 'voice-123' } as VoiceChannel,
+): StringSelectMenuInteraction {
+  return {
+    guildId: 'guild-123',
+    channelId: 'channel-123',
+    user: { id: 'user-123', tag: 'user#1234' },
+    guild: {
+      members: {
+        cache: {
+          get: vi.fn().mockReturnValue({
+            voice: { channel: voiceChannel },
+          }),
+        },
+      },
+    },
+    inGuild: vi.fn().mockReturnValue(true),
+    reply: vi.fn().mockResolvedValue(undefined),
+    deferUpdate: vi.fn().mockResolvedValue(undefined),
+    editReply: vi.fn().mockResolvedValue(undefined),
+    followUp: vi.fn().mockResolvedValue(undefined),
+  } as unknown as StringSelectMenuInteraction;
+}
+
+describe('HistoryComponents', () => {
+  let components: HistoryComponents;
+  let musicService: MusicService;
+  let voiceService: VoiceService;
+  let nowPlayingService: NowPlayingService;
+  let playHistoryService: PlayHistoryService;
+  let historyView: HistoryViewService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    musicService = {
+      playTracks: vi.fn().mockResolvedValue(undefined),
+      setupAutoPlay: vi.fn(),
+    } as unknown as MusicService;
+
+    voiceService = {
+      isConnected: vi.fn().mockReturnValue(false),
+      join: vi.fn().mockResolvedValue({}),
+    } as unknown as VoiceService;
+
+    nowPlayingService = {
+      setChannelForGuild: vi.fn(),
+      sendNowPlaying: vi.fn().mockResolvedValue(undefined),
+    } as unknown as NowPlayingService;
+
+    playHistoryService = {
+      getEntry: vi
+        .fn()
+        .mockResolvedValue({ id: 7, track: mockTrack, playedAt: 1_000 }),
+    } as unknown as PlayHistoryService;
+
+    historyView = {
+      build: vi.fn().mockResolvedValue(['history']),
+    } as unknown as HistoryViewService;
+
+    components = new HistoryComponents(
+      musicService,
+      voiceService,
+      nowPlayingService,
+      playHistoryService,
+      historyView,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('onPageButton', () => {
+    it('renders the requested page', async () => {
+      const interaction = createInteraction() as unknown as ButtonInteraction;
+
+      await components.onPageButton([interaction], '2');
+
+      expect(interaction.deferUpdate).toHaveBeenCalled();
+      expect(historyView.build).toHaveBeenCalledWith('guild-123', 2);
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        components: ['history'],
+      });
+    });
+
+    it('does nothing when not in guild', async () => {
+      const interaction = createInteraction() as unknown as ButtonInteraction;
+      vi.mocked(interaction.inGuild).mockReturnValue(false);
+
+      await components.onPageButton([interaction], '2');
+
+      expect(historyView.build).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onReplaySelect', () => {
+    it('requeues the selected entry for the user', async () => {
+      const interaction = createInteraction();
+
+      await components.onReplaySelect([interaction], '1', ['7']);
+
+      expect(playHistoryService.getEntry).toHaveBeenCalledWith('guild-123', 7);
+      expect(voiceService.join).toHaveBeenCalledWith({ id: 'voice-123' });
+      expect(nowPlayingService.setChannelForGuild).toHaveBeenCalledWith(
+        'guild-123',
+        'channel-123',
+      );
+      expect(musicService.playTracks).toHaveBeenCalledWith('guild-123', [
+        {
+          ...mockTrack,
+          requestedBy: 'user#1234',
+          requesterId: 'user-123',
+        },
+      ]);
+      expect(musicService.setupAutoPlay).toHaveBeenCalledWith('guild-123');
+      expect(historyView.build).toHaveBeenCalledWith('guild-123', 1);
+      expect(interaction.followUp).toHaveBeenCalledWith({
+        content: '🔁 Requeued **Test Video**.',
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+    });
+
+    it('requires the user to be in a voice channel', async () => {
+      const interaction = createInteraction(null);
+
+      await components.onReplaySelect([interaction], '0', ['7']);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'You must be in a voice channel to use this command.',
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(musicService.playTracks).not.toHaveBeenCalled();
+    });
+
+    it('reports entries that dropped out of the history', async () => {
+      vi.mocked(playHistoryService.getEntry).mockResolvedValue(undefined);
+      const interaction = createInteraction();
+
+      await components.onReplaySelect([interaction], '0', ['7']);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'That track is no longer in the history.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('reports playback failures', async () => {
+      vi.mocked(musicService.playTracks).mockRejectedValue(
+        new Error('Stream unavailable'),
+      );
+      const interaction = createInteraction();
+
+      await components.onReplaySelect([interaction], '0', ['7']);
+
+      expect(interaction.followUp).toHaveBeenCalledWith({
+        content: 'Failed to play: Stream unavailable',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+});
@@ -0,0 +1,118 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MessageFlags } from 'discord.js';
+import {
+  Button,
+  type ButtonContext,
+  ComponentParam,
+  Ctx,
+  SelectedStrings,
+  StringSelect,
+  type StringSelectContext,
+} from 'necord';
+import { VoiceService } from '../voice/voice.service';
+import {
+  HISTORY_PAGE_BUTTON_PREFIX,
+  HISTORY_REPLAY_SELECT_PREFIX,
+  HistoryViewService,
+} from './history-view.service';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+import { PlayHistoryService } from './persistence/play-history.service';
+
+@Injectable()
+export class HistoryComponents {
+  private readonly logger = new Logger(HistoryComponents.name);
+
+  public constructor(
+    private readonly musicService: MusicService,
+    private readonly voiceService: VoiceService,
+    private readonly nowPlayingService: NowPlayingService,
+    private readonly playHistoryService: PlayHistoryService,
+    private readonly historyView: HistoryViewService,
+  ) {}
+
+  @Button(`${HISTORY_PAGE_BUTTON_PREFIX}/:page`)
+  public async onPageButton(
+    @Ctx() [interaction]: ButtonContext,
+    @ComponentParam('page') page: string,
+  ) {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    await interaction.deferUpdate();
+    await interaction.editReply({
+      components: await this.historyView.build(
+        interaction.guildId,
+        Number(page),
+      ),
+    });
+  }
+
+  @StringSelect(`${HISTORY_REPLAY_SELECT_PREFIX}/:page`)
+  public async onReplaySelect(
+    @Ctx() [interaction]: StringSelectContext,
+    @ComponentParam('page') page: string,
+    @SelectedStrings() [entryId]: string[],
+  ) {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    const member = interaction.guild?.members.cache.get(interaction.user.id);
+    const voiceChannel = member?.voice.channel;
+    if (!voiceChannel) {
+      return interaction.reply({
+        content: 'You must be in a voice channel to use this command.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const guildId = interaction.guildId;
+    const entry = await this.playHistoryService.getEntry(
+      guildId,
+      Number(entryId),
+    );
+    if (!entry) {
+      return interaction.reply({
+        content: 'That track is no longer in the history.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferUpdate();
+
+    try {
+      if (!this.voiceService.isConnected(guildId)) {
+        await this.voiceService.join(voiceChannel);
+      }
+
+      this.nowPlayingService.setChannelForGuild(guildId, interaction.channelId);
+      await this.musicService.playTracks(guildId, [
+        {
+          ...entry.track,
+          requestedBy: interaction.user.tag,
+          requesterId: interaction.user.id,
+        },
+      ]);
+      this.musicService.setupAutoPlay(guildId);
+
+      // Re-render so the select menu clears and the same entry can be picked again
+      await interaction.editReply({
+        components: await this.historyView.build(guildId, Number(page)),
+      });
+      await interaction.followUp({
+        content: `🔁 Requeued **${entry.track.title}**.`,
+        flags: MessageFlags.Ephemeral,
+      });
+      await this.nowPlayingService.sendNowPlaying(guildId);
+      return;
+    } catch (error) {
+      this.logger.error('Failed to requeue history entry', error);
+      return interaction.followUp({
+        content: `Failed to play: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+}
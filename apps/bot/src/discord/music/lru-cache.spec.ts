@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { LruCache } from './lru-cache';
+
+describe('LruCache', () => {
+  it('returns stored values', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('evicts the least recently used entry when full', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.get('a');
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(1);
+    expect(cache.get('b')).toBeUndefined();
+    expect(cache.get('c')).toBe(3);
+    expect(cache.size).toBe(2);
+  });
+
+  it('refreshes an existing key on set', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.set('b', 2);
+    cache.set('a', 10);
+    cache.set('c', 3);
+
+    expect(cache.get('a')).toBe(10);
+    expect(cache.get('b')).toBeUndefined();
+  });
+
+  it('keeps falsy values', () => {
+    const cache = new LruCache<string, number>(1);
+    cache.set('zero', 0);
+
+    expect(cache.get('zero')).toBe(0);
+  });
+
+  it('clears all entries', () => {
+    const cache = new LruCache<string, number>(2);
+    cache.set('a', 1);
+    cache.clear();
+
+    expect(cache.size).toBe(0);
+  });
+});
@@ -0,0 +1,36 @@
+export class LruCache<K, V> {
+  private readonly entries = new Map<K, V>();
+
+  public constructor(private readonly capacity: number) {}
+
+  public get size(): number {
+    return this.entries.size;
+  }
+
+  public get(key: K): V | undefined {
+    if (!this.entries.has(key)) {
+      return undefined;
+    }
+
+    const value = this.entries.get(key) as V;
+    this.entries.delete(key);
+    this.entries.set(key, value);
+    return value;
+  }
+
+  public set(key: K, value: V): void {
+    this.entries.delete(key);
+    this.entries.set(key, value);
+
+    if (this.entries.size > this.capacity) {
+      const oldest = this.entries.keys().next();
+      if (!oldest.done) {
+        this.entries.delete(oldest.value);
+      }
+    }
+  }
+
+  public clear(): void {
+    this.entries.clear();
+  }
+}
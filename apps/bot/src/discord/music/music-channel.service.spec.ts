@@ -0,0 +1,180 @@
+import { Logger } from '@nestjs/common';
+import type { Message } from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { VoiceService } from '../voice/voice.service';
+import { MusicChannelService } from './music-channel.service';
+import type { MusicService } from './music.service';
+import type { NowPlayingService } from './now-playing.service';
+
+describe('MusicChannelService', () => {
+  let service: MusicChannelService;
+  let musicService: MusicService;
+  let voiceService: VoiceService;
+  let nowPlayingService: NowPlayingService;
+  let notice: { delete: ReturnType<typeof vi.fn> };
+  let channel: {
+    isSendable: ReturnType<typeof vi.fn>;
+    send: ReturnType<typeof vi.fn>;
+  };
+
+  function createMessage(overrides: Record<string, unknown> = {}): Message {
+    return {
+      guildId: 'guild-123',
+      channelId: 'music-channel',
+      content: 'never gonna give you up',
+      author: { id: 'user-1', bot: false, tag: 'user#1234' },
+      member: { voice: { channel: { id: 'voice-1' } } },
+      attachments: { find: vi.fn().mockReturnValue(undefined) },
+      channel,
+      delete: vi.fn().mockResolvedValue(undefined),
+      ...overrides,
+    } as unknown as Message;
+  }
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    notice = { delete: vi.fn().mockResolvedValue(undefined) };
+    channel = {
+      isSendable: vi.fn().mockReturnValue(true),
+      send: vi.fn().mockResolvedValue(notice),
+    };
+
+    musicService = {
+      play: vi.fn().mockResolvedValue(undefined),
+      searchAndPlay: vi.fn().mockResolvedValue(undefined),
+      playPlaylist: vi.fn().mockResolvedValue(undefined),
+      isPlaylistUrl: vi.fn().mockReturnValue(false),
+      setupAutoPlay: vi.fn(),
+    } as unknown as MusicService;
+
+    voiceService = {
+      isConnected: vi.fn().mockReturnValue(false),
+      join: vi.fn().mockResolvedValue(undefined),
+    } as unknown as VoiceService;
+
+    nowPlayingService = {
+      getMusicChannel: vi.fn().mockReturnValue('music-channel'),
+      setChannelForGuild: vi.fn(),
+      sendNowPlaying: vi.fn().mockResolvedValue(undefined),
+    } as unknown as NowPlayingService;
+
+    service = new MusicChannelService(
+      musicService,
+      voiceService,
+      nowPlayingService,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('plays a message as a search query and deletes it', async () => {
+    const message = createMessage();
+
+    await service.handleMessageCreate([message] as never);
+
+    expect(vi.mocked(voiceService.join)).toHaveBeenCalledWith({
+      id: 'voice-1',
+    });
+    expect(vi.mocked(musicService.searchAndPlay)).toHaveBeenCalledWith(
+      'guild-123',
+      'never gonna give you up',
+      expect.objectContaining({ id: 'user-1', tag: 'user#1234' }),
+    );
+    expect(vi.mocked(musicService.setupAutoPlay)).toHaveBeenCalledWith(
+      'guild-123',
+    );
+    expect(vi.mocked(nowPlayingService.sendNowPlaying)).toHaveBeenCalledWith(
+      'guild-123',
+    );
+    expect(vi.mocked(message.delete)).toHaveBeenCalled();
+  });
+
+  it('plays links and playlists directly', async () => {
+    await service.handleMessageCreate([
+      createMessage({ content: 'https://youtube.com/watch?v=1' }),
+    ] as never);
+    vi.mocked(musicService.isPlaylistUrl).mockReturnValue(true);
+    await service.handleMessageCreate([
+      createMessage({ content: 'https://youtube.com/playlist?list=PL1' }),
+    ] as never);
+
+    expect(vi.mocked(musicService.play)).toHaveBeenCalledWith(
+      'guild-123',
+      'https://youtube.com/watch?v=1',
+      expect.objectContaining({ id: 'user-1', tag: 'user#1234' }),
+    );
+    expect(vi.mocked(musicService.playPlaylist)).toHaveBeenCalledWith(
+      'guild-123',
+      'https://youtube.com/playlist?list=PL1',
+      expect.objectContaining({ id: 'user-1', tag: 'user#1234' }),
+    );
+  });
+
+  it('plays an attached audio file', async () => {
+    const message = createMessage({
+      content: '',
+      attachments: {
+        find: vi.fn().mockReturnValue({
+          url: 'https://cdn.discordapp.com/song.mp3',
+        }),
+      },
+    });
+
+    await service.handleMessageCreate([message] as never);
+
+    expect(vi.mocked(musicService.play)).toHaveBeenCalledWith(
+      'guild-123',
+      'https://cdn.discordapp.com/song.mp3',
+      expect.objectContaining({ id: 'user-1', tag: 'user#1234' }),
+    );
+  });
+
+  it('ignores messages outside the music channel and from bots', async () => {
+    const elsewhere = createMessage({ channelId: 'general' });
+    const fromBot = createMessage({
+      author: { id: 'bot-1', bot: true, tag: 'bot#0001' },
+    });
+
+    await service.handleMessageCreate([elsewhere] as never);
+    await service.handleMessageCreate([fromBot] as never);
+
+    expect(vi.mocked(musicService.searchAndPlay)).not.toHaveBeenCalled();
+    expect(vi.mocked(elsewhere.delete)).not.toHaveBeenCalled();
+    expect(vi.mocked(fromBot.delete)).not.toHaveBeenCalled();
+  });
+
+  it('tells the user to join a voice channel first', async () => {
+    vi.useFakeTimers();
+    const message = createMessage({ member: { voice: { channel: null } } });
+
+    await service.handleMessageCreate([message] as never);
+
+    expect(channel.send).toHaveBeenCalledWith(
+      '<@user-1> You must be in a voice channel to request songs.',
+    );
+    expect(vi.mocked(musicService.searchAndPlay)).not.toHaveBeenCalled();
+    expect(vi.mocked(message.delete)).toHaveBeenCalled();
+
+    vi.advanceTimersByTime(10_000);
+    expect(notice.delete).toHaveBeenCalled();
+    vi.useRealTimers();
+  });
+
+  it('reports playback failures', async () => {
+    vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    vi.mocked(musicService.searchAndPlay).mockRejectedValue(
+      new Error('No results'),
+    );
+    const message = createMessage();
+
+    await service.handleMessageCreate([message] as never);
+
+    expect(channel.send).toHaveBeenCalledWith(
+      '<@user-1> Failed to play: No results',
+    );
+    expect(vi.mocked(message.delete)).toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,113 @@
+import { Injectable, Logger } from '@nestjs/common';
+import type { Message } from 'discord.js';
+import { Context, On, type ContextOf } from 'necord';
+import { VoiceService } from '../voice/voice.service';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+
+const NOTICE_LIFETIME_MS = 10_000;
+
+@Injectable()
+export class MusicChannelService {
+  private readonly logger = new Logger(MusicChannelService.name);
+
+  public constructor(
+    private readonly musicService: MusicService,
+    private readonly voiceService: VoiceService,
+    private readonly nowPlayingService: NowPlayingService,
+  ) {}
+
+  @On('messageCreate')
+  public async handleMessageCreate(
+    @Context() [message]: ContextOf<'messageCreate'>,
+  ): Promise<void> {
+    const guildId = message.guildId;
+    if (
+      !guildId ||
+      message.author.bot ||
+      message.channelId !== this.nowPlayingService.getMusicChannel(guildId)
+    ) {
+      return;
+    }
+
+    try {
+      await this.handleRequest(guildId, message);
+    } finally {
+      await message.delete().catch(() => undefined);
+    }
+  }
+
+  private async handleRequest(
+    guildId: string,
+    message: Message,
+  ): Promise<void> {
+    const attachment = message.attachments.find((file) =>
+      /^(audio|video)\//.test(file.contentType ?? ''),
+    );
+    const query = attachment?.url ?? message.content.trim();
+    if (!query) {
+      return;
+    }
+
+    const voiceChannel = message.member?.voice.channel;
+    if (!voiceChannel) {
+      await this.notify(
+        message,
+        'You must be in a voice channel to request songs.',
+      );
+      return;
+    }
+
+    try {
+      if (!this.voiceService.isConnected(guildId)) {
+        await this.voiceService.join(voiceChannel);
+      }
+
+      this.nowPlayingService.setChannelForGuild(guildId, message.channelId);
+
+      if (!this.isValidUrl(query)) {
+        await this.musicService.searchAndPlay(guildId, query, message.author);
+      } else if (this.musicService.isPlaylistUrl(query)) {
+        await this.musicService.playPlaylist(guildId, query, message.author);
+      } else {
+        await this.musicService.play(guildId, query, message.author);
+      }
+
+      this.musicService.setupAutoPlay(guildId);
+      await this.nowPlayingService.sendNowPlaying(guildId);
+    } catch (error) {
+      this.logger.error('Failed to play song request', error);
+      await this.notify(
+        message,
+        `Failed to play: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      );
+    }
+  }
+
+  // Replies would clutter the channel, so they remove themselves
+  private async notify(message: Message, content: string): Promise<void> {
+    if (!message.channel.isSendable()) {
+      return;
+    }
+
+    try {
+      const notice = await message.channel.send(
+        `<@${message.author.id}> ${content}`,
+      );
+      setTimeout(() => {
+        notice.delete().catch(() => undefined);
+      }, NOTICE_LIFETIME_MS).unref();
+    } catch (error) {
+      this.logger.warn('Failed to send song request notice', error);
+    }
+  }
+
+  private isValidUrl(str: string): boolean {
+    try {
+      const url = new URL(str);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+}
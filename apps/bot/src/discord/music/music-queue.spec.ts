@@ -1,5 +1,11 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
-import { LoopMode, MusicQueue, type Track } from './music-queue';
+import {
+  formatDuration,
+  isLiveTrack,
+  LoopMode,
+  MusicQueue,
+  type Track,
+} from './music-queue';
 
 const createTrack = (title: string): Track => ({
   url: `https://youtube.com/watch?v=${title}`,
@@ -7,6 +13,7 @@ const createTrack = (title: string): Track => ({
   duration: 180,
   thumbnail: 'https://example.com/thumb.jpg',
   requestedBy: 'user#1234',
+  requesterId: 'user-123',
 });
 
 describe('MusicQueue', () => {
@@ -56,6 +63,54 @@ describe('MusicQueue', () => {
 
       expect(length).toBe(3);
     });
+
+    it('keeps the incoming order by default', () => {
+      const tracks = [
+        createTrack('Track 1'),
+        createTrack('Track 2'),
+        createTrack('Track 3'),
+      ];
+
+      queue.addMany(tracks);
+
+      expect(queue.getAll()).toEqual(tracks);
+    });
+
+    it('shuffles only the incoming tracks when requested', () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+      const existing = createTrack('Track 0');
+      const tracks = [
+        createTrack('Track 1'),
+        createTrack('Track 2'),
+        createTrack('Track 3'),
+      ];
+      queue.add(existing);
+
+      queue.addMany(tracks, { shuffle: true });
+
+      expect(queue.getAll().map((track) => track.title)).toEqual([
+        'Track 0',
+        'Track 2',
+        'Track 3',
+        'Track 1',
+      ]);
+      expect(tracks.map((track) => track.title)).toEqual([
+        'Track 1',
+        'Track 2',
+        'Track 3',
+      ]);
+    });
+
+    it('starts from the first added track after the queue was cleared', () => {
+      queue.add(createTrack('Track 0'));
+      queue.add(createTrack('Track 1'));
+      queue.getNext();
+      queue.clear();
+
+      queue.addMany([createTrack('Track 2'), createTrack('Track 3')]);
+
+      expect(queue.getCurrent()?.title).toBe('Track 2');
+    });
   });
 
   describe('getCurrent', () => {
@@ -80,6 +135,33 @@ describe('MusicQueue', () => {
     });
   });
 
+  describe('peekNext', () => {
+    it('returns the next track without advancing', () => {
+      queue.add(createTrack('Track 1'));
+      const track2 = createTrack('Track 2');
+      queue.add(track2);
+
+      expect(queue.peekNext()).toBe(track2);
+      expect(queue.getCurrentIndex()).toBe(0);
+    });
+
+    it('follows the loop mode', () => {
+      const track1 = createTrack('Track 1');
+      const track2 = createTrack('Track 2');
+      queue.add(track1);
+      queue.add(track2);
+      queue.jumpTo(1);
+
+      expect(queue.peekNext()).toBeUndefined();
+
+      queue.setLoopMode(LoopMode.Queue);
+      expect(queue.peekNext()).toBe(track1);
+
+      queue.setLoopMode(LoopMode.Track);
+      expect(queue.peekNext()).toBe(track2);
+    });
+  });
+
   describe('getNext', () => {
     it('returns undefined when queue is empty', () => {
       expect(queue.getNext()).toBeUndefined();
@@ -167,6 +249,261 @@ describe('MusicQueue', () => {
     });
   });
 
+  describe('previous', () => {
+    it('returns undefined when queue is empty', () => {
+      expect(queue.previous()).toBeUndefined();
+    });
+
+    it('steps back to the previous track', () => {
+      const track1 = createTrack('Track 1');
+      queue.add(track1);
+      queue.add(createTrack('Track 2'));
+      queue.skip();
+
+      expect(queue.previous()).toBe(track1);
+      expect(queue.getCurrentIndex()).toBe(0);
+    });
+
+    it('wraps to the last track when loop mode is Queue', () => {
+      queue.add(createTrack('Track 1'));
+      const track2 = createTrack('Track 2');
+      queue.add(track2);
+      queue.setLoopMode(LoopMode.Queue);
+
+      expect(queue.previous()).toBe(track2);
+      expect(queue.getCurrentIndex()).toBe(1);
+    });
+
+    it('returns undefined at the start with no queue loop', () => {
+      queue.add(createTrack('Track 1'));
+      queue.setLoopMode(LoopMode.Track);
+
+      expect(queue.previous()).toBeUndefined();
+      expect(queue.getCurrentIndex()).toBe(0);
+    });
+  });
+
+  describe('prepend', () => {
+    it('inserts a track before the current one and makes it current', () => {
+      const onChange = vi.fn();
+      queue = new MusicQueue(onChange);
+      const track1 = createTrack('Track 1');
+      const track0 = createTrack('Track 0');
+      queue.add(track1);
+
+      queue.prepend(track0);
+
+      expect(queue.getAll()).toEqual([track0, track1]);
+      expect(queue.getCurrent()).toBe(track0);
+      expect(onChange).toHaveBeenCalledTimes(2);
+    });
+  });
+
+  describe('insertNext', () => {
+    it('adds to an empty queue and makes it current', () => {
+      const track = createTrack('Track 1');
+
+      expect(queue.insertNext(track)).toBe(0);
+      expect(queue.getCurrent()).toBe(track);
+      expect(queue.getCurrentIndex()).toBe(0);
+    });
+
+    it('inserts right after the current track', () => {
+      queue.add(createTrack('Track 1'));
+      queue.add(createTrack('Track 2'));
+      queue.add(createTrack('Track 3'));
+      queue.skip();
+      const next = createTrack('Next');
+
+      expect(queue.insertNext(next)).toBe(2);
+      expect(queue.getAll().map((t) => t.title)).toEqual([
+        'Track 1',
+        'Track 2',
+        'Next',
+        'Track 3',
+      ]);
+      expect(queue.getCurrentIndex()).toBe(1);
+      expect(queue.getNext()).toBe(next);
+    });
+
+    it('notifies on change', () => {
+      const onChange = vi.fn();
+      queue = new MusicQueue(onChange);
+
+      queue.insertNext(createTrack('Track 1'));
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('move', () => {
+    beforeEach(() => {
+      for (const title of ['A', 'B', 'C', 'D', 'E']) {
+        queue.add(createTrack(title));
+      }
+    });
+
+    const titles = () => queue.getAll().map((t) => t.title);
+
+    it.each([
+      [-1, 0],
+      [0, -1],
+      [5, 0],
+      [0, 5],
+      [1.5, 0],
+    ])('returns undefined for invalid indices %d → %d', (from, to) => {
+      expect(queue.move(from, to)).toBeUndefined();
+      expect(titles()).toEqual(['A', 'B', 'C', 'D', 'E']);
+    });
+
+    it('moves a track later in the queue', () => {
+      const moved = queue.move(1, 3);
+
+      expect(moved?.title).toBe('B');
+      expect(titles()).toEqual(['A', 'C', 'D', 'B', 'E']);
+    });
+
+    it('moves a track earlier in the queue', () => {
+      queue.move(4, 1);
+
+      expect(titles()).toEqual(['A', 'E', 'B', 'C', 'D']);
+    });
+
+    it('follows the current track when it is moved', () => {
+      queue.skip();
+
+      queue.move(1, 4);
+
+      expect(queue.getCurrentIndex()).toBe(4);
+      expect(queue.getCurrent()?.title).toBe('B');
+    });
+
+    it('shifts currentIndex back when a track moves from before to after it', () => {
+      queue.skip();
+      queue.skip();
+
+      queue.move(0, 3);
+
+      expect(queue.getCurrentIndex()).toBe(1);
+      expect(queue.getCurrent()?.title).toBe('C');
+    });
+
+    it('shifts currentIndex forward when a track moves from after to before it', () => {
+      queue.skip();
+      queue.skip();
+
+      queue.move(4, 0);
+
+      expect(queue.getCurrentIndex()).toBe(3);
+      expect(queue.getCurrent()?.title).toBe('C');
+    });
+
+    it('shifts currentIndex forward when a track moves onto the current slot', () => {
+      queue.skip();
+      queue.skip();
+
+      queue.move(3, 2);
+
+      expect(queue.getCurrentIndex()).toBe(3);
+      expect(queue.getCurrent()?.title).toBe('C');
+    });
+
+    it('keeps currentIndex when the move does not cross it', () => {
+      queue.move(2, 4);
+
+      expect(queue.getCurrentIndex()).toBe(0);
+      expect(queue.getCurrent()?.title).toBe('A');
+    });
+
+    it('notifies on change', () => {
+      const onChange = vi.fn();
+      queue = new MusicQueue(onChange);
+      queue.add(createTrack('A'));
+      queue.add(createTrack('B'));
+      onChange.mockClear();
+
+      queue.move(0, 1);
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('swap', () => {
+    beforeEach(() => {
+      for (const title of ['A', 'B', 'C', 'D']) {
+        queue.add(createTrack(title));
+      }
+    });
+
+    it('swaps two tracks and returns them', () => {
+      const swapped = queue.swap(1, 3);
+
+      expect(swapped?.map((t) => t.title)).toEqual(['B', 'D']);
+      expect(queue.getAll().map((t) => t.title)).toEqual(['A', 'D', 'C', 'B']);
+    });
+
+    it.each([
+      [-1, 1],
+      [1, 4],
+      [2, 2],
+    ])('returns undefined for invalid indices %d and %d', (a, b) => {
+      expect(queue.swap(a, b)).toBeUndefined();
+      expect(queue.getAll().map((t) => t.title)).toEqual(['A', 'B', 'C', 'D']);
+    });
+
+    it('follows the current track when it is swapped', () => {
+      queue.skip();
+
+      queue.swap(1, 3);
+
+      expect(queue.getCurrentIndex()).toBe(3);
+      expect(queue.getCurrent()?.title).toBe('B');
+
+      queue.swap(0, 3);
+
+      expect(queue.getCurrentIndex()).toBe(0);
+      expect(queue.getCurrent()?.title).toBe('B');
+    });
+
+    it('keeps currentIndex when swapping other tracks', () => {
+      queue.swap(2, 3);
+
+      expect(queue.getCurrentIndex()).toBe(0);
+      expect(queue.getCurrent()?.title).toBe('A');
+    });
+  });
+
+  describe('jumpTo', () => {
+    it('returns undefined for an invalid index', () => {
+      queue.add(createTrack('Track 1'));
+
+      expect(queue.jumpTo(1)).toBeUndefined();
+      expect(queue.jumpTo(-1)).toBeUndefined();
+      expect(queue.getCurrentIndex()).toBe(0);
+    });
+
+    it('makes the track at index current', () => {
+      queue.add(createTrack('Track 1'));
+      queue.add(createTrack('Track 2'));
+      const track3 = createTrack('Track 3');
+      queue.add(track3);
+
+      expect(queue.jumpTo(2)).toBe(track3);
+      expect(queue.getCurrentIndex()).toBe(2);
+      expect(queue.getUpcoming()).toEqual([]);
+    });
+
+    it('can jump backwards', () => {
+      const track1 = createTrack('Track 1');
+      queue.add(track1);
+      queue.add(createTrack('Track 2'));
+      queue.skip();
+
+      expect(queue.jumpTo(0)).toBe(track1);
+      expect(queue.getUpcoming()).toHaveLength(1);
+    });
+  });
+
   describe('remove', () => {
     it('returns undefined for negative index', () => {
       queue.add(createTrack('Track 1'));
@@ -391,4 +728,158 @@ describe('MusicQueue', () => {
       expect(queue.cycleLoopMode()).toBe(LoopMode.Track);
     });
   });
+
+  describe('toState', () => {
+    it('captures tracks, current index and loop mode', () => {
+      const track1 = createTrack('Track 1');
+      const track2 = createTrack('Track 2');
+      queue.add(track1);
+      queue.add(track2);
+      queue.getNext();
+      queue.setLoopMode(LoopMode.Queue);
+
+      expect(queue.toState()).toEqual({
+        tracks: [track1, track2],
+        currentIndex: 1,
+        loopMode: LoopMode.Queue,
+      });
+    });
+
+    it('returns a copy of the tracks', () => {
+      queue.add(createTrack('Track 1'));
+
+      queue.toState().tracks.pop();
+
+      expect(queue.size()).toBe(1);
+    });
+  });
+
+  describe('fromState', () => {
+    it('restores tracks, current index and loop mode', () => {
+      const track1 = createTrack('Track 1');
+      const track2 = createTrack('Track 2');
+
+      const restored = MusicQueue.fromState({
+        tracks: [track1, track2],
+        currentIndex: 1,
+        loopMode: LoopMode.Track,
+      });
+
+      expect(restored.getCurrent()).toBe(track2);
+      expect(restored.getCurrentIndex()).toBe(1);
+      expect(restored.getLoopMode()).toBe(LoopMode.Track);
+    });
+
+    it('resets an out-of-range current index to the first track', () => {
+      const restored = MusicQueue.fromState({
+        tracks: [createTrack('Track 1')],
+        currentIndex: 5,
+        loopMode: LoopMode.None,
+      });
+
+      expect(restored.getCurrentIndex()).toBe(0);
+    });
+
+    it('does not notify while restoring', () => {
+      const onChange = vi.fn();
+
+      MusicQueue.fromState(
+        {
+          tracks: [createTrack('Track 1')],
+          currentIndex: 0,
+          loopMode: LoopMode.None,
+        },
+        onChange,
+      );
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('change notifications', () => {
+    let onChange: ReturnType<typeof vi.fn<() => void>>;
+
+    beforeEach(() => {
+      onChange = vi.fn<() => void>();
+      queue = new MusicQueue(onChange);
+    });
+
+    it('notifies when tracks are added', () => {
+      queue.add(createTrack('Track 1'));
+      queue.addMany([createTrack('Track 2'), createTrack('Track 3')]);
+
+      expect(onChange).toHaveBeenCalledTimes(2);
+    });
+
+    it('notifies when advancing to the next track', () => {
+      queue.add(createTrack('Track 1'));
+      queue.add(createTrack('Track 2'));
+      onChange.mockClear();
+
+      queue.getNext();
+
+      expect(onChange).toHaveBeenCalledTimes(1);
+    });
+
+    it('does not notify when there is no next track', () => {
+      queue.add(createTrack('Track 1'));
+      onChange.mockClear();
+
+      queue.getNext();
+      queue.skip();
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+
+    it('notifies on remove, clear, shuffle and loop mode changes', () => {
+      queue.add(createTrack('Track 1'));
+      queue.add(createTrack('Track 2'));
+      queue.add(createTrack('Track 3'));
+      onChange.mockClear();
+
+      queue.remove(2);
+      queue.shuffle();
+      queue.setLoopMode(LoopMode.Queue);
+      queue.cycleLoopMode();
+      queue.clear();
+
+      expect(onChange).toHaveBeenCalledTimes(5);
+    });
+
+    it('does not notify when removing an invalid index', () => {
+      queue.add(createTrack('Track 1'));
+      onChange.mockClear();
+
+      queue.remove(5);
+
+      expect(onChange).not.toHaveBeenCalled();
+    });
+  });
+});
+
+describe('isLiveTrack', () => {
+  it('treats infinite durations as live', () => {
+    expect(
+      isLiveTrack({
+        ...createTrack('Radio'),
+        duration: Number.POSITIVE_INFINITY,
+      }),
+    ).toBe(true);
+  });
+
+  it('treats finite and unknown durations as on-demand', () => {
+    expect(isLiveTrack(createTrack('Song'))).toBe(false);
+    expect(isLiveTrack({ ...createTrack('File'), duration: 0 })).toBe(false);
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and hours', () => {
+    expect(formatDuration(65)).toBe('1:05');
+    expect(formatDuration(3_725)).toBe('1:02:05');
+  });
+
+  it('labels live streams', () => {
+    expect(formatDuration(Number.POSITIVE_INFINITY)).toBe('LIVE');
+  });
 });
@@ -4,6 +4,31 @@ export interface Track {
   duration: number;
   thumbnail: string;
   requestedBy: string;
+  requesterId: string;
+}
+
+export interface TrackRequester {
+  id: string;
+  tag: string;
+}
+
+export function isLiveTrack(track: Track): boolean {
+  return track.duration === Number.POSITIVE_INFINITY;
+}
+
+export function formatDuration(seconds: number): string {
+  if (!Number.isFinite(seconds)) {
+    return 'LIVE';
+  }
+
+  const hours = Math.floor(seconds / 3600);
+  const minutes = Math.floor((seconds % 3600) / 60);
+  const secs = seconds % 60;
+
+  if (hours > 0) {
+    return `${String(hours)}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+  }
+  return `${String(minutes)}:${String(secs).padStart(2, '0')}`;
 }
 
 export enum LoopMode {
@@ -12,21 +37,52 @@ export enum LoopMode {
   Queue = 'queue',
 }
 
+export interface MusicQueueState {
+  tracks: Track[];
+  currentIndex: number;
+  loopMode: LoopMode;
+}
+
 export class MusicQueue {
   private tracks: Track[] = [];
   private currentIndex = 0;
   private loopMode: LoopMode = LoopMode.None;
 
+  public constructor(private readonly onChange?: () => void) {}
+
+  public static fromState(
+    state: MusicQueueState,
+    onChange?: () => void,
+  ): MusicQueue {
+    const queue = new MusicQueue(onChange);
+    queue.tracks = [...state.tracks];
+    queue.currentIndex =
+      state.currentIndex >= 0 && state.currentIndex < state.tracks.length
+        ? state.currentIndex
+        : 0;
+    queue.loopMode = state.loopMode;
+    return queue;
+  }
+
   public add(track: Track): number {
     if (this.tracks.length === 0) {
       this.currentIndex = 0;
     }
     this.tracks.push(track);
+    this.notifyChange();
     return this.tracks.length;
   }
 
-  public addMany(tracks: Track[]): number {
-    this.tracks.push(...tracks);
+  public addMany(tracks: Track[], options: { shuffle?: boolean } = {}): number {
+    if (this.tracks.length === 0) {
+      this.currentIndex = 0;
+    }
+    const incoming = [...tracks];
+    if (options.shuffle) {
+      shuffleInPlace(incoming);
+    }
+    this.tracks.push(...incoming);
+    this.notifyChange();
     return this.tracks.length;
   }
 
@@ -43,35 +99,117 @@ export class MusicQueue {
       return this.tracks[this.currentIndex];
     }
 
-    const nextIndex = this.currentIndex + 1;
+    return this.advance();
+  }
 
-    if (nextIndex >= this.tracks.length) {
-      if (this.loopMode === LoopMode.Queue) {
-        this.currentIndex = 0;
-        return this.tracks[0];
-      }
-      return undefined;
+  // What getNext would return, without moving the queue
+  public peekNext(): Track | undefined {
+    if (this.loopMode === LoopMode.Track) {
+      return this.tracks[this.currentIndex];
     }
 
-    this.currentIndex = nextIndex;
-    return this.tracks[this.currentIndex];
+    const next = this.tracks[this.currentIndex + 1];
+    if (!next && this.loopMode === LoopMode.Queue) {
+      return this.tracks[0];
+    }
+    return next;
   }
 
   public skip(): Track | undefined {
-    const nextIndex = this.currentIndex + 1;
+    return this.advance();
+  }
 
-    if (nextIndex >= this.tracks.length) {
-      if (this.loopMode === LoopMode.Queue) {
-        this.currentIndex = 0;
-        return this.tracks[0];
-      }
+  public previous(): Track | undefined {
+    if (this.tracks.length === 0) {
       return undefined;
     }
 
-    this.currentIndex = nextIndex;
+    if (this.currentIndex > 0) {
+      this.currentIndex--;
+    } else if (this.loopMode === LoopMode.Queue) {
+      this.currentIndex = this.tracks.length - 1;
+    } else {
+      return undefined;
+    }
+
+    this.notifyChange();
     return this.tracks[this.currentIndex];
   }
 
+  public prepend(track: Track): void {
+    this.tracks.unshift(track);
+    this.currentIndex = 0;
+    this.notifyChange();
+  }
+
+  public insertNext(track: Track): number {
+    if (this.tracks.length === 0) {
+      this.currentIndex = 0;
+      this.tracks.push(track);
+      this.notifyChange();
+      return 0;
+    }
+
+    const index = this.currentIndex + 1;
+    this.tracks.splice(index, 0, track);
+    this.notifyChange();
+    return index;
+  }
+
+  public move(from: number, to: number): Track | undefined {
+    if (!this.isValidIndex(from) || !this.isValidIndex(to)) {
+      return undefined;
+    }
+
+    const [moved] = this.tracks.splice(from, 1);
+    if (!moved) {
+      return undefined;
+    }
+    this.tracks.splice(to, 0, moved);
+
+    if (from === this.currentIndex) {
+      this.currentIndex = to;
+    } else if (from < this.currentIndex && to >= this.currentIndex) {
+      this.currentIndex--;
+    } else if (from > this.currentIndex && to <= this.currentIndex) {
+      this.currentIndex++;
+    }
+
+    this.notifyChange();
+    return moved;
+  }
+
+  public swap(a: number, b: number): [Track, Track] | undefined {
+    const first = this.tracks[a];
+    const second = this.tracks[b];
+    if (!first || !second || a === b) {
+      return undefined;
+    }
+
+    this.tracks[a] = second;
+    this.tracks[b] = first;
+
+    if (this.currentIndex === a) {
+      this.currentIndex = b;
+    } else if (this.currentIndex === b) {
+      this.currentIndex = a;
+    }
+
+    this.notifyChange();
+    return [first, second];
+  }
+
+  public jumpTo(index: number): Track | undefined {
+    const track = this.tracks[index];
+    if (!track) {
+      return undefined;
+    }
+
+    this.currentIndex = index;
+    this.notifyChange();
+    return track;
+  }
+
   public remove(index: number): Track | undefined {
     if (index < 0 || index >= this.tracks.length) {
       return undefined;
@@ -88,12 +226,14 @@ export class MusicQueue {
       this.currentIndex = Math.max(0, this.tracks.length - 1);
     }
 
+    this.notifyChange();
     return removed;
   }
 
   public clear(): void {
     this.tracks = [];
     this.currentIndex = 0;
+    this.notifyChange();
   }
 
   public shuffle(): void {
@@ -107,19 +247,11 @@ export class MusicQueue {
     }
 
     const remaining = this.tracks.filter((_, i) => i !== this.currentIndex);
-
-    for (let i = remaining.length - 1; i > 0; i--) {
-      const j = Math.floor(Math.random() * (i + 1));
-      const temp = remaining[i];
-      const swap = remaining[j];
-      if (temp !== undefined && swap !== undefined) {
-        remaining[i] = swap;
-        remaining[j] = temp;
-      }
-    }
+    shuffleInPlace(remaining);
 
     this.tracks = [current, ...remaining];
     this.currentIndex = 0;
+    this.notifyChange();
   }
 
   public getAll(): Track[] {
@@ -144,6 +276,7 @@ export class MusicQueue {
 
   public setLoopMode(mode: LoopMode): void {
     this.loopMode = mode;
+    this.notifyChange();
   }
 
   public getLoopMode(): LoopMode {
@@ -155,6 +288,52 @@ export class MusicQueue {
     const currentModeIndex = modes.indexOf(this.loopMode);
     const nextMode = modes[(currentModeIndex + 1) % modes.length];
     this.loopMode = nextMode ?? LoopMode.None;
+    this.notifyChange();
     return this.loopMode;
   }
+
+  public toState(): MusicQueueState {
+    return {
+      tracks: [...this.tracks],
+      currentIndex: this.currentIndex,
+      loopMode: this.loopMode,
+    };
+  }
+
+  private advance(): Track | undefined {
+    const nextIndex = this.currentIndex + 1;
+
+    if (nextIndex >= this.tracks.length) {
+      if (this.loopMode === LoopMode.Queue && this.tracks.length > 0) {
+        this.currentIndex = 0;
+        this.notifyChange();
+        return this.tracks[0];
+      }
+      return undefined;
+    }
+
+    this.currentIndex = nextIndex;
+    this.notifyChange();
+    return this.tracks[this.currentIndex];
+  }
+
+  private isValidIndex(index: number): boolean {
+    return Number.isInteger(index) && index >= 0 && index < this.tracks.length;
+  }
+
+  private notifyChange(): void {
+    this.onChange?.();
+  }
+}
+
+function shuffleInPlace(tracks: Track[]): void {
+  for (let i = tracks.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    const temp = tracks[i];
+    const swap = tracks[j];
+    if (temp !== undefined && swap !== undefined) {
+      tracks[i] = swap;
+      tracks[j] = temp;
+    }
+  }
 }
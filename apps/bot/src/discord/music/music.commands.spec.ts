@@ -1,18 +1,38 @@
 import type {
+  Attachment,
   ChatInputCommandInteraction,
-  Collection,
   Guild,
   GuildMember,
   GuildMemberManager,
+  Message,
+  MessageContextMenuCommandInteraction,
   VoiceBasedChannel,
 } from 'discord.js';
-import { EmbedBuilder, MessageFlags } from 'discord.js';
+import {
+  Collection,
+  ContainerBuilder,
+  EmbedBuilder,
+  MessageFlags,
+} from 'discord.js';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import { VoiceService } from '../voice/voice.service';
+import { NO_AUDIO_FILTERS } from './audio-filters';
+import { FilterViewService } from './filter-view.service';
+import { HistoryViewService } from './history-view.service';
 import { LoopMode, type Track } from './music-queue';
 import { MusicCommands } from './music.commands';
 import { MusicService } from './music.service';
 import { NowPlayingService } from './now-playing.service';
+import type { SearchResult } from './providers/music-provider.interface';
+import { QueueViewService } from './queue-view.service';
+import { SearchPickerService } from './search-picker.service';
+import { VOTE_REQUIRED_MESSAGE, VoteSkipService } from './vote-skip.service';
+
+const createAttachment = (name: string, contentType: string): Attachment =>
+  ({
+    url: `https://cdn.discordapp.com/attachments/1/2/${name}`,
+    contentType,
+  }) as Attachment;
 
 const mockTrack: Track = {
   url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
@@ -20,6 +40,7 @@ const mockTrack: Track = {
   duration: 180,
   thumbnail: 'https://example.com/thumb.jpg',
   requestedBy: 'user#1234',
+  requesterId: 'user-123',
 };
 
 function createMockInteraction(
@@ -54,7 +75,7 @@ function createMockInteraction(
   return {
     guildId,
     guild: guildId ? mockGuild : null,
-    user: { id: 'user-123', tag: 'user#1234' },
+    user: requester,
     reply: vi.fn().mockResolvedValue(undefined),
     deferReply: vi.fn().mockResolvedValue(undefined),
     editReply: vi.fn().mockResolvedValue(undefined),
@@ -62,11 +83,18 @@ function createMockInteraction(
 }
 
 /* eslint-disable @typescript-eslint/no-deprecated, @typescript-eslint/no-unsafe-assignment */
+const requester = { id: 'user-123', tag: 'user#1234' };
+
 describe('MusicCommands', () => {
   let commands: MusicCommands;
   let musicService: MusicService;
   let voiceService: VoiceService;
   let nowPlayingService: NowPlayingService;
+  let searchPicker: SearchPickerService;
+  let historyView: HistoryViewService;
+  let queueView: QueueViewService;
+  let filterView: FilterViewService;
+  let voteSkip: VoteSkipService;
 
   beforeEach(() => {
     vi.clearAllMocks();
@@ -74,6 +102,9 @@ describe('MusicCommands', () => {
     musicService = {
       play: vi.fn().mockResolvedValue(mockTrack),
       searchAndPlay: vi.fn().mockResolvedValue(mockTrack),
+      searchMany: vi.fn().mockResolvedValue([]),
+      isPlaylistUrl: vi.fn().mockReturnValue(false),
+      playPlaylist: vi.fn(),
       skip: vi.fn(),
       stop: vi.fn(),
       pause: vi.fn(),
@@ -85,12 +116,25 @@ describe('MusicCommands', () => {
       clearQueue: vi.fn(),
       shuffle: vi.fn(),
       cycleLoopMode: vi.fn().mockReturnValue(LoopMode.Track),
+      isAutoplayEnabled: vi.fn().mockReturnValue(false),
+      setAutoplay: vi.fn((_guildId: string, enabled: boolean) => enabled),
       setVolume: vi.fn().mockResolvedValue(0.5),
       isPlaying: vi.fn().mockReturnValue(false),
       isPaused: vi.fn().mockReturnValue(false),
       remove: vi.fn(),
+      move: vi.fn(),
+      swap: vi.fn(),
+      skipTo: vi.fn(),
+      playNext: vi.fn().mockResolvedValue(mockTrack),
+      previous: vi.fn().mockResolvedValue(undefined),
+      getPosition: vi.fn().mockReturnValue(60_000),
+      seek: vi.fn((_guildId: string, positionMs: number) =>
+        Promise.resolve(positionMs),
+      ),
       cleanup: vi.fn(),
       setupAutoPlay: vi.fn(),
+      getFilters: vi.fn().mockReturnValue(NO_AUDIO_FILTERS),
+      setFilters: vi.fn().mockResolvedValue(true),
     } as unknown as MusicService;
 
     voiceService = {
@@ -104,12 +148,47 @@ describe('MusicCommands', () => {
       getChannelForGuild: vi.fn(),
       getMessageForGuild: vi.fn(),
       sendNowPlaying: vi.fn().mockResolvedValue(undefined),
+      updateNowPlaying: vi.fn().mockResolvedValue(undefined),
       deleteNowPlaying: vi.fn().mockResolvedValue(undefined),
       repostIfInSameChannel: vi.fn().mockResolvedValue(undefined),
       cleanup: vi.fn().mockResolvedValue(undefined),
     } as unknown as NowPlayingService;
 
-    commands = new MusicCommands(musicService, voiceService, nowPlayingService);
+    searchPicker = {
+      open: vi.fn().mockResolvedValue(undefined),
+    } as unknown as SearchPickerService;
+
+    historyView = {
+      build: vi.fn().mockResolvedValue(['history']),
+    } as unknown as HistoryViewService;
+
+    queueView = {
+      build: vi.fn().mockReturnValue([]),
+      getNowPlayingPage: vi.fn().mockReturnValue(0),
+    } as unknown as QueueViewService;
+
+    filterView = {
+      build: vi.fn().mockReturnValue(['filters']),
+    } as unknown as FilterViewService;
+
+    voteSkip = {
+      requestSkip: vi.fn((guildId: string) => ({
+        status: 'skipped',
+        nextTrack: musicService.skip(guildId),
+      })),
+      canSkipWithoutVote: vi.fn().mockReturnValue(true),
+    } as unknown as VoteSkipService;
+
+    commands = new MusicCommands(
+      musicService,
+      voiceService,
+      nowPlayingService,
+      searchPicker,
+      historyView,
+      queueView,
+      filterView,
+      voteSkip,
+    );
   });
 
   afterEach(() => {
@@ -156,7 +235,7 @@ describe('MusicCommands', () => {
       expect(musicService.play).toHaveBeenCalledWith(
         'guild-123',
         'https://youtube.com/watch?v=test',
-        'user#1234',
+        requester,
       );
       expect(interaction.editReply).toHaveBeenCalledWith({
         embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
@@ -214,7 +293,8 @@ describe('MusicCommands', () => {
       expect(musicService.searchAndPlay).toHaveBeenCalledWith(
         'guild-123',
         'never gonna give you up',
-        'user#1234',
+        requester,
+        undefined,
       );
       expect(musicService.play).not.toHaveBeenCalled();
       expect(interaction.editReply).toHaveBeenCalledWith({
@@ -222,6 +302,22 @@ describe('MusicCommands', () => {
       });
     });
 
+    it('passes the selected search source', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.play([interaction], {
+        query: 'flickermood',
+        source: 'SoundCloud',
+      });
+
+      expect(musicService.searchAndPlay).toHaveBeenCalledWith(
+        'guild-123',
+        'flickermood',
+        requester,
+        'SoundCloud',
+      );
+    });
+
     it('uses play for valid YouTube URLs', async () => {
       const interaction = createMockInteraction();
 
@@ -232,7 +328,7 @@ describe('MusicCommands', () => {
       expect(musicService.play).toHaveBeenCalledWith(
         'guild-123',
         'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
       expect(musicService.searchAndPlay).not.toHaveBeenCalled();
     });
@@ -273,194 +369,394 @@ describe('MusicCommands', () => {
         content: 'Failed to play: No results found',
       });
     });
+
+    describe('playlists', () => {
+      const playlistUrl = 'https://www.youtube.com/playlist?list=PLtest';
+      const playlist = {
+        title: 'Test Playlist',
+        url: playlistUrl,
+        tracks: [mockTrack, { ...mockTrack, title: 'Second Video' }],
+        truncated: false,
+      };
+
+      beforeEach(() => {
+        vi.mocked(musicService.isPlaylistUrl).mockReturnValue(true);
+        vi.mocked(musicService.playPlaylist).mockImplementation(
+          (_guildId, _url, _requestedBy, options) => {
+            options?.onProgress?.(2);
+            return Promise.resolve(playlist);
+          },
+        );
+      });
+
+      it('enqueues the playlist and reports progress', async () => {
+        const interaction = createMockInteraction();
+
+        await commands.play([interaction], { query: playlistUrl });
+
+        expect(musicService.playPlaylist).toHaveBeenCalledWith(
+          'guild-123',
+          playlistUrl,
+          requester,
+          { shuffle: false, onProgress: expect.any(Function) },
+        );
+        expect(musicService.play).not.toHaveBeenCalled();
+        expect(interaction.editReply).toHaveBeenCalledWith({
+          content: '📃 Loading playlist...',
+        });
+        expect(interaction.editReply).toHaveBeenCalledWith({
+          content: '📃 Loading playlist... 2 tracks',
+        });
+        expect(musicService.setupAutoPlay).toHaveBeenCalledWith('guild-123');
+        expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+          'guild-123',
+        );
+
+        const finalReply = vi.mocked(interaction.editReply).mock.lastCall?.[0];
+        expect(finalReply).toMatchObject({ content: '' });
+        const embed = (finalReply as { embeds: EmbedBuilder[] }).embeds[0];
+        expect(embed?.data.title).toBe('Playlist Added to Queue');
+        expect(embed?.data.description).toBe('**Test Playlist**');
+        expect(embed?.data.fields).toEqual([
+          { name: 'Tracks', value: '2', inline: true },
+          { name: 'Duration', value: '6:00', inline: true },
+        ]);
+        expect(embed?.data.footer).toBeUndefined();
+      });
+
+      it('passes the shuffle option and notes truncation', async () => {
+        vi.mocked(musicService.playPlaylist).mockResolvedValueOnce({
+          ...playlist,
+          truncated: true,
+        });
+        const interaction = createMockInteraction();
+
+        await commands.play([interaction], {
+          query: playlistUrl,
+          shuffle: true,
+        });
+
+        expect(musicService.playPlaylist).toHaveBeenCalledWith(
+          'guild-123',
+          playlistUrl,
+          requester,
+          expect.objectContaining({ shuffle: true }),
+        );
+        const finalReply = vi.mocked(interaction.editReply).mock.lastCall?.[0];
+        const embed = (finalReply as { embeds: EmbedBuilder[] }).embeds[0];
+        expect(embed?.data.title).toBe('Playlist Shuffled into Queue');
+        expect(embed?.data.footer?.text).toBe(
+          'Playlist truncated to the first 2 tracks',
+        );
+      });
+
+      it('handles playlist errors gracefully', async () => {
+        vi.mocked(musicService.playPlaylist).mockRejectedValueOnce(
+          new Error('Playlist has no playable tracks'),
+        );
+        const interaction = createMockInteraction();
+
+        await commands.play([interaction], { query: playlistUrl });
+
+        expect(interaction.editReply).toHaveBeenLastCalledWith({
+          content: 'Failed to play: Playlist has no playable tracks',
+        });
+      });
+
+      it('does not treat search queries as playlists', async () => {
+        const interaction = createMockInteraction();
+
+        await commands.play([interaction], { query: 'lofi playlist' });
+
+        expect(musicService.playPlaylist).not.toHaveBeenCalled();
+        expect(musicService.searchAndPlay).toHaveBeenCalled();
+      });
+    });
   });
 
-  describe('skip', () => {
+  describe('search', () => {
+    const results: SearchResult[] = [
+      { track: mockTrack, channel: 'Test Channel' },
+      { track: { ...mockTrack, title: 'Second Video' }, channel: 'Other' },
+    ];
+
     it('returns error when not in a guild', async () => {
       const interaction = createMockInteraction({ guildId: null });
 
-      await commands.skip([interaction]);
+      await commands.search([interaction], { query: 'test' });
 
       expect(interaction.reply).toHaveBeenCalledWith({
         content: 'This command can only be used in a server.',
         flags: MessageFlags.Ephemeral,
       });
+      expect(musicService.searchMany).not.toHaveBeenCalled();
     });
 
-    it('shows next track when skip succeeds', async () => {
-      vi.mocked(musicService.skip).mockReturnValue(mockTrack);
-      const interaction = createMockInteraction();
+    it('returns error when user is not in voice channel', async () => {
+      const interaction = createMockInteraction({ inVoiceChannel: false });
 
-      await commands.skip([interaction]);
+      await commands.search([interaction], { query: 'test' });
 
-      expect(musicService.skip).toHaveBeenCalledWith('guild-123');
       expect(interaction.reply).toHaveBeenCalledWith({
-        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
+        content: 'You must be in a voice channel to use this command.',
+        flags: MessageFlags.Ephemeral,
       });
     });
 
-    it('shows message when no more tracks', async () => {
-      vi.mocked(musicService.skip).mockReturnValue(undefined);
+    it('opens the picker with the search results', async () => {
+      vi.mocked(musicService.searchMany).mockResolvedValueOnce(results);
       const interaction = createMockInteraction();
 
-      await commands.skip([interaction]);
+      await commands.search([interaction], { query: 'test', results: 2 });
 
-      expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'Skipped. No more tracks in queue.',
+      expect(interaction.deferReply).toHaveBeenCalledWith({
+        flags: MessageFlags.Ephemeral,
       });
+      expect(musicService.searchMany).toHaveBeenCalledWith(
+        'test',
+        requester,
+        2,
+      );
+      expect(searchPicker.open).toHaveBeenCalledWith(
+        interaction,
+        'guild-123',
+        results,
+      );
     });
-  });
 
-  describe('stop', () => {
-    it('returns error when not in a guild', async () => {
-      const interaction = createMockInteraction({ guildId: null });
+    it('defaults to five results', async () => {
+      const interaction = createMockInteraction();
 
-      await commands.stop([interaction]);
+      await commands.search([interaction], { query: 'test' });
 
-      expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'This command can only be used in a server.',
-        flags: MessageFlags.Ephemeral,
-      });
+      expect(musicService.searchMany).toHaveBeenCalledWith(
+        'test',
+        requester,
+        5,
+      );
     });
 
-    it('stops playback when something is playing', async () => {
-      vi.mocked(musicService.stop).mockReturnValue(true);
+    it('reports when nothing was found', async () => {
       const interaction = createMockInteraction();
 
-      await commands.stop([interaction]);
+      await commands.search([interaction], { query: 'nothing' });
 
-      expect(musicService.stop).toHaveBeenCalledWith('guild-123');
-      expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'Stopped playback and cleared the queue.',
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'No results found for **nothing**.',
       });
+      expect(searchPicker.open).not.toHaveBeenCalled();
     });
 
-    it('returns error when nothing is playing', async () => {
-      vi.mocked(musicService.stop).mockReturnValue(false);
+    it('handles search errors gracefully', async () => {
+      vi.mocked(musicService.searchMany).mockRejectedValueOnce(
+        new Error('No search provider available'),
+      );
       const interaction = createMockInteraction();
 
-      await commands.stop([interaction]);
+      await commands.search([interaction], { query: 'test' });
 
-      expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'Nothing is playing.',
-        flags: MessageFlags.Ephemeral,
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'Failed to search: No search provider available',
       });
     });
   });
 
-  describe('pause', () => {
+  describe('previous', () => {
     it('returns error when not in a guild', async () => {
       const interaction = createMockInteraction({ guildId: null });
 
-      await commands.pause([interaction]);
+      await commands.previous([interaction]);
 
+      expect(musicService.previous).not.toHaveBeenCalled();
       expect(interaction.reply).toHaveBeenCalledWith({
         content: 'This command can only be used in a server.',
         flags: MessageFlags.Ephemeral,
       });
     });
 
-    it('pauses playback', async () => {
-      vi.mocked(musicService.pause).mockReturnValue(true);
+    it('refuses a listener who would need a vote', async () => {
+      vi.mocked(voteSkip.canSkipWithoutVote).mockReturnValue(false);
       const interaction = createMockInteraction();
 
-      await commands.pause([interaction]);
+      await commands.previous([interaction]);
 
-      expect(musicService.pause).toHaveBeenCalledWith('guild-123');
-      expect(interaction.reply).toHaveBeenCalledWith({ content: '⏸️ Paused.' });
+      expect(musicService.previous).not.toHaveBeenCalled();
+      expect(interaction.deferReply).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: VOTE_REQUIRED_MESSAGE,
+        flags: MessageFlags.Ephemeral,
+      });
     });
 
-    it('returns error when nothing to pause', async () => {
-      vi.mocked(musicService.pause).mockReturnValue(false);
+    it('shows the previous track', async () => {
+      vi.mocked(musicService.previous).mockResolvedValue({
+        track: mockTrack,
+        restarted: false,
+      });
       const interaction = createMockInteraction();
 
-      await commands.pause([interaction]);
+      await commands.previous([interaction]);
 
-      expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'Nothing is playing or already paused.',
-        flags: MessageFlags.Ephemeral,
+      expect(musicService.previous).toHaveBeenCalledWith('guild-123');
+      const { embeds } = vi.mocked(interaction.editReply).mock
+        .calls[0]?.[0] as { embeds: EmbedBuilder[] };
+      expect(embeds[0]?.data.title).toBe('Now Playing');
+      expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+    });
+
+    it('shows that the track was restarted', async () => {
+      vi.mocked(musicService.previous).mockResolvedValue({
+        track: mockTrack,
+        restarted: true,
       });
+      const interaction = createMockInteraction();
+
+      await commands.previous([interaction]);
+
+      const { embeds } = vi.mocked(interaction.editReply).mock
+        .calls[0]?.[0] as { embeds: EmbedBuilder[] };
+      expect(embeds[0]?.data.title).toBe('Restarted');
     });
-  });
 
-  describe('resume', () => {
-    it('returns error when not in a guild', async () => {
-      const interaction = createMockInteraction({ guildId: null });
+    it('shows message when there is no previous track', async () => {
+      const interaction = createMockInteraction();
 
-      await commands.resume([interaction]);
+      await commands.previous([interaction]);
 
-      expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'This command can only be used in a server.',
-        flags: MessageFlags.Ephemeral,
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'There is no previous track.',
       });
+      expect(nowPlayingService.sendNowPlaying).not.toHaveBeenCalled();
     });
 
-    it('resumes playback', async () => {
-      vi.mocked(musicService.resume).mockReturnValue(true);
+    it('reports playback errors', async () => {
+      vi.mocked(musicService.previous).mockRejectedValue(
+        new Error('Stream unavailable'),
+      );
       const interaction = createMockInteraction();
 
-      await commands.resume([interaction]);
+      await commands.previous([interaction]);
 
-      expect(musicService.resume).toHaveBeenCalledWith('guild-123');
-      expect(interaction.reply).toHaveBeenCalledWith({
-        content: '▶️ Resumed.',
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'Failed to play: Stream unavailable',
       });
     });
+  });
 
-    it('returns error when nothing to resume', async () => {
-      vi.mocked(musicService.resume).mockReturnValue(false);
+  describe('play with an attachment', () => {
+    it('plays the uploaded file', async () => {
       const interaction = createMockInteraction();
+      const file = createAttachment('clip.mp3', 'audio/mpeg');
 
-      await commands.resume([interaction]);
+      await commands.play([interaction], { file });
+
+      expect(musicService.play).toHaveBeenCalledWith(
+        'guild-123',
+        file.url,
+        requester,
+      );
+    });
+
+    it('rejects files that are not audio', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.play([interaction], {
+        file: createAttachment('notes.txt', 'text/plain'),
+      });
 
       expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'Nothing to resume.',
+        content: "That file isn't an audio or video file.",
         flags: MessageFlags.Ephemeral,
       });
+      expect(musicService.play).not.toHaveBeenCalled();
     });
-  });
 
-  describe('nowPlaying', () => {
-    it('returns error when not in a guild', async () => {
-      const interaction = createMockInteraction({ guildId: null });
+    it('asks for input when neither a query nor a file is given', async () => {
+      const interaction = createMockInteraction();
 
-      await commands.nowPlaying([interaction]);
+      await commands.play([interaction], {});
 
       expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'This command can only be used in a server.',
+        content: 'Provide a link, a search query or an audio file.',
         flags: MessageFlags.Ephemeral,
       });
     });
+  });
 
-    it('shows current track', async () => {
-      vi.mocked(musicService.getNowPlaying).mockReturnValue(mockTrack);
+  describe('playInVoice', () => {
+    const createMessage = (...attachments: Attachment[]): Message =>
+      ({
+        attachments: new Collection(
+          attachments.map((attachment, i) => [String(i), attachment]),
+        ),
+      }) as unknown as Message;
+
+    const asContextMenu = (
+      interaction: ChatInputCommandInteraction,
+    ): MessageContextMenuCommandInteraction =>
+      interaction as unknown as MessageContextMenuCommandInteraction;
+
+    it('queues every audio attachment on the message', async () => {
       const interaction = createMockInteraction();
+      const message = createMessage(
+        createAttachment('one.mp3', 'audio/mpeg'),
+        createAttachment('cover.png', 'image/png'),
+        createAttachment('two.ogg', 'audio/ogg'),
+      );
 
-      await commands.nowPlaying([interaction]);
+      await commands.playInVoice([asContextMenu(interaction)], message);
 
-      expect(interaction.reply).toHaveBeenCalledWith({
-        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
+      expect(voiceService.join).toHaveBeenCalled();
+      expect(musicService.play).toHaveBeenCalledTimes(2);
+      expect(musicService.play).toHaveBeenLastCalledWith(
+        'guild-123',
+        'https://cdn.discordapp.com/attachments/1/2/two.ogg',
+        requester,
+      );
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: '📎 Added **2** files to the queue.',
       });
+      expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
     });
 
-    it('returns error when nothing is playing', async () => {
-      vi.mocked(musicService.getNowPlaying).mockReturnValue(undefined);
+    it('shows the track embed for a single attachment', async () => {
       const interaction = createMockInteraction();
 
-      await commands.nowPlaying([interaction]);
+      await commands.playInVoice(
+        [asContextMenu(interaction)],
+        createMessage(createAttachment('one.mp3', 'audio/mpeg')),
+      );
+
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        embeds: [expect.any(EmbedBuilder)],
+      });
+    });
+
+    it('replies when the message has no audio attachments', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.playInVoice(
+        [asContextMenu(interaction)],
+        createMessage(createAttachment('cover.png', 'image/png')),
+      );
 
       expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'Nothing is currently playing.',
+        content: 'That message has no audio attachments.',
         flags: MessageFlags.Ephemeral,
       });
+      expect(musicService.play).not.toHaveBeenCalled();
     });
   });
 
-  describe('queue', () => {
+  describe('playNext', () => {
     it('returns error when not in a guild', async () => {
       const interaction = createMockInteraction({ guildId: null });
 
-      await commands.queue([interaction]);
+      await commands.playNext([interaction], { query: 'test' });
 
       expect(interaction.reply).toHaveBeenCalledWith({
         content: 'This command can only be used in a server.',
@@ -468,109 +764,110 @@ describe('MusicCommands', () => {
       });
     });
 
-    it('returns error when queue is empty', async () => {
-      vi.mocked(musicService.getQueue).mockReturnValue([]);
-      const interaction = createMockInteraction();
+    it('returns error when user not in voice channel', async () => {
+      const interaction = createMockInteraction({ inVoiceChannel: false });
 
-      await commands.queue([interaction]);
+      await commands.playNext([interaction], { query: 'test' });
 
+      expect(musicService.playNext).not.toHaveBeenCalled();
       expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'The queue is empty.',
+        content: 'You must be in a voice channel to use this command.',
         flags: MessageFlags.Ephemeral,
       });
     });
 
-    it('shows queue with current track and upcoming', async () => {
-      vi.mocked(musicService.getQueue).mockReturnValue([
-        mockTrack,
-        { ...mockTrack, title: 'Track 2' },
-      ]);
-      vi.mocked(musicService.getNowPlaying).mockReturnValue(mockTrack);
-      vi.mocked(musicService.getUpcoming).mockReturnValue([
-        { ...mockTrack, title: 'Track 2' },
-      ]);
+    it('joins voice and queues the track to play next', async () => {
       const interaction = createMockInteraction();
 
-      await commands.queue([interaction]);
+      await commands.playNext([interaction], { query: 'never gonna' });
 
-      expect(interaction.reply).toHaveBeenCalledWith({
-        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
-      });
+      expect(voiceService.join).toHaveBeenCalled();
+      expect(musicService.playNext).toHaveBeenCalledWith(
+        'guild-123',
+        'never gonna',
+        requester,
+      );
+      expect(musicService.setupAutoPlay).toHaveBeenCalledWith('guild-123');
+      const { embeds } = vi.mocked(interaction.editReply).mock
+        .calls[0]?.[0] as { embeds: EmbedBuilder[] };
+      expect(embeds[0]?.data.title).toBe('Playing Next');
+      expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
     });
 
-    it('shows queue with more than 10 upcoming tracks', async () => {
-      const tracks = Array.from({ length: 15 }, (_, i) => ({
-        ...mockTrack,
-        title: `Track ${String(i + 1)}`,
-      }));
-      vi.mocked(musicService.getQueue).mockReturnValue(tracks);
-      vi.mocked(musicService.getNowPlaying).mockReturnValue(tracks[0]);
-      vi.mocked(musicService.getUpcoming).mockReturnValue(tracks.slice(1));
+    it('reports errors', async () => {
+      vi.mocked(musicService.playNext).mockRejectedValue(
+        new Error('No results found'),
+      );
       const interaction = createMockInteraction();
 
-      await commands.queue([interaction]);
+      await commands.playNext([interaction], { query: 'asdf' });
 
-      expect(interaction.reply).toHaveBeenCalledWith({
-        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'Failed to play: No results found',
       });
     });
+  });
 
-    it('shows queue without current track', async () => {
-      vi.mocked(musicService.getQueue).mockReturnValue([mockTrack]);
-      vi.mocked(musicService.getNowPlaying).mockReturnValue(undefined);
-      vi.mocked(musicService.getUpcoming).mockReturnValue([]);
-      const interaction = createMockInteraction();
+  describe('skipTo', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
 
-      await commands.queue([interaction]);
+      await commands.skipTo([interaction], { position: 2 });
 
       expect(interaction.reply).toHaveBeenCalledWith({
-        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
       });
     });
-  });
 
-  describe('clear', () => {
-    it('returns error when not in a guild', async () => {
-      const interaction = createMockInteraction({ guildId: null });
+    it('refuses a listener who would need a vote', async () => {
+      vi.mocked(voteSkip.canSkipWithoutVote).mockReturnValue(false);
+      const interaction = createMockInteraction();
 
-      await commands.clear([interaction]);
+      await commands.skipTo([interaction], { position: 3 });
 
+      expect(musicService.skipTo).not.toHaveBeenCalled();
       expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'This command can only be used in a server.',
+        content: VOTE_REQUIRED_MESSAGE,
         flags: MessageFlags.Ephemeral,
       });
     });
 
-    it('clears the queue', async () => {
-      vi.mocked(musicService.clearQueue).mockReturnValue(true);
+    it('jumps to the track at the given position', async () => {
+      vi.mocked(musicService.skipTo).mockReturnValue(mockTrack);
       const interaction = createMockInteraction();
 
-      await commands.clear([interaction]);
+      await commands.skipTo([interaction], { position: 3 });
 
-      expect(musicService.clearQueue).toHaveBeenCalledWith('guild-123');
+      expect(musicService.skipTo).toHaveBeenCalledWith('guild-123', 2);
       expect(interaction.reply).toHaveBeenCalledWith({
-        content: '🗑️ Queue cleared.',
+        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
       });
+      expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
     });
 
-    it('returns error when queue already empty', async () => {
-      vi.mocked(musicService.clearQueue).mockReturnValue(false);
+    it('returns error when skipping fails', async () => {
       const interaction = createMockInteraction();
 
-      await commands.clear([interaction]);
+      await commands.skipTo([interaction], { position: 1 });
 
       expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'The queue is already empty.',
+        content:
+          'Could not skip to track. Invalid position or currently playing.',
         flags: MessageFlags.Ephemeral,
       });
     });
   });
 
-  describe('shuffle', () => {
+  describe('skip', () => {
     it('returns error when not in a guild', async () => {
       const interaction = createMockInteraction({ guildId: null });
 
-      await commands.shuffle([interaction]);
+      await commands.skip([interaction]);
 
       expect(interaction.reply).toHaveBeenCalledWith({
         content: 'This command can only be used in a server.',
@@ -578,36 +875,418 @@ describe('MusicCommands', () => {
       });
     });
 
-    it('shuffles the queue', async () => {
-      vi.mocked(musicService.shuffle).mockReturnValue(true);
+    it('shows next track when skip succeeds', async () => {
+      vi.mocked(musicService.skip).mockReturnValue(mockTrack);
       const interaction = createMockInteraction();
 
-      await commands.shuffle([interaction]);
+      await commands.skip([interaction]);
 
-      expect(musicService.shuffle).toHaveBeenCalledWith('guild-123');
+      expect(musicService.skip).toHaveBeenCalledWith('guild-123');
       expect(interaction.reply).toHaveBeenCalledWith({
-        content: '🔀 Queue shuffled.',
+        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
       });
     });
 
-    it('returns error when not enough tracks', async () => {
-      vi.mocked(musicService.shuffle).mockReturnValue(false);
+    it('shows message when no more tracks', async () => {
+      vi.mocked(musicService.skip).mockReturnValue(undefined);
       const interaction = createMockInteraction();
 
-      await commands.shuffle([interaction]);
+      await commands.skip([interaction]);
 
       expect(interaction.reply).toHaveBeenCalledWith({
-        content: 'Not enough tracks to shuffle.',
-        flags: MessageFlags.Ephemeral,
+        content: 'Skipped. No more tracks in queue.',
       });
     });
-  });
 
-  describe('loop', () => {
-    it('returns error when not in a guild', async () => {
-      const interaction = createMockInteraction({ guildId: null });
+    it('records a vote and refreshes the tally', async () => {
+      vi.mocked(voteSkip.requestSkip).mockReturnValue({
+        status: 'voted',
+        votes: 1,
+        required: 3,
+      });
+      const interaction = createMockInteraction();
 
-      await commands.loop([interaction]);
+      await commands.skip([interaction]);
+
+      expect(musicService.skip).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: '🗳️ Voted to skip (**1/3**)',
+      });
+      expect(nowPlayingService.updateNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+    });
+
+    it('rejects votes from outside the voice channel', async () => {
+      vi.mocked(voteSkip.requestSkip).mockReturnValue({
+        status: 'not-listening',
+      });
+      const interaction = createMockInteraction();
+
+      await commands.skip([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'You must be listening in the voice channel to skip.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('forceSkip', () => {
+    it('skips without a vote', async () => {
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(mockTrack);
+      vi.mocked(musicService.skip).mockReturnValue(mockTrack);
+      const interaction = createMockInteraction();
+
+      await commands.forceSkip([interaction]);
+
+      expect(musicService.skip).toHaveBeenCalledWith('guild-123');
+      expect(voteSkip.requestSkip).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
+      });
+    });
+
+    it('skips for an admin who is not in voice', async () => {
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(mockTrack);
+      vi.mocked(musicService.skip).mockReturnValue(mockTrack);
+      const interaction = createMockInteraction({ inVoiceChannel: false });
+
+      await commands.forceSkip([interaction]);
+
+      expect(musicService.skip).toHaveBeenCalledWith('guild-123');
+      expect(interaction.reply).toHaveBeenCalledWith({
+        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
+      });
+    });
+
+    it('refuses when nothing is playing', async () => {
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(undefined);
+      const interaction = createMockInteraction();
+
+      await commands.forceSkip([interaction]);
+
+      expect(musicService.skip).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Nothing is playing.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('stop', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.stop([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('stops playback when something is playing', async () => {
+      vi.mocked(musicService.stop).mockReturnValue(true);
+      const interaction = createMockInteraction();
+
+      await commands.stop([interaction]);
+
+      expect(musicService.stop).toHaveBeenCalledWith('guild-123');
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Stopped playback and cleared the queue.',
+      });
+    });
+
+    it('returns error when nothing is playing', async () => {
+      vi.mocked(musicService.stop).mockReturnValue(false);
+      const interaction = createMockInteraction();
+
+      await commands.stop([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Nothing is playing.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('pause', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.pause([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('pauses playback', async () => {
+      vi.mocked(musicService.pause).mockReturnValue(true);
+      const interaction = createMockInteraction();
+
+      await commands.pause([interaction]);
+
+      expect(musicService.pause).toHaveBeenCalledWith('guild-123');
+      expect(interaction.reply).toHaveBeenCalledWith({ content: '⏸️ Paused.' });
+    });
+
+    it('returns error when nothing to pause', async () => {
+      vi.mocked(musicService.pause).mockReturnValue(false);
+      const interaction = createMockInteraction();
+
+      await commands.pause([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Nothing is playing or already paused.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('resume', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.resume([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('resumes playback', async () => {
+      vi.mocked(musicService.resume).mockReturnValue(true);
+      const interaction = createMockInteraction();
+
+      await commands.resume([interaction]);
+
+      expect(musicService.resume).toHaveBeenCalledWith('guild-123');
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: '▶️ Resumed.',
+      });
+    });
+
+    it('returns error when nothing to resume', async () => {
+      vi.mocked(musicService.resume).mockReturnValue(false);
+      const interaction = createMockInteraction();
+
+      await commands.resume([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Nothing to resume.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('nowPlaying', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.nowPlaying([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('shows current track', async () => {
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(mockTrack);
+      const interaction = createMockInteraction();
+
+      await commands.nowPlaying([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        embeds: expect.arrayContaining([expect.any(EmbedBuilder)]),
+      });
+    });
+
+    it('returns error when nothing is playing', async () => {
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(undefined);
+      const interaction = createMockInteraction();
+
+      await commands.nowPlaying([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Nothing is currently playing.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('queue', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.queue([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('returns error when queue is empty', async () => {
+      vi.mocked(musicService.getQueue).mockReturnValue([]);
+      const interaction = createMockInteraction();
+
+      await commands.queue([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'The queue is empty.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('opens the queue view on the now playing page', async () => {
+      const tracks = Array.from({ length: 15 }, (_, i) => ({
+        ...mockTrack,
+        title: `Track ${String(i + 1)}`,
+      }));
+      vi.mocked(musicService.getQueue).mockReturnValue(tracks);
+      vi.mocked(queueView.getNowPlayingPage).mockReturnValue(1);
+      const components = [new ContainerBuilder()];
+      vi.mocked(queueView.build).mockReturnValue(components);
+      const interaction = createMockInteraction();
+
+      await commands.queue([interaction]);
+
+      expect(queueView.build).toHaveBeenCalledWith('guild-123', 1);
+      expect(interaction.reply).toHaveBeenCalledWith({
+        components,
+        flags: [MessageFlags.IsComponentsV2],
+      });
+    });
+  });
+
+  describe('history', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.history([interaction], {});
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('shows the first page by default', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.history([interaction], {});
+
+      expect(historyView.build).toHaveBeenCalledWith('guild-123', 0);
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        components: ['history'],
+        flags: [MessageFlags.IsComponentsV2],
+      });
+    });
+
+    it('shows the requested page', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.history([interaction], { page: 3 });
+
+      expect(historyView.build).toHaveBeenCalledWith('guild-123', 2);
+    });
+
+    it('handles history errors gracefully', async () => {
+      vi.mocked(historyView.build).mockRejectedValue(new Error('locked'));
+      const interaction = createMockInteraction();
+
+      await commands.history([interaction], {});
+
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'Failed to load the play history.',
+      });
+    });
+  });
+
+  describe('clear', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.clear([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('clears the queue', async () => {
+      vi.mocked(musicService.clearQueue).mockReturnValue(true);
+      const interaction = createMockInteraction();
+
+      await commands.clear([interaction]);
+
+      expect(musicService.clearQueue).toHaveBeenCalledWith('guild-123');
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: '🗑️ Queue cleared.',
+      });
+    });
+
+    it('returns error when queue already empty', async () => {
+      vi.mocked(musicService.clearQueue).mockReturnValue(false);
+      const interaction = createMockInteraction();
+
+      await commands.clear([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'The queue is already empty.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('shuffle', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.shuffle([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('shuffles the queue', async () => {
+      vi.mocked(musicService.shuffle).mockReturnValue(true);
+      const interaction = createMockInteraction();
+
+      await commands.shuffle([interaction]);
+
+      expect(musicService.shuffle).toHaveBeenCalledWith('guild-123');
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: '🔀 Queue shuffled.',
+      });
+    });
+
+    it('returns error when not enough tracks', async () => {
+      vi.mocked(musicService.shuffle).mockReturnValue(false);
+      const interaction = createMockInteraction();
+
+      await commands.shuffle([interaction]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Not enough tracks to shuffle.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('loop', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.loop([interaction]);
 
       expect(interaction.reply).toHaveBeenCalledWith({
         content: 'This command can only be used in a server.',
@@ -650,6 +1329,46 @@ describe('MusicCommands', () => {
     });
   });
 
+  describe('autoplay', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.autoplay([interaction], {});
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('toggles autoplay when no value is given', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.autoplay([interaction], {});
+
+      expect(musicService.setAutoplay).toHaveBeenCalledWith('guild-123', true);
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content:
+          '📻 Autoplay **enabled**. Related tracks will play when the queue runs out.',
+      });
+      expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+    });
+
+    it('sets autoplay explicitly', async () => {
+      vi.mocked(musicService.isAutoplayEnabled).mockReturnValue(true);
+      const interaction = createMockInteraction();
+
+      await commands.autoplay([interaction], { enabled: false });
+
+      expect(musicService.setAutoplay).toHaveBeenCalledWith('guild-123', false);
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: '📻 Autoplay **disabled**.',
+      });
+    });
+  });
+
   describe('volume', () => {
     it('returns error when not in a guild', async () => {
       const interaction = createMockInteraction({ guildId: null });
@@ -767,6 +1486,246 @@ describe('MusicCommands', () => {
     });
   });
 
+  describe('seek', () => {
+    beforeEach(() => {
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(mockTrack);
+      vi.mocked(musicService.isPlaying).mockReturnValue(true);
+    });
+
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.seek([interaction], { position: '1:23' });
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('returns error when nothing is playing', async () => {
+      vi.mocked(musicService.isPlaying).mockReturnValue(false);
+      const interaction = createMockInteraction();
+
+      await commands.seek([interaction], { position: '1:23' });
+
+      expect(musicService.seek).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Nothing is playing.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it.each([
+      ['1:23', 83_000],
+      ['83', 83_000],
+      ['0:05', 5_000],
+      ['+15', 75_000],
+      ['-30', 30_000],
+      ['-90', 0],
+      ['1:00:00', 3_600_000],
+    ])('seeks to %s as %ims', async (position, expectedMs) => {
+      vi.mocked(musicService.getNowPlaying).mockReturnValue({
+        ...mockTrack,
+        duration: 7200,
+      });
+      const interaction = createMockInteraction();
+
+      await commands.seek([interaction], { position });
+
+      expect(musicService.seek).toHaveBeenCalledWith('guild-123', expectedMs);
+    });
+
+    it('replies with the new position', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.seek([interaction], { position: '1:23' });
+
+      expect(interaction.deferReply).toHaveBeenCalled();
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: '⏩ Seeked to **1:23** / 3:00',
+      });
+    });
+
+    it.each(['abc', '1:75', '1:2:3:4', '+', ''])(
+      'rejects invalid position %j',
+      async (position) => {
+        const interaction = createMockInteraction();
+
+        await commands.seek([interaction], { position });
+
+        expect(musicService.seek).not.toHaveBeenCalled();
+        expect(interaction.reply).toHaveBeenCalledWith({
+          content:
+            'Invalid position. Use a timestamp like `1:23`, seconds like `83`, or an offset like `+15` / `-30`.',
+          flags: MessageFlags.Ephemeral,
+        });
+      },
+    );
+
+    it('rejects positions past the end of the track', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.seek([interaction], { position: '3:00' });
+
+      expect(musicService.seek).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'That position is past the end of the track (3:00).',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('replies with error when seeking fails', async () => {
+      vi.mocked(musicService.seek).mockRejectedValueOnce(
+        new Error('SABR stream failed'),
+      );
+      const interaction = createMockInteraction();
+
+      await commands.seek([interaction], { position: '1:23' });
+
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'Failed to seek: SABR stream failed',
+      });
+    });
+
+    it('replies that nothing is playing when playback stopped meanwhile', async () => {
+      vi.mocked(musicService.seek).mockResolvedValueOnce(undefined);
+      const interaction = createMockInteraction();
+
+      await commands.seek([interaction], { position: '1:23' });
+
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'Nothing is playing.',
+      });
+    });
+  });
+
+  describe('filter', () => {
+    it('shows the filter picker', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.filter([interaction], {});
+
+      expect(musicService.setFilters).not.toHaveBeenCalled();
+      expect(filterView.build).toHaveBeenCalledWith('guild-123');
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        components: ['filters'],
+        flags: [MessageFlags.IsComponentsV2],
+      });
+    });
+
+    it('applies equalizer bands and keeps the presets', async () => {
+      vi.mocked(musicService.getFilters).mockReturnValue({
+        presets: ['bassboost'],
+        equalizer: [],
+      });
+      const interaction = createMockInteraction();
+
+      await commands.filter([interaction], { equalizer: '60:6 1k:-3' });
+
+      expect(musicService.setFilters).toHaveBeenCalledWith('guild-123', {
+        presets: ['bassboost'],
+        equalizer: [
+          { frequency: 60, gain: 6 },
+          { frequency: 1000, gain: -3 },
+        ],
+      });
+      expect(nowPlayingService.updateNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+    });
+
+    it('clears the equalizer with "off"', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.filter([interaction], { equalizer: 'off' });
+
+      expect(musicService.setFilters).toHaveBeenCalledWith('guild-123', {
+        presets: [],
+        equalizer: [],
+      });
+    });
+
+    it('rejects invalid equalizer bands', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.filter([interaction], { equalizer: 'loud' });
+
+      expect(musicService.setFilters).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content:
+          'Invalid equalizer band "loud". Use frequency:gain, e.g. 60:6.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('speed', () => {
+    it('changes the speed and keeps the other filters', async () => {
+      vi.mocked(musicService.getFilters).mockReturnValue({
+        presets: ['bassboost'],
+        equalizer: [],
+        pitch: 2,
+      });
+      const interaction = createMockInteraction();
+
+      await commands.speed([interaction], { factor: 1.25 });
+
+      expect(musicService.setFilters).toHaveBeenCalledWith('guild-123', {
+        presets: ['bassboost'],
+        equalizer: [],
+        pitch: 2,
+        speed: 1.25,
+      });
+      expect(nowPlayingService.updateNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: '⏩ Playback speed set to **1.25×**',
+      });
+    });
+
+    it('reports stream errors', async () => {
+      vi.mocked(musicService.setFilters).mockRejectedValueOnce(
+        new Error('SABR stream failed'),
+      );
+      const interaction = createMockInteraction();
+
+      await commands.speed([interaction], { factor: 0.5 });
+
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: 'Failed to set speed: SABR stream failed',
+      });
+    });
+  });
+
+  describe('pitch', () => {
+    it('shifts the pitch', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.pitch([interaction], { semitones: -3 });
+
+      expect(musicService.setFilters).toHaveBeenCalledWith('guild-123', {
+        presets: [],
+        equalizer: [],
+        pitch: -3,
+      });
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: '🎼 Pitch shifted by **-3 semitones**',
+      });
+    });
+
+    it('resets the pitch with 0', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.pitch([interaction], { semitones: 0 });
+
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        content: '🎼 Pitch reset',
+      });
+    });
+  });
+
   describe('remove', () => {
     it('returns error when not in a guild', async () => {
       const interaction = createMockInteraction({ guildId: null });
@@ -805,6 +1764,85 @@ describe('MusicCommands', () => {
     });
   });
 
+  describe('move', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.move([interaction], { from: 1, to: 2 });
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('moves the track', async () => {
+      vi.mocked(musicService.move).mockReturnValue(mockTrack);
+      const interaction = createMockInteraction();
+
+      await commands.move([interaction], { from: 4, to: 2 });
+
+      expect(musicService.move).toHaveBeenCalledWith('guild-123', 3, 1);
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: '↕️ Moved **Test Video** to position 2.',
+      });
+      expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+    });
+
+    it('returns error when move fails', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.move([interaction], { from: 9, to: 1 });
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Could not move track. Invalid position.',
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(nowPlayingService.sendNowPlaying).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('swap', () => {
+    it('returns error when not in a guild', async () => {
+      const interaction = createMockInteraction({ guildId: null });
+
+      await commands.swap([interaction], { first: 1, second: 2 });
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('swaps the tracks', async () => {
+      vi.mocked(musicService.swap).mockReturnValue([
+        mockTrack,
+        { ...mockTrack, title: 'Other Video' },
+      ]);
+      const interaction = createMockInteraction();
+
+      await commands.swap([interaction], { first: 2, second: 5 });
+
+      expect(musicService.swap).toHaveBeenCalledWith('guild-123', 1, 4);
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: '🔁 Swapped **Test Video** and **Other Video**.',
+      });
+    });
+
+    it('returns error when swap fails', async () => {
+      const interaction = createMockInteraction();
+
+      await commands.swap([interaction], { first: 2, second: 2 });
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'Could not swap tracks. Invalid positions.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
   describe('disconnect', () => {
     it('returns error when not in a guild', async () => {
       const interaction = createMockInteraction({ guildId: null });
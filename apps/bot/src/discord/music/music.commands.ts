@@ -1,29 +1,117 @@
-import { Injectable, Logger } from '@nestjs/common';
-import { EmbedBuilder, MessageFlags } from 'discord.js';
+import { Injectable, Logger, UseInterceptors } from '@nestjs/common';
+import { regex } from 'arkregex';
 import {
+  EmbedBuilder,
+  MessageFlags,
+  type Attachment,
+  type Message,
+} from 'discord.js';
+import {
+  AttachmentOption,
+  BooleanOption,
   Context,
+  MessageCommand,
   Options,
   createCommandGroupDecorator,
   SlashCommand,
   StringOption,
   IntegerOption,
   NumberOption,
+  TargetMessage,
+  type MessageCommandContext,
   type SlashCommandContext,
 } from 'necord';
+import { RequireRole } from '../authorization/require-role.decorator';
+import { Role } from '../authorization/role.enum';
 import { VoiceService } from '../voice/voice.service';
-import { LoopMode, type Track } from './music-queue';
+import {
+  formatDuration,
+  isLiveTrack,
+  LoopMode,
+  type Track,
+} from './music-queue';
+import {
+  type EqualizerBand,
+  formatSemitones,
+  MAX_PITCH_SEMITONES,
+  MAX_SPEED,
+  MIN_SPEED,
+  parseEqualizerBands,
+} from './audio-filters';
+import { FilterViewService } from './filter-view.service';
+import { HistoryViewService } from './history-view.service';
 import { MusicService } from './music.service';
 import { NowPlayingService } from './now-playing.service';
+import { PlayQueryAutocompleteInterceptor } from './play-autocomplete.interceptor';
+import type { PlaylistInfo } from './providers/music-provider.interface';
+import { QueueViewService } from './queue-view.service';
+import { SearchPickerService } from './search-picker.service';
+import { VOTE_REQUIRED_MESSAGE, VoteSkipService } from './vote-skip.service';
+
+const DEFAULT_SEARCH_RESULTS = 5;
+const MAX_SEARCH_RESULTS = 10;
 
 class PlayDto {
   @StringOption({
     name: 'query',
-    description: 'YouTube URL or search query',
+    description: 'Link to a song, playlist or stream, or a search query',
+    required: false,
+    autocomplete: true,
+  })
+  query?: string;
+
+  @AttachmentOption({
+    name: 'file',
+    description: 'An audio file to play instead of a query',
+    required: false,
+  })
+  file?: Attachment;
+
+  @BooleanOption({
+    name: 'shuffle',
+    description: 'Shuffle the tracks when adding a playlist',
+    required: false,
+  })
+  shuffle?: boolean;
+
+  @StringOption({
+    name: 'source',
+    description: 'Service to search when the query is not a link',
+    required: false,
+    autocomplete: true,
+  })
+  source?: string;
+}
+
+class PlayNextDto {
+  @StringOption({
+    name: 'query',
+    description: 'Link to a song, playlist or stream, or a search query',
     required: true,
+    autocomplete: true,
   })
   query!: string;
 }
 
+class AutoplayDto {
+  @BooleanOption({
+    name: 'enabled',
+    description: 'Turn autoplay on or off (toggles when omitted)',
+    required: false,
+  })
+  enabled?: boolean;
+}
+
+class HistoryDto {
+  @IntegerOption({
+    name: 'page',
+    description: 'Page of the history to show (1 is the most recent)',
+    required: false,
+    min_value: 1,
+  })
+  page?: number;
+}
+
 class RemoveDto {
   @IntegerOption({
     name: 'position',
@@ -34,6 +122,52 @@ class RemoveDto {
   position!: number;
 }
 
+class MoveDto {
+  @IntegerOption({
+    name: 'from',
+    description: 'Current position of the track (1-based)',
+    required: true,
+    min_value: 1,
+  })
+  from!: number;
+
+  @IntegerOption({
+    name: 'to',
+    description: 'New position for the track (1-based)',
+    required: true,
+    min_value: 1,
+  })
+  to!: number;
+}
+
+class SwapDto {
+  @IntegerOption({
+    name: 'first',
+    description: 'Position of the first track (1-based)',
+    required: true,
+    min_value: 1,
+  })
+  first!: number;
+
+  @IntegerOption({
+    name: 'second',
+    description: 'Position of the second track (1-based)',
+    required: true,
+    min_value: 1,
+  })
+  second!: number;
+}
+
+class SkipToDto {
+  @IntegerOption({
+    name: 'position',
+    description: 'Position of the track to jump to (1-based)',
+    required: true,
+    min_value: 1,
+  })
+  position!: number;
+}
+
 class VolumeDto {
   @NumberOption({
     name: 'level',
@@ -45,6 +179,67 @@ class VolumeDto {
   level!: number;
 }
 
+class SeekDto {
+  @StringOption({
+    name: 'position',
+    description: 'Timestamp (1:23 or 83) or relative offset (+15 or -30)',
+    required: true,
+  })
+  position!: string;
+}
+
+class FilterDto {
+  @StringOption({
+    name: 'equalizer',
+    description:
+      'Equalizer bands as frequency:gain pairs (e.g. 60:6 1k:-3), or "off"',
+    required: false,
+  })
+  equalizer?: string;
+}
+
+class SpeedDto {
+  @NumberOption({
+    name: 'factor',
+    description: `Playback speed (${String(MIN_SPEED)}-${String(MAX_SPEED)}, where 1 is normal)`,
+    required: true,
+    min_value: MIN_SPEED,
+    max_value: MAX_SPEED,
+  })
+  factor!: number;
+}
+
+class PitchDto {
+  @NumberOption({
+    name: 'semitones',
+    description: `Semitones to shift the pitch by (-${String(MAX_PITCH_SEMITONES)} to ${String(MAX_PITCH_SEMITONES)}, 0 resets)`,
+    required: true,
+    min_value: -MAX_PITCH_SEMITONES,
+    max_value: MAX_PITCH_SEMITONES,
+  })
+  semitones!: number;
+}
+
+class SearchDto {
+  @StringOption({
+    name: 'query',
+    description: 'What to search for',
+    required: true,
+  })
+  query!: string;
+
+  @IntegerOption({
+    name: 'results',
+    description: `Number of results to show (1-${String(MAX_SEARCH_RESULTS)}, default ${String(DEFAULT_SEARCH_RESULTS)})`,
+    required: false,
+    min_value: 1,
+    max_value: MAX_SEARCH_RESULTS,
+  })
+  results?: number;
+}
+
+const SEEK_POSITION_PATTERN = regex('^([+-])?(\\d+(?::\\d{1,2}){0,2})$');
+
 const MusicCommandDecorator = createCommandGroupDecorator({
   name: 'music',
   description: 'Music playback commands',
@@ -59,15 +254,21 @@ export class MusicCommands {
     private readonly musicService: MusicService,
     private readonly voiceService: VoiceService,
     private readonly nowPlayingService: NowPlayingService,
+    private readonly searchPicker: SearchPickerService,
+    private readonly historyView: HistoryViewService,
+    private readonly queueView: QueueViewService,
+    private readonly filterView: FilterViewService,
+    private readonly voteSkip: VoteSkipService,
   ) {}
 
+  @UseInterceptors(PlayQueryAutocompleteInterceptor)
   @SlashCommand({
     name: 'play',
-    description: 'Play a YouTube video or search for one',
+    description: 'Play a link or an audio file, or search for a track',
   })
   public async play(
     @Context() [interaction]: SlashCommandContext,
-    @Options() { query }: PlayDto,
+    @Options() { query: rawQuery, file, shuffle, source }: PlayDto,
   ) {
     const guildId = interaction.guildId;
     if (!guildId) {
@@ -77,6 +278,21 @@ export class MusicCommands {
       });
     }
 
+    if (file && !this.isAudioAttachment(file)) {
+      return interaction.reply({
+        content: "That file isn't an audio or video file.",
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const query = file?.url ?? rawQuery;
+    if (!query) {
+      return interaction.reply({
+        content: 'Provide a link, a search query or an audio file.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
     const member = interaction.guild?.members.cache.get(interaction.user.id);
     const voiceChannel = member?.voice.channel;
 
@@ -97,12 +313,18 @@ export class MusicCommands {
       this.nowPlayingService.setChannelForGuild(guildId, interaction.channelId);
 
       const isUrl = this.isValidUrl(query);
+      if (isUrl && this.musicService.isPlaylistUrl(query)) {
+        await this.playPlaylist(interaction, guildId, query, shuffle ?? false);
+        return;
+      }
+
       const track = isUrl
-        ? await this.musicService.play(guildId, query, interaction.user.tag)
+        ? await this.musicService.play(guildId, query, interaction.user)
         : await this.musicService.searchAndPlay(
             guildId,
             query,
-            interaction.user.tag,
+            interaction.user,
+            source,
           );
 
       this.musicService.setupAutoPlay(guildId);
@@ -119,11 +341,231 @@ export class MusicCommands {
     }
   }
 
+  @MessageCommand({ name: 'Play in voice' })
+  public async playInVoice(
+    @Context() [interaction]: MessageCommandContext,
+    @TargetMessage() message: Message,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const attachments = message.attachments.filter((attachment) =>
+      this.isAudioAttachment(attachment),
+    );
+    if (attachments.size === 0) {
+      return interaction.reply({
+        content: 'That message has no audio attachments.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const member = interaction.guild?.members.cache.get(interaction.user.id);
+    const voiceChannel = member?.voice.channel;
+
+    if (!voiceChannel) {
+      return interaction.reply({
+        content: 'You must be in a voice channel to use this command.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferReply();
+
+    try {
+      if (!this.voiceService.isConnected(guildId)) {
+        await this.voiceService.join(voiceChannel);
+      }
+
+      this.nowPlayingService.setChannelForGuild(guildId, interaction.channelId);
+
+      const tracks: Track[] = [];
+      for (const attachment of attachments.values()) {
+        tracks.push(
+          await this.musicService.play(
+            guildId,
+            attachment.url,
+            interaction.user,
+          ),
+        );
+      }
+
+      this.musicService.setupAutoPlay(guildId);
+
+      const [track] = tracks;
+      if (tracks.length === 1 && track) {
+        await interaction.editReply({
+          embeds: [this.createTrackEmbed(track, 'Added to Queue')],
+        });
+      } else {
+        await interaction.editReply({
+          content: `📎 Added **${String(tracks.length)}** files to the queue.`,
+        });
+      }
+      await this.nowPlayingService.sendNowPlaying(guildId);
+      return;
+    } catch (error) {
+      this.logger.error('Failed to play attachment', error);
+      return interaction.editReply({
+        content: `Failed to play: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+
+  @UseInterceptors(PlayQueryAutocompleteInterceptor)
+  @SlashCommand({
+    name: 'playnext',
+    description: 'Add a track to play right after the current one',
+  })
+  public async playNext(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { query }: PlayNextDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const member = interaction.guild?.members.cache.get(interaction.user.id);
+    const voiceChannel = member?.voice.channel;
+
+    if (!voiceChannel) {
+      return interaction.reply({
+        content: 'You must be in a voice channel to use this command.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferReply();
+
+    try {
+      if (!this.voiceService.isConnected(guildId)) {
+        await this.voiceService.join(voiceChannel);
+      }
+
+      this.nowPlayingService.setChannelForGuild(guildId, interaction.channelId);
+
+      const track = await this.musicService.playNext(
+        guildId,
+        query,
+        interaction.user,
+      );
+
+      this.musicService.setupAutoPlay(guildId);
+
+      const embed = this.createTrackEmbed(track, 'Playing Next');
+      await interaction.editReply({ embeds: [embed] });
+      await this.nowPlayingService.sendNowPlaying(guildId);
+      return;
+    } catch (error) {
+      this.logger.error('Failed to queue track to play next', error);
+      return interaction.editReply({
+        content: `Failed to play: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+
+  @SlashCommand({
+    name: 'search',
+    description: 'Search YouTube and pick tracks to add to the queue',
+  })
+  public async search(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { query, results }: SearchDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const member = interaction.guild?.members.cache.get(interaction.user.id);
+    if (!member?.voice.channel) {
+      return interaction.reply({
+        content: 'You must be in a voice channel to use this command.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferReply({ flags: MessageFlags.Ephemeral });
+
+    try {
+      const found = await this.musicService.searchMany(
+        query,
+        interaction.user,
+        results ?? DEFAULT_SEARCH_RESULTS,
+      );
+
+      if (found.length === 0) {
+        await interaction.editReply({
+          content: `No results found for **${query}**.`,
+        });
+        return;
+      }
+
+      await this.searchPicker.open(interaction, guildId, found);
+      return;
+    } catch (error) {
+      this.logger.error('Failed to search', error);
+      return interaction.editReply({
+        content: `Failed to search: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+
   @SlashCommand({
     name: 'skip',
     description: 'Skip the current track',
   })
   public async skip(@Context() [interaction]: SlashCommandContext) {
+    return this.requestSkip(interaction);
+  }
+
+  @RequireRole(Role.Admin)
+  @SlashCommand({
+    name: 'forceskip',
+    description: 'Skip the current track without a vote',
+  })
+  public async forceSkip(@Context() [interaction]: SlashCommandContext) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    if (!this.musicService.getNowPlaying(guildId)) {
+      return interaction.reply({
+        content: 'Nothing is playing.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    return this.replySkipped(
+      interaction,
+      guildId,
+      this.musicService.skip(guildId),
+    );
+  }
+
+  @SlashCommand({
+    name: 'skipto',
+    description: 'Jump to a track in the queue',
+  })
+  public async skipTo(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { position }: SkipToDto,
+  ) {
     const guildId = interaction.guildId;
     if (!guildId) {
       return interaction.reply({
@@ -132,17 +574,73 @@ export class MusicCommands {
       });
     }
 
-    const nextTrack = this.musicService.skip(guildId);
+    if (!this.canChangeTrack(interaction, guildId)) {
+      return interaction.reply({
+        content: VOTE_REQUIRED_MESSAGE,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const track = this.musicService.skipTo(guildId, position - 1);
 
-    if (nextTrack) {
-      const embed = this.createTrackEmbed(nextTrack, 'Now Playing');
-      await interaction.reply({ embeds: [embed] });
+    if (!track) {
+      return interaction.reply({
+        content:
+          'Could not skip to track. Invalid position or currently playing.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const embed = this.createTrackEmbed(track, 'Now Playing');
+    await interaction.reply({ embeds: [embed] });
+    await this.nowPlayingService.sendNowPlaying(guildId);
+    return;
+  }
+
+  @SlashCommand({
+    name: 'previous',
+    description: 'Restart the current track or go back to the previous one',
+  })
+  public async previous(@Context() [interaction]: SlashCommandContext) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    if (!this.canChangeTrack(interaction, guildId)) {
+      return interaction.reply({
+        content: VOTE_REQUIRED_MESSAGE,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferReply();
+
+    try {
+      const result = await this.musicService.previous(guildId);
+      if (!result) {
+        await interaction.editReply({
+          content: 'There is no previous track.',
+        });
+        return;
+      }
+
+      const embed = this.createTrackEmbed(
+        result.track,
+        result.restarted ? 'Restarted' : 'Now Playing',
+      );
+      await interaction.editReply({ embeds: [embed] });
       await this.nowPlayingService.sendNowPlaying(guildId);
       return;
+    } catch (error) {
+      this.logger.error('Failed to play previous track', error);
+      return interaction.editReply({
+        content: `Failed to play: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
     }
-
-    await this.nowPlayingService.deleteNowPlaying(guildId);
-    return interaction.reply({ content: 'Skipped. No more tracks in queue.' });
   }
 
   @SlashCommand({
@@ -266,52 +764,52 @@ export class MusicCommands {
       });
     }
 
-    const queue = this.musicService.getQueue(guildId);
-    const currentTrack = this.musicService.getNowPlaying(guildId);
-    const loopMode = this.musicService.getLoopMode(guildId);
-
-    if (queue.length === 0) {
+    if (this.musicService.getQueue(guildId).length === 0) {
       return interaction.reply({
         content: 'The queue is empty.',
         flags: MessageFlags.Ephemeral,
       });
     }
 
-    const embed = new EmbedBuilder()
-      .setTitle('🎵 Music Queue')
-      .setColor(0x5865f2);
+    return interaction.reply({
+      components: this.queueView.build(
+        guildId,
+        this.queueView.getNowPlayingPage(guildId),
+      ),
+      flags: [MessageFlags.IsComponentsV2],
+    });
+  }
 
-    if (currentTrack) {
-      embed.addFields({
-        name: '▶️ Now Playing',
-        value: `**${currentTrack.title}** (${this.formatDuration(currentTrack.duration)})`,
+  @SlashCommand({
+    name: 'history',
+    description: 'Show recently played tracks',
+  })
+  public async history(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { page }: HistoryDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
       });
     }
 
-    const upcoming = this.musicService.getUpcoming(guildId);
-    if (upcoming.length > 0) {
-      const upcomingList = upcoming
-        .slice(0, 10)
-        .map(
-          (track, i) =>
-            `${String(i + 1)}. **${track.title}** (${this.formatDuration(track.duration)})`,
-        )
-        .join('\n');
+    await interaction.deferReply();
 
-      embed.addFields({
-        name: `📋 Up Next (${String(upcoming.length)} tracks)`,
-        value:
-          upcomingList +
-          (upcoming.length > 10
-            ? `\n... and ${String(upcoming.length - 10)} more`
-            : ''),
+    try {
+      await interaction.editReply({
+        components: await this.historyView.build(guildId, (page ?? 1) - 1),
+        flags: [MessageFlags.IsComponentsV2],
+      });
+      return;
+    } catch (error) {
+      this.logger.error('Failed to load play history', error);
+      return interaction.editReply({
+        content: 'Failed to load the play history.',
       });
     }
-
-    const loopEmoji = this.getLoopModeEmoji(loopMode);
-    embed.setFooter({ text: `Loop: ${loopEmoji} ${loopMode}` });
-
-    return interaction.reply({ embeds: [embed] });
   }
 
   @SlashCommand({
@@ -387,6 +885,36 @@ export class MusicCommands {
     return;
   }
 
+  @SlashCommand({
+    name: 'autoplay',
+    description: 'Keep playing related tracks when the queue runs out',
+  })
+  public async autoplay(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { enabled }: AutoplayDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const isEnabled = this.musicService.setAutoplay(
+      guildId,
+      enabled ?? !this.musicService.isAutoplayEnabled(guildId),
+    );
+
+    await interaction.reply({
+      content: isEnabled
+        ? '📻 Autoplay **enabled**. Related tracks will play when the queue runs out.'
+        : '📻 Autoplay **disabled**.',
+    });
+    await this.nowPlayingService.sendNowPlaying(guildId);
+    return;
+  }
+
   @SlashCommand({
     name: 'volume',
     description: 'Set the playback volume (0-200)',
@@ -431,6 +959,210 @@ export class MusicCommands {
     }
   }
 
+  @SlashCommand({
+    name: 'seek',
+    description: 'Jump to a position in the current track',
+  })
+  public async seek(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { position }: SeekDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const track = this.musicService.getNowPlaying(guildId);
+    if (
+      !track ||
+      (!this.musicService.isPlaying(guildId) &&
+        !this.musicService.isPaused(guildId))
+    ) {
+      return interaction.reply({
+        content: 'Nothing is playing.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    if (isLiveTrack(track)) {
+      return interaction.reply({
+        content: "Live streams can't be seeked.",
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const targetMs = this.parseSeekPosition(
+      position,
+      this.musicService.getPosition(guildId),
+    );
+    if (targetMs === undefined) {
+      return interaction.reply({
+        content:
+          'Invalid position. Use a timestamp like `1:23`, seconds like `83`, or an offset like `+15` / `-30`.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    if (track.duration > 0 && targetMs >= track.duration * 1000) {
+      return interaction.reply({
+        content: `That position is past the end of the track (${formatDuration(track.duration)}).`,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferReply();
+
+    try {
+      const seekedMs = await this.musicService.seek(guildId, targetMs);
+      if (seekedMs === undefined) {
+        await interaction.editReply({ content: 'Nothing is playing.' });
+        return;
+      }
+
+      await interaction.editReply({
+        content: `⏩ Seeked to **${formatDuration(Math.floor(seekedMs / 1000))}** / ${formatDuration(track.duration)}`,
+      });
+      return;
+    } catch (error) {
+      this.logger.error('Failed to seek', error);
+      return interaction.editReply({
+        content: `Failed to seek: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+
+  @SlashCommand({
+    name: 'filter',
+    description: 'Apply audio filters and equalizer bands',
+  })
+  public async filter(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { equalizer }: FilterDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    let bands: EqualizerBand[] | undefined;
+    if (equalizer !== undefined) {
+      try {
+        bands =
+          equalizer.trim().toLowerCase() === 'off'
+            ? []
+            : parseEqualizerBands(equalizer);
+      } catch (error) {
+        return interaction.reply({
+          content: error instanceof Error ? error.message : 'Invalid equalizer',
+          flags: MessageFlags.Ephemeral,
+        });
+      }
+    }
+
+    await interaction.deferReply();
+
+    if (bands) {
+      try {
+        await this.musicService.setFilters(guildId, {
+          ...this.musicService.getFilters(guildId),
+          equalizer: bands,
+        });
+        await this.nowPlayingService.updateNowPlaying(guildId);
+      } catch (error) {
+        this.logger.error('Failed to apply equalizer', error);
+        return interaction.editReply({
+          content: `Failed to apply filters: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        });
+      }
+    }
+
+    return interaction.editReply({
+      components: this.filterView.build(guildId),
+      flags: [MessageFlags.IsComponentsV2],
+    });
+  }
+
+  @SlashCommand({
+    name: 'speed',
+    description: 'Change the playback speed',
+  })
+  public async speed(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { factor }: SpeedDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferReply();
+
+    try {
+      await this.musicService.setFilters(guildId, {
+        ...this.musicService.getFilters(guildId),
+        speed: factor,
+      });
+      await this.nowPlayingService.updateNowPlaying(guildId);
+      await interaction.editReply({
+        content: `⏩ Playback speed set to **${String(factor)}×**`,
+      });
+      return;
+    } catch (error) {
+      this.logger.error('Failed to set playback speed', error);
+      return interaction.editReply({
+        content: `Failed to set speed: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+
+  @SlashCommand({
+    name: 'pitch',
+    description: 'Shift the pitch without changing the speed',
+  })
+  public async pitch(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { semitones }: PitchDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferReply();
+
+    try {
+      await this.musicService.setFilters(guildId, {
+        ...this.musicService.getFilters(guildId),
+        pitch: semitones,
+      });
+      await this.nowPlayingService.updateNowPlaying(guildId);
+      await interaction.editReply({
+        content:
+          semitones === 0
+            ? '🎼 Pitch reset'
+            : `🎼 Pitch shifted by **${formatSemitones(semitones)}**`,
+      });
+      return;
+    } catch (error) {
+      this.logger.error('Failed to set pitch', error);
+      return interaction.editReply({
+        content: `Failed to set pitch: ${error instanceof Error ? error.message : 'Unknown error'}`,
+      });
+    }
+  }
+
   @SlashCommand({
     name: 'remove',
     description: 'Remove a track from the queue',
@@ -462,6 +1194,71 @@ export class MusicCommands {
     });
   }
 
+  @SlashCommand({
+    name: 'move',
+    description: 'Move a track to a different position in the queue',
+  })
+  public async move(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { from, to }: MoveDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const moved = this.musicService.move(guildId, from - 1, to - 1);
+
+    if (!moved) {
+      return interaction.reply({
+        content: 'Could not move track. Invalid position.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.reply({
+      content: `↕️ Moved **${moved.title}** to position ${String(to)}.`,
+    });
+    await this.nowPlayingService.sendNowPlaying(guildId);
+    return;
+  }
+
+  @SlashCommand({
+    name: 'swap',
+    description: 'Swap the positions of two tracks in the queue',
+  })
+  public async swap(
+    @Context() [interaction]: SlashCommandContext,
+    @Options() { first, second }: SwapDto,
+  ) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const swapped = this.musicService.swap(guildId, first - 1, second - 1);
+
+    if (!swapped) {
+      return interaction.reply({
+        content: 'Could not swap tracks. Invalid positions.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const [firstTrack, secondTrack] = swapped;
+    await interaction.reply({
+      content: `🔁 Swapped **${firstTrack.title}** and **${secondTrack.title}**.`,
+    });
+    await this.nowPlayingService.sendNowPlaying(guildId);
+    return;
+  }
+
   @SlashCommand({
     name: 'disconnect',
     description: 'Disconnect from voice and clear queue',
@@ -489,15 +1286,117 @@ export class MusicCommands {
     return interaction.reply({ content: '👋 Disconnected.' });
   }
 
+  private async playPlaylist(
+    interaction: SlashCommandContext[0],
+    guildId: string,
+    url: string,
+    shuffle: boolean,
+  ): Promise<void> {
+    await interaction.editReply({ content: '📃 Loading playlist...' });
+
+    let progressUpdate = Promise.resolve();
+    const playlist = await this.musicService.playPlaylist(
+      guildId,
+      url,
+      interaction.user,
+      {
+        shuffle,
+        onProgress: (loaded) => {
+          progressUpdate = progressUpdate
+            .then(async () => {
+              await interaction.editReply({
+                content: `📃 Loading playlist... ${String(loaded)} tracks`,
+              });
+            })
+            .catch(() => undefined);
+        },
+      },
+    );
+    await progressUpdate;
+
+    this.musicService.setupAutoPlay(guildId);
+
+    await interaction.editReply({
+      content: '',
+      embeds: [this.createPlaylistEmbed(playlist, shuffle)],
+    });
+    await this.nowPlayingService.sendNowPlaying(guildId);
+  }
+
+  private canChangeTrack(
+    interaction: SlashCommandContext[0],
+    guildId: string,
+  ): boolean {
+    return this.voteSkip.canSkipWithoutVote(
+      guildId,
+      interaction.guild?.members.cache.get(interaction.user.id),
+    );
+  }
+
+  private async requestSkip(interaction: SlashCommandContext[0]) {
+    const guildId = interaction.guildId;
+    if (!guildId) {
+      return interaction.reply({
+        content: 'This command can only be used in a server.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const member = interaction.guild?.members.cache.get(interaction.user.id);
+    const result = this.voteSkip.requestSkip(guildId, member);
+
+    switch (result.status) {
+      case 'skipped':
+        return this.replySkipped(interaction, guildId, result.nextTrack);
+      case 'voted':
+        await interaction.reply({
+          content: `🗳️ Voted to skip (**${String(result.votes)}/${String(result.required)}**)`,
+        });
+        await this.nowPlayingService.updateNowPlaying(guildId);
+        return;
+      case 'already-voted':
+        return interaction.reply({
+          content: `You already voted to skip (${String(result.votes)}/${String(result.required)}).`,
+          flags: MessageFlags.Ephemeral,
+        });
+      case 'not-listening':
+        return interaction.reply({
+          content: 'You must be listening in the voice channel to skip.',
+          flags: MessageFlags.Ephemeral,
+        });
+      case 'nothing-playing':
+        return interaction.reply({
+          content: 'Nothing is playing.',
+          flags: MessageFlags.Ephemeral,
+        });
+    }
+  }
+
+  private async replySkipped(
+    interaction: SlashCommandContext[0],
+    guildId: string,
+    nextTrack: Track | undefined,
+  ) {
+    if (nextTrack) {
+      const embed = this.createTrackEmbed(nextTrack, 'Now Playing');
+      await interaction.reply({ embeds: [embed] });
+      await this.nowPlayingService.sendNowPlaying(guildId);
+      return;
+    }
+
+    await this.nowPlayingService.deleteNowPlaying(guildId);
+    return interaction.reply({ content: 'Skipped. No more tracks in queue.' });
+  }
+
   private createTrackEmbed(track: Track, title: string): EmbedBuilder {
     return new EmbedBuilder()
       .setTitle(title)
       .setDescription(`**${track.title}**`)
-      .setThumbnail(track.thumbnail)
+      .setThumbnail(track.thumbnail || null)
       .addFields(
         {
           name: 'Duration',
-          value: this.formatDuration(track.duration),
+          value: formatDuration(track.duration),
           inline: true,
         },
         { name: 'Requested by', value: track.requestedBy, inline: true },
@@ -506,15 +1405,47 @@ export class MusicCommands {
       .setURL(track.url);
   }
 
-  private formatDuration(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
+  private createPlaylistEmbed(
+    playlist: PlaylistInfo,
+    shuffled: boolean,
+  ): EmbedBuilder {
+    const totalDuration = playlist.tracks.reduce(
+      (total, track) => total + track.duration,
+      0,
+    );
+
+    const embed = new EmbedBuilder()
+      .setTitle(
+        shuffled ? 'Playlist Shuffled into Queue' : 'Playlist Added to Queue',
+      )
+      .setDescription(`**${playlist.title}**`)
+      .addFields(
+        {
+          name: 'Tracks',
+          value: String(playlist.tracks.length),
+          inline: true,
+        },
+        {
+          name: 'Duration',
+          value: formatDuration(totalDuration),
+          inline: true,
+        },
+      )
+      .setColor(0xff0000)
+      .setURL(playlist.url);
+
+    const thumbnail = playlist.tracks[0]?.thumbnail;
+    if (thumbnail) {
+      embed.setThumbnail(thumbnail);
+    }
 
-    if (hours > 0) {
-      return `${String(hours)}:${String(minutes).padStart(2, '0')}:${String(secs).padStart(2, '0')}`;
+    if (playlist.truncated) {
+      embed.setFooter({
+        text: `Playlist truncated to the first ${String(playlist.tracks.length)} tracks`,
+      });
     }
-    return `${String(minutes)}:${String(secs).padStart(2, '0')}`;
+
+    return embed;
   }
 
   private getLoopModeEmoji(mode: LoopMode): string {
@@ -555,6 +1486,36 @@ export class MusicCommands {
     return `${icon} ${bar}`;
   }
 
+  private parseSeekPosition(
+    input: string,
+    currentMs: number,
+  ): number | undefined {
+    const match = SEEK_POSITION_PATTERN.exec(input.trim());
+    if (!match?.[2]) {
+      return undefined;
+    }
+
+    const [first = 0, ...rest] = match[2].split(':').map(Number);
+    if (rest.some((part) => part >= 60)) {
+      return undefined;
+    }
+
+    const seconds = rest.reduce((total, part) => total * 60 + part, first);
+    switch (match[1]) {
+      case '+':
+        return currentMs + seconds * 1000;
+      case '-':
+        return Math.max(0, currentMs - seconds * 1000);
+      default:
+        return seconds * 1000;
+    }
+  }
+
+  private isAudioAttachment(attachment: Attachment): boolean {
+    const contentType = attachment.contentType ?? '';
+    return contentType.startsWith('audio/') || contentType.startsWith('video/');
+  }
+
   private isValidUrl(str: string): boolean {
     try {
       const url = new URL(str);
@@ -1,29 +1,116 @@
+import { join } from 'node:path';
 import { Module } from '@nestjs/common';
-import { ConfigModule } from '@nestjs/config';
+import { ConfigModule, ConfigService } from '@nestjs/config';
 import { DiscoveryModule } from '@nestjs/core';
+import type { Config } from '../../config/config.type';
+import { AuthorizationModule } from '../authorization/authorization.module';
 import { VoiceModule } from '../voice/voice.module';
 import { InnertubeSessionService } from './youtube/innertube-session.service';
 import { YouTubeStreamService } from './youtube/youtube-stream.service';
+import { AudioFilterService } from './audio-filter.service';
+import { FilterComponents } from './filter.components';
+import { FilterViewService } from './filter-view.service';
+import { HistoryComponents } from './history.components';
+import { HistoryViewService } from './history-view.service';
+import { MusicChannelService } from './music-channel.service';
 import { MusicCommands } from './music.commands';
 import { MusicService } from './music.service';
 import { NowPlayingComponents } from './now-playing.components';
 import { NowPlayingService } from './now-playing.service';
+import {
+  HISTORY_STORE,
+  type HistoryStore,
+} from './persistence/history-store.interface';
+import { InMemoryHistoryStore } from './persistence/memory-history.store';
+import { InMemoryQueueStore } from './persistence/memory-queue.store';
+import { PlayHistoryService } from './persistence/play-history.service';
+import { QueuePersistenceService } from './persistence/queue-persistence.service';
+import {
+  QUEUE_STORE,
+  type QueueStore,
+} from './persistence/queue-store.interface';
+import { SqliteHistoryStore } from './persistence/sqlite-history.store';
+import { SqliteQueueStore } from './persistence/sqlite-queue.store';
+import { DiscordAttachmentProvider } from './providers/discord-attachment.provider';
+import { HttpAudioProvider } from './providers/http-audio.provider';
 import { MusicProviderDiscovery } from './providers/music-provider-discovery.service';
+import { SoundCloudProvider } from './providers/soundcloud.provider';
+import { StreamingLinkProvider } from './providers/streaming-link.provider';
 import { YouTubeProvider } from './providers/youtube.provider';
+import { QueueComponents } from './queue.components';
+import { QueueViewService } from './queue-view.service';
+import { SearchPickerComponents } from './search-picker.components';
+import { SearchPickerService } from './search-picker.service';
+import { VoteSkipService } from './vote-skip.service';
 import { YtDlpService } from './yt-dlp.service';
 
 @Module({
-  imports: [ConfigModule, VoiceModule, DiscoveryModule],
+  imports: [ConfigModule, AuthorizationModule, VoiceModule, DiscoveryModule],
   providers: [
     YtDlpService,
     InnertubeSessionService,
     YouTubeStreamService,
     YouTubeProvider,
+    SoundCloudProvider,
+    DiscordAttachmentProvider,
+    StreamingLinkProvider,
+    HttpAudioProvider,
     MusicProviderDiscovery,
+    AudioFilterService,
     MusicService,
+    VoteSkipService,
     NowPlayingService,
     NowPlayingComponents,
+    MusicChannelService,
+    SearchPickerService,
+    SearchPickerComponents,
     MusicCommands,
+    {
+      provide: QUEUE_STORE,
+      useFactory: (configService: ConfigService<Config, true>): QueueStore => {
+        const persistence = configService.get('music', {
+          infer: true,
+        })?.persistence;
+
+        if (persistence?.store === 'memory') {
+          return new InMemoryQueueStore();
+        }
+
+        return new SqliteQueueStore(
+          persistence?.sqlitePath ??
+            join(process.cwd(), 'data', 'starwave.sqlite'),
+        );
+      },
+      inject: [ConfigService],
+    },
+    QueuePersistenceService,
+    {
+      provide: HISTORY_STORE,
+      useFactory: (
+        configService: ConfigService<Config, true>,
+      ): HistoryStore => {
+        const persistence = configService.get('music', {
+          infer: true,
+        })?.persistence;
+
+        if (persistence?.store === 'memory') {
+          return new InMemoryHistoryStore();
+        }
+
+        return new SqliteHistoryStore(
+          persistence?.sqlitePath ??
+            join(process.cwd(), 'data', 'starwave.sqlite'),
+        );
+      },
+      inject: [ConfigService],
+    },
+    PlayHistoryService,
+    HistoryViewService,
+    HistoryComponents,
+    QueueViewService,
+    QueueComponents,
+    FilterViewService,
+    FilterComponents,
   ],
   exports: [MusicService, NowPlayingService],
 })
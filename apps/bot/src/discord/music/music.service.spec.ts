@@ -4,9 +4,16 @@ import {
   type AudioResource,
 } from '@discordjs/voice';
 import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { EventEmitter2 } from '@nestjs/event-emitter';
+import { EventEmitter } from 'node:events';
+import { PassThrough } from 'node:stream';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Config } from '../../config/config.type';
 import { VoiceService } from '../voice/voice.service';
+import type { AudioFilterService } from './audio-filter.service';
+import { NO_AUDIO_FILTERS } from './audio-filters';
+import { CrossfadeMixer } from './crossfade-mixer';
 import { LoopMode } from './music-queue';
 import { MUSIC_EVENTS, MusicService } from './music.service';
 import { MusicProviderDiscovery } from './providers/music-provider-discovery.service';
@@ -18,15 +25,21 @@ const mockTrack = {
   duration: 180,
   thumbnail: 'https://example.com/thumb.jpg',
   requestedBy: 'user#1234',
+  requesterId: 'user-123',
 };
 
 /* eslint-disable @typescript-eslint/no-unsafe-enum-comparison */
+const requester = { id: 'user-123', tag: 'user#1234' };
+const autoplay = { id: '', tag: 'Autoplay' };
+
 describe('MusicService', () => {
   let service: MusicService;
   let voiceService: VoiceService;
   let providerDiscovery: MusicProviderDiscovery;
   let eventEmitter: EventEmitter2;
+  let configService: ConfigService<Config, true>;
   let mockProvider: MusicProvider;
+  let audioFilters: AudioFilterService;
 
   const mockAudioResource = {} as AudioResource;
 
@@ -59,13 +72,33 @@ describe('MusicService', () => {
       getPlayerStatus: vi.fn().mockReturnValue(AudioPlayerStatus.Idle),
       setVolume: vi.fn().mockReturnValue(0.5),
       getVolume: vi.fn().mockReturnValue(0.25),
+      getPlaybackDuration: vi.fn().mockReturnValue(0),
     } as unknown as VoiceService;
 
     eventEmitter = {
       emit: vi.fn(),
     } as unknown as EventEmitter2;
 
-    service = new MusicService(voiceService, providerDiscovery, eventEmitter);
+    configService = {
+      get: vi.fn().mockReturnValue(undefined),
+    } as unknown as ConfigService<Config, true>;
+
+    audioFilters = {
+      apply: vi.fn((_guildId: string, audio: unknown) => audio),
+      getFilters: vi.fn().mockReturnValue(NO_AUDIO_FILTERS),
+      setFilters: vi.fn(),
+      getPlaybackRate: vi.fn().mockReturnValue(1),
+      getNormalizationGain: vi.fn().mockReturnValue(undefined),
+      decode: vi.fn(),
+    } as unknown as AudioFilterService;
+
+    service = new MusicService(
+      voiceService,
+      providerDiscovery,
+      eventEmitter,
+      configService,
+      audioFilters,
+    );
   });
 
   afterEach(() => {
@@ -77,13 +110,14 @@ describe('MusicService', () => {
       const track = await service.play(
         'guild-123',
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
 
       expect(track).toMatchObject({
         title: 'Test Video',
         duration: 180,
         requestedBy: 'user#1234',
+        requesterId: 'user-123',
       });
       expect(vi.mocked(voiceService.play)).toHaveBeenCalledWith(
         'guild-123',
@@ -96,12 +130,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
 
       expect(vi.mocked(mockProvider.fetchTrackInfo)).toHaveBeenCalledWith(
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
     });
 
@@ -109,11 +143,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
 
       expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
+        {},
       );
     });
 
@@ -121,7 +156,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
 
       expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
@@ -134,7 +169,7 @@ describe('MusicService', () => {
       vi.mocked(mockProvider.canHandle).mockReturnValue(false);
 
       await expect(
-        service.play('guild-123', 'unsupported://url', 'user#1234'),
+        service.play('guild-123', 'unsupported://url', requester),
       ).rejects.toThrow('No provider found for URL');
     });
   });
@@ -154,12 +189,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
 
       vi.clearAllMocks();
@@ -177,7 +212,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       vi.clearAllMocks();
 
@@ -196,12 +231,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
 
       vi.clearAllMocks();
@@ -230,7 +265,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
 
       const result = service.stop('guild-123');
@@ -266,7 +301,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
 
       const result = service.getNowPlaying('guild-123');
@@ -333,7 +368,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
 
       expect(service.getNowPlaying('guild-123')).toBeDefined();
@@ -365,12 +400,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
 
       const upcoming = service.getUpcoming('guild-123');
@@ -395,12 +430,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
 
       const result = service.clearQueue('guild-123');
@@ -423,12 +458,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
 
       const result = service.shuffle('guild-123');
@@ -440,7 +475,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
 
       const result = service.shuffle('guild-123');
@@ -459,7 +494,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       service.cycleLoopMode('guild-123');
 
@@ -468,6 +503,195 @@ describe('MusicService', () => {
     });
   });
 
+  describe('playNext', () => {
+    it('fetches URLs and starts playback on an empty queue', async () => {
+      const track = await service.playNext(
+        'guild-123',
+        mockTrack.url,
+        requester,
+      );
+
+      expect(track).toEqual(mockTrack);
+      expect(vi.mocked(mockProvider.fetchTrackInfo)).toHaveBeenCalledWith(
+        mockTrack.url,
+        requester,
+      );
+      expect(vi.mocked(voiceService.play)).toHaveBeenCalled();
+      expect(service.getNowPlaying('guild-123')).toEqual(mockTrack);
+    });
+
+    it('searches when no provider handles the query', async () => {
+      vi.mocked(mockProvider.canHandle).mockImplementation((url) =>
+        url.startsWith('https://'),
+      );
+
+      await service.playNext('guild-123', 'never gonna', requester);
+
+      expect(vi.mocked(mockProvider.search)).toHaveBeenCalledWith(
+        'never gonna',
+        requester,
+      );
+      expect(vi.mocked(mockProvider.fetchTrackInfo)).not.toHaveBeenCalled();
+    });
+
+    it('inserts right after the current track without interrupting it', async () => {
+      const mockTrack2 = { ...mockTrack, title: 'Track 2' };
+      const nextTrack = { ...mockTrack, title: 'Next' };
+      vi.mocked(mockProvider.fetchTrackInfo)
+        .mockResolvedValueOnce(mockTrack)
+        .mockResolvedValueOnce(mockTrack2)
+        .mockResolvedValueOnce(nextTrack);
+      await service.play('guild-123', mockTrack.url, requester);
+      await service.play('guild-123', mockTrack.url, requester);
+      vi.mocked(voiceService.play).mockClear();
+
+      await service.playNext('guild-123', mockTrack.url, requester);
+
+      expect(service.getUpcoming('guild-123')).toEqual([nextTrack, mockTrack2]);
+      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+    });
+
+    it('throws when no providers are available', async () => {
+      vi.mocked(providerDiscovery.getProviders).mockReturnValue([]);
+
+      await expect(
+        service.playNext('guild-123', 'query', requester),
+      ).rejects.toThrow('No search provider available');
+    });
+  });
+
+  describe('move', () => {
+    it('returns undefined when no queue exists', () => {
+      expect(service.move('guild-123', 0, 1)).toBeUndefined();
+    });
+
+    it('moves a track within the queue', async () => {
+      const mockTrack2 = { ...mockTrack, title: 'Track 2' };
+      const mockTrack3 = { ...mockTrack, title: 'Track 3' };
+      vi.mocked(mockProvider.fetchTrackInfo)
+        .mockResolvedValueOnce(mockTrack)
+        .mockResolvedValueOnce(mockTrack2)
+        .mockResolvedValueOnce(mockTrack3);
+      await service.play('guild-123', mockTrack.url, requester);
+      await service.play('guild-123', mockTrack.url, requester);
+      await service.play('guild-123', mockTrack.url, requester);
+
+      expect(service.move('guild-123', 2, 1)).toEqual(mockTrack3);
+      expect(service.getQueue('guild-123')).toEqual([
+        mockTrack,
+        mockTrack3,
+        mockTrack2,
+      ]);
+      expect(service.getNowPlaying('guild-123')).toEqual(mockTrack);
+    });
+  });
+
+  describe('moveToNext', () => {
+    const titles = () =>
+      service.getQueue('guild-123').map((track) => track.title);
+
+    beforeEach(async () => {
+      for (const title of ['A', 'B', 'C', 'D']) {
+        vi.mocked(mockProvider.fetchTrackInfo).mockResolvedValueOnce({
+          ...mockTrack,
+          title,
+        });
+        await service.play('guild-123', mockTrack.url, requester);
+      }
+    });
+
+    it('returns undefined when no queue exists', () => {
+      expect(service.moveToNext('guild-456', 1)).toBeUndefined();
+    });
+
+    it('returns undefined for the current track', () => {
+      expect(service.moveToNext('guild-123', 0)).toBeUndefined();
+    });
+
+    it('moves a later track right after the current one', () => {
+      expect(service.moveToNext('guild-123', 3)?.title).toBe('D');
+      expect(titles()).toEqual(['A', 'D', 'B', 'C']);
+    });
+
+    it('moves an earlier track right after the current one', () => {
+      service.skipTo('guild-123', 2);
+
+      expect(service.moveToNext('guild-123', 0)?.title).toBe('A');
+      expect(titles()).toEqual(['B', 'C', 'A', 'D']);
+      expect(service.getCurrentIndex('guild-123')).toBe(1);
+      expect(service.getUpcoming('guild-123')[0]?.title).toBe('A');
+    });
+  });
+
+  describe('swap', () => {
+    it('returns undefined when no queue exists', () => {
+      expect(service.swap('guild-123', 0, 1)).toBeUndefined();
+    });
+
+    it('swaps two tracks in the queue', async () => {
+      const mockTrack2 = { ...mockTrack, title: 'Track 2' };
+      vi.mocked(mockProvider.fetchTrackInfo)
+        .mockResolvedValueOnce(mockTrack)
+        .mockResolvedValueOnce(mockTrack2);
+      await service.play('guild-123', mockTrack.url, requester);
+      await service.play('guild-123', mockTrack.url, requester);
+
+      expect(service.swap('guild-123', 0, 1)).toEqual([mockTrack, mockTrack2]);
+      expect(service.getQueue('guild-123')).toEqual([mockTrack2, mockTrack]);
+      expect(service.getNowPlaying('guild-123')).toEqual(mockTrack);
+    });
+  });
+
+  describe('skipTo', () => {
+    const mockTrack2 = { ...mockTrack, title: 'Track 2' };
+    const mockTrack3 = { ...mockTrack, title: 'Track 3' };
+
+    beforeEach(async () => {
+      vi.mocked(mockProvider.fetchTrackInfo)
+        .mockResolvedValueOnce(mockTrack)
+        .mockResolvedValueOnce(mockTrack2)
+        .mockResolvedValueOnce(mockTrack3);
+      await service.play('guild-123', mockTrack.url, requester);
+      await service.play('guild-123', mockTrack.url, requester);
+      await service.play('guild-123', mockTrack.url, requester);
+    });
+
+    it('returns undefined when no queue exists', () => {
+      expect(service.skipTo('guild-456', 1)).toBeUndefined();
+    });
+
+    it('returns undefined for the current track', () => {
+      expect(service.skipTo('guild-123', 0)).toBeUndefined();
+    });
+
+    it('returns undefined for an invalid index', () => {
+      expect(service.skipTo('guild-123', 3)).toBeUndefined();
+      expect(service.getNowPlaying('guild-123')).toEqual(mockTrack);
+    });
+
+    it('jumps to the track and plays it', async () => {
+      vi.mocked(voiceService.play).mockClear();
+
+      expect(service.skipTo('guild-123', 2)).toEqual(mockTrack3);
+      expect(service.getNowPlaying('guild-123')).toEqual(mockTrack3);
+      await vi.waitFor(() => {
+        expect(vi.mocked(voiceService.play)).toHaveBeenCalled();
+      });
+    });
+
+    it('stops playback when the track fails to play', async () => {
+      vi.mocked(mockProvider.getAudioInfo).mockRejectedValueOnce(
+        new Error('Stream unavailable'),
+      );
+
+      service.skipTo('guild-123', 1);
+
+      await vi.waitFor(() => {
+        expect(vi.mocked(voiceService.stop)).toHaveBeenCalledWith('guild-123');
+      });
+    });
+  });
+
   describe('remove', () => {
     it('returns undefined when no queue exists', () => {
       const result = service.remove('guild-123', 0);
@@ -478,7 +702,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
 
       const result = service.remove('guild-123', 0);
@@ -494,12 +718,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
 
       const removed = service.remove('guild-123', 1);
@@ -608,12 +832,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
       service.setupAutoPlay('guild-123');
       vi.clearAllMocks();
@@ -644,12 +868,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
       service.setupAutoPlay('guild-123');
       vi.clearAllMocks();
@@ -692,7 +916,7 @@ describe('MusicService', () => {
       service.setupAutoPlay('guild-123');
       service.setupAutoPlay('guild-123');
 
-      expect(mockPlayer.on).toHaveBeenCalledTimes(1);
+      expect(mockPlayer.on).toHaveBeenCalledTimes(2);
     });
 
     it('clears queue and emits queue end event when no next track', async () => {
@@ -709,7 +933,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       service.setupAutoPlay('guild-123');
       vi.clearAllMocks();
@@ -735,7 +959,7 @@ describe('MusicService', () => {
       service.cleanup('guild-123');
       service.setupAutoPlay('guild-123');
 
-      expect(mockPlayer.on).toHaveBeenCalledTimes(2);
+      expect(mockPlayer.on).toHaveBeenCalledTimes(4);
     });
 
     it('plays new track after queue ended naturally and user adds another song', async () => {
@@ -752,7 +976,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       service.setupAutoPlay('guild-123');
 
@@ -777,7 +1001,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=new',
-        'user#1234',
+        requester,
       );
 
       expect(vi.mocked(voiceService.play)).toHaveBeenCalledTimes(1);
@@ -806,12 +1030,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
       service.setupAutoPlay('guild-123');
       vi.clearAllMocks();
@@ -848,17 +1072,17 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=3',
-        'user#1234',
+        requester,
       );
       service.setupAutoPlay('guild-123');
 
@@ -898,7 +1122,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       service.cycleLoopMode('guild-123'); // LoopMode.Track
       service.setupAutoPlay('guild-123');
@@ -938,12 +1162,12 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=2',
-        'user#1234',
+        requester,
       );
       service.setupAutoPlay('guild-123');
       vi.clearAllMocks();
@@ -968,7 +1192,7 @@ describe('MusicService', () => {
       await service.play(
         'guild-123',
         'https://youtube.com/watch?v=1',
-        'user#1234',
+        requester,
       );
       expect(service.getQueue('guild-123')).toHaveLength(1);
 
@@ -978,124 +1202,1491 @@ describe('MusicService', () => {
     });
   });
 
-  describe('play - queuing behavior', () => {
-    it('does not play when queue already has tracks', async () => {
-      const mockTrack2 = { ...mockTrack, title: 'Track 2' };
+  describe('previous', () => {
+    const mockTrack2 = {
+      ...mockTrack,
+      url: 'https://youtube.com/watch?v=track000002',
+      title: 'Track 2',
+    };
+
+    beforeEach(async () => {
       vi.mocked(mockProvider.fetchTrackInfo)
         .mockResolvedValueOnce(mockTrack)
         .mockResolvedValueOnce(mockTrack2);
+      await service.play('guild-123', mockTrack.url, requester);
+      await service.play('guild-123', mockTrack2.url, requester);
+      vi.mocked(voiceService.getPlayerStatus).mockReturnValue(
+        AudioPlayerStatus.Playing,
+      );
+    });
 
-      await service.play(
+    it('returns undefined when no queue exists', async () => {
+      await expect(service.previous('guild-456')).resolves.toBeUndefined();
+    });
+
+    it('goes back to the previous queued track', async () => {
+      service.skip('guild-123');
+      await vi.waitFor(() => {
+        expect(service.getNowPlaying('guild-123')).toEqual(mockTrack2);
+      });
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+
+      const result = await service.previous('guild-123');
+
+      expect(result).toEqual({ track: mockTrack, restarted: false });
+      expect(service.getNowPlaying('guild-123')).toEqual(mockTrack);
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        mockTrack.url,
+        {},
+      );
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.TRACK_START,
         'guild-123',
-        'https://youtube.com/watch?v=1',
-        'user#1234',
       );
-      vi.clearAllMocks();
+    });
 
-      await service.play(
-        'guild-123',
-        'https://youtube.com/watch?v=2',
-        'user#1234',
+    it('restarts the current track when past the threshold', async () => {
+      vi.mocked(voiceService.getPlaybackDuration).mockReturnValue(12_000);
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+
+      const result = await service.previous('guild-123');
+
+      expect(result).toEqual({ track: mockTrack, restarted: true });
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        mockTrack.url,
+        { startTimeMs: 0 },
       );
+      expect(service.getNowPlaying('guild-123')).toEqual(mockTrack);
+    });
 
-      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+    it('restarts the first track when there is nothing before it', async () => {
+      const result = await service.previous('guild-123');
+
+      expect(result).toEqual({ track: mockTrack, restarted: true });
+      expect(service.getNowPlaying('guild-123')).toEqual(mockTrack);
     });
-  });
 
-  describe('searchAndPlay', () => {
-    it('searches using first provider and adds track to queue', async () => {
-      const searchResultTrack = {
-        ...mockTrack,
-        title: 'Search Result',
-        url: 'https://youtube.com/watch?v=searchResult',
-      };
-      vi.mocked(mockProvider.search).mockResolvedValue(searchResultTrack);
+    it('wraps to the last track when looping the queue', async () => {
+      service.cycleLoopMode('guild-123');
+      service.cycleLoopMode('guild-123');
 
-      const track = await service.searchAndPlay(
+      const result = await service.previous('guild-123');
+
+      expect(result).toEqual({ track: mockTrack2, restarted: false });
+    });
+
+    it('falls back to recently played tracks after the queue was cleared', async () => {
+      service.skip('guild-123');
+      await vi.waitFor(() => {
+        expect(service.getNowPlaying('guild-123')).toEqual(mockTrack2);
+      });
+      service.clearQueue('guild-123');
+
+      const result = await service.previous('guild-123');
+
+      expect(result).toEqual({ track: mockTrack, restarted: false });
+      expect(service.getQueue('guild-123')).toEqual([mockTrack, mockTrack2]);
+    });
+
+    it('propagates playback errors', async () => {
+      service.skip('guild-123');
+      await vi.waitFor(() => {
+        expect(service.getNowPlaying('guild-123')).toEqual(mockTrack2);
+      });
+      vi.mocked(mockProvider.getAudioInfo).mockRejectedValueOnce(
+        new Error('Stream unavailable'),
+      );
+
+      await expect(service.previous('guild-123')).rejects.toThrow(
+        'Stream unavailable',
+      );
+    });
+  });
+
+  describe('seek', () => {
+    beforeEach(async () => {
+      await service.play(
         'guild-123',
-        'test search query',
-        'user#1234',
+        'https://youtube.com/watch?v=dQw4w9WgXcQ',
+        requester,
+      );
+      vi.mocked(voiceService.getPlayerStatus).mockReturnValue(
+        AudioPlayerStatus.Playing,
       );
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+      vi.mocked(eventEmitter.emit).mockClear();
+    });
 
-      expect(track).toMatchObject({
-        title: 'Search Result',
-        url: 'https://youtube.com/watch?v=searchResult',
-        requestedBy: 'user#1234',
-      });
-      expect(vi.mocked(mockProvider.search)).toHaveBeenCalledWith(
-        'test search query',
-        'user#1234',
+    it('re-requests the stream at the given offset', async () => {
+      const position = await service.seek('guild-123', 83_000);
+
+      expect(position).toBe(83_000);
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        mockTrack.url,
+        { startTimeMs: 83_000 },
+      );
+      expect(vi.mocked(voiceService.play)).toHaveBeenLastCalledWith(
+        'guild-123',
+        'https://mock.audio.url/stream',
+        { inputType: StreamType.WebmOpus },
+      );
+      expect(vi.mocked(eventEmitter.emit)).not.toHaveBeenCalledWith(
+        MUSIC_EVENTS.TRACK_START,
+        'guild-123',
       );
     });
 
-    it('plays track immediately if queue was empty', async () => {
-      const searchResultTrack = {
-        ...mockTrack,
-        title: 'Search Result',
-        url: 'https://youtube.com/watch?v=searchResult',
-      };
-      vi.mocked(mockProvider.search).mockResolvedValue(searchResultTrack);
+    it('clamps the offset to the track bounds', async () => {
+      await expect(service.seek('guild-123', -5_000)).resolves.toBe(0);
+      await expect(service.seek('guild-123', 500_000)).resolves.toBe(179_000);
+    });
 
-      await service.searchAndPlay('guild-123', 'test query', 'user#1234');
+    it('reports the position relative to the seek offset', async () => {
+      await service.seek('guild-123', 60_000);
+      vi.mocked(voiceService.getPlaybackDuration).mockReturnValue(5_000);
 
-      expect(vi.mocked(voiceService.play)).toHaveBeenCalled();
+      expect(service.getPosition('guild-123')).toBe(65_000);
     });
 
-    it('emits TRACK_START event when playing search result', async () => {
-      const searchResultTrack = {
-        ...mockTrack,
-        title: 'Search Result',
-        url: 'https://youtube.com/watch?v=searchResult',
-      };
-      vi.mocked(mockProvider.search).mockResolvedValue(searchResultTrack);
+    it('seeks relative to the current position', async () => {
+      vi.mocked(voiceService.getPlaybackDuration).mockReturnValue(30_000);
 
-      await service.searchAndPlay('guild-123', 'test query', 'user#1234');
+      const position = await service.seekBy('guild-123', -10_000);
 
-      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
-        MUSIC_EVENTS.TRACK_START,
-        'guild-123',
+      expect(position).toBe(20_000);
+    });
+
+    it('returns undefined when nothing is playing', async () => {
+      vi.mocked(voiceService.getPlayerStatus).mockReturnValue(
+        AudioPlayerStatus.Idle,
       );
+
+      await expect(service.seek('guild-123', 10_000)).resolves.toBeUndefined();
+      await expect(service.seek('guild-456', 10_000)).resolves.toBeUndefined();
+      expect(vi.mocked(mockProvider.getAudioInfo)).not.toHaveBeenCalled();
     });
 
-    it('queues track without playing if queue already has tracks', async () => {
-      // First add a track to the queue
+    it('propagates stream errors and keeps the current stream', async () => {
+      vi.mocked(mockProvider.getAudioInfo).mockRejectedValueOnce(
+        new Error('SABR stream failed'),
+      );
+      vi.mocked(voiceService.play).mockClear();
+
+      await expect(service.seek('guild-123', 10_000)).rejects.toThrow(
+        'SABR stream failed',
+      );
+      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+    });
+
+    it('refuses to seek live streams', async () => {
+      service.cleanup('guild-123');
+      vi.mocked(mockProvider.fetchTrackInfo).mockResolvedValueOnce({
+        ...mockTrack,
+        duration: Number.POSITIVE_INFINITY,
+      });
+      await service.play('guild-123', 'https://radio.example/live', requester);
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+
+      await expect(service.seek('guild-123', 10_000)).resolves.toBeUndefined();
+      expect(vi.mocked(mockProvider.getAudioInfo)).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('audio filters', () => {
+    const nightcore = { presets: ['nightcore' as const], equalizer: [] };
+
+    beforeEach(async () => {
       await service.play(
         'guild-123',
-        'https://youtube.com/watch?v=1',
-        'user#1234',
+        'https://youtube.com/watch?v=dQw4w9WgXcQ',
+        requester,
       );
-      vi.clearAllMocks();
+      vi.mocked(voiceService.getPlayerStatus).mockReturnValue(
+        AudioPlayerStatus.Playing,
+      );
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+    });
 
-      const searchResultTrack = {
-        ...mockTrack,
-        title: 'Search Result',
-        url: 'https://youtube.com/watch?v=searchResult',
+    it('passes every stream through the filter chain', async () => {
+      const filtered = {
+        source: 'filtered',
+        streamType: StreamType.Raw,
       };
-      vi.mocked(mockProvider.search).mockResolvedValue(searchResultTrack);
+      vi.mocked(audioFilters.apply).mockReturnValueOnce(filtered);
 
-      await service.searchAndPlay('guild-123', 'test query', 'user#1234');
+      await service.seek('guild-123', 10_000);
 
-      expect(vi.mocked(mockProvider.search)).toHaveBeenCalled();
-      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+      expect(vi.mocked(audioFilters.apply)).toHaveBeenCalledWith('guild-123', {
+        source: 'https://mock.audio.url/stream',
+        streamType: StreamType.WebmOpus,
+      });
+      expect(vi.mocked(voiceService.play)).toHaveBeenLastCalledWith(
+        'guild-123',
+        'filtered',
+        { inputType: StreamType.Raw },
+      );
     });
 
-    it('throws error when no providers available', async () => {
-      vi.mocked(providerDiscovery.getProviders).mockReturnValue([]);
+    it('plays at the normalization gain when the loudness is known', async () => {
+      vi.mocked(audioFilters.getNormalizationGain).mockReturnValueOnce(0.5);
 
-      await expect(
-        service.searchAndPlay('guild-123', 'test query', 'user#1234'),
-      ).rejects.toThrow('No search provider available');
+      await service.seek('guild-123', 10_000);
+
+      expect(vi.mocked(voiceService.play)).toHaveBeenLastCalledWith(
+        'guild-123',
+        'https://mock.audio.url/stream',
+        { inputType: StreamType.WebmOpus, gain: 0.5 },
+      );
     });
 
-    it('propagates search errors from provider', async () => {
+    it('restarts the current track at its position', async () => {
+      vi.mocked(voiceService.getPlaybackDuration).mockReturnValue(42_000);
+
+      await expect(service.setFilters('guild-123', nightcore)).resolves.toBe(
+        true,
+      );
+
+      expect(vi.mocked(audioFilters.setFilters)).toHaveBeenCalledWith(
+        'guild-123',
+        nightcore,
+      );
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        mockTrack.url,
+        { startTimeMs: 42_000 },
+      );
+    });
+
+    it('only stores the filters when nothing is playing', async () => {
+      vi.mocked(voiceService.getPlayerStatus).mockReturnValue(
+        AudioPlayerStatus.Idle,
+      );
+
+      await expect(service.setFilters('guild-123', nightcore)).resolves.toBe(
+        false,
+      );
+
+      expect(vi.mocked(audioFilters.setFilters)).toHaveBeenCalled();
+      expect(vi.mocked(mockProvider.getAudioInfo)).not.toHaveBeenCalled();
+    });
+
+    it('scales the position by the playback rate', async () => {
+      vi.mocked(audioFilters.getPlaybackRate).mockReturnValue(1.25);
+      await service.seek('guild-123', 60_000);
+      vi.mocked(voiceService.getPlaybackDuration).mockReturnValue(8_000);
+
+      expect(service.getPosition('guild-123')).toBe(70_000);
+    });
+
+    it('keeps the playback rate of the playing resource until it restarts', async () => {
+      expect(service.getPlaybackRate('guild-123')).toBe(1);
+
+      vi.mocked(audioFilters.getPlaybackRate).mockReturnValue(1.5);
+      expect(service.getPlaybackRate('guild-123')).toBe(1);
+
+      await service.setFilters('guild-123', {
+        ...NO_AUDIO_FILTERS,
+        speed: 1.5,
+      });
+      expect(service.getPlaybackRate('guild-123')).toBe(1.5);
+    });
+  });
+
+  describe('track transitions', () => {
+    const mockTrack2 = { ...mockTrack, title: 'Track 2' };
+    let idleCallback: () => void;
+
+    async function queueTwoTracks(): Promise<void> {
+      idleCallback = vi.fn();
+      const mockPlayer = {
+        on: vi.fn((event: string, callback: () => void) => {
+          if (event === AudioPlayerStatus.Idle) {
+            idleCallback = callback;
+          }
+        }),
+      };
+      vi.mocked(voiceService.getPlayer).mockReturnValue(mockPlayer as never);
+      vi.mocked(mockProvider.fetchTrackInfo)
+        .mockResolvedValueOnce(mockTrack)
+        .mockResolvedValueOnce(mockTrack2);
+
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=2',
+        requester,
+      );
+      service.setupAutoPlay('guild-123');
+      vi.mocked(voiceService.getPlayerStatus).mockReturnValue(
+        AudioPlayerStatus.Playing,
+      );
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+      vi.mocked(voiceService.play).mockClear();
+      vi.mocked(eventEmitter.emit).mockClear();
+    }
+
+    async function poll(playbackDuration: number): Promise<void> {
+      vi.mocked(voiceService.getPlaybackDuration).mockReturnValue(
+        playbackDuration,
+      );
+      await vi.advanceTimersByTimeAsync(1000);
+    }
+
+    beforeEach(() => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+    });
+
+    afterEach(() => {
+      service.cleanup('guild-123');
+      vi.useRealTimers();
+    });
+
+    it('prefetches the next track shortly before the current one ends', async () => {
+      await queueTwoTracks();
+
+      await poll(165_000);
+      expect(vi.mocked(mockProvider.getAudioInfo)).not.toHaveBeenCalled();
+
+      await poll(171_000);
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        mockTrack.url,
+        {},
+      );
+
+      idleCallback();
+      await vi.waitFor(() => {
+        expect(vi.mocked(voiceService.play)).toHaveBeenCalledWith(
+          'guild-123',
+          'https://mock.audio.url/stream',
+          { inputType: StreamType.WebmOpus },
+        );
+      });
+      expect(service.getNowPlaying('guild-123')?.title).toBe('Track 2');
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledTimes(1);
+    });
+
+    it('discards the prefetched stream as soon as the next track changes', async () => {
+      const prefetchedSource = new PassThrough();
+      await queueTwoTracks();
+      vi.mocked(mockProvider.getAudioInfo).mockResolvedValueOnce({
+        source: prefetchedSource,
+        streamType: StreamType.Opus,
+      });
+
+      await poll(171_000);
+      service.remove('guild-123', 1);
+
+      await vi.waitFor(() => {
+        expect(prefetchedSource.destroyed).toBe(true);
+      });
+    });
+
+    it('stops polling and drops the prefetch on stop', async () => {
+      const prefetchedSource = new PassThrough();
+      await queueTwoTracks();
+      vi.mocked(mockProvider.getAudioInfo).mockResolvedValueOnce({
+        source: prefetchedSource,
+        streamType: StreamType.Opus,
+      });
+      await poll(171_000);
+
+      service.stop('guild-123');
+
+      expect(vi.getTimerCount()).toBe(0);
+      await vi.waitFor(() => {
+        expect(prefetchedSource.destroyed).toBe(true);
+      });
+    });
+
+    it('stops polling when the queue ends', async () => {
+      await queueTwoTracks();
+      service.remove('guild-123', 1);
+
+      idleCallback();
+
+      await vi.waitFor(() => {
+        expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+          MUSIC_EVENTS.QUEUE_END,
+          'guild-123',
+        );
+      });
+      expect(vi.getTimerCount()).toBe(0);
+    });
+
+    it('keeps the prefetch when a skip lands on the prefetched track', async () => {
+      await queueTwoTracks();
+      await poll(171_000);
+
+      service.skip('guild-123');
+
+      await vi.waitFor(() => {
+        expect(vi.mocked(voiceService.play)).toHaveBeenCalled();
+      });
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledTimes(1);
+    });
+
+    it('buffers the prefetched stream ahead of playback', async () => {
+      const prefetchedSource = new PassThrough();
+      prefetchedSource.write(Buffer.from('opus'));
+      await queueTwoTracks();
+      vi.mocked(mockProvider.getAudioInfo).mockResolvedValueOnce({
+        source: prefetchedSource,
+        streamType: StreamType.Opus,
+      });
+
+      await poll(171_000);
+      await vi.waitFor(() => {
+        expect(prefetchedSource.readableLength).toBe(0);
+      });
+
+      idleCallback();
+      await vi.waitFor(() => {
+        expect(vi.mocked(voiceService.play)).toHaveBeenCalled();
+      });
+      const [, played] = vi.mocked(voiceService.play).mock.calls[0] ?? [];
+      expect(played).toBeInstanceOf(PassThrough);
+      expect((played as PassThrough).read()).toEqual(Buffer.from('opus'));
+    });
+
+    it('crossfades into the next track when enabled', async () => {
+      vi.mocked(configService.get).mockReturnValue({
+        transitions: { crossfadeSeconds: 5 },
+      });
+      vi.mocked(audioFilters.decode).mockImplementation(() => ({
+        source: new PassThrough(),
+        streamType: StreamType.Raw,
+      }));
+      service = new MusicService(
+        voiceService,
+        providerDiscovery,
+        eventEmitter,
+        configService,
+        audioFilters,
+      );
+      await service.play(
+        'guild-000',
+        'https://youtube.com/watch?v=0',
+        requester,
+      );
+      expect(vi.mocked(voiceService.play)).toHaveBeenCalledWith(
+        'guild-000',
+        expect.any(CrossfadeMixer),
+        { inputType: StreamType.Raw },
+      );
+      service.cleanup('guild-000');
+
+      await queueTwoTracks();
+      await poll(176_000);
+
+      await vi.waitFor(() => {
+        expect(service.getNowPlaying('guild-123')?.title).toBe('Track 2');
+      });
+      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.TRACK_START,
+        'guild-123',
+      );
+      expect(service.getPosition('guild-123')).toBe(0);
+
+      vi.mocked(voiceService.getPlaybackDuration).mockReturnValue(178_000);
+      expect(service.getPosition('guild-123')).toBe(2000);
+    });
+  });
+
+  describe('stream metadata', () => {
+    let metadata: EventEmitter;
+
+    beforeEach(async () => {
+      metadata = new EventEmitter();
+      vi.mocked(mockProvider.getAudioInfo).mockResolvedValueOnce({
+        source: 'https://radio.example/live',
+        streamType: StreamType.OggOpus,
+        metadata,
+      });
+      await service.play('guild-123', 'https://radio.example/live', requester);
+      vi.mocked(eventEmitter.emit).mockClear();
+    });
+
+    it('tracks the announced title and notifies listeners', () => {
+      metadata.emit('metadata', { title: 'Artist - Song' });
+
+      expect(service.getStreamTitle('guild-123')).toBe('Artist - Song');
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.STREAM_METADATA,
+        'guild-123',
+      );
+    });
+
+    it('ignores metadata from a stream that is no longer current', async () => {
+      vi.mocked(mockProvider.fetchTrackInfo).mockResolvedValueOnce({
+        ...mockTrack,
+        url: 'https://youtube.com/watch?v=other',
+      });
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=other',
+        requester,
+      );
+      service.skip('guild-123');
+      await vi.waitFor(() => {
+        expect(service.getStreamTitle('guild-123')).toBeUndefined();
+      });
+      vi.mocked(eventEmitter.emit).mockClear();
+
+      metadata.emit('metadata', { title: 'Artist - Song' });
+
+      expect(service.getStreamTitle('guild-123')).toBeUndefined();
+      expect(vi.mocked(eventEmitter.emit)).not.toHaveBeenCalledWith(
+        MUSIC_EVENTS.STREAM_METADATA,
+        'guild-123',
+      );
+    });
+
+    it('clears the title on cleanup', () => {
+      metadata.emit('metadata', { title: 'Artist - Song' });
+
+      service.cleanup('guild-123');
+
+      expect(service.getStreamTitle('guild-123')).toBeUndefined();
+    });
+  });
+
+  describe('autoplay', () => {
+    const relatedTracks = [1, 2, 3].map((n) => ({
+      ...mockTrack,
+      url: `https://youtube.com/watch?v=related00${String(n)}`,
+      title: `Related Track ${String(n)}`,
+      requestedBy: 'Autoplay',
+      requesterId: '',
+    }));
+
+    let idleCallback: () => void;
+    let getRelated: ReturnType<
+      typeof vi.fn<NonNullable<MusicProvider['getRelated']>>
+    >;
+
+    async function endQueue(): Promise<void> {
+      idleCallback();
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    beforeEach(async () => {
+      idleCallback = vi.fn();
+      const mockPlayer = {
+        on: vi.fn((event: string, callback: () => void) => {
+          if (event === AudioPlayerStatus.Idle) {
+            idleCallback = callback;
+          }
+        }),
+      };
+      vi.mocked(voiceService.getPlayer).mockReturnValue(mockPlayer as never);
+      vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+      getRelated = vi
+        .fn<NonNullable<MusicProvider['getRelated']>>()
+        .mockResolvedValue([mockTrack, ...relatedTracks]);
+      mockProvider.getRelated = getRelated;
+
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=dQw4w9WgXcQ',
+        requester,
+      );
+      service.setupAutoPlay('guild-123');
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+      vi.mocked(eventEmitter.emit).mockClear();
+    });
+
+    it('is disabled by default', async () => {
+      expect(service.isAutoplayEnabled('guild-123')).toBe(false);
+
+      await endQueue();
+
+      expect(getRelated).not.toHaveBeenCalled();
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.QUEUE_END,
+        'guild-123',
+      );
+    });
+
+    it('plays a related track that was not played recently', async () => {
+      service.setAutoplay('guild-123', true);
+
+      await endQueue();
+
+      expect(getRelated).toHaveBeenCalledWith(mockTrack.url, autoplay, 10);
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        relatedTracks[0]?.url,
+        {},
+      );
+      expect(service.getNowPlaying('guild-123')).toEqual(relatedTracks[0]);
+      expect(vi.mocked(eventEmitter.emit)).not.toHaveBeenCalledWith(
+        MUSIC_EVENTS.QUEUE_END,
+        'guild-123',
+      );
+    });
+
+    it('keeps extending the queue from the last played track', async () => {
+      service.setAutoplay('guild-123', true);
+      await endQueue();
+      getRelated.mockResolvedValue([mockTrack, ...relatedTracks]);
+
+      await endQueue();
+
+      expect(getRelated).toHaveBeenLastCalledWith(
+        relatedTracks[0]?.url,
+        autoplay,
+        10,
+      );
+      expect(service.getNowPlaying('guild-123')).toEqual(relatedTracks[1]);
+    });
+
+    it('tries the next candidate when a related track fails', async () => {
+      service.setAutoplay('guild-123', true);
+      vi.mocked(mockProvider.getAudioInfo).mockRejectedValueOnce(
+        new Error('Stream unavailable'),
+      );
+
+      await endQueue();
+
+      expect(service.getNowPlaying('guild-123')).toEqual(relatedTracks[1]);
+    });
+
+    it('ends the queue when no related tracks can be fetched', async () => {
+      service.setAutoplay('guild-123', true);
+      getRelated.mockRejectedValueOnce(
+        new Error('Innertube session not ready'),
+      );
+
+      await endQueue();
+
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.QUEUE_END,
+        'guild-123',
+      );
+      expect(service.getQueue('guild-123')).toEqual([]);
+    });
+
+    it('does not autoplay after the queue was stopped', async () => {
+      service.setAutoplay('guild-123', true);
+      service.stop('guild-123');
+
+      await endQueue();
+
+      expect(getRelated).not.toHaveBeenCalled();
+    });
+
+    it('can be turned off again', async () => {
+      service.setAutoplay('guild-123', true);
+      service.setAutoplay('guild-123', false);
+
+      await endQueue();
+
+      expect(getRelated).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('stream failure resume', () => {
+    let idleCallback: () => void;
+    let errorCallback: (error: unknown) => void;
+
+    async function failStream(playbackDuration: number): Promise<void> {
+      errorCallback({ resource: { playbackDuration } });
+      idleCallback();
+      await new Promise((resolve) => setImmediate(resolve));
+    }
+
+    beforeEach(async () => {
+      idleCallback = vi.fn();
+      errorCallback = vi.fn();
+      const mockPlayer = {
+        on: vi.fn((event: string, callback: () => void) => {
+          if (event === AudioPlayerStatus.Idle) {
+            idleCallback = callback;
+          } else if (event === 'error') {
+            errorCallback = callback;
+          }
+        }),
+      };
+      vi.mocked(voiceService.getPlayer).mockReturnValue(mockPlayer as never);
+      vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+
+      const mockTrack2 = { ...mockTrack, title: 'Track 2' };
+      vi.mocked(mockProvider.fetchTrackInfo)
+        .mockResolvedValueOnce(mockTrack)
+        .mockResolvedValueOnce(mockTrack2);
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=2',
+        requester,
+      );
+      service.setupAutoPlay('guild-123');
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+      vi.mocked(eventEmitter.emit).mockClear();
+    });
+
+    it('replays the current track from where the stream died', async () => {
+      await failStream(55_780);
+
+      await vi.waitFor(() => {
+        expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+          mockTrack.url,
+          { startTimeMs: 55_780 },
+        );
+      });
+      expect(service.getNowPlaying('guild-123')?.title).toBe('Test Video');
+      expect(vi.mocked(eventEmitter.emit)).not.toHaveBeenCalledWith(
+        MUSIC_EVENTS.TRACK_START,
+        'guild-123',
+      );
+    });
+
+    it('accumulates the offset when a resumed stream fails again', async () => {
+      await failStream(10_000);
+      await vi.waitFor(() => {
+        expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledTimes(1);
+      });
+
+      await failStream(5_000);
+
+      await vi.waitFor(() => {
+        expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenLastCalledWith(
+          mockTrack.url,
+          { startTimeMs: 15_000 },
+        );
+      });
+    });
+
+    it('advances to the next track after repeated failures', async () => {
+      for (let attempt = 1; attempt <= 3; attempt++) {
+        await failStream(1_000);
+        await vi.waitFor(() => {
+          expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledTimes(
+            attempt,
+          );
+        });
+      }
+
+      await failStream(1_000);
+
+      await vi.waitFor(() => {
+        expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+          MUSIC_EVENTS.TRACK_START,
+          'guild-123',
+        );
+      });
+      expect(service.getNowPlaying('guild-123')?.title).toBe('Track 2');
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenLastCalledWith(
+        mockTrack.url,
+        {},
+      );
+    });
+
+    it('advances instead of resuming when the stream died near the end', async () => {
+      await failStream(mockTrack.duration * 1000 - 1_000);
+
+      await vi.waitFor(() => {
+        expect(service.getNowPlaying('guild-123')?.title).toBe('Track 2');
+      });
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        mockTrack.url,
+        {},
+      );
+    });
+
+    it('advances when resuming the stream fails', async () => {
+      vi.mocked(mockProvider.getAudioInfo).mockRejectedValueOnce(
+        new Error('SABR stream failed'),
+      );
+
+      await failStream(20_000);
+
+      await vi.waitFor(() => {
+        expect(service.getNowPlaying('guild-123')?.title).toBe('Track 2');
+      });
+    });
+
+    it('advances normally when the track ends without an error', async () => {
+      idleCallback();
+
+      await vi.waitFor(() => {
+        expect(service.getNowPlaying('guild-123')?.title).toBe('Track 2');
+      });
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        mockTrack.url,
+        {},
+      );
+    });
+  });
+
+  describe('queue persistence', () => {
+    const restoredTrack = {
+      ...mockTrack,
+      url: 'https://youtube.com/watch?v=restored001',
+      title: 'Restored Track',
+    };
+
+    it('emits QUEUE_UPDATE when the queue changes', async () => {
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.QUEUE_UPDATE,
+        'guild-123',
+      );
+    });
+
+    it('emits QUEUE_UPDATE when the queue is cleaned up', async () => {
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+      vi.mocked(eventEmitter.emit).mockClear();
+
+      service.cleanup('guild-123');
+
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.QUEUE_UPDATE,
+        'guild-123',
+      );
+    });
+
+    it('does not emit QUEUE_UPDATE on cleanup when no queue exists', () => {
+      service.cleanup('guild-123');
+
+      expect(vi.mocked(eventEmitter.emit)).not.toHaveBeenCalled();
+    });
+
+    it('returns the queue state', async () => {
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+
+      expect(service.getQueueState('guild-123')).toEqual({
+        tracks: [mockTrack],
+        currentIndex: 0,
+        loopMode: LoopMode.None,
+      });
+    });
+
+    it('returns undefined state when no queue exists', () => {
+      expect(service.getQueueState('guild-123')).toBeUndefined();
+    });
+
+    it('restores a queue without starting playback', () => {
+      service.restoreQueue('guild-123', {
+        tracks: [restoredTrack],
+        currentIndex: 0,
+        loopMode: LoopMode.Queue,
+      });
+
+      expect(service.getNowPlaying('guild-123')).toEqual(restoredTrack);
+      expect(service.getLoopMode('guild-123')).toBe(LoopMode.Queue);
+      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+      expect(vi.mocked(eventEmitter.emit)).not.toHaveBeenCalled();
+    });
+
+    it('ignores empty restored state', () => {
+      service.restoreQueue('guild-123', {
+        tracks: [],
+        currentIndex: 0,
+        loopMode: LoopMode.None,
+      });
+
+      expect(service.getQueueState('guild-123')).toBeUndefined();
+    });
+
+    it('resumes the restored current track when a new track is enqueued', async () => {
+      service.restoreQueue('guild-123', {
+        tracks: [restoredTrack],
+        currentIndex: 0,
+        loopMode: LoopMode.None,
+      });
+
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledTimes(1);
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        restoredTrack.url,
+        {},
+      );
+      expect(service.getQueue('guild-123')).toEqual([restoredTrack, mockTrack]);
+    });
+
+    it('plays the current track on resumePlayback', async () => {
+      service.restoreQueue('guild-123', {
+        tracks: [mockTrack, restoredTrack],
+        currentIndex: 1,
+        loopMode: LoopMode.None,
+      });
+
+      const track = await service.resumePlayback('guild-123');
+
+      expect(track).toEqual(restoredTrack);
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        restoredTrack.url,
+        {},
+      );
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.TRACK_START,
+        'guild-123',
+      );
+    });
+
+    it('does not resume twice once playback has resumed', async () => {
+      service.restoreQueue('guild-123', {
+        tracks: [restoredTrack],
+        currentIndex: 0,
+        loopMode: LoopMode.None,
+      });
+      await service.resumePlayback('guild-123');
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+
+      expect(vi.mocked(mockProvider.getAudioInfo)).not.toHaveBeenCalled();
+    });
+
+    it('returns undefined from resumePlayback when no queue exists', async () => {
+      await expect(
+        service.resumePlayback('guild-123'),
+      ).resolves.toBeUndefined();
+    });
+  });
+
+  describe('playlists', () => {
+    const playlistTracks = [1, 2, 3].map((n) => ({
+      ...mockTrack,
+      url: `https://youtube.com/watch?v=playlist00${String(n)}`,
+      title: `Playlist Track ${String(n)}`,
+    }));
+
+    let isPlaylist: ReturnType<typeof vi.fn<(url: string) => boolean>>;
+    let fetchPlaylist: ReturnType<
+      typeof vi.fn<NonNullable<MusicProvider['fetchPlaylist']>>
+    >;
+
+    beforeEach(() => {
+      isPlaylist = vi.fn<(url: string) => boolean>().mockReturnValue(true);
+      fetchPlaylist = vi
+        .fn<NonNullable<MusicProvider['fetchPlaylist']>>()
+        .mockResolvedValue({
+          title: 'Test Playlist',
+          url: 'https://www.youtube.com/playlist?list=PLtest',
+          tracks: playlistTracks,
+          truncated: false,
+        });
+      mockProvider.isPlaylist = isPlaylist;
+      mockProvider.fetchPlaylist = fetchPlaylist;
+    });
+
+    it('detects playlist URLs through the providers', () => {
+      expect(
+        service.isPlaylistUrl('https://youtube.com/playlist?list=PL'),
+      ).toBe(true);
+
+      isPlaylist.mockReturnValue(false);
+      expect(service.isPlaylistUrl('https://youtube.com/watch?v=1')).toBe(
+        false,
+      );
+    });
+
+    it('enqueues every track and starts the first one', async () => {
+      const onProgress = vi.fn();
+
+      const playlist = await service.playPlaylist(
+        'guild-123',
+        'https://youtube.com/playlist?list=PLtest',
+        requester,
+        { onProgress },
+      );
+
+      expect(playlist.tracks).toEqual(playlistTracks);
+      expect(fetchPlaylist).toHaveBeenCalledWith(
+        'https://youtube.com/playlist?list=PLtest',
+        requester,
+        { limit: 200, onProgress },
+      );
+      expect(service.getQueue('guild-123')).toEqual(playlistTracks);
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        playlistTracks[0]?.url,
+        {},
+      );
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.TRACK_START,
+        'guild-123',
+      );
+    });
+
+    it('uses the configured playlist cap', async () => {
+      vi.mocked(configService.get).mockReturnValue({
+        playlists: { maxTracks: 25 },
+      });
+      service = new MusicService(
+        voiceService,
+        providerDiscovery,
+        eventEmitter,
+        configService,
+        audioFilters,
+      );
+
+      await service.playPlaylist(
+        'guild-123',
+        'https://youtube.com/playlist?list=PLtest',
+        requester,
+      );
+
+      expect(fetchPlaylist).toHaveBeenCalledWith(
+        'https://youtube.com/playlist?list=PLtest',
+        requester,
+        { limit: 25 },
+      );
+    });
+
+    it('appends to an existing queue without interrupting playback', async () => {
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=dQw4w9WgXcQ',
+        requester,
+      );
+      vi.mocked(mockProvider.getAudioInfo).mockClear();
+
+      await service.playPlaylist(
+        'guild-123',
+        'https://youtube.com/playlist?list=PLtest',
+        requester,
+      );
+
+      expect(service.getQueue('guild-123')).toEqual([
+        mockTrack,
+        ...playlistTracks,
+      ]);
+      expect(vi.mocked(mockProvider.getAudioInfo)).not.toHaveBeenCalled();
+    });
+
+    it('shuffles the playlist when requested', async () => {
+      vi.spyOn(Math, 'random').mockReturnValue(0);
+
+      await service.playPlaylist(
+        'guild-123',
+        'https://youtube.com/playlist?list=PLtest',
+        requester,
+        { shuffle: true },
+      );
+
+      expect(service.getQueue('guild-123').map((track) => track.title)).toEqual(
+        ['Playlist Track 2', 'Playlist Track 3', 'Playlist Track 1'],
+      );
+      expect(service.getNowPlaying('guild-123')?.title).toBe(
+        'Playlist Track 2',
+      );
+    });
+
+    it('moves on to the next track when the first one fails to play', async () => {
+      vi.mocked(mockProvider.getAudioInfo).mockRejectedValueOnce(
+        new Error('SABR stream failed'),
+      );
+
+      await service.playPlaylist(
+        'guild-123',
+        'https://youtube.com/playlist?list=PLtest',
+        requester,
+      );
+
+      expect(service.getNowPlaying('guild-123')?.title).toBe(
+        'Playlist Track 2',
+      );
+    });
+
+    it('throws when the playlist has no playable tracks', async () => {
+      fetchPlaylist.mockResolvedValueOnce({
+        title: 'Empty',
+        url: 'https://www.youtube.com/playlist?list=PLempty',
+        tracks: [],
+        truncated: false,
+      });
+
+      await expect(
+        service.playPlaylist(
+          'guild-123',
+          'https://youtube.com/playlist?list=PLempty',
+          requester,
+        ),
+      ).rejects.toThrow('Playlist has no playable tracks');
+      expect(service.getQueue('guild-123')).toEqual([]);
+    });
+
+    it('throws when the provider does not support playlists', async () => {
+      delete mockProvider.fetchPlaylist;
+
+      await expect(
+        service.playPlaylist(
+          'guild-123',
+          'https://youtube.com/playlist?list=PLtest',
+          requester,
+        ),
+      ).rejects.toThrow('MockProvider does not support playlists');
+    });
+  });
+
+  describe('play - queuing behavior', () => {
+    it('does not play when queue already has tracks', async () => {
+      const mockTrack2 = { ...mockTrack, title: 'Track 2' };
+      vi.mocked(mockProvider.fetchTrackInfo)
+        .mockResolvedValueOnce(mockTrack)
+        .mockResolvedValueOnce(mockTrack2);
+
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+      vi.clearAllMocks();
+
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=2',
+        requester,
+      );
+
+      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchMany', () => {
+    it('returns results from the first provider', async () => {
+      const results = [{ track: mockTrack, channel: 'Test Channel' }];
+      const searchMany = vi
+        .fn<NonNullable<MusicProvider['searchMany']>>()
+        .mockResolvedValue(results);
+      mockProvider.searchMany = searchMany;
+
+      await expect(service.searchMany('query', requester, 5)).resolves.toBe(
+        results,
+      );
+      expect(searchMany).toHaveBeenCalledWith('query', requester, 5);
+    });
+
+    it('throws when the provider cannot list results', async () => {
+      await expect(service.searchMany('query', requester, 5)).rejects.toThrow(
+        'No search provider available',
+      );
+    });
+  });
+
+  describe('getSearchSuggestions', () => {
+    it('returns suggestions from the first provider', async () => {
+      const getSuggestions = vi
+        .fn<NonNullable<MusicProvider['getSuggestions']>>()
+        .mockResolvedValue(['lofi hip hop']);
+      mockProvider.getSuggestions = getSuggestions;
+
+      await expect(service.getSearchSuggestions('lofi')).resolves.toEqual([
+        'lofi hip hop',
+      ]);
+      expect(getSuggestions).toHaveBeenCalledWith('lofi');
+    });
+
+    it('returns no suggestions when the provider has none', async () => {
+      await expect(service.getSearchSuggestions('lofi')).resolves.toEqual([]);
+    });
+  });
+
+  describe('playTracks', () => {
+    const tracks = [1, 2].map((n) => ({
+      ...mockTrack,
+      url: `https://youtube.com/watch?v=picked00${String(n)}`,
+      title: `Picked Track ${String(n)}`,
+    }));
+
+    it('enqueues the tracks and starts the first one', async () => {
+      await service.playTracks('guild-123', tracks);
+
+      expect(service.getQueue('guild-123')).toEqual(tracks);
+      expect(vi.mocked(mockProvider.getAudioInfo)).toHaveBeenCalledWith(
+        tracks[0]?.url,
+        {},
+      );
+    });
+
+    it('appends to a playing queue without interrupting it', async () => {
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+      vi.mocked(voiceService.play).mockClear();
+
+      await service.playTracks('guild-123', tracks);
+
+      expect(service.getQueue('guild-123')).toHaveLength(3);
+      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+    });
+
+    it('does nothing for an empty selection', async () => {
+      await service.playTracks('guild-123', []);
+
+      expect(service.getQueue('guild-123')).toEqual([]);
+      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('searchAndPlay', () => {
+    it('searches using first provider and adds track to queue', async () => {
+      const searchResultTrack = {
+        ...mockTrack,
+        title: 'Search Result',
+        url: 'https://youtube.com/watch?v=searchResult',
+      };
+      vi.mocked(mockProvider.search).mockResolvedValue(searchResultTrack);
+
+      const track = await service.searchAndPlay(
+        'guild-123',
+        'test search query',
+        requester,
+      );
+
+      expect(track).toMatchObject({
+        title: 'Search Result',
+        url: 'https://youtube.com/watch?v=searchResult',
+        requestedBy: 'user#1234',
+        requesterId: 'user-123',
+      });
+      expect(vi.mocked(mockProvider.search)).toHaveBeenCalledWith(
+        'test search query',
+        requester,
+      );
+    });
+
+    it('plays track immediately if queue was empty', async () => {
+      const searchResultTrack = {
+        ...mockTrack,
+        title: 'Search Result',
+        url: 'https://youtube.com/watch?v=searchResult',
+      };
+      vi.mocked(mockProvider.search).mockResolvedValue(searchResultTrack);
+
+      await service.searchAndPlay('guild-123', 'test query', requester);
+
+      expect(vi.mocked(voiceService.play)).toHaveBeenCalled();
+    });
+
+    it('emits TRACK_START event when playing search result', async () => {
+      const searchResultTrack = {
+        ...mockTrack,
+        title: 'Search Result',
+        url: 'https://youtube.com/watch?v=searchResult',
+      };
+      vi.mocked(mockProvider.search).mockResolvedValue(searchResultTrack);
+
+      await service.searchAndPlay('guild-123', 'test query', requester);
+
+      expect(vi.mocked(eventEmitter.emit)).toHaveBeenCalledWith(
+        MUSIC_EVENTS.TRACK_START,
+        'guild-123',
+      );
+    });
+
+    it('queues track without playing if queue already has tracks', async () => {
+      // First add a track to the queue
+      await service.play(
+        'guild-123',
+        'https://youtube.com/watch?v=1',
+        requester,
+      );
+      vi.clearAllMocks();
+
+      const searchResultTrack = {
+        ...mockTrack,
+        title: 'Search Result',
+        url: 'https://youtube.com/watch?v=searchResult',
+      };
+      vi.mocked(mockProvider.search).mockResolvedValue(searchResultTrack);
+
+      await service.searchAndPlay('guild-123', 'test query', requester);
+
+      expect(vi.mocked(mockProvider.search)).toHaveBeenCalled();
+      expect(vi.mocked(voiceService.play)).not.toHaveBeenCalled();
+    });
+
+    it('throws error when no providers available', async () => {
+      vi.mocked(providerDiscovery.getProviders).mockReturnValue([]);
+
+      await expect(
+        service.searchAndPlay('guild-123', 'test query', requester),
+      ).rejects.toThrow('No search provider available');
+    });
+
+    it('propagates search errors from provider', async () => {
       vi.mocked(mockProvider.search).mockRejectedValue(
         new Error('No search results found'),
       );
 
       await expect(
-        service.searchAndPlay('guild-123', 'nonexistent', 'user#1234'),
+        service.searchAndPlay('guild-123', 'nonexistent', requester),
       ).rejects.toThrow('No search results found');
     });
+
+    it('searches with the requested source', async () => {
+      const soundCloud: MusicProvider = {
+        ...mockProvider,
+        name: 'SoundCloud',
+        search: vi.fn().mockResolvedValue(mockTrack),
+      };
+      vi.mocked(providerDiscovery.getProviders).mockReturnValue([
+        mockProvider,
+        soundCloud,
+      ]);
+
+      await service.searchAndPlay(
+        'guild-123',
+        'flickermood',
+        requester,
+        'soundcloud',
+      );
+
+      expect(vi.mocked(soundCloud.search)).toHaveBeenCalledWith(
+        'flickermood',
+        requester,
+      );
+      expect(vi.mocked(mockProvider.search)).not.toHaveBeenCalled();
+    });
+
+    it('rejects unknown sources', async () => {
+      await expect(
+        service.searchAndPlay('guild-123', 'query', requester, 'Napster'),
+      ).rejects.toThrow('Unknown search source: Napster');
+    });
+  });
+
+  describe('getSearchSources', () => {
+    it('lists search-capable providers', () => {
+      expect(service.getSearchSources()).toEqual(['MockProvider']);
+      expect(vi.mocked(providerDiscovery.getProviders)).toHaveBeenCalledWith(
+        'search',
+      );
+    });
+  });
+
+  describe('provider fallback', () => {
+    let backup: MusicProvider;
+    let substitute: MusicProvider;
+    const substituteTrack = {
+      ...mockTrack,
+      url: 'https://soundcloud.com/rick/never-gonna',
+      duration: 184,
+    };
+
+    beforeEach(() => {
+      vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+      vi.mocked(mockProvider.getAudioInfo).mockRejectedValue(
+        new Error('SABR stream failed'),
+      );
+
+      backup = {
+        ...mockProvider,
+        name: 'Backup',
+        canHandle: vi.fn().mockReturnValue(false),
+        getAudioInfo: vi.fn().mockResolvedValue({
+          source: 'https://backup.audio.url/stream',
+          streamType: StreamType.Arbitrary,
+        }),
+      };
+      substitute = {
+        ...mockProvider,
+        name: 'SoundCloud',
+        canHandle: vi.fn().mockReturnValue(false),
+        search: vi.fn().mockResolvedValue(substituteTrack),
+        getAudioInfo: vi.fn().mockResolvedValue({
+          source: 'https://soundcloud.audio.url/stream',
+          streamType: StreamType.OggOpus,
+        }),
+      };
+      vi.mocked(providerDiscovery.getProviders).mockImplementation(
+        (capability) =>
+          capability === 'fallback'
+            ? [mockProvider, substitute]
+            : [mockProvider, backup, substitute],
+      );
+    });
+
+    it('tries the next provider that handles the URL', async () => {
+      vi.mocked(backup.canHandle).mockReturnValue(true);
+
+      await service.play('guild-123', mockTrack.url, requester);
+
+      expect(vi.mocked(backup.getAudioInfo)).toHaveBeenCalledWith(
+        mockTrack.url,
+        {},
+      );
+      expect(vi.mocked(substitute.search)).not.toHaveBeenCalled();
+      expect(vi.mocked(voiceService.play)).toHaveBeenCalledWith(
+        'guild-123',
+        'https://backup.audio.url/stream',
+        { inputType: StreamType.Arbitrary },
+      );
+    });
+
+    it('searches fallback providers by title', async () => {
+      await service.play('guild-123', mockTrack.url, requester);
+
+      expect(vi.mocked(substitute.search)).toHaveBeenCalledWith(
+        'Test Video',
+        requester,
+      );
+      expect(vi.mocked(substitute.getAudioInfo)).toHaveBeenCalledWith(
+        substituteTrack.url,
+        {},
+      );
+      expect(service.getNowPlaying('guild-123')?.url).toBe(mockTrack.url);
+    });
+
+    it('skips substitutes with a different length', async () => {
+      vi.mocked(substitute.search).mockResolvedValue({
+        ...substituteTrack,
+        duration: 600,
+      });
+
+      await expect(
+        service.play('guild-123', mockTrack.url, requester),
+      ).rejects.toThrow('SABR stream failed');
+      expect(vi.mocked(substitute.getAudioInfo)).not.toHaveBeenCalled();
+    });
+
+    it('does not substitute live streams', async () => {
+      vi.mocked(mockProvider.fetchTrackInfo).mockResolvedValueOnce({
+        ...mockTrack,
+        duration: Number.POSITIVE_INFINITY,
+      });
+
+      await expect(
+        service.play('guild-123', mockTrack.url, requester),
+      ).rejects.toThrow('SABR stream failed');
+      expect(vi.mocked(substitute.search)).not.toHaveBeenCalled();
+    });
   });
 });
 /* eslint-enable @typescript-eslint/no-unsafe-enum-comparison */
@@ -1,28 +1,111 @@
+import { PassThrough, pipeline } from 'node:stream';
 import { Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { EventEmitter2, OnEvent } from '@nestjs/event-emitter';
-import { AudioPlayerStatus } from '@discordjs/voice';
+import {
+  AudioPlayerStatus,
+  StreamType,
+  type AudioPlayerError,
+} from '@discordjs/voice';
+import type { Config } from '../../config/config.type';
 import { VOICE_EVENTS, VoiceService } from '../voice/voice.service';
-import { LoopMode, MusicQueue, type Track } from './music-queue';
+import { AudioFilterService } from './audio-filter.service';
+import type { AudioFilters } from './audio-filters';
+import { CrossfadeMixer } from './crossfade-mixer';
+import {
+  isLiveTrack,
+  LoopMode,
+  MusicQueue,
+  type MusicQueueState,
+  type Track,
+  type TrackRequester,
+} from './music-queue';
 import { MusicProviderDiscovery } from './providers/music-provider-discovery.service';
-import type { MusicProvider } from './providers/music-provider.interface';
+import type {
+  AudioInfo,
+  AudioStreamOptions,
+  MusicProvider,
+  PlaylistInfo,
+  SearchResult,
+} from './providers/music-provider.interface';
 
 export const MUSIC_EVENTS = {
   QUEUE_END: 'music.queue.end',
   TRACK_START: 'music.track.start',
+  QUEUE_UPDATE: 'music.queue.update',
+  STREAM_METADATA: 'music.stream.metadata',
 } as const;
 
+const MAX_STREAM_RESUMES = 3;
+const RESUME_END_MARGIN_MS = 3000;
+const SEEK_END_MARGIN_MS = 1000;
+const DEFAULT_MAX_PLAYLIST_TRACKS = 200;
+const AUTOPLAY_REQUESTER: TrackRequester = { id: '', tag: 'Autoplay' };
+const AUTOPLAY_CANDIDATES = 10;
+const AUTOPLAY_MAX_ATTEMPTS = 3;
+const RECENT_HISTORY_SIZE = 50;
+const PREVIOUS_RESTART_THRESHOLD_MS = 5000;
+const FALLBACK_DURATION_TOLERANCE_SECONDS = 15;
+const DEFAULT_PREFETCH_SECONDS = 10;
+const TRANSITION_POLL_MS = 1000;
+// Roughly a minute of audio at YouTube's usual Opus bitrates
+const PREFETCH_BUFFER_BYTES = 1024 * 1024;
+
+export interface PreviousResult {
+  track: Track;
+  restarted: boolean;
+}
+
+interface PrefetchedAudio {
+  track: Track;
+  audio: Promise<AudioInfo>;
+}
+
+export interface PlaylistEnqueueOptions {
+  shuffle?: boolean;
+  onProgress?: (loaded: number) => void;
+}
+
 @Injectable()
 export class MusicService {
   private readonly logger = new Logger(MusicService.name);
   private readonly queues = new Map<string, MusicQueue>();
   private readonly autoPlaySetup = new Set<string>();
   private readonly handlingTrackEnd = new Set<string>();
+  private readonly pendingResume = new Set<string>();
+  private readonly playbackOffsets = new Map<string, number>();
+  private readonly playbackRates = new Map<string, number>();
+  private readonly streamFailures = new Map<string, number>();
+  private readonly streamResumes = new Map<string, number>();
+  private readonly autoplayGuilds = new Set<string>();
+  private readonly recentlyPlayed = new Map<string, Track[]>();
+  private readonly streamTitles = new Map<string, string>();
+  private readonly prefetched = new Map<string, PrefetchedAudio>();
+  private readonly mixers = new Map<string, CrossfadeMixer>();
+  private readonly crossfadeAttempted = new Set<string>();
+  private readonly transitionTimers = new Map<string, NodeJS.Timeout>();
+  private readonly maxPlaylistTracks: number;
+  private readonly prefetchMs: number;
+  private readonly crossfadeMs: number;
 
   public constructor(
     private readonly voiceService: VoiceService,
     private readonly providerDiscovery: MusicProviderDiscovery,
     private readonly eventEmitter: EventEmitter2,
-  ) {}
+    private readonly configService: ConfigService<Config, true>,
+    private readonly audioFilters: AudioFilterService,
+  ) {
+    this.maxPlaylistTracks =
+      this.configService.get('music', { infer: true })?.playlists?.maxTracks ??
+      DEFAULT_MAX_PLAYLIST_TRACKS;
+
+    const transitions = this.configService.get('music', {
+      infer: true,
+    })?.transitions;
+    this.prefetchMs =
+      (transitions?.prefetchSeconds ?? DEFAULT_PREFETCH_SECONDS) * 1000;
+    this.crossfadeMs = (transitions?.crossfadeSeconds ?? 0) * 1000;
+  }
 
   private get providers(): MusicProvider[] {
     return this.providerDiscovery.getProviders();
@@ -31,42 +114,160 @@ export class MusicService {
   public async play(
     guildId: string,
     url: string,
-    requestedBy: string,
+    requester: TrackRequester,
   ): Promise<Track> {
     const provider = this.getProviderForUrl(url);
-    const track = await provider.fetchTrackInfo(url, requestedBy);
-    const queue = this.getOrCreateQueue(guildId);
+    const track = await provider.fetchTrackInfo(url, requester);
+    await this.enqueue(guildId, track);
 
-    const shouldStartPlayback = queue.isEmpty();
-    queue.add(track);
+    return track;
+  }
 
-    if (shouldStartPlayback) {
-      await this.playTrack(guildId, track);
+  public isPlaylistUrl(url: string): boolean {
+    return this.providers.some(
+      (provider) => provider.canHandle(url) && provider.isPlaylist?.(url),
+    );
+  }
+
+  public async playPlaylist(
+    guildId: string,
+    url: string,
+    requester: TrackRequester,
+    options: PlaylistEnqueueOptions = {},
+  ): Promise<PlaylistInfo> {
+    const provider = this.getProviderForUrl(url);
+    if (!provider.fetchPlaylist) {
+      throw new Error(`${provider.name} does not support playlists`);
     }
 
-    return track;
+    const playlist = await provider.fetchPlaylist(url, requester, {
+      limit: this.maxPlaylistTracks,
+      ...(options.onProgress && { onProgress: options.onProgress }),
+    });
+    if (playlist.tracks.length === 0) {
+      throw new Error('Playlist has no playable tracks');
+    }
+
+    await this.enqueueMany(guildId, playlist.tracks, options.shuffle ?? false);
+
+    return playlist;
+  }
+
+  public async playTracks(guildId: string, tracks: Track[]): Promise<void> {
+    if (tracks.length === 0) {
+      return;
+    }
+
+    await this.enqueueMany(guildId, tracks, false);
+  }
+
+  public getSearchSources(): string[] {
+    return this.providerDiscovery
+      .getProviders('search')
+      .map((provider) => provider.name);
+  }
+
+  public async searchMany(
+    query: string,
+    requester: TrackRequester,
+    limit: number,
+    source?: string,
+  ): Promise<SearchResult[]> {
+    const provider = this.getSearchProvider(source);
+    if (!provider.searchMany) {
+      throw new Error('No search provider available');
+    }
+
+    return provider.searchMany(query, requester, limit);
+  }
+
+  public async getSearchSuggestions(query: string): Promise<string[]> {
+    const provider = this.providerDiscovery.getProviders('search')[0];
+    if (!provider?.getSuggestions) {
+      return [];
+    }
+
+    return provider.getSuggestions(query);
   }
 
   public async searchAndPlay(
     guildId: string,
     query: string,
-    requestedBy: string,
+    requester: TrackRequester,
+    source?: string,
   ): Promise<Track> {
-    const provider = this.providers[0];
-    if (!provider) {
-      throw new Error('No search provider available');
+    const provider = this.getSearchProvider(source);
+    const track = await provider.search(query, requester);
+    await this.enqueue(guildId, track);
+
+    return track;
+  }
+
+  public async playNext(
+    guildId: string,
+    query: string,
+    requester: TrackRequester,
+  ): Promise<Track> {
+    const urlProvider = this.providers.find((p) => p.canHandle(query));
+    const track = urlProvider
+      ? await urlProvider.fetchTrackInfo(query, requester)
+      : await this.getSearchProvider().search(query, requester);
+    await this.enqueue(guildId, track, { next: true });
+    this.discardStalePrefetch(guildId);
+
+    return track;
+  }
+
+  public move(guildId: string, from: number, to: number): Track | undefined {
+    const track = this.queues.get(guildId)?.move(from, to);
+    this.discardStalePrefetch(guildId);
+    return track;
+  }
+
+  public moveToNext(guildId: string, index: number): Track | undefined {
+    const queue = this.queues.get(guildId);
+    const currentIndex = queue?.getCurrentIndex();
+    if (!queue || currentIndex === undefined || index === currentIndex) {
+      return undefined;
     }
 
-    const track = await provider.search(query, requestedBy);
-    const queue = this.getOrCreateQueue(guildId);
+    // Removing a track before the current one shifts the current track down
+    const track = queue.move(
+      index,
+      index < currentIndex ? currentIndex : currentIndex + 1,
+    );
+    this.discardStalePrefetch(guildId);
+    return track;
+  }
 
-    const shouldStartPlayback = queue.isEmpty();
-    queue.add(track);
+  public swap(
+    guildId: string,
+    a: number,
+    b: number,
+  ): [Track, Track] | undefined {
+    const swapped = this.queues.get(guildId)?.swap(a, b);
+    this.discardStalePrefetch(guildId);
+    return swapped;
+  }
 
-    if (shouldStartPlayback) {
-      await this.playTrack(guildId, track);
+  public skipTo(guildId: string, index: number): Track | undefined {
+    const queue = this.queues.get(guildId);
+    if (!queue || index === queue.getCurrentIndex()) {
+      return undefined;
     }
 
+    const track = queue.jumpTo(index);
+    if (track) {
+      this.playTrack(guildId, track).catch((error: unknown) => {
+        this.logger.error(
+          `Failed to play skipped-to track in guild ${guildId}`,
+          error,
+        );
+        this.voiceService.stop(guildId);
+      });
+    }
+    this.discardStalePrefetch(guildId);
+
     return track;
   }
 
@@ -88,10 +289,38 @@ export class MusicService {
     } else {
       this.voiceService.stop(guildId);
     }
+    this.discardStalePrefetch(guildId);
 
     return nextTrack;
   }
 
+  public async previous(guildId: string): Promise<PreviousResult | undefined> {
+    const queue = this.queues.get(guildId);
+    const current = queue?.getCurrent();
+
+    if (
+      current &&
+      this.getPosition(guildId) >= PREVIOUS_RESTART_THRESHOLD_MS &&
+      (await this.seek(guildId, 0)) !== undefined
+    ) {
+      return { track: current, restarted: true };
+    }
+
+    const previousTrack =
+      queue?.previous() ?? this.previousFromHistory(guildId, current);
+    if (previousTrack) {
+      await this.playTrack(guildId, previousTrack);
+      return { track: previousTrack, restarted: false };
+    }
+
+    if (current) {
+      await this.playTrack(guildId, current);
+      return { track: current, restarted: true };
+    }
+
+    return undefined;
+  }
+
   public stop(guildId: string): boolean {
     const queue = this.queues.get(guildId);
     if (!queue) {
@@ -99,6 +328,7 @@ export class MusicService {
     }
 
     queue.clear();
+    this.stopTransitions(guildId);
     this.voiceService.stop(guildId);
     return true;
   }
@@ -119,6 +349,10 @@ export class MusicService {
     return this.queues.get(guildId)?.getAll() ?? [];
   }
 
+  public getCurrentIndex(guildId: string): number {
+    return this.queues.get(guildId)?.getCurrentIndex() ?? 0;
+  }
+
   public getUpcoming(guildId: string): Track[] {
     return this.queues.get(guildId)?.getUpcoming() ?? [];
   }
@@ -134,6 +368,7 @@ export class MusicService {
     if (current) {
       queue.add(current);
     }
+    this.discardStalePrefetch(guildId);
     return true;
   }
 
@@ -144,6 +379,7 @@ export class MusicService {
     }
 
     queue.shuffle();
+    this.discardStalePrefetch(guildId);
     return true;
   }
 
@@ -156,6 +392,19 @@ export class MusicService {
     return this.queues.get(guildId)?.getLoopMode() ?? LoopMode.None;
   }
 
+  public isAutoplayEnabled(guildId: string): boolean {
+    return this.autoplayGuilds.has(guildId);
+  }
+
+  public setAutoplay(guildId: string, enabled: boolean): boolean {
+    if (enabled) {
+      this.autoplayGuilds.add(guildId);
+    } else {
+      this.autoplayGuilds.delete(guildId);
+    }
+    return enabled;
+  }
+
   public remove(guildId: string, index: number): Track | undefined {
     const queue = this.queues.get(guildId);
     if (!queue) {
@@ -167,7 +416,56 @@ export class MusicService {
       return undefined;
     }
 
-    return queue.remove(index);
+    const removed = queue.remove(index);
+    this.discardStalePrefetch(guildId);
+    return removed;
+  }
+
+  public getPosition(guildId: string): number {
+    // Negative while a crossfade is still blending in the start of the track
+    return Math.max(
+      0,
+      this.toTrackPosition(
+        guildId,
+        this.voiceService.getPlaybackDuration(guildId),
+      ),
+    );
+  }
+
+  public async seek(
+    guildId: string,
+    positionMs: number,
+  ): Promise<number | undefined> {
+    const track = this.queues.get(guildId)?.getCurrent();
+    if (
+      !track ||
+      isLiveTrack(track) ||
+      (!this.isPlaying(guildId) && !this.isPaused(guildId))
+    ) {
+      return undefined;
+    }
+
+    const maxPositionMs =
+      track.duration > 0
+        ? Math.max(0, track.duration * 1000 - SEEK_END_MARGIN_MS)
+        : Infinity;
+    const startTimeMs = Math.round(
+      Math.min(Math.max(0, positionMs), maxPositionMs),
+    );
+
+    await this.streamTrack(guildId, track, { startTimeMs });
+    this.logger.log(
+      `Seeked: ${track.title} to ${String(startTimeMs)}ms in guild ${guildId}`,
+    );
+
+    return startTimeMs;
+  }
+
+  public async seekBy(
+    guildId: string,
+    deltaMs: number,
+  ): Promise<number | undefined> {
+    return this.seek(guildId, this.getPosition(guildId) + deltaMs);
   }
 
   public isPlaying(guildId: string): boolean {
@@ -191,11 +489,88 @@ export class MusicService {
     return this.voiceService.getVolume(guildId);
   }
 
+  public getFilters(guildId: string): AudioFilters {
+    return this.audioFilters.getFilters(guildId);
+  }
+
+  // Track time that passes per second of output, for the resource that is playing
+  public getPlaybackRate(guildId: string): number {
+    return this.playbackRates.get(guildId) ?? 1;
+  }
+
+  // Returns whether the current track was restarted to apply the change right away
+  public async setFilters(
+    guildId: string,
+    filters: AudioFilters,
+  ): Promise<boolean> {
+    const positionMs = this.getPosition(guildId);
+    this.audioFilters.setFilters(guildId, filters);
+
+    const track = this.queues.get(guildId)?.getCurrent();
+    if (!track || (!this.isPlaying(guildId) && !this.isPaused(guildId))) {
+      return false;
+    }
+
+    await this.streamTrack(
+      guildId,
+      track,
+      isLiveTrack(track) ? {} : { startTimeMs: Math.round(positionMs) },
+    );
+    this.logger.log(
+      `Applied audio filters to "${track.title}" in guild ${guildId}`,
+    );
+    return true;
+  }
+
+  public getStreamTitle(guildId: string): string | undefined {
+    return this.streamTitles.get(guildId);
+  }
+
   public cleanup(guildId: string): void {
     this.voiceService.stop(guildId);
     this.autoPlaySetup.delete(guildId);
     this.handlingTrackEnd.delete(guildId);
-    this.queues.delete(guildId);
+    this.pendingResume.delete(guildId);
+    this.playbackOffsets.delete(guildId);
+    this.playbackRates.delete(guildId);
+    this.streamFailures.delete(guildId);
+    this.streamResumes.delete(guildId);
+    this.streamTitles.delete(guildId);
+    this.stopTransitions(guildId);
+    this.mixers.delete(guildId);
+    this.crossfadeAttempted.delete(guildId);
+    if (this.queues.delete(guildId)) {
+      this.eventEmitter.emit(MUSIC_EVENTS.QUEUE_UPDATE, guildId);
+    }
+  }
+
+  public getQueueState(guildId: string): MusicQueueState | undefined {
+    return this.queues.get(guildId)?.toState();
+  }
+
+  public restoreQueue(guildId: string, state: MusicQueueState): void {
+    if (state.tracks.length === 0) {
+      return;
+    }
+
+    this.queues.set(
+      guildId,
+      MusicQueue.fromState(state, () => {
+        this.eventEmitter.emit(MUSIC_EVENTS.QUEUE_UPDATE, guildId);
+      }),
+    );
+    this.pendingResume.add(guildId);
+  }
+
+  public async resumePlayback(guildId: string): Promise<Track | undefined> {
+    const track = this.queues.get(guildId)?.getCurrent();
+    if (!track) {
+      return undefined;
+    }
+
+    this.pendingResume.delete(guildId);
+    await this.playTrack(guildId, track);
+    return track;
   }
 
   @OnEvent(VOICE_EVENTS.LEFT)
@@ -217,6 +592,13 @@ export class MusicService {
       void this.handleTrackEnd(guildId);
     });
 
+    player.on('error', (error: AudioPlayerError) => {
+      this.streamFailures.set(
+        guildId,
+        this.toTrackPosition(guildId, error.resource.playbackDuration),
+      );
+    });
+
     this.autoPlaySetup.add(guildId);
   }
 
@@ -233,12 +615,26 @@ export class MusicService {
         return;
       }
 
+      const failedAtMs = this.streamFailures.get(guildId);
+      this.streamFailures.delete(guildId);
+      if (
+        failedAtMs !== undefined &&
+        (await this.resumeAfterStreamFailure(guildId, queue, failedAtMs))
+      ) {
+        return;
+      }
+
       const maxAttempts = queue.size();
       for (let attempt = 0; attempt < maxAttempts; attempt++) {
         const nextTrack = queue.getNext();
 
         if (!nextTrack) {
+          if (await this.playRelated(guildId, queue)) {
+            return;
+          }
+
           queue.clear();
+          this.stopTransitions(guildId);
           this.eventEmitter.emit(MUSIC_EVENTS.QUEUE_END, guildId);
           return;
         }
@@ -258,12 +654,137 @@ export class MusicService {
       }
 
       queue.clear();
+      this.stopTransitions(guildId);
       this.eventEmitter.emit(MUSIC_EVENTS.QUEUE_END, guildId);
     } finally {
       this.handlingTrackEnd.delete(guildId);
     }
   }
 
+  private async resumeAfterStreamFailure(
+    guildId: string,
+    queue: MusicQueue,
+    failedAtMs: number,
+  ): Promise<boolean> {
+    const track = queue.getCurrent();
+    if (!track) {
+      return false;
+    }
+
+    if (
+      track.duration > 0 &&
+      failedAtMs >= track.duration * 1000 - RESUME_END_MARGIN_MS
+    ) {
+      return false;
+    }
+
+    const resumes = this.streamResumes.get(guildId) ?? 0;
+    if (resumes >= MAX_STREAM_RESUMES) {
+      this.logger.warn(
+        `Stream for "${track.title}" in guild ${guildId} failed ${String(resumes + 1)} times, skipping`,
+      );
+      return false;
+    }
+
+    this.streamResumes.set(guildId, resumes + 1);
+    this.logger.warn(
+      `Stream for "${track.title}" in guild ${guildId} failed at ${String(failedAtMs)}ms, resuming (${String(resumes + 1)}/${String(MAX_STREAM_RESUMES)})`,
+    );
+
+    try {
+      await this.streamTrack(guildId, track, { startTimeMs: failedAtMs });
+      this.logger.log(
+        `Resumed: ${track.title} at ${String(failedAtMs)}ms in guild ${guildId}`,
+      );
+      return true;
+    } catch {
+      return false;
+    }
+  }
+
+  private async playRelated(
+    guildId: string,
+    queue: MusicQueue,
+  ): Promise<boolean> {
+    const lastTrack = queue.getCurrent();
+    if (!this.autoplayGuilds.has(guildId) || !lastTrack) {
+      return false;
+    }
+
+    const provider = this.providers.find(
+      (p) => p.getRelated && p.canHandle(lastTrack.url),
+    );
+    if (!provider?.getRelated) {
+      this.logger.debug(
+        `Autoplay has no related-track source for "${lastTrack.title}" in guild ${guildId}`,
+      );
+      return false;
+    }
+
+    let related: Track[];
+    try {
+      related = await provider.getRelated(
+        lastTrack.url,
+        AUTOPLAY_REQUESTER,
+        AUTOPLAY_CANDIDATES,
+      );
+    } catch (error) {
+      this.logger.warn(
+        `Autoplay could not fetch related tracks for "${lastTrack.title}" in guild ${guildId}`,
+        error,
+      );
+      return false;
+    }
+
+    const recent = new Set(
+      [...(this.recentlyPlayed.get(guildId) ?? []), ...queue.getAll()].map(
+        (track) => track.url,
+      ),
+    );
+    const candidates = related
+      .filter((track) => !recent.has(track.url))
+      .slice(0, AUTOPLAY_MAX_ATTEMPTS);
+
+    for (const candidate of candidates) {
+      queue.add(candidate);
+      queue.getNext();
+
+      try {
+        await this.playTrack(guildId, candidate);
+        this.logger.log(
+          `Autoplay queued "${candidate.title}" after "${lastTrack.title}" in guild ${guildId}`,
+        );
+        return true;
+      } catch {
+        // playTrack already logged the failure, try the next candidate
+      }
+    }
+
+    return false;
+  }
+
+  private previousFromHistory(
+    guildId: string,
+    current: Track | undefined,
+  ): Track | undefined {
+    const recent = this.recentlyPlayed.get(guildId) ?? [];
+    const track = recent.findLast((played) => played.url !== current?.url);
+    if (!track) {
+      return undefined;
+    }
+
+    this.getOrCreateQueue(guildId).prepend(track);
+    return track;
+  }
+
+  private rememberPlayed(guildId: string, track: Track): void {
+    const recent = (this.recentlyPlayed.get(guildId) ?? []).filter(
+      (played) => played.url !== track.url,
+    );
+    recent.push(track);
+    this.recentlyPlayed.set(guildId, recent.slice(-RECENT_HISTORY_SIZE));
+  }
+
   private getProviderForUrl(url: string): MusicProvider {
     const provider = this.providers.find((p) => p.canHandle(url));
     if (!provider) {
@@ -272,18 +793,158 @@ export class MusicService {
     return provider;
   }
 
+  // Tempo-changing filters play more or less of the track per second of output
+  private toTrackPosition(guildId: string, playbackDurationMs: number): number {
+    return (
+      (this.playbackOffsets.get(guildId) ?? 0) +
+      playbackDurationMs * (this.playbackRates.get(guildId) ?? 1)
+    );
+  }
+
+  private getSearchProvider(source?: string): MusicProvider {
+    const providers = this.providerDiscovery.getProviders('search');
+    const provider = source
+      ? providers.find(
+          (candidate) => candidate.name.toLowerCase() === source.toLowerCase(),
+        )
+      : providers[0];
+    if (!provider) {
+      throw new Error(
+        source
+          ? `Unknown search source: ${source}`
+          : 'No search provider available',
+      );
+    }
+    return provider;
+  }
+
+  private async getAudioInfo(
+    guildId: string,
+    track: Track,
+    options: AudioStreamOptions,
+  ): Promise<AudioInfo> {
+    const providers = this.providers.filter((p) => p.canHandle(track.url));
+    const [primary] = providers;
+    if (!primary) {
+      throw new Error(`No provider found for URL: ${track.url}`);
+    }
+
+    let firstError: unknown;
+    for (const provider of providers) {
+      try {
+        return await provider.getAudioInfo(track.url, options);
+      } catch (error) {
+        firstError ??= error;
+        this.logger.warn(
+          `${provider.name} could not stream "${track.title}" in guild ${guildId}`,
+          error,
+        );
+      }
+    }
+
+    // Another service has no equivalent of a live stream to find by title
+    if (!isLiveTrack(track)) {
+      for (const provider of this.providerDiscovery.getProviders('fallback')) {
+        if (providers.includes(provider)) {
+          continue;
+        }
+
+        try {
+          return await this.getFallbackAudioInfo(provider, track, options);
+        } catch (error) {
+          this.logger.debug(
+            `${provider.name} has no fallback for "${track.title}": ${error instanceof Error ? error.message : String(error)}`,
+          );
+        }
+      }
+    }
+
+    throw firstError instanceof Error
+      ? firstError
+      : new Error(`${primary.name} could not stream this track`);
+  }
+
+  private async getFallbackAudioInfo(
+    provider: MusicProvider,
+    track: Track,
+    options: AudioStreamOptions,
+  ): Promise<AudioInfo> {
+    const substitute = await provider.search(track.title, {
+      id: track.requesterId,
+      tag: track.requestedBy,
+    });
+    if (
+      track.duration > 0 &&
+      substitute.duration > 0 &&
+      Math.abs(track.duration - substitute.duration) >
+        FALLBACK_DURATION_TOLERANCE_SECONDS
+    ) {
+      throw new Error(`"${substitute.title}" is a different length`);
+    }
+
+    const audioInfo = await provider.getAudioInfo(substitute.url, options);
+    this.logger.log(
+      `Falling back to ${provider.name} for "${track.title}": ${substitute.url}`,
+    );
+    return audioInfo;
+  }
+
   private async playTrack(guildId: string, track: Track): Promise<void> {
+    this.streamTitles.delete(guildId);
+    this.crossfadeAttempted.delete(guildId);
+    await this.streamTrack(guildId, track, {});
+
+    this.streamResumes.delete(guildId);
+    this.rememberPlayed(guildId, track);
+    this.eventEmitter.emit(MUSIC_EVENTS.TRACK_START, guildId);
+
+    this.logger.log(`Now playing: ${track.title} in guild ${guildId}`);
+  }
+
+  private async streamTrack(
+    guildId: string,
+    track: Track,
+    options: AudioStreamOptions,
+  ): Promise<void> {
     try {
-      const provider = this.getProviderForUrl(track.url);
-      const audioInfo = await provider.getAudioInfo(track.url);
+      const audioInfo = await this.acquireAudio(guildId, track, options);
+      const gain = this.audioFilters.getNormalizationGain(audioInfo);
 
-      this.voiceService.play(guildId, audioInfo.source, {
-        inputType: audioInfo.streamType,
-      });
+      if (this.crossfadeMs > 0 && !isLiveTrack(track)) {
+        // Mixed audio is PCM, so the gain is applied by the mixer per track
+        const mixer = new CrossfadeMixer(
+          this.audioFilters.decode(guildId, audioInfo).source,
+          gain,
+        );
+        this.voiceService.play(guildId, mixer, {
+          inputType: StreamType.Raw,
+        });
+        this.mixers.set(guildId, mixer);
+      } else {
+        const playable = this.audioFilters.apply(guildId, audioInfo);
+        this.voiceService.play(guildId, playable.source, {
+          inputType: playable.streamType,
+          ...(gain !== undefined && { gain }),
+        });
+        this.mixers.delete(guildId);
+      }
 
-      this.eventEmitter.emit(MUSIC_EVENTS.TRACK_START, guildId);
+      this.playbackOffsets.set(guildId, options.startTimeMs ?? 0);
+      this.playbackRates.set(
+        guildId,
+        this.audioFilters.getPlaybackRate(guildId),
+      );
+      this.startTransitions(guildId);
+
+      audioInfo.metadata?.on('metadata', ({ title }) => {
+        // A replaced stream can still flush a final metadata block
+        if (this.queues.get(guildId)?.getCurrent() !== track) {
+          return;
+        }
 
-      this.logger.log(`Now playing: ${track.title} in guild ${guildId}`);
+        this.streamTitles.set(guildId, title);
+        this.eventEmitter.emit(MUSIC_EVENTS.STREAM_METADATA, guildId);
+      });
     } catch (error) {
       this.logger.error(
         `Failed to play track "${track.title}" in guild ${guildId}`,
@@ -293,10 +954,260 @@ export class MusicService {
     }
   }
 
+  private async acquireAudio(
+    guildId: string,
+    track: Track,
+    options: AudioStreamOptions,
+  ): Promise<AudioInfo> {
+    const prefetched =
+      options.startTimeMs === undefined
+        ? this.takePrefetched(guildId, track)
+        : undefined;
+    if (prefetched) {
+      try {
+        return await prefetched;
+      } catch {
+        // The failure was logged when prefetching, so try again from scratch
+      }
+    }
+
+    return this.getAudioInfo(guildId, track, options);
+  }
+
+  private startTransitions(guildId: string): void {
+    if (
+      (this.prefetchMs === 0 && this.crossfadeMs === 0) ||
+      this.transitionTimers.has(guildId)
+    ) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      void this.checkTransition(guildId);
+    }, TRANSITION_POLL_MS);
+    timer.unref();
+    this.transitionTimers.set(guildId, timer);
+  }
+
+  private stopTransitions(guildId: string): void {
+    clearInterval(this.transitionTimers.get(guildId));
+    this.transitionTimers.delete(guildId);
+    this.discardPrefetched(guildId);
+  }
+
+  private async checkTransition(guildId: string): Promise<void> {
+    this.discardStalePrefetch(guildId);
+
+    const queue = this.queues.get(guildId);
+    const next = queue?.peekNext();
+    const current = queue?.getCurrent();
+    if (
+      !queue ||
+      !current ||
+      !next ||
+      isLiveTrack(current) ||
+      isLiveTrack(next) ||
+      current.duration <= 0 ||
+      !this.isPlaying(guildId)
+    ) {
+      return;
+    }
+
+    const remainingMs =
+      (current.duration * 1000 - this.getPosition(guildId)) /
+      this.getPlaybackRate(guildId);
+
+    if (
+      remainingMs <= this.crossfadeMs + this.prefetchMs &&
+      !this.prefetched.has(guildId)
+    ) {
+      this.prefetch(guildId, next);
+    }
+
+    if (
+      this.crossfadeMs > 0 &&
+      remainingMs <= this.crossfadeMs &&
+      !this.crossfadeAttempted.has(guildId)
+    ) {
+      await this.crossfadeInto(guildId, queue, current, next);
+    }
+  }
+
+  private prefetch(guildId: string, track: Track): void {
+    const audio = this.getAudioInfo(guildId, track, {}).then((info) =>
+      this.bufferAudio(info),
+    );
+    // A failed prefetch stays cached so it isn't retried every poll
+    audio.catch((error: unknown) => {
+      this.logger.warn(
+        `Failed to prefetch "${track.title}" in guild ${guildId}: ${error instanceof Error ? error.message : String(error)}`,
+      );
+    });
+
+    this.prefetched.set(guildId, { track, audio });
+    this.logger.debug(`music.prefetch: "${track.title}" in guild ${guildId}`);
+  }
+
+  private bufferAudio(audio: AudioInfo): AudioInfo {
+    if (typeof audio.source === 'string') {
+      return audio;
+    }
+
+    // Start downloading now; backpressure stops it once the buffer is full
+    const buffer = new PassThrough({ highWaterMark: PREFETCH_BUFFER_BYTES });
+    pipeline(audio.source, buffer, () => undefined);
+    return { ...audio, source: buffer };
+  }
+
+  private discardStalePrefetch(guildId: string): void {
+    const entry = this.prefetched.get(guildId);
+    if (entry && entry.track !== this.queues.get(guildId)?.peekNext()) {
+      this.discardPrefetched(guildId);
+    }
+  }
+
+  private takePrefetched(
+    guildId: string,
+    track: Track,
+  ): Promise<AudioInfo> | undefined {
+    const entry = this.prefetched.get(guildId);
+    if (entry?.track !== track) {
+      return undefined;
+    }
+
+    this.prefetched.delete(guildId);
+    return entry.audio;
+  }
+
+  private discardPrefetched(guildId: string): void {
+    const entry = this.prefetched.get(guildId);
+    if (!entry) {
+      return;
+    }
+
+    this.prefetched.delete(guildId);
+    entry.audio.then(
+      (audio) => {
+        if (typeof audio.source !== 'string') {
+          audio.source.destroy();
+        }
+      },
+      () => undefined,
+    );
+  }
+
+  private async crossfadeInto(
+    guildId: string,
+    queue: MusicQueue,
+    current: Track,
+    next: Track,
+  ): Promise<void> {
+    const mixer = this.mixers.get(guildId);
+    if (!mixer) {
+      return;
+    }
+
+    // Stays set after a failure so the fade isn't retried until the next track
+    this.crossfadeAttempted.add(guildId);
+
+    try {
+      const audio = await this.acquireAudio(guildId, next, {});
+      if (
+        queue.getCurrent() !== current ||
+        queue.peekNext() !== next ||
+        this.mixers.get(guildId) !== mixer
+      ) {
+        if (typeof audio.source !== 'string') {
+          audio.source.destroy();
+        }
+        return;
+      }
+
+      const elapsedMs = this.voiceService.getPlaybackDuration(guildId);
+      mixer.crossfade(
+        this.audioFilters.decode(guildId, audio).source,
+        this.crossfadeMs,
+        this.audioFilters.getNormalizationGain(audio),
+      );
+      queue.getNext();
+      // The resource keeps counting from the previous track's start
+      this.playbackOffsets.set(
+        guildId,
+        -elapsedMs * this.getPlaybackRate(guildId),
+      );
+
+      this.crossfadeAttempted.delete(guildId);
+      this.streamTitles.delete(guildId);
+      this.streamResumes.delete(guildId);
+      this.rememberPlayed(guildId, next);
+      this.eventEmitter.emit(MUSIC_EVENTS.TRACK_START, guildId);
+
+      this.logger.log(`Crossfaded into: ${next.title} in guild ${guildId}`);
+    } catch (error) {
+      this.logger.error(
+        `Failed to crossfade into "${next.title}" in guild ${guildId}`,
+        error,
+      );
+    }
+  }
+
+  private async enqueueMany(
+    guildId: string,
+    tracks: Track[],
+    shuffle: boolean,
+  ): Promise<void> {
+    const queue = this.getOrCreateQueue(guildId);
+    const shouldStartPlayback = queue.isEmpty();
+    queue.addMany(tracks, { shuffle });
+
+    if (shouldStartPlayback) {
+      await this.startQueue(guildId, queue);
+    } else if (this.pendingResume.has(guildId)) {
+      await this.resumePlayback(guildId);
+    }
+  }
+
+  private async startQueue(guildId: string, queue: MusicQueue): Promise<void> {
+    const track = queue.getCurrent();
+    if (!track) {
+      return;
+    }
+
+    try {
+      await this.playTrack(guildId, track);
+    } catch {
+      // The rest of the batch is already queued, so move on to the next entry
+      await this.handleTrackEnd(guildId);
+    }
+  }
+
+  private async enqueue(
+    guildId: string,
+    track: Track,
+    options: { next?: boolean } = {},
+  ): Promise<void> {
+    const queue = this.getOrCreateQueue(guildId);
+
+    const shouldStartPlayback = queue.isEmpty();
+    if (options.next) {
+      queue.insertNext(track);
+    } else {
+      queue.add(track);
+    }
+
+    if (shouldStartPlayback) {
+      await this.playTrack(guildId, track);
+    } else if (this.pendingResume.has(guildId)) {
+      await this.resumePlayback(guildId);
+    }
+  }
+
   private getOrCreateQueue(guildId: string): MusicQueue {
     let queue = this.queues.get(guildId);
     if (!queue) {
-      queue = new MusicQueue();
+      queue = new MusicQueue(() => {
+        this.eventEmitter.emit(MUSIC_EVENTS.QUEUE_UPDATE, guildId);
+      });
       this.queues.set(guildId, queue);
     }
     return queue;
@@ -6,6 +6,8 @@ import type { Track } from './music-queue';
 import { MusicService } from './music.service';
 import { NowPlayingComponents } from './now-playing.components';
 import { NowPlayingService } from './now-playing.service';
+import { VOTE_REQUIRED_MESSAGE } from './vote-skip.service';
+import type { VoteSkipService } from './vote-skip.service';
 
 const mockTrack: Track = {
   url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
@@ -13,12 +15,14 @@ const mockTrack: Track = {
   duration: 180,
   thumbnail: 'https://example.com/thumb.jpg',
   requestedBy: 'user#1234',
+  requesterId: 'user-123',
 };
 
 describe('NowPlayingComponents', () => {
   let components: NowPlayingComponents;
   let musicService: MusicService;
   let nowPlayingService: NowPlayingService;
+  let voteSkip: VoteSkipService;
   let mockInteraction: ButtonInteraction;
   let mockVoiceChannel: VoiceChannel;
   let mockMember: GuildMember;
@@ -49,6 +53,7 @@ describe('NowPlayingComponents', () => {
         },
       },
       inGuild: vi.fn().mockReturnValue(true),
+      reply: vi.fn().mockResolvedValue(undefined),
       deferUpdate: vi.fn().mockResolvedValue(undefined),
       editReply: vi.fn().mockResolvedValue(undefined),
       followUp: vi.fn().mockResolvedValue(undefined),
@@ -64,15 +69,29 @@ describe('NowPlayingComponents', () => {
       cycleLoopMode: vi.fn().mockReturnValue('track'),
       isPlaying: vi.fn().mockReturnValue(true),
       isPaused: vi.fn().mockReturnValue(false),
+      seekBy: vi.fn().mockResolvedValue(30_000),
+      previous: vi.fn().mockResolvedValue(undefined),
     } as unknown as MusicService;
 
     nowPlayingService = {
       sendNowPlaying: vi.fn().mockResolvedValue(undefined),
       deleteNowPlaying: vi.fn().mockResolvedValue(undefined),
+      updateNowPlaying: vi.fn().mockResolvedValue(undefined),
       cleanup: vi.fn().mockResolvedValue(undefined),
     } as unknown as NowPlayingService;
 
-    components = new NowPlayingComponents(musicService, nowPlayingService);
+    voteSkip = {
+      requestSkip: vi
+        .fn()
+        .mockReturnValue({ status: 'skipped', nextTrack: mockTrack }),
+      canSkipWithoutVote: vi.fn().mockReturnValue(true),
+    } as unknown as VoteSkipService;
+
+    components = new NowPlayingComponents(
+      musicService,
+      nowPlayingService,
+      voteSkip,
+    );
   });
 
   afterEach(() => {
@@ -137,14 +156,20 @@ describe('NowPlayingComponents', () => {
       await components.onSkipButton([mockInteraction]);
 
       expect(mockInteraction.deferUpdate).toHaveBeenCalled();
-      expect(musicService.skip).toHaveBeenCalledWith('guild-123');
+      expect(voteSkip.requestSkip).toHaveBeenCalledWith(
+        'guild-123',
+        mockMember,
+      );
       expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
         'guild-123',
       );
     });
 
     it('cleans up when no more tracks', async () => {
-      vi.mocked(musicService.skip).mockReturnValue(undefined);
+      vi.mocked(voteSkip.requestSkip).mockReturnValue({
+        status: 'skipped',
+        nextTrack: undefined,
+      });
 
       await components.onSkipButton([mockInteraction]);
 
@@ -158,7 +183,37 @@ describe('NowPlayingComponents', () => {
 
       await components.onSkipButton([mockInteraction]);
 
-      expect(musicService.skip).not.toHaveBeenCalled();
+      expect(voteSkip.requestSkip).not.toHaveBeenCalled();
+    });
+
+    it('refreshes the vote tally after a vote', async () => {
+      vi.mocked(voteSkip.requestSkip).mockReturnValue({
+        status: 'voted',
+        votes: 1,
+        required: 2,
+      });
+
+      await components.onSkipButton([mockInteraction]);
+
+      expect(nowPlayingService.updateNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+      expect(nowPlayingService.sendNowPlaying).not.toHaveBeenCalled();
+    });
+
+    it('tells a repeat voter privately', async () => {
+      vi.mocked(voteSkip.requestSkip).mockReturnValue({
+        status: 'already-voted',
+        votes: 1,
+        required: 2,
+      });
+
+      await components.onSkipButton([mockInteraction]);
+
+      expect(mockInteraction.followUp).toHaveBeenCalledWith({
+        content: 'You already voted to skip (1/2).',
+        flags: MessageFlags.Ephemeral,
+      });
     });
   });
 
@@ -233,5 +288,132 @@ describe('NowPlayingComponents', () => {
       expect(musicService.cycleLoopMode).not.toHaveBeenCalled();
     });
   });
+
+  describe('onPreviousButton', () => {
+    it('plays the previous track and refreshes now playing', async () => {
+      vi.mocked(musicService.previous).mockResolvedValueOnce({
+        track: {
+          url: 'https://youtube.com/watch?v=test',
+          title: 'Test',
+          duration: 180,
+          thumbnail: 'https://i.ytimg.com/vi/test/hqdefault.jpg',
+          requestedBy: 'user#1234',
+          requesterId: 'user-123',
+        },
+        restarted: false,
+      });
+
+      await components.onPreviousButton([mockInteraction]);
+
+      expect(mockInteraction.deferUpdate).toHaveBeenCalled();
+      expect(musicService.previous).toHaveBeenCalledWith('guild-123');
+      expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+    });
+
+    it('refuses a listener who would need a vote', async () => {
+      vi.mocked(voteSkip.canSkipWithoutVote).mockReturnValue(false);
+
+      await components.onPreviousButton([mockInteraction]);
+
+      expect(musicService.previous).not.toHaveBeenCalled();
+      expect(mockInteraction.deferUpdate).not.toHaveBeenCalled();
+      expect(mockInteraction.reply).toHaveBeenCalledWith({
+        content: VOTE_REQUIRED_MESSAGE,
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('shows ephemeral follow-up when there is no previous track', async () => {
+      await components.onPreviousButton([mockInteraction]);
+
+      expect(mockInteraction.followUp).toHaveBeenCalledWith({
+        content: 'There is no previous track.',
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(nowPlayingService.sendNowPlaying).not.toHaveBeenCalled();
+    });
+
+    it('shows ephemeral follow-up when playback fails', async () => {
+      vi.mocked(musicService.previous).mockRejectedValueOnce(
+        new Error('Stream unavailable'),
+      );
+
+      await components.onPreviousButton([mockInteraction]);
+
+      expect(mockInteraction.followUp).toHaveBeenCalledWith({
+        content: 'Failed to play the previous track.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+  });
+
+  describe('onRewindButton', () => {
+    it('seeks back 10 seconds', async () => {
+      await components.onRewindButton([mockInteraction]);
+
+      expect(mockInteraction.deferUpdate).toHaveBeenCalled();
+      expect(musicService.seekBy).toHaveBeenCalledWith('guild-123', -10_000);
+      expect(mockInteraction.followUp).not.toHaveBeenCalled();
+    });
+
+    it('does nothing when user not in voice channel', async () => {
+      const memberNotInVoice = {
+        voice: {
+          channel: null,
+        },
+      } as unknown as GuildMember;
+      const guild = mockInteraction.guild;
+      if (guild) {
+        vi.mocked(guild.members.cache.get).mockReturnValue(memberNotInVoice);
+      }
+
+      await components.onRewindButton([mockInteraction]);
+
+      expect(mockInteraction.deferUpdate).not.toHaveBeenCalled();
+      expect(musicService.seekBy).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onForwardButton', () => {
+    it('seeks forward 10 seconds', async () => {
+      await components.onForwardButton([mockInteraction]);
+
+      expect(musicService.seekBy).toHaveBeenCalledWith('guild-123', 10_000);
+    });
+
+    it('shows ephemeral follow-up when nothing is playing', async () => {
+      vi.mocked(musicService.seekBy).mockResolvedValueOnce(undefined);
+
+      await components.onForwardButton([mockInteraction]);
+
+      expect(mockInteraction.followUp).toHaveBeenCalledWith({
+        content: 'Nothing is playing.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('shows ephemeral follow-up when seeking fails', async () => {
+      vi.mocked(musicService.seekBy).mockRejectedValueOnce(
+        new Error('SABR stream failed'),
+      );
+
+      await components.onForwardButton([mockInteraction]);
+
+      expect(mockInteraction.followUp).toHaveBeenCalledWith({
+        content: 'Failed to seek in the current track.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('does nothing when not in guild', async () => {
+      vi.mocked(mockInteraction.inGuild).mockReturnValue(false);
+
+      await components.onForwardButton([mockInteraction]);
+
+      expect(musicService.seekBy).not.toHaveBeenCalled();
+    });
+  });
 });
 /* eslint-enable @typescript-eslint/no-deprecated */
@@ -5,13 +5,16 @@ import { MusicService } from './music.service';
 import {
   NOW_PLAYING_BUTTON_IDS,
   NowPlayingService,
+  SEEK_STEP_MS,
 } from './now-playing.service';
+import { VOTE_REQUIRED_MESSAGE, VoteSkipService } from './vote-skip.service';
 
 @Injectable()
 export class NowPlayingComponents {
   public constructor(
     private readonly musicService: MusicService,
     private readonly nowPlayingService: NowPlayingService,
+    private readonly voteSkip: VoteSkipService,
   ) {}
 
   @Button(NOW_PLAYING_BUTTON_IDS.PLAY_PAUSE)
@@ -52,12 +55,26 @@ export class NowPlayingComponents {
     await interaction.deferUpdate();
 
     const guildId = interaction.guildId;
-    const nextTrack = this.musicService.skip(guildId);
-
-    if (nextTrack) {
-      await this.nowPlayingService.sendNowPlaying(guildId);
-    } else {
-      await this.nowPlayingService.deleteNowPlaying(guildId);
+    const result = this.voteSkip.requestSkip(guildId, member);
+
+    if (result.status === 'skipped') {
+      if (result.nextTrack) {
+        await this.nowPlayingService.sendNowPlaying(guildId);
+      } else {
+        await this.nowPlayingService.deleteNowPlaying(guildId);
+      }
+    } else if (result.status === 'voted') {
+      await this.nowPlayingService.updateNowPlaying(guildId);
+    } else if (result.status === 'already-voted') {
+      await interaction.followUp({
+        content: `You already voted to skip (${String(result.votes)}/${String(result.required)}).`,
+        flags: MessageFlags.Ephemeral,
+      });
+    } else if (result.status === 'not-listening') {
+      await interaction.followUp({
+        content: 'You must be listening in the voice channel to skip.',
+        flags: MessageFlags.Ephemeral,
+      });
     }
   }
 
@@ -122,4 +139,89 @@ export class NowPlayingComponents {
     this.musicService.cycleLoopMode(guildId);
     await this.nowPlayingService.sendNowPlaying(guildId);
   }
+
+  @Button(NOW_PLAYING_BUTTON_IDS.PREVIOUS)
+  public async onPreviousButton(@Ctx() [interaction]: ButtonContext) {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    const member = interaction.guild?.members.cache.get(interaction.user.id);
+    if (!member?.voice.channel) {
+      return;
+    }
+
+    const guildId = interaction.guildId;
+    if (!this.voteSkip.canSkipWithoutVote(guildId, member)) {
+      await interaction.reply({
+        content: VOTE_REQUIRED_MESSAGE,
+        flags: MessageFlags.Ephemeral,
+      });
+      return;
+    }
+
+    await interaction.deferUpdate();
+
+    try {
+      const result = await this.musicService.previous(guildId);
+      if (!result) {
+        await interaction.followUp({
+          content: 'There is no previous track.',
+          flags: MessageFlags.Ephemeral,
+        });
+        return;
+      }
+
+      await this.nowPlayingService.sendNowPlaying(guildId);
+    } catch {
+      await interaction.followUp({
+        content: 'Failed to play the previous track.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
+
+  @Button(NOW_PLAYING_BUTTON_IDS.REWIND)
+  public async onRewindButton(@Ctx() [interaction]: ButtonContext) {
+    await this.seekBy(interaction, -SEEK_STEP_MS);
+  }
+
+  @Button(NOW_PLAYING_BUTTON_IDS.FORWARD)
+  public async onForwardButton(@Ctx() [interaction]: ButtonContext) {
+    await this.seekBy(interaction, SEEK_STEP_MS);
+  }
+
+  private async seekBy(
+    interaction: ButtonContext[0],
+    deltaMs: number,
+  ): Promise<void> {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    const member = interaction.guild?.members.cache.get(interaction.user.id);
+    if (!member?.voice.channel) {
+      return;
+    }
+
+    await interaction.deferUpdate();
+
+    try {
+      const position = await this.musicService.seekBy(
+        interaction.guildId,
+        deltaMs,
+      );
+      if (position === undefined) {
+        await interaction.followUp({
+          content: 'Nothing is playing.',
+          flags: MessageFlags.Ephemeral,
+        });
+      }
+    } catch {
+      await interaction.followUp({
+        content: 'Failed to seek in the current track.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+  }
 }
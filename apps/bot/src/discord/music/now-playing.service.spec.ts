@@ -2,9 +2,11 @@ import { ConfigService } from '@nestjs/config';
 import type { Client, Message, TextChannel } from 'discord.js';
 import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
 import type { Config } from '../../config/config.type';
+import { NO_AUDIO_FILTERS } from './audio-filters';
 import { LoopMode, type Track } from './music-queue';
 import { MusicService } from './music.service';
 import { NowPlayingService } from './now-playing.service';
+import type { VoteSkipService } from './vote-skip.service';
 
 const mockTrack: Track = {
   url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
@@ -12,6 +14,7 @@ const mockTrack: Track = {
   duration: 180,
   thumbnail: 'https://example.com/thumb.jpg',
   requestedBy: 'user#1234',
+  requesterId: 'user-123',
 };
 
 const mockGuildsSettings: Config['discord']['guildsSettings'] = {
@@ -26,6 +29,7 @@ describe('NowPlayingService', () => {
   let service: NowPlayingService;
   let musicService: MusicService;
   let configService: ConfigService<Config, true>;
+  let voteSkip: VoteSkipService;
   let mockClient: Client;
   let mockChannel: TextChannel;
   let mockMessage: Message;
@@ -36,6 +40,7 @@ describe('NowPlayingService', () => {
     mockMessage = {
       id: 'msg-123',
       delete: vi.fn().mockResolvedValue(undefined),
+      edit: vi.fn().mockResolvedValue(undefined),
     } as unknown as Message;
 
     mockChannel = {
@@ -56,17 +61,31 @@ describe('NowPlayingService', () => {
     musicService = {
       getNowPlaying: vi.fn().mockReturnValue(mockTrack),
       getLoopMode: vi.fn().mockReturnValue(LoopMode.None),
+      isAutoplayEnabled: vi.fn().mockReturnValue(false),
       getVolume: vi.fn().mockReturnValue(0.25),
       isPlaying: vi.fn().mockReturnValue(true),
       isPaused: vi.fn().mockReturnValue(false),
       getUpcoming: vi.fn().mockReturnValue([]),
+      getStreamTitle: vi.fn().mockReturnValue(undefined),
+      getFilters: vi.fn().mockReturnValue(NO_AUDIO_FILTERS),
+      getPlaybackRate: vi.fn().mockReturnValue(1),
+      getPosition: vi.fn().mockReturnValue(0),
     } as unknown as MusicService;
 
     configService = {
       get: vi.fn().mockReturnValue(mockGuildsSettings),
     } as unknown as ConfigService<Config, true>;
 
-    service = new NowPlayingService(musicService, configService, mockClient);
+    voteSkip = {
+      getTally: vi.fn().mockReturnValue(undefined),
+    } as unknown as VoteSkipService;
+
+    service = new NowPlayingService(
+      musicService,
+      configService,
+      mockClient,
+      voteSkip,
+    );
   });
 
   afterEach(() => {
@@ -281,6 +300,63 @@ describe('NowPlayingService', () => {
       expect(mockChannel.send).toHaveBeenCalled();
     });
 
+    it('shows autoplay indicator', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      vi.mocked(musicService.isAutoplayEnabled).mockReturnValue(true);
+
+      await service.sendNowPlaying('guild-123');
+
+      const payload = vi.mocked(mockChannel.send).mock.calls[0]?.[0];
+      expect(JSON.stringify(payload)).toContain('📻 Autoplay');
+    });
+
+    it('shows active audio filters', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      vi.mocked(musicService.getFilters).mockReturnValue({
+        presets: ['nightcore'],
+        equalizer: [{ frequency: 60, gain: 6 }],
+      });
+
+      await service.sendNowPlaying('guild-123');
+
+      const payload = vi.mocked(mockChannel.send).mock.calls[0]?.[0];
+      expect(JSON.stringify(payload)).toContain(
+        '🎛️ 🌙 Nightcore, 🎚️ EQ 60Hz +6dB',
+      );
+    });
+
+    it('shows the duration at the current playback speed', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      vi.mocked(musicService.getPlaybackRate).mockReturnValue(1.5);
+
+      await service.sendNowPlaying('guild-123');
+
+      const payload = vi.mocked(mockChannel.send).mock.calls[0]?.[0];
+      expect(JSON.stringify(payload)).toContain('/ 2:00`');
+    });
+
+    it('shows the skip vote tally', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      vi.mocked(voteSkip.getTally).mockReturnValue({ votes: 1, required: 3 });
+
+      await service.sendNowPlaying('guild-123');
+
+      const payload = vi.mocked(mockChannel.send).mock.calls[0]?.[0];
+      expect(JSON.stringify(payload)).toContain('🗳️ 1/3 votes to skip');
+    });
+
+    it('shows a progress bar with the elapsed time', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      vi.mocked(musicService.getPosition).mockReturnValue(90_000);
+
+      await service.sendNowPlaying('guild-123');
+
+      const payload = vi.mocked(mockChannel.send).mock.calls[0]?.[0];
+      expect(JSON.stringify(payload)).toContain(
+        '━━━━━━━━●─────── `1:30 / 3:00`',
+      );
+    });
+
     it('shows volume level', async () => {
       service.setChannelForGuild('guild-123', 'channel-123');
       vi.mocked(musicService.getVolume).mockReturnValue(0.75);
@@ -301,6 +377,63 @@ describe('NowPlayingService', () => {
 
       expect(mockChannel.send).toHaveBeenCalled();
     });
+
+    it('renders live streams with their current title and no seek buttons', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      vi.mocked(musicService.getNowPlaying).mockReturnValue({
+        ...mockTrack,
+        duration: Number.POSITIVE_INFINITY,
+      });
+      vi.mocked(musicService.getStreamTitle).mockReturnValue('Artist - Song');
+
+      await service.sendNowPlaying('guild-123');
+
+      const payload = JSON.stringify(
+        vi.mocked(mockChannel.send).mock.calls[0]?.[0],
+      );
+      expect(payload).toContain('🎶 Artist - Song');
+      expect(payload).toContain('🔴 LIVE');
+
+      const { components } = JSON.parse(payload) as {
+        components: {
+          components: {
+            components?: { custom_id: string; disabled?: boolean }[];
+          }[];
+        }[];
+      };
+      const disabled = components
+        .flatMap((container) => container.components)
+        .flatMap((child) => child.components ?? [])
+        .filter((button) => button.disabled)
+        .map((button) => button.custom_id);
+      expect(disabled).toEqual(['np_rewind', 'np_forward']);
+    });
+  });
+
+  describe('handleStreamMetadata', () => {
+    it('edits the existing message instead of reposting', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      await service.sendNowPlaying('guild-123');
+      vi.mocked(mockChannel.send).mockClear();
+      vi.mocked(musicService.getStreamTitle).mockReturnValue('Next Song');
+
+      await service.handleStreamMetadata('guild-123');
+
+      expect(mockChannel.send).not.toHaveBeenCalled();
+      expect(mockMessage.delete).not.toHaveBeenCalled();
+      expect(mockMessage.edit).toHaveBeenCalledOnce();
+      expect(
+        JSON.stringify(vi.mocked(mockMessage.edit).mock.calls[0]?.[0]),
+      ).toContain('🎶 Next Song');
+    });
+
+    it('does nothing when no message exists', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+
+      await service.handleStreamMetadata('guild-123');
+
+      expect(mockMessage.edit).not.toHaveBeenCalled();
+    });
   });
 
   describe('repostIfInSameChannel', () => {
@@ -341,6 +474,182 @@ describe('NowPlayingService', () => {
     });
   });
 
+  describe('progress updates', () => {
+    beforeEach(async () => {
+      vi.useFakeTimers({ toFake: ['setInterval', 'clearInterval'] });
+      service.setChannelForGuild('guild-123', 'channel-123');
+      await service.sendNowPlaying('guild-123');
+      vi.mocked(mockMessage.edit).mockClear();
+    });
+
+    afterEach(async () => {
+      await service.cleanup('guild-123');
+      vi.useRealTimers();
+    });
+
+    it('edits the message on an interval while playing', async () => {
+      vi.mocked(musicService.getPosition).mockReturnValue(15_000);
+
+      await vi.advanceTimersByTimeAsync(15_000);
+
+      expect(mockMessage.edit).toHaveBeenCalledTimes(1);
+      expect(
+        JSON.stringify(vi.mocked(mockMessage.edit).mock.calls[0]?.[0]),
+      ).toContain('`0:15 / 3:00`');
+    });
+
+    it('skips updates while paused', async () => {
+      vi.mocked(musicService.isPaused).mockReturnValue(true);
+
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(mockMessage.edit).not.toHaveBeenCalled();
+    });
+
+    it('skips updates for live streams', async () => {
+      vi.mocked(musicService.getNowPlaying).mockReturnValue({
+        ...mockTrack,
+        duration: Number.POSITIVE_INFINITY,
+      });
+
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(mockMessage.edit).not.toHaveBeenCalled();
+    });
+
+    it('stops updating when the queue ends', async () => {
+      await service.handleQueueEnd('guild-123');
+
+      await vi.advanceTimersByTimeAsync(30_000);
+
+      expect(mockMessage.edit).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('music channel', () => {
+    beforeEach(() => {
+      vi.mocked(configService.get).mockReturnValue({
+        'guild-123': {
+          ...mockGuildsSettings['guild-123'],
+          musicChannelId: 'channel-123',
+        },
+      });
+    });
+
+    it('always hosts the player in the music channel', () => {
+      service.setChannelForGuild('guild-123', 'channel-456');
+
+      expect(service.getChannelForGuild('guild-123')).toBe('channel-123');
+    });
+
+    it('edits the player in place when a track starts', async () => {
+      service.setChannelForGuild('guild-123', 'channel-456');
+      await service.sendNowPlaying('guild-123');
+      vi.mocked(mockChannel.send).mockClear();
+
+      await service.handleTrackStart('guild-123');
+
+      expect(mockMessage.edit).toHaveBeenCalled();
+      expect(mockMessage.delete).not.toHaveBeenCalled();
+      expect(mockChannel.send).not.toHaveBeenCalled();
+    });
+
+    it('shows an idle player instead of deleting it when the queue ends', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      await service.sendNowPlaying('guild-123');
+
+      await service.handleQueueEnd('guild-123');
+
+      expect(mockMessage.delete).not.toHaveBeenCalled();
+      expect(
+        JSON.stringify(vi.mocked(mockMessage.edit).mock.lastCall?.[0]),
+      ).toContain('Nothing Playing');
+      expect(service.getMessageForGuild('guild-123')).toBe('msg-123');
+    });
+
+    it('keeps the player when leaving voice', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      await service.sendNowPlaying('guild-123');
+
+      await service.handleVoiceLeft('guild-123');
+
+      expect(mockMessage.delete).not.toHaveBeenCalled();
+      expect(service.getChannelForGuild('guild-123')).toBe('channel-123');
+      expect(service.getMessageForGuild('guild-123')).toBe('msg-123');
+    });
+
+    it('does not repost the player for messages in the music channel', async () => {
+      service.setChannelForGuild('guild-123', 'channel-123');
+      await service.sendNowPlaying('guild-123');
+      vi.mocked(mockChannel.send).mockClear();
+
+      await service.handleMessageCreate([
+        {
+          id: 'user-msg-789',
+          author: { bot: false },
+          guildId: 'guild-123',
+          channelId: 'channel-123',
+        },
+      ] as never);
+
+      expect(mockChannel.send).not.toHaveBeenCalled();
+    });
+
+    it('adopts the player left by a previous run on startup', async () => {
+      Object.assign(mockClient, { user: { id: 'bot-1' } });
+      vi.mocked(mockChannel.messages.fetch).mockImplementation(((
+        options: unknown,
+      ) =>
+        Promise.resolve(
+          typeof options === 'object'
+            ? [
+                { id: 'user-msg', author: { id: 'user-1' }, components: [] },
+                {
+                  id: 'notice',
+                  author: { id: 'bot-1' },
+                  components: [{ id: 1 }],
+                },
+                {
+                  id: 'msg-123',
+                  author: { id: 'bot-1' },
+                  components: [{ id: 1000 }],
+                },
+              ]
+            : mockMessage,
+        )) as never);
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(undefined);
+
+      await service.onClientReady();
+
+      expect(service.getMessageForGuild('guild-123')).toBe('msg-123');
+      expect(mockMessage.edit).toHaveBeenCalled();
+      expect(mockChannel.send).not.toHaveBeenCalled();
+    });
+
+    it('does not adopt other bot messages as the player', async () => {
+      Object.assign(mockClient, { user: { id: 'bot-1' } });
+      vi.mocked(mockChannel.messages.fetch).mockResolvedValue([
+        { id: 'notice', author: { id: 'bot-1' }, components: [] },
+      ] as never);
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(undefined);
+
+      await service.onClientReady();
+
+      expect(mockMessage.edit).not.toHaveBeenCalled();
+      expect(mockChannel.send).toHaveBeenCalled();
+    });
+
+    it('sends a new idle player when none exists', async () => {
+      vi.mocked(mockChannel.messages.fetch).mockResolvedValue([] as never);
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(undefined);
+
+      await service.onClientReady();
+
+      expect(mockChannel.send).toHaveBeenCalled();
+      expect(service.getMessageForGuild('guild-123')).toBe('msg-123');
+    });
+  });
+
   describe('handleQueueEnd', () => {
     it('deletes now playing message when queue ends', async () => {
       service.setChannelForGuild('guild-123', 'channel-123');
@@ -495,6 +804,9 @@ describe('NowPlayingService', () => {
       expect(NowPlayingService.BUTTON_IDS.STOP).toBe('np_stop');
       expect(NowPlayingService.BUTTON_IDS.SHUFFLE).toBe('np_shuffle');
       expect(NowPlayingService.BUTTON_IDS.LOOP).toBe('np_loop');
+      expect(NowPlayingService.BUTTON_IDS.PREVIOUS).toBe('np_previous');
+      expect(NowPlayingService.BUTTON_IDS.REWIND).toBe('np_rewind');
+      expect(NowPlayingService.BUTTON_IDS.FORWARD).toBe('np_forward');
     });
   });
 });
@@ -1,4 +1,4 @@
-import { Injectable } from '@nestjs/common';
+import { Injectable, Logger } from '@nestjs/common';
 import { ConfigService } from '@nestjs/config';
 import { OnEvent } from '@nestjs/event-emitter';
 import {
@@ -12,11 +12,13 @@ import {
   type SendableChannels,
   type TextChannel,
 } from 'discord.js';
-import { Context, On, type ContextOf } from 'necord';
+import { Context, On, Once, type ContextOf } from 'necord';
 import type { Config } from '../../config/config.type';
 import { VOICE_EVENTS } from '../voice/voice.service';
-import { LoopMode } from './music-queue';
+import { describeAudioFilters, hasAudioFilters } from './audio-filters';
+import { formatDuration, isLiveTrack, LoopMode } from './music-queue';
 import { MUSIC_EVENTS, MusicService } from './music.service';
+import { VoteSkipService } from './vote-skip.service';
 
 export const NOW_PLAYING_BUTTON_IDS = {
   PLAY_PAUSE: 'np_playpause',
@@ -24,23 +26,52 @@ export const NOW_PLAYING_BUTTON_IDS = {
   STOP: 'np_stop',
   SHUFFLE: 'np_shuffle',
   LOOP: 'np_loop',
+  PREVIOUS: 'np_previous',
+  REWIND: 'np_rewind',
+  FORWARD: 'np_forward',
 } as const;
 
+export const SEEK_STEP_MS = 10_000;
+
 const DEFAULT_ACCENT_COLOR = 0x5865f2;
+// Message edits are rate limited per channel, so the bar moves in coarse steps
+const PROGRESS_UPDATE_INTERVAL_MS = 15_000;
+const PROGRESS_BAR_SEGMENTS = 16;
+const PLAYER_LOOKUP_LIMIT = 50;
+// Tags the player container so a restart can tell it apart from other bot messages
+const PLAYER_COMPONENT_ID = 1000;
 
 @Injectable()
 export class NowPlayingService {
   public static readonly BUTTON_IDS = NOW_PLAYING_BUTTON_IDS;
 
+  private readonly logger = new Logger(NowPlayingService.name);
   private readonly guildChannels = new Map<string, string>();
   private readonly guildMessages = new Map<string, string>();
+  private readonly progressTimers = new Map<string, NodeJS.Timeout>();
+  private readonly progressUpdating = new Set<string>();
 
   public constructor(
     private readonly musicService: MusicService,
     private readonly configService: ConfigService<Config, true>,
     private readonly client: Client,
+    private readonly voteSkip: VoteSkipService,
   ) {}
 
+  @Once('clientReady')
+  public async onClientReady(): Promise<void> {
+    const guildsSettings = this.configService.get('discord.guildsSettings', {
+      infer: true,
+    });
+
+    for (const guildId of Object.keys(guildsSettings)) {
+      const channelId = this.getMusicChannel(guildId);
+      if (channelId) {
+        await this.setupMusicChannel(guildId, channelId);
+      }
+    }
+  }
+
   @OnEvent(MUSIC_EVENTS.QUEUE_END)
   public async handleQueueEnd(guildId: string): Promise<void> {
     await this.deleteNowPlaying(guildId);
@@ -51,6 +82,11 @@ export class NowPlayingService {
     await this.sendNowPlaying(guildId);
   }
 
+  @OnEvent(MUSIC_EVENTS.STREAM_METADATA)
+  public async handleStreamMetadata(guildId: string): Promise<void> {
+    await this.updateNowPlaying(guildId);
+  }
+
   @OnEvent(VOICE_EVENTS.LEFT)
   public async handleVoiceLeft(guildId: string): Promise<void> {
     await this.cleanup(guildId);
@@ -66,7 +102,10 @@ export class NowPlayingService {
     }
 
     const currentMessageId = this.guildMessages.get(guildId);
-    if (message.id === currentMessageId) {
+    if (
+      message.id === currentMessageId ||
+      message.channelId === this.getMusicChannel(guildId)
+    ) {
       return;
     }
 
@@ -74,7 +113,8 @@ export class NowPlayingService {
   }
 
   public setChannelForGuild(guildId: string, channelId: string): void {
-    this.guildChannels.set(guildId, channelId);
+    // A dedicated music channel always hosts the player
+    this.guildChannels.set(guildId, this.getMusicChannel(guildId) ?? channelId);
   }
 
   public getChannelForGuild(guildId: string): string | undefined {
@@ -85,6 +125,13 @@ export class NowPlayingService {
     return this.guildMessages.get(guildId);
   }
 
+  public getMusicChannel(guildId: string): string | undefined {
+    const guildsSettings = this.configService.get('discord.guildsSettings', {
+      infer: true,
+    });
+    return guildsSettings[guildId]?.musicChannelId;
+  }
+
   public async sendNowPlaying(guildId: string): Promise<void> {
     const channelId = this.guildChannels.get(guildId);
     if (!channelId) {
@@ -92,7 +139,16 @@ export class NowPlayingService {
     }
 
     const track = this.musicService.getNowPlaying(guildId);
-    if (!track) {
+    const isMusicChannel = channelId === this.getMusicChannel(guildId);
+    if (!track && !isMusicChannel) {
+      return;
+    }
+
+    // The player in a music channel is permanent, so it's edited rather than reposted
+    if (isMusicChannel && (await this.editNowPlaying(guildId))) {
+      if (track) {
+        this.startProgressUpdates(guildId);
+      }
       return;
     }
 
@@ -110,9 +166,19 @@ export class NowPlayingService {
     });
 
     this.guildMessages.set(guildId, message.id);
+    if (track) {
+      this.startProgressUpdates(guildId);
+    }
+  }
+
+  // Edits the card in place, so frequent updates don't bump it to the bottom of the channel
+  public async updateNowPlaying(guildId: string): Promise<void> {
+    await this.editNowPlaying(guildId);
   }
 
   public async deleteNowPlaying(guildId: string): Promise<void> {
+    this.stopProgressUpdates(guildId);
+
     const channelId = this.guildChannels.get(guildId);
     const messageId = this.guildMessages.get(guildId);
 
@@ -120,6 +186,11 @@ export class NowPlayingService {
       return;
     }
 
+    if (channelId === this.getMusicChannel(guildId)) {
+      await this.editNowPlaying(guildId, this.buildIdleComponents(guildId));
+      return;
+    }
+
     await this.deleteExistingMessage(guildId, channelId);
   }
 
@@ -138,6 +209,13 @@ export class NowPlayingService {
   }
 
   public async cleanup(guildId: string): Promise<void> {
+    this.stopProgressUpdates(guildId);
+
+    if (this.getMusicChannel(guildId)) {
+      await this.editNowPlaying(guildId, this.buildIdleComponents(guildId));
+      return;
+    }
+
     const channelId = this.guildChannels.get(guildId);
     if (channelId) {
       await this.deleteExistingMessage(guildId, channelId);
@@ -147,10 +225,77 @@ export class NowPlayingService {
     this.guildMessages.delete(guildId);
   }
 
+  public getAccentColor(guildId: string): number {
+    const guildsSettings = this.configService.get('discord.guildsSettings', {
+      infer: true,
+    });
+    return this.parseAccentColor(guildsSettings[guildId]?.theme.accentColor);
+  }
+
+  private async setupMusicChannel(
+    guildId: string,
+    channelId: string,
+  ): Promise<void> {
+    this.guildChannels.set(guildId, channelId);
+
+    try {
+      // Adopt the player left behind by the previous run
+      const channel = await this.client.channels.fetch(channelId);
+      if (channel && 'messages' in channel) {
+        const messages = await (channel as TextChannel).messages.fetch({
+          limit: PLAYER_LOOKUP_LIMIT,
+        });
+        const player = messages.find(
+          (message) =>
+            message.author.id === this.client.user?.id &&
+            message.components[0]?.id === PLAYER_COMPONENT_ID,
+        );
+        if (player) {
+          this.guildMessages.set(guildId, player.id);
+        }
+      }
+
+      await this.sendNowPlaying(guildId);
+    } catch (error) {
+      this.logger.warn(
+        `Failed to set up the music channel for guild ${guildId}`,
+        error,
+      );
+    }
+  }
+
+  private async editNowPlaying(
+    guildId: string,
+    components = this.buildNowPlayingComponents(guildId),
+  ): Promise<boolean> {
+    const channelId = this.guildChannels.get(guildId);
+    const messageId = this.guildMessages.get(guildId);
+    if (!channelId || !messageId) {
+      return false;
+    }
+
+    try {
+      const channel = await this.client.channels.fetch(channelId);
+      if (channel && 'messages' in channel) {
+        const message = await (channel as TextChannel).messages.fetch(
+          messageId,
+        );
+        await message.edit({ components });
+        return true;
+      }
+    } catch {
+      // Message may already be deleted; the next track start reposts it
+    }
+
+    return false;
+  }
+
   private buildNowPlayingComponents(guildId: string): ContainerBuilder[] {
     const track = this.musicService.getNowPlaying(guildId);
     if (!track) {
-      return [];
+      return this.getMusicChannel(guildId)
+        ? this.buildIdleComponents(guildId)
+        : [];
     }
 
     const isPlaying = this.musicService.isPlaying(guildId);
@@ -159,11 +304,7 @@ export class NowPlayingService {
     const volume = this.musicService.getVolume(guildId);
     const upcoming = this.musicService.getUpcoming(guildId);
 
-    const guildsSettings = this.configService.get('discord.guildsSettings', {
-      infer: true,
-    });
-    const guildSettings = guildsSettings[guildId];
-    const accentColor = this.parseAccentColor(guildSettings?.theme.accentColor);
+    const accentColor = this.getAccentColor(guildId);
 
     const statusParts: string[] = [];
     if (isPaused) {
@@ -180,24 +321,119 @@ export class NowPlayingService {
       statusParts.push('🔁 Loop Queue');
     }
 
+    if (this.musicService.isAutoplayEnabled(guildId)) {
+      statusParts.push('📻 Autoplay');
+    }
+
+    const filters = this.musicService.getFilters(guildId);
+    if (hasAudioFilters(filters)) {
+      statusParts.push(`🎛️ ${describeAudioFilters(filters).join(', ')}`);
+    }
+
     if (upcoming.length > 0) {
       statusParts.push(`📋 ${String(upcoming.length)} in queue`);
     }
 
-    const durationFormatted = this.formatDuration(track.duration);
+    const tally = this.voteSkip.getTally(guildId);
+    if (tally) {
+      statusParts.push(
+        `🗳️ ${String(tally.votes)}/${String(tally.required)} votes to skip`,
+      );
+    }
+
+    const isLive = isLiveTrack(track);
+    const timeline = isLive
+      ? '🔴 LIVE • '
+      : `${this.buildProgress(guildId, track.duration)}\n`;
+    const streamTitle = this.musicService.getStreamTitle(guildId);
+    const streamLine = streamTitle ? `\n🎶 ${streamTitle}` : '';
 
     const container = new ContainerBuilder()
+      .setId(PLAYER_COMPONENT_ID)
       .setAccentColor(accentColor)
       .addTextDisplayComponents(
         new TextDisplayBuilder().setContent(
-          `### 🎵 Now Playing\n**${track.title}**\n${durationFormatted} • Requested by ${track.requestedBy}\n\n${statusParts.join(' • ')}`,
+          `### 🎵 Now Playing\n**${track.title}**${streamLine}\n${timeline}Requested by ${track.requestedBy}\n\n${statusParts.join(' • ')}`,
         ),
       )
-      .addActionRowComponents(this.buildActionRow(isPaused, loopMode));
+      .addActionRowComponents(
+        this.buildActionRow(isPaused, loopMode),
+        this.buildTransportRow(isLive),
+      );
 
     return [container];
   }
 
+  private buildIdleComponents(guildId: string): ContainerBuilder[] {
+    return [
+      new ContainerBuilder()
+        .setId(PLAYER_COMPONENT_ID)
+        .setAccentColor(this.getAccentColor(guildId))
+        .addTextDisplayComponents(
+          new TextDisplayBuilder().setContent(
+            '### 🎵 Nothing Playing\nType a song name or link in this channel to play it.',
+          ),
+        ),
+    ];
+  }
+
+  private startProgressUpdates(guildId: string): void {
+    if (this.progressTimers.has(guildId)) {
+      return;
+    }
+
+    const timer = setInterval(() => {
+      void this.refreshProgress(guildId);
+    }, PROGRESS_UPDATE_INTERVAL_MS);
+    timer.unref();
+    this.progressTimers.set(guildId, timer);
+  }
+
+  private stopProgressUpdates(guildId: string): void {
+    clearInterval(this.progressTimers.get(guildId));
+    this.progressTimers.delete(guildId);
+  }
+
+  private async refreshProgress(guildId: string): Promise<void> {
+    const track = this.musicService.getNowPlaying(guildId);
+    if (
+      !track ||
+      isLiveTrack(track) ||
+      this.musicService.isPaused(guildId) ||
+      this.progressUpdating.has(guildId)
+    ) {
+      return;
+    }
+
+    // A slow edit must not pile up behind the next tick
+    this.progressUpdating.add(guildId);
+    try {
+      await this.updateNowPlaying(guildId);
+    } finally {
+      this.progressUpdating.delete(guildId);
+    }
+  }
+
+  private buildProgress(guildId: string, durationSeconds: number): string {
+    const rate = this.musicService.getPlaybackRate(guildId);
+    const totalSeconds = Math.round(durationSeconds / rate);
+    const elapsedSeconds = Math.min(
+      totalSeconds,
+      Math.floor(this.musicService.getPosition(guildId) / 1000 / rate),
+    );
+
+    const knob =
+      totalSeconds > 0
+        ? Math.min(
+            PROGRESS_BAR_SEGMENTS - 1,
+            Math.floor((elapsedSeconds / totalSeconds) * PROGRESS_BAR_SEGMENTS),
+          )
+        : 0;
+    const bar = `${'━'.repeat(knob)}●${'─'.repeat(PROGRESS_BAR_SEGMENTS - knob - 1)}`;
+
+    return `${bar} \`${formatDuration(elapsedSeconds)} / ${formatDuration(totalSeconds)}\``;
+  }
+
   private buildActionRow(
     isPaused: boolean,
     loopMode: LoopMode,
@@ -240,6 +476,35 @@ export class NowPlayingService {
     );
   }
 
+  private buildTransportRow(isLive: boolean): ActionRowBuilder<ButtonBuilder> {
+    const stepLabel = `${String(SEEK_STEP_MS / 1000)}s`;
+
+    const previousButton = new ButtonBuilder()
+      .setCustomId(NOW_PLAYING_BUTTON_IDS.PREVIOUS)
+      .setEmoji('⏮️')
+      .setStyle(ButtonStyle.Secondary);
+
+    const rewindButton = new ButtonBuilder()
+      .setCustomId(NOW_PLAYING_BUTTON_IDS.REWIND)
+      .setEmoji('⏪')
+      .setLabel(stepLabel)
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(isLive);
+
+    const forwardButton = new ButtonBuilder()
+      .setCustomId(NOW_PLAYING_BUTTON_IDS.FORWARD)
+      .setEmoji('⏩')
+      .setLabel(stepLabel)
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(isLive);
+
+    return new ActionRowBuilder<ButtonBuilder>().addComponents(
+      previousButton,
+      rewindButton,
+      forwardButton,
+    );
+  }
+
   private getLoopEmoji(loopMode: LoopMode): string {
     switch (loopMode) {
       case LoopMode.Track:
@@ -251,17 +516,6 @@ export class NowPlayingService {
     }
   }
 
-  private formatDuration(seconds: number): string {
-    const hours = Math.floor(seconds / 3600);
-    const minutes = Math.floor((seconds % 3600) / 60);
-    const secs = seconds % 60;
-
-    if (hours > 0) {
-      return `${String(hours)}:${minutes.toString().padStart(2, '0')}:${secs.toString().padStart(2, '0')}`;
-    }
-    return `${String(minutes)}:${secs.toString().padStart(2, '0')}`;
-  }
-
   private parseAccentColor(colorString?: string): number {
     if (!colorString) {
       return DEFAULT_ACCENT_COLOR;
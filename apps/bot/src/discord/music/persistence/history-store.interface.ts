@@ -0,0 +1,25 @@
+import type { Track } from '../music-queue';
+
+export interface HistoryEntry {
+  id: number;
+  track: Track;
+  playedAt: number;
+}
+
+export interface HistoryStore {
+  append(
+    guildId: string,
+    track: Track,
+    playedAt: number,
+    maxEntries: number,
+  ): Promise<HistoryEntry>;
+
+  /** Returns entries newest first. */
+  list(guildId: string, offset: number, limit: number): Promise<HistoryEntry[]>;
+
+  count(guildId: string): Promise<number>;
+
+  get(guildId: string, id: number): Promise<HistoryEntry | undefined>;
+}
+
+export const HISTORY_STORE = Symbol('HISTORY_STORE');
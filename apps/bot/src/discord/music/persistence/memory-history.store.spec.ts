@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest';
+import type { Track } from '../music-queue';
+import { InMemoryHistoryStore } from './memory-history.store';
+
+const createTrack = (title: string): Track => ({
+  url: `https://youtube.com/watch?v=${title}`,
+  title,
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+});
+
+describe('InMemoryHistoryStore', () => {
+  it('lists entries newest first and keeps only the newest maxEntries', async () => {
+    const store = new InMemoryHistoryStore();
+
+    await store.append('guild-123', createTrack('one'), 1_000, 2);
+    const second = await store.append(
+      'guild-123',
+      createTrack('two'),
+      2_000,
+      2,
+    );
+    const third = await store.append(
+      'guild-123',
+      createTrack('three'),
+      3_000,
+      2,
+    );
+
+    await expect(store.list('guild-123', 0, 10)).resolves.toEqual([
+      third,
+      second,
+    ]);
+    await expect(store.list('guild-123', 1, 1)).resolves.toEqual([second]);
+    await expect(store.count('guild-123')).resolves.toBe(2);
+    await expect(store.get('guild-123', second.id)).resolves.toEqual(second);
+    await expect(store.count('guild-456')).resolves.toBe(0);
+    await expect(store.get('guild-456', second.id)).resolves.toBeUndefined();
+  });
+});
@@ -0,0 +1,39 @@
+import type { Track } from '../music-queue';
+import type { HistoryEntry, HistoryStore } from './history-store.interface';
+
+export class InMemoryHistoryStore implements HistoryStore {
+  private readonly entries = new Map<string, HistoryEntry[]>();
+  private nextId = 1;
+
+  public append(
+    guildId: string,
+    track: Track,
+    playedAt: number,
+    maxEntries: number,
+  ): Promise<HistoryEntry> {
+    const entry: HistoryEntry = { id: this.nextId++, track, playedAt };
+    const guildEntries = [entry, ...(this.entries.get(guildId) ?? [])];
+    this.entries.set(guildId, guildEntries.slice(0, maxEntries));
+    return Promise.resolve(entry);
+  }
+
+  public list(
+    guildId: string,
+    offset: number,
+    limit: number,
+  ): Promise<HistoryEntry[]> {
+    return Promise.resolve(
+      (this.entries.get(guildId) ?? []).slice(offset, offset + limit),
+    );
+  }
+
+  public count(guildId: string): Promise<number> {
+    return Promise.resolve(this.entries.get(guildId)?.length ?? 0);
+  }
+
+  public get(guildId: string, id: number): Promise<HistoryEntry | undefined> {
+    return Promise.resolve(
+      this.entries.get(guildId)?.find((entry) => entry.id === id),
+    );
+  }
+}
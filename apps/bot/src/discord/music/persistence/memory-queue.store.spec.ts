@@ -0,0 +1,37 @@
+import { describe, expect, it } from 'vitest';
+import { LoopMode } from '../music-queue';
+import { InMemoryQueueStore } from './memory-queue.store';
+import type { QueueSnapshot } from './queue-store.interface';
+
+const snapshot: QueueSnapshot = {
+  guildId: 'guild-123',
+  tracks: [
+    {
+      url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+      title: 'Test Video',
+      duration: 180,
+      thumbnail: 'https://example.com/thumb.jpg',
+      requestedBy: 'user#1234',
+      requesterId: 'user-123',
+    },
+  ],
+  currentIndex: 0,
+  loopMode: LoopMode.None,
+  updatedAt: 1_000,
+};
+
+describe('InMemoryQueueStore', () => {
+  it('saves, loads and deletes snapshots', async () => {
+    const store = new InMemoryQueueStore();
+
+    await store.save(snapshot);
+
+    await expect(store.load('guild-123')).resolves.toEqual(snapshot);
+    await expect(store.loadAll()).resolves.toEqual([snapshot]);
+
+    await store.delete('guild-123');
+
+    await expect(store.load('guild-123')).resolves.toBeUndefined();
+    await expect(store.loadAll()).resolves.toEqual([]);
+  });
+});
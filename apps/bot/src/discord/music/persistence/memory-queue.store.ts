@@ -0,0 +1,23 @@
+import type { QueueSnapshot, QueueStore } from './queue-store.interface';
+
+export class InMemoryQueueStore implements QueueStore {
+  private readonly snapshots = new Map<string, QueueSnapshot>();
+
+  public load(guildId: string): Promise<QueueSnapshot | undefined> {
+    return Promise.resolve(this.snapshots.get(guildId));
+  }
+
+  public loadAll(): Promise<QueueSnapshot[]> {
+    return Promise.resolve([...this.snapshots.values()]);
+  }
+
+  public save(snapshot: QueueSnapshot): Promise<void> {
+    this.snapshots.set(snapshot.guildId, snapshot);
+    return Promise.resolve();
+  }
+
+  public delete(guildId: string): Promise<void> {
+    this.snapshots.delete(guildId);
+    return Promise.resolve();
+  }
+}
@@ -0,0 +1,148 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Config } from '../../../config/config.type';
+import type { Track } from '../music-queue';
+import { MusicService } from '../music.service';
+import type { HistoryEntry, HistoryStore } from './history-store.interface';
+import { PlayHistoryService } from './play-history.service';
+
+const mockTrack: Track = {
+  url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+  title: 'Test Video',
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+};
+
+const mockEntry: HistoryEntry = { id: 7, track: mockTrack, playedAt: 5_000 };
+
+describe('PlayHistoryService', () => {
+  let service: PlayHistoryService;
+  let store: HistoryStore;
+  let musicService: MusicService;
+
+  const createService = (maxEntries?: number): PlayHistoryService => {
+    const configService = {
+      get: vi
+        .fn()
+        .mockReturnValue(
+          maxEntries === undefined ? undefined : { history: { maxEntries } },
+        ),
+    } as unknown as ConfigService<Config, true>;
+
+    return new PlayHistoryService(store, musicService, configService);
+  };
+
+  beforeEach(() => {
+    vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    vi.spyOn(Date, 'now').mockReturnValue(5_000);
+
+    store = {
+      append: vi.fn().mockResolvedValue(mockEntry),
+      list: vi.fn().mockResolvedValue([mockEntry]),
+      count: vi.fn().mockResolvedValue(25),
+      get: vi.fn().mockResolvedValue(mockEntry),
+    };
+
+    musicService = {
+      getNowPlaying: vi.fn().mockReturnValue(mockTrack),
+    } as unknown as MusicService;
+
+    service = createService();
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('handleTrackStart', () => {
+    it('records the track that started playing', async () => {
+      await service.handleTrackStart('guild-123');
+
+      expect(store.append).toHaveBeenCalledWith(
+        'guild-123',
+        mockTrack,
+        5_000,
+        100,
+      );
+    });
+
+    it('uses the configured history size', async () => {
+      service = createService(20);
+
+      await service.handleTrackStart('guild-123');
+
+      expect(store.append).toHaveBeenCalledWith(
+        'guild-123',
+        mockTrack,
+        5_000,
+        20,
+      );
+    });
+
+    it('ignores guilds with nothing playing', async () => {
+      vi.mocked(musicService.getNowPlaying).mockReturnValue(undefined);
+
+      await service.handleTrackStart('guild-123');
+
+      expect(store.append).not.toHaveBeenCalled();
+    });
+
+    it('logs store failures instead of throwing', async () => {
+      vi.mocked(store.append).mockRejectedValue(new Error('disk full'));
+
+      await expect(service.handleTrackStart('guild-123')).resolves.toBe(
+        undefined,
+      );
+      expect(Logger.prototype.error).toHaveBeenCalledWith(
+        'Failed to record play history for guild guild-123',
+        expect.any(Error),
+      );
+    });
+  });
+
+  describe('getPage', () => {
+    it('returns the requested page', async () => {
+      const page = await service.getPage('guild-123', 1, 10);
+
+      expect(store.list).toHaveBeenCalledWith('guild-123', 10, 10);
+      expect(page).toEqual({
+        entries: [mockEntry],
+        page: 1,
+        totalPages: 3,
+        total: 25,
+        offset: 10,
+      });
+    });
+
+    it('clamps pages outside the history', async () => {
+      await expect(service.getPage('guild-123', 9, 10)).resolves.toMatchObject({
+        page: 2,
+        offset: 20,
+      });
+      await expect(service.getPage('guild-123', -1, 10)).resolves.toMatchObject(
+        { page: 0, offset: 0 },
+      );
+    });
+
+    it('reports a single empty page when there is no history', async () => {
+      vi.mocked(store.count).mockResolvedValue(0);
+      vi.mocked(store.list).mockResolvedValue([]);
+
+      await expect(service.getPage('guild-123', 0, 10)).resolves.toEqual({
+        entries: [],
+        page: 0,
+        totalPages: 1,
+        total: 0,
+        offset: 0,
+      });
+    });
+  });
+
+  it('looks up single entries', async () => {
+    await expect(service.getEntry('guild-123', 7)).resolves.toBe(mockEntry);
+    expect(store.get).toHaveBeenCalledWith('guild-123', 7);
+  });
+});
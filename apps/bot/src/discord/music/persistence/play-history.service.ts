@@ -0,0 +1,74 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import type { Config } from '../../../config/config.type';
+import { MUSIC_EVENTS, MusicService } from '../music.service';
+import {
+  HISTORY_STORE,
+  type HistoryEntry,
+  type HistoryStore,
+} from './history-store.interface';
+
+const DEFAULT_MAX_HISTORY_ENTRIES = 100;
+
+export interface HistoryPage {
+  entries: HistoryEntry[];
+  page: number;
+  totalPages: number;
+  total: number;
+  offset: number;
+}
+
+@Injectable()
+export class PlayHistoryService {
+  private readonly logger = new Logger(PlayHistoryService.name);
+  private readonly maxEntries: number;
+
+  public constructor(
+    @Inject(HISTORY_STORE) private readonly store: HistoryStore,
+    private readonly musicService: MusicService,
+    private readonly configService: ConfigService<Config, true>,
+  ) {
+    this.maxEntries =
+      this.configService.get('music', { infer: true })?.history?.maxEntries ??
+      DEFAULT_MAX_HISTORY_ENTRIES;
+  }
+
+  @OnEvent(MUSIC_EVENTS.TRACK_START)
+  public async handleTrackStart(guildId: string): Promise<void> {
+    const track = this.musicService.getNowPlaying(guildId);
+    if (!track) {
+      return;
+    }
+
+    try {
+      await this.store.append(guildId, track, Date.now(), this.maxEntries);
+    } catch (error) {
+      this.logger.error(
+        `Failed to record play history for guild ${guildId}`,
+        error,
+      );
+    }
+  }
+
+  public async getPage(
+    guildId: string,
+    page: number,
+    pageSize: number,
+  ): Promise<HistoryPage> {
+    const total = await this.store.count(guildId);
+    const totalPages = Math.max(1, Math.ceil(total / pageSize));
+    const currentPage = Math.min(Math.max(0, page), totalPages - 1);
+    const offset = currentPage * pageSize;
+    const entries = await this.store.list(guildId, offset, pageSize);
+
+    return { entries, page: currentPage, totalPages, total, offset };
+  }
+
+  public async getEntry(
+    guildId: string,
+    id: number,
+  ): Promise<HistoryEntry | undefined> {
+    return this.store.get(guildId, id);
+  }
+}
@@ -0,0 +1,306 @@
+import { Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import type { Client, VoiceBasedChannel } from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Config } from '../../../config/config.type';
+import { VoiceService } from '../../voice/voice.service';
+import { LoopMode, type Track } from '../music-queue';
+import { MusicService } from '../music.service';
+import { NowPlayingService } from '../now-playing.service';
+import { QueuePersistenceService } from './queue-persistence.service';
+import type { QueueSnapshot, QueueStore } from './queue-store.interface';
+
+const mockTrack: Track = {
+  url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+  title: 'Test Video',
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+};
+
+const attachmentTrack: Track = {
+  ...mockTrack,
+  url: 'https://cdn.discordapp.com/attachments/1/2/song.mp3?ex=abc',
+  title: 'song',
+};
+
+const mockSnapshot: QueueSnapshot = {
+  guildId: 'guild-123',
+  tracks: [mockTrack],
+  currentIndex: 0,
+  loopMode: LoopMode.None,
+  voiceChannelId: 'voice-123',
+  textChannelId: 'text-123',
+  updatedAt: 1_000,
+};
+
+describe('QueuePersistenceService', () => {
+  let service: QueuePersistenceService;
+  let store: QueueStore;
+  let musicService: MusicService;
+  let voiceService: VoiceService;
+  let nowPlayingService: NowPlayingService;
+  let mockClient: Client;
+  let mockVoiceChannel: VoiceBasedChannel;
+
+  const createService = (
+    resumeOnStartup?: boolean,
+  ): QueuePersistenceService => {
+    const configService = {
+      get: vi
+        .fn()
+        .mockReturnValue(
+          resumeOnStartup === undefined
+            ? undefined
+            : { persistence: { resumeOnStartup } },
+        ),
+    } as unknown as ConfigService<Config, true>;
+
+    return new QueuePersistenceService(
+      store,
+      musicService,
+      voiceService,
+      nowPlayingService,
+      configService,
+      mockClient,
+    );
+  };
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    vi.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    vi.spyOn(Logger.prototype, 'error').mockImplementation(() => undefined);
+    vi.spyOn(Date, 'now').mockReturnValue(5_000);
+
+    store = {
+      load: vi.fn().mockResolvedValue(undefined),
+      loadAll: vi.fn().mockResolvedValue([mockSnapshot]),
+      save: vi.fn().mockResolvedValue(undefined),
+      delete: vi.fn().mockResolvedValue(undefined),
+    };
+
+    musicService = {
+      getQueueState: vi.fn().mockReturnValue({
+        tracks: [mockTrack],
+        currentIndex: 0,
+        loopMode: LoopMode.Track,
+      }),
+      restoreQueue: vi.fn(),
+      resumePlayback: vi.fn().mockResolvedValue(mockTrack),
+      setupAutoPlay: vi.fn(),
+    } as unknown as MusicService;
+
+    voiceService = {
+      getChannelId: vi.fn().mockReturnValue('voice-123'),
+      join: vi.fn().mockResolvedValue({}),
+    } as unknown as VoiceService;
+
+    nowPlayingService = {
+      getChannelForGuild: vi.fn().mockReturnValue('text-123'),
+      setChannelForGuild: vi.fn(),
+    } as unknown as NowPlayingService;
+
+    mockVoiceChannel = {
+      id: 'voice-123',
+      isVoiceBased: vi.fn().mockReturnValue(true),
+    } as unknown as VoiceBasedChannel;
+
+    mockClient = {
+      channels: {
+        fetch: vi.fn().mockResolvedValue(mockVoiceChannel),
+      },
+    } as unknown as Client;
+
+    service = createService(true);
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('handleQueueUpdate', () => {
+    it('saves a snapshot with the current voice and text channels', async () => {
+      await service.handleQueueUpdate('guild-123');
+
+      expect(store.save).toHaveBeenCalledWith({
+        guildId: 'guild-123',
+        tracks: [mockTrack],
+        currentIndex: 0,
+        loopMode: LoopMode.Track,
+        voiceChannelId: 'voice-123',
+        textChannelId: 'text-123',
+        updatedAt: 5_000,
+      });
+    });
+
+    it('omits channels that are not known', async () => {
+      vi.mocked(voiceService.getChannelId).mockReturnValue(undefined);
+      vi.mocked(nowPlayingService.getChannelForGuild).mockReturnValue(
+        undefined,
+      );
+
+      await service.handleQueueUpdate('guild-123');
+
+      expect(store.save).toHaveBeenCalledWith({
+        guildId: 'guild-123',
+        tracks: [mockTrack],
+        currentIndex: 0,
+        loopMode: LoopMode.Track,
+        updatedAt: 5_000,
+      });
+    });
+
+    it('deletes the snapshot when the queue no longer exists', async () => {
+      vi.mocked(musicService.getQueueState).mockReturnValue(undefined);
+
+      await service.handleQueueUpdate('guild-123');
+
+      expect(store.delete).toHaveBeenCalledWith('guild-123');
+      expect(store.save).not.toHaveBeenCalled();
+    });
+
+    it('deletes the snapshot when the queue is empty', async () => {
+      vi.mocked(musicService.getQueueState).mockReturnValue({
+        tracks: [],
+        currentIndex: 0,
+        loopMode: LoopMode.None,
+      });
+
+      await service.handleQueueUpdate('guild-123');
+
+      expect(store.delete).toHaveBeenCalledWith('guild-123');
+    });
+
+    it('leaves out attachments, whose URLs expire', async () => {
+      vi.mocked(musicService.getQueueState).mockReturnValue({
+        tracks: [attachmentTrack, mockTrack, attachmentTrack],
+        currentIndex: 1,
+        loopMode: LoopMode.None,
+      });
+
+      await service.handleQueueUpdate('guild-123');
+
+      expect(store.save).toHaveBeenCalledWith(
+        expect.objectContaining({ tracks: [mockTrack], currentIndex: 0 }),
+      );
+    });
+
+    it('deletes the snapshot when only attachments are queued', async () => {
+      vi.mocked(musicService.getQueueState).mockReturnValue({
+        tracks: [attachmentTrack],
+        currentIndex: 0,
+        loopMode: LoopMode.None,
+      });
+
+      await service.handleQueueUpdate('guild-123');
+
+      expect(store.delete).toHaveBeenCalledWith('guild-123');
+      expect(store.save).not.toHaveBeenCalled();
+    });
+
+    it('logs and swallows store failures', async () => {
+      vi.mocked(store.save).mockRejectedValue(new Error('disk full'));
+
+      await expect(
+        service.handleQueueUpdate('guild-123'),
+      ).resolves.toBeUndefined();
+      expect(vi.mocked(Logger.prototype.error)).toHaveBeenCalled();
+    });
+  });
+
+  describe('restoreQueues', () => {
+    it('restores every persisted queue', async () => {
+      await service.restoreQueues();
+
+      expect(musicService.restoreQueue).toHaveBeenCalledWith(
+        'guild-123',
+        mockSnapshot,
+      );
+    });
+
+    it('drops attachments from snapshots saved before they were skipped', async () => {
+      vi.mocked(store.loadAll).mockResolvedValue([
+        {
+          ...mockSnapshot,
+          tracks: [attachmentTrack, mockTrack],
+          currentIndex: 1,
+        },
+        { ...mockSnapshot, guildId: 'guild-456', tracks: [attachmentTrack] },
+      ]);
+
+      await service.restoreQueues();
+
+      expect(musicService.restoreQueue).toHaveBeenCalledExactlyOnceWith(
+        'guild-123',
+        mockSnapshot,
+      );
+    });
+
+    it('rejoins the last voice channel and resumes playback', async () => {
+      await service.onClientReady();
+
+      expect(mockClient.channels.fetch).toHaveBeenCalledWith('voice-123');
+      expect(voiceService.join).toHaveBeenCalledWith(mockVoiceChannel);
+      expect(nowPlayingService.setChannelForGuild).toHaveBeenCalledWith(
+        'guild-123',
+        'text-123',
+      );
+      expect(musicService.resumePlayback).toHaveBeenCalledWith('guild-123');
+      expect(musicService.setupAutoPlay).toHaveBeenCalledWith('guild-123');
+    });
+
+    it('does not resume playback when resumeOnStartup is disabled', async () => {
+      service = createService();
+
+      await service.restoreQueues();
+
+      expect(musicService.restoreQueue).toHaveBeenCalled();
+      expect(voiceService.join).not.toHaveBeenCalled();
+      expect(musicService.resumePlayback).not.toHaveBeenCalled();
+    });
+
+    it('does not resume playback without a stored voice channel', async () => {
+      const snapshot: QueueSnapshot = { ...mockSnapshot };
+      delete snapshot.voiceChannelId;
+      vi.mocked(store.loadAll).mockResolvedValue([snapshot]);
+
+      await service.restoreQueues();
+
+      expect(voiceService.join).not.toHaveBeenCalled();
+    });
+
+    it('skips resuming when the voice channel is gone', async () => {
+      vi.mocked(mockClient.channels.fetch).mockResolvedValue(null);
+
+      await service.restoreQueues();
+
+      expect(voiceService.join).not.toHaveBeenCalled();
+      expect(musicService.resumePlayback).not.toHaveBeenCalled();
+    });
+
+    it('keeps restoring other guilds when one fails to resume', async () => {
+      vi.mocked(store.loadAll).mockResolvedValue([
+        mockSnapshot,
+        { ...mockSnapshot, guildId: 'guild-456' },
+      ]);
+      vi.mocked(voiceService.join)
+        .mockRejectedValueOnce(new Error('timeout'))
+        .mockResolvedValueOnce({} as Awaited<ReturnType<VoiceService['join']>>);
+
+      await service.restoreQueues();
+
+      expect(musicService.restoreQueue).toHaveBeenCalledTimes(2);
+      expect(musicService.resumePlayback).toHaveBeenCalledTimes(1);
+      expect(musicService.resumePlayback).toHaveBeenCalledWith('guild-456');
+    });
+
+    it('logs and returns when the store cannot be read', async () => {
+      vi.mocked(store.loadAll).mockRejectedValue(new Error('corrupt'));
+
+      await expect(service.restoreQueues()).resolves.toBeUndefined();
+      expect(musicService.restoreQueue).not.toHaveBeenCalled();
+    });
+  });
+});
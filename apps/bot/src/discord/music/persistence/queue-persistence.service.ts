@@ -0,0 +1,140 @@
+import { Inject, Injectable, Logger } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import { Client } from 'discord.js';
+import { Once } from 'necord';
+import type { Config } from '../../../config/config.type';
+import { VoiceService } from '../../voice/voice.service';
+import type { MusicQueueState, Track } from '../music-queue';
+import { MUSIC_EVENTS, MusicService } from '../music.service';
+import { NowPlayingService } from '../now-playing.service';
+import { isDiscordAttachmentUrl } from '../providers/discord-attachment.provider';
+import {
+  QUEUE_STORE,
+  type QueueSnapshot,
+  type QueueStore,
+} from './queue-store.interface';
+
+@Injectable()
+export class QueuePersistenceService {
+  private readonly logger = new Logger(QueuePersistenceService.name);
+  private readonly resumeOnStartup: boolean;
+
+  public constructor(
+    @Inject(QUEUE_STORE) private readonly store: QueueStore,
+    private readonly musicService: MusicService,
+    private readonly voiceService: VoiceService,
+    private readonly nowPlayingService: NowPlayingService,
+    private readonly configService: ConfigService<Config, true>,
+    private readonly client: Client,
+  ) {
+    this.resumeOnStartup =
+      this.configService.get('music', { infer: true })?.persistence
+        ?.resumeOnStartup ?? false;
+  }
+
+  @Once('clientReady')
+  public async onClientReady(): Promise<void> {
+    await this.restoreQueues();
+  }
+
+  @OnEvent(MUSIC_EVENTS.QUEUE_UPDATE)
+  public async handleQueueUpdate(guildId: string): Promise<void> {
+    const queueState = this.musicService.getQueueState(guildId);
+    const state = queueState && this.withoutAttachments(queueState);
+
+    try {
+      if (!state || state.tracks.length === 0) {
+        await this.store.delete(guildId);
+        return;
+      }
+
+      const voiceChannelId = this.voiceService.getChannelId(guildId);
+      const textChannelId = this.nowPlayingService.getChannelForGuild(guildId);
+
+      await this.store.save({
+        guildId,
+        ...state,
+        ...(voiceChannelId !== undefined && { voiceChannelId }),
+        ...(textChannelId !== undefined && { textChannelId }),
+        updatedAt: Date.now(),
+      });
+    } catch (error) {
+      this.logger.error(`Failed to persist queue for guild ${guildId}`, error);
+    }
+  }
+
+  public async restoreQueues(): Promise<void> {
+    let snapshots: QueueSnapshot[];
+    try {
+      snapshots = await this.store.loadAll();
+    } catch (error) {
+      this.logger.error('Failed to load persisted queues', error);
+      return;
+    }
+
+    for (const stored of snapshots) {
+      const snapshot = this.withoutAttachments(stored);
+      if (snapshot.tracks.length === 0) {
+        continue;
+      }
+
+      this.musicService.restoreQueue(snapshot.guildId, snapshot);
+      this.logger.log(
+        `Restored ${String(snapshot.tracks.length)} queued tracks in guild ${snapshot.guildId}`,
+      );
+
+      if (!this.resumeOnStartup || !snapshot.voiceChannelId) {
+        continue;
+      }
+
+      try {
+        await this.resumeGuild(snapshot);
+      } catch (error) {
+        this.logger.error(
+          `Failed to resume playback in guild ${snapshot.guildId}`,
+          error,
+        );
+      }
+    }
+  }
+
+  private async resumeGuild(snapshot: QueueSnapshot): Promise<void> {
+    const { guildId, voiceChannelId, textChannelId } = snapshot;
+    if (!voiceChannelId) {
+      return;
+    }
+
+    const channel = await this.client.channels.fetch(voiceChannelId);
+    if (!channel?.isVoiceBased()) {
+      this.logger.warn(
+        `Voice channel ${voiceChannelId} is no longer available in guild ${guildId}`,
+      );
+      return;
+    }
+
+    await this.voiceService.join(channel);
+
+    if (textChannelId) {
+      this.nowPlayingService.setChannelForGuild(guildId, textChannelId);
+    }
+
+    const track = await this.musicService.resumePlayback(guildId);
+    this.musicService.setupAutoPlay(guildId);
+
+    if (track) {
+      this.logger.log(`Resumed "${track.title}" in guild ${guildId}`);
+    }
+  }
+
+  // Attachment URLs are signed and expire, so they would not play after a restart
+  private withoutAttachments<T extends MusicQueueState>(state: T): T {
+    const kept = (track: Track) => !isDiscordAttachmentUrl(track.url);
+    return {
+      ...state,
+      tracks: state.tracks.filter(kept),
+      currentIndex: state.tracks.slice(0, state.currentIndex).filter(kept)
+        .length,
+    };
+  }
+}
@@ -0,0 +1,44 @@
+import { type } from 'arktype';
+import { LoopMode, type MusicQueueState } from '../music-queue';
+
+export interface QueueSnapshot extends MusicQueueState {
+  guildId: string;
+  voiceChannelId?: string;
+  textChannelId?: string;
+  updatedAt: number;
+}
+
+export interface QueueStore {
+  load(guildId: string): Promise<QueueSnapshot | undefined>;
+
+  loadAll(): Promise<QueueSnapshot[]>;
+
+  save(snapshot: QueueSnapshot): Promise<void>;
+
+  delete(guildId: string): Promise<void>;
+}
+
+export const QUEUE_STORE = Symbol('QUEUE_STORE');
+
+export const trackSchema = type({
+  url: 'string',
+  title: 'string',
+  // Live streams have an infinite duration, which JSON stores as null
+  duration: type('number | null').pipe(
+    (duration) => duration ?? Number.POSITIVE_INFINITY,
+  ),
+  thumbnail: 'string',
+  requestedBy: 'string',
+  // Snapshots saved before requester ids were recorded have none
+  requesterId: 'string = ""',
+});
+
+export const queueSnapshotSchema = type({
+  guildId: 'string',
+  tracks: trackSchema.array(),
+  currentIndex: 'number.integer >= 0',
+  loopMode: type.enumerated(...Object.values(LoopMode)),
+  'voiceChannelId?': 'string',
+  'textChannelId?': 'string',
+  updatedAt: 'number',
+});
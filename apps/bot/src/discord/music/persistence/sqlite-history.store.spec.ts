@@ -0,0 +1,89 @@
+import { Logger } from '@nestjs/common';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Track } from '../music-queue';
+import { SqliteHistoryStore } from './sqlite-history.store';
+
+const createTrack = (title: string): Track => ({
+  url: `https://youtube.com/watch?v=${title}`,
+  title,
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+});
+
+describe('SqliteHistoryStore', () => {
+  let store: SqliteHistoryStore;
+
+  beforeEach(() => {
+    vi.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    store = new SqliteHistoryStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    vi.restoreAllMocks();
+  });
+
+  it('returns nothing for an unknown guild', async () => {
+    await expect(store.list('guild-123', 0, 10)).resolves.toEqual([]);
+    await expect(store.count('guild-123')).resolves.toBe(0);
+    await expect(store.get('guild-123', 1)).resolves.toBeUndefined();
+  });
+
+  it('appends entries and lists them newest first', async () => {
+    const first = await store.append(
+      'guild-123',
+      createTrack('one'),
+      1_000,
+      10,
+    );
+    const second = await store.append(
+      'guild-123',
+      createTrack('two'),
+      2_000,
+      10,
+    );
+
+    expect(first).toEqual({
+      id: expect.any(Number) as number,
+      track: createTrack('one'),
+      playedAt: 1_000,
+    });
+    await expect(store.list('guild-123', 0, 10)).resolves.toEqual([
+      second,
+      first,
+    ]);
+    await expect(store.list('guild-123', 1, 10)).resolves.toEqual([first]);
+    await expect(store.get('guild-123', first.id)).resolves.toEqual(first);
+  });
+
+  it('keeps only the newest entries per guild', async () => {
+    await store.append('guild-456', createTrack('other'), 500, 3);
+    for (let i = 1; i <= 5; i++) {
+      await store.append('guild-123', createTrack(`track-${String(i)}`), i, 3);
+    }
+
+    const entries = await store.list('guild-123', 0, 10);
+
+    expect(entries.map((entry) => entry.track.title)).toEqual([
+      'track-5',
+      'track-4',
+      'track-3',
+    ]);
+    await expect(store.count('guild-123')).resolves.toBe(3);
+    await expect(store.count('guild-456')).resolves.toBe(1);
+  });
+
+  it('does not return entries from another guild', async () => {
+    const entry = await store.append(
+      'guild-123',
+      createTrack('one'),
+      1_000,
+      10,
+    );
+
+    await expect(store.get('guild-456', entry.id)).resolves.toBeUndefined();
+  });
+});
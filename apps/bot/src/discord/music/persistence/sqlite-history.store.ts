@@ -0,0 +1,141 @@
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { DatabaseSync, type StatementSync } from 'node:sqlite';
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { type } from 'arktype';
+import type { Track } from '../music-queue';
+import type { HistoryEntry, HistoryStore } from './history-store.interface';
+import { trackSchema } from './queue-store.interface';
+
+const IN_MEMORY_PATH = ':memory:';
+
+interface HistoryRow {
+  id: number;
+  track: string;
+  played_at: number;
+}
+
+export class SqliteHistoryStore implements HistoryStore, OnModuleDestroy {
+  private readonly logger = new Logger(SqliteHistoryStore.name);
+  private readonly db: DatabaseSync;
+  private readonly insert: StatementSync;
+  private readonly prune: StatementSync;
+  private readonly selectPage: StatementSync;
+  private readonly selectOne: StatementSync;
+  private readonly selectCount: StatementSync;
+
+  public constructor(path: string) {
+    if (path !== IN_MEMORY_PATH) {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new DatabaseSync(path);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS music_history (
+        id INTEGER PRIMARY KEY AUTOINCREMENT,
+        guild_id TEXT NOT NULL,
+        track TEXT NOT NULL,
+        played_at INTEGER NOT NULL
+      );
+      CREATE INDEX IF NOT EXISTS music_history_guild
+        ON music_history (guild_id, id);
+    `);
+
+    this.insert = this.db.prepare(
+      'INSERT INTO music_history (guild_id, track, played_at) VALUES (?, ?, ?)',
+    );
+    this.prune = this.db.prepare(`
+      DELETE FROM music_history
+      WHERE guild_id = ? AND id <= (
+        SELECT id FROM music_history
+        WHERE guild_id = ?
+        ORDER BY id DESC
+        LIMIT 1 OFFSET ?
+      )
+    `);
+    this.selectPage = this.db.prepare(`
+      SELECT id, track, played_at FROM music_history
+      WHERE guild_id = ?
+      ORDER BY id DESC
+      LIMIT ? OFFSET ?
+    `);
+    this.selectOne = this.db.prepare(
+      'SELECT id, track, played_at FROM music_history WHERE guild_id = ? AND id = ?',
+    );
+    this.selectCount = this.db.prepare(
+      'SELECT COUNT(*) AS total FROM music_history WHERE guild_id = ?',
+    );
+
+    this.logger.log(`History store opened at ${path}`);
+  }
+
+  public onModuleDestroy(): void {
+    if (this.db.isOpen) {
+      this.db.close();
+    }
+  }
+
+  public append(
+    guildId: string,
+    track: Track,
+    playedAt: number,
+    maxEntries: number,
+  ): Promise<HistoryEntry> {
+    const { lastInsertRowid } = this.insert.run(
+      guildId,
+      JSON.stringify(track),
+      playedAt,
+    );
+    this.prune.run(guildId, guildId, maxEntries);
+
+    return Promise.resolve({ id: Number(lastInsertRowid), track, playedAt });
+  }
+
+  public list(
+    guildId: string,
+    offset: number,
+    limit: number,
+  ): Promise<HistoryEntry[]> {
+    const rows = this.selectPage.all(
+      guildId,
+      limit,
+      offset,
+    ) as unknown as HistoryRow[];
+    const entries = rows
+      .map((row) => this.parseRow(guildId, row))
+      .filter((entry): entry is HistoryEntry => entry !== undefined);
+    return Promise.resolve(entries);
+  }
+
+  public count(guildId: string): Promise<number> {
+    const row = this.selectCount.get(guildId) as { total: number } | undefined;
+    return Promise.resolve(row?.total ?? 0);
+  }
+
+  public get(guildId: string, id: number): Promise<HistoryEntry | undefined> {
+    const row = this.selectOne.get(guildId, id) as HistoryRow | undefined;
+    return Promise.resolve(row ? this.parseRow(guildId, row) : undefined);
+  }
+
+  private parseRow(guildId: string, row: HistoryRow): HistoryEntry | undefined {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(row.track);
+    } catch {
+      this.logger.warn(
+        `Discarding unreadable history entry ${String(row.id)} for ${guildId}`,
+      );
+      return undefined;
+    }
+
+    const validationResult = trackSchema(parsed);
+    if (validationResult instanceof type.errors) {
+      this.logger.warn(
+        `Discarding invalid history entry ${String(row.id)} for ${guildId}: ${validationResult.summary}`,
+      );
+      return undefined;
+    }
+
+    return { id: row.id, track: validationResult, playedAt: row.played_at };
+  }
+}
@@ -0,0 +1,145 @@
+import { Logger } from '@nestjs/common';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { LoopMode, type Track } from '../music-queue';
+import type { QueueSnapshot } from './queue-store.interface';
+import { SqliteQueueStore } from './sqlite-queue.store';
+
+const createTrack = (title: string): Track => ({
+  url: `https://youtube.com/watch?v=${title}`,
+  title,
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+});
+
+const createSnapshot = (
+  guildId: string,
+  overrides: Partial<QueueSnapshot> = {},
+): QueueSnapshot => ({
+  guildId,
+  tracks: [createTrack('Track 1'), createTrack('Track 2')],
+  currentIndex: 1,
+  loopMode: LoopMode.Queue,
+  voiceChannelId: 'voice-123',
+  textChannelId: 'text-123',
+  updatedAt: 1_000,
+  ...overrides,
+});
+
+describe('SqliteQueueStore', () => {
+  let store: SqliteQueueStore;
+
+  beforeEach(() => {
+    vi.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    store = new SqliteQueueStore(':memory:');
+  });
+
+  afterEach(() => {
+    store.onModuleDestroy();
+    vi.restoreAllMocks();
+  });
+
+  it('returns undefined for an unknown guild', async () => {
+    await expect(store.load('guild-123')).resolves.toBeUndefined();
+  });
+
+  it('saves and loads a snapshot', async () => {
+    const snapshot = createSnapshot('guild-123');
+
+    await store.save(snapshot);
+
+    await expect(store.load('guild-123')).resolves.toEqual(snapshot);
+  });
+
+  it('keeps live streams infinite across a save and load', async () => {
+    const snapshot = createSnapshot('guild-123', {
+      tracks: [{ ...createTrack('Radio'), duration: Number.POSITIVE_INFINITY }],
+      currentIndex: 0,
+    });
+
+    await store.save(snapshot);
+
+    await expect(store.load('guild-123')).resolves.toEqual(snapshot);
+  });
+
+  it('overwrites the previous snapshot for the same guild', async () => {
+    await store.save(createSnapshot('guild-123'));
+    const updated = createSnapshot('guild-123', {
+      currentIndex: 0,
+      loopMode: LoopMode.None,
+      updatedAt: 2_000,
+    });
+
+    await store.save(updated);
+
+    await expect(store.load('guild-123')).resolves.toEqual(updated);
+    await expect(store.loadAll()).resolves.toHaveLength(1);
+  });
+
+  it('loads every snapshot ordered by last update', async () => {
+    const newer = createSnapshot('guild-b', { updatedAt: 2_000 });
+    const older = createSnapshot('guild-a', { updatedAt: 1_000 });
+
+    await store.save(newer);
+    await store.save(older);
+
+    await expect(store.loadAll()).resolves.toEqual([older, newer]);
+  });
+
+  it('deletes a snapshot', async () => {
+    await store.save(createSnapshot('guild-123'));
+
+    await store.delete('guild-123');
+
+    await expect(store.load('guild-123')).resolves.toBeUndefined();
+  });
+
+  it('stores snapshots without channel ids', async () => {
+    const snapshot: QueueSnapshot = {
+      guildId: 'guild-123',
+      tracks: [createTrack('Track 1')],
+      currentIndex: 0,
+      loopMode: LoopMode.None,
+      updatedAt: 1_000,
+    };
+
+    await store.save(snapshot);
+
+    await expect(store.load('guild-123')).resolves.toEqual(snapshot);
+  });
+
+  it('loads tracks saved without a requester id', async () => {
+    const legacy = { ...createTrack('Track 1'), requesterId: undefined };
+    await store.save(
+      createSnapshot('guild-123', {
+        tracks: [legacy as unknown as Track],
+        currentIndex: 0,
+      }),
+    );
+
+    const loaded = await store.load('guild-123');
+
+    expect(loaded?.tracks[0]?.requesterId).toBe('');
+  });
+
+  it('discards snapshots that fail validation', async () => {
+    await store.save({
+      ...createSnapshot('guild-123'),
+      loopMode: 'sideways' as LoopMode,
+    });
+
+    await expect(store.load('guild-123')).resolves.toBeUndefined();
+    await expect(store.loadAll()).resolves.toEqual([]);
+    expect(vi.mocked(Logger.prototype.warn)).toHaveBeenCalled();
+  });
+
+  it('closes the database only once', () => {
+    store.onModuleDestroy();
+
+    expect(() => {
+      store.onModuleDestroy();
+    }).not.toThrow();
+  });
+});
@@ -0,0 +1,115 @@
+import { mkdirSync } from 'node:fs';
+import { dirname } from 'node:path';
+import { DatabaseSync, type StatementSync } from 'node:sqlite';
+import { Logger, OnModuleDestroy } from '@nestjs/common';
+import { type } from 'arktype';
+import {
+  queueSnapshotSchema,
+  type QueueSnapshot,
+  type QueueStore,
+} from './queue-store.interface';
+
+const IN_MEMORY_PATH = ':memory:';
+
+interface SnapshotRow {
+  guild_id: string;
+  snapshot: string;
+}
+
+export class SqliteQueueStore implements QueueStore, OnModuleDestroy {
+  private readonly logger = new Logger(SqliteQueueStore.name);
+  private readonly db: DatabaseSync;
+  private readonly selectOne: StatementSync;
+  private readonly selectAll: StatementSync;
+  private readonly upsert: StatementSync;
+  private readonly remove: StatementSync;
+
+  public constructor(path: string) {
+    if (path !== IN_MEMORY_PATH) {
+      mkdirSync(dirname(path), { recursive: true });
+    }
+
+    this.db = new DatabaseSync(path);
+    this.db.exec(`
+      CREATE TABLE IF NOT EXISTS music_queues (
+        guild_id TEXT PRIMARY KEY,
+        snapshot TEXT NOT NULL,
+        updated_at INTEGER NOT NULL
+      )
+    `);
+
+    this.selectOne = this.db.prepare(
+      'SELECT guild_id, snapshot FROM music_queues WHERE guild_id = ?',
+    );
+    this.selectAll = this.db.prepare(
+      'SELECT guild_id, snapshot FROM music_queues ORDER BY updated_at',
+    );
+    this.upsert = this.db.prepare(`
+      INSERT INTO music_queues (guild_id, snapshot, updated_at)
+      VALUES (?, ?, ?)
+      ON CONFLICT (guild_id) DO UPDATE SET
+        snapshot = excluded.snapshot,
+        updated_at = excluded.updated_at
+    `);
+    this.remove = this.db.prepare(
+      'DELETE FROM music_queues WHERE guild_id = ?',
+    );
+
+    this.logger.log(`Queue store opened at ${path}`);
+  }
+
+  public onModuleDestroy(): void {
+    if (this.db.isOpen) {
+      this.db.close();
+    }
+  }
+
+  public load(guildId: string): Promise<QueueSnapshot | undefined> {
+    const row = this.selectOne.get(guildId) as SnapshotRow | undefined;
+    return Promise.resolve(row ? this.parseRow(row) : undefined);
+  }
+
+  public loadAll(): Promise<QueueSnapshot[]> {
+    const rows = this.selectAll.all() as unknown as SnapshotRow[];
+    const snapshots = rows
+      .map((row) => this.parseRow(row))
+      .filter((snapshot): snapshot is QueueSnapshot => snapshot !== undefined);
+    return Promise.resolve(snapshots);
+  }
+
+  public save(snapshot: QueueSnapshot): Promise<void> {
+    this.upsert.run(
+      snapshot.guildId,
+      JSON.stringify(snapshot),
+      snapshot.updatedAt,
+    );
+    return Promise.resolve();
+  }
+
+  public delete(guildId: string): Promise<void> {
+    this.remove.run(guildId);
+    return Promise.resolve();
+  }
+
+  private parseRow(row: SnapshotRow): QueueSnapshot | undefined {
+    let parsed: unknown;
+    try {
+      parsed = JSON.parse(row.snapshot);
+    } catch {
+      this.logger.warn(
+        `Discarding unreadable queue snapshot for ${row.guild_id}`,
+      );
+      return undefined;
+    }
+
+    const validationResult = queueSnapshotSchema(parsed);
+    if (validationResult instanceof type.errors) {
+      this.logger.warn(
+        `Discarding invalid queue snapshot for ${row.guild_id}: ${validationResult.summary}`,
+      );
+      return undefined;
+    }
+
+    return validationResult;
+  }
+}
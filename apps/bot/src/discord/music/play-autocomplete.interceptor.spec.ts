@@ -0,0 +1,172 @@
+import type { AutocompleteInteraction } from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Track } from './music-queue';
+import { MusicService } from './music.service';
+import { PlayQueryAutocompleteInterceptor } from './play-autocomplete.interceptor';
+
+const mockTrack: Track = {
+  url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+  title: 'Never Gonna Give You Up',
+  duration: 213,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+};
+
+let interactionCount = 0;
+
+function createInteraction(
+  value: string,
+  options: { name?: string; userId?: string } = {},
+): AutocompleteInteraction {
+  interactionCount += 1;
+
+  return {
+    id: `interaction-${String(interactionCount)}`,
+    guildId: 'guild-123',
+    user: { id: options.userId ?? 'user-123' },
+    options: {
+      getFocused: vi.fn().mockReturnValue({
+        name: options.name ?? 'query',
+        value,
+      }),
+    },
+    respond: vi.fn().mockResolvedValue(undefined),
+  } as unknown as AutocompleteInteraction;
+}
+
+describe('PlayQueryAutocompleteInterceptor', () => {
+  let interceptor: PlayQueryAutocompleteInterceptor;
+  let musicService: MusicService;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    musicService = {
+      getQueue: vi.fn().mockReturnValue([]),
+      getSearchSources: vi.fn().mockReturnValue(['YouTube', 'SoundCloud']),
+      getSearchSuggestions: vi
+        .fn()
+        .mockResolvedValue(['never gonna give you up', 'never gonna']),
+    } as unknown as MusicService;
+
+    interceptor = new PlayQueryAutocompleteInterceptor(musicService);
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  async function complete(interaction: AutocompleteInteraction) {
+    const pending = interceptor.transformOptions(interaction);
+    await vi.advanceTimersByTimeAsync(250);
+    await pending;
+  }
+
+  it('responds with search suggestions', async () => {
+    const interaction = createInteraction('never');
+
+    await complete(interaction);
+
+    expect(musicService.getSearchSuggestions).toHaveBeenCalledWith('never');
+    expect(interaction.respond).toHaveBeenCalledWith([
+      { name: 'never gonna give you up', value: 'never gonna give you up' },
+      { name: 'never gonna', value: 'never gonna' },
+    ]);
+  });
+
+  it('lists matching queued tracks before suggestions', async () => {
+    vi.mocked(musicService.getQueue).mockReturnValue([
+      mockTrack,
+      {
+        ...mockTrack,
+        url: 'https://youtube.com/watch?v=other',
+        title: 'Other',
+      },
+      mockTrack,
+    ]);
+    const interaction = createInteraction('NEVER');
+
+    await complete(interaction);
+
+    expect(musicService.getQueue).toHaveBeenCalledWith('guild-123');
+    expect(interaction.respond).toHaveBeenCalledWith([
+      { name: '🕘 Never Gonna Give You Up', value: mockTrack.url },
+      { name: 'never gonna give you up', value: 'never gonna give you up' },
+      { name: 'never gonna', value: 'never gonna' },
+    ]);
+  });
+
+  it('only answers the latest keystroke from a user', async () => {
+    const first = createInteraction('nev');
+    const second = createInteraction('never');
+
+    const firstPending = interceptor.transformOptions(first);
+    await vi.advanceTimersByTimeAsync(100);
+    const secondPending = interceptor.transformOptions(second);
+    await vi.advanceTimersByTimeAsync(250);
+    await Promise.all([firstPending, secondPending]);
+
+    expect(first.respond).not.toHaveBeenCalled();
+    expect(second.respond).toHaveBeenCalled();
+    expect(musicService.getSearchSuggestions).toHaveBeenCalledTimes(1);
+  });
+
+  it('caches suggestions by prefix', async () => {
+    await complete(createInteraction('Never'));
+    const interaction = createInteraction('never');
+
+    await complete(interaction);
+
+    expect(musicService.getSearchSuggestions).toHaveBeenCalledTimes(1);
+    expect(interaction.respond).toHaveBeenCalledWith(
+      expect.arrayContaining([{ name: 'never gonna', value: 'never gonna' }]),
+    );
+  });
+
+  it('skips suggestions for URLs and empty input', async () => {
+    const url = createInteraction('https://youtube.com/watch?v=abc');
+    const empty = createInteraction('  ', { userId: 'user-456' });
+
+    await complete(url);
+    await complete(empty);
+
+    expect(musicService.getSearchSuggestions).not.toHaveBeenCalled();
+    expect(url.respond).toHaveBeenCalledWith([]);
+    expect(empty.respond).toHaveBeenCalledWith([]);
+  });
+
+  it('responds with recent tracks only when suggestions fail', async () => {
+    vi.mocked(musicService.getQueue).mockReturnValue([mockTrack]);
+    vi.mocked(musicService.getSearchSuggestions).mockRejectedValue(
+      new Error('Innertube session not ready'),
+    );
+    const interaction = createInteraction('never');
+
+    await complete(interaction);
+
+    expect(interaction.respond).toHaveBeenCalledWith([
+      { name: '🕘 Never Gonna Give You Up', value: mockTrack.url },
+    ]);
+  });
+
+  it('lists search sources matching the typed value', async () => {
+    const interaction = createInteraction('sound', { name: 'source' });
+
+    await interceptor.transformOptions(interaction);
+
+    expect(interaction.respond).toHaveBeenCalledWith([
+      { name: 'SoundCloud', value: 'SoundCloud' },
+    ]);
+    expect(musicService.getSearchSuggestions).not.toHaveBeenCalled();
+  });
+
+  it('ignores other focused options', async () => {
+    const interaction = createInteraction('true', { name: 'shuffle' });
+
+    await complete(interaction);
+
+    expect(interaction.respond).not.toHaveBeenCalled();
+  });
+});
@@ -0,0 +1,157 @@
+import { setTimeout as sleep } from 'node:timers/promises';
+import { Injectable, Logger } from '@nestjs/common';
+import type {
+  ApplicationCommandOptionChoiceData,
+  AutocompleteInteraction,
+} from 'discord.js';
+import { AutocompleteInterceptor } from 'necord';
+import { LruCache } from './lru-cache';
+import { MusicService } from './music.service';
+
+const DEBOUNCE_MS = 250;
+const SUGGESTION_CACHE_SIZE = 200;
+const MAX_CHOICES = 25;
+const MAX_RECENT_CHOICES = 5;
+const CHOICE_TEXT_LIMIT = 100;
+
+@Injectable()
+export class PlayQueryAutocompleteInterceptor extends AutocompleteInterceptor {
+  private readonly logger = new Logger(PlayQueryAutocompleteInterceptor.name);
+  private readonly suggestions = new LruCache<string, string[]>(
+    SUGGESTION_CACHE_SIZE,
+  );
+  private readonly latestRequests = new Map<string, string>();
+
+  public constructor(private readonly musicService: MusicService) {
+    super();
+  }
+
+  public async transformOptions(
+    interaction: AutocompleteInteraction,
+  ): Promise<void> {
+    const focused = interaction.options.getFocused(true);
+    if (focused.name === 'source') {
+      await this.respond(interaction, this.getSourceChoices(focused.value));
+      return;
+    }
+    if (focused.name !== 'query') {
+      return;
+    }
+
+    const query = focused.value.trim();
+    const userId = interaction.user.id;
+
+    // Discord sends one request per keystroke; only the latest is answered
+    this.latestRequests.set(userId, interaction.id);
+    await sleep(DEBOUNCE_MS);
+    if (this.latestRequests.get(userId) !== interaction.id) {
+      return;
+    }
+    this.latestRequests.delete(userId);
+
+    const recent = this.getRecentChoices(interaction.guildId, query);
+    const suggestions = await this.getSuggestionChoices(query);
+
+    await this.respond(
+      interaction,
+      [...recent, ...suggestions].slice(0, MAX_CHOICES),
+    );
+  }
+
+  private getRecentChoices(
+    guildId: string | null,
+    query: string,
+  ): ApplicationCommandOptionChoiceData<string>[] {
+    if (!guildId) {
+      return [];
+    }
+
+    const needle = query.toLowerCase();
+    const seen = new Set<string>();
+    const choices: ApplicationCommandOptionChoiceData<string>[] = [];
+
+    for (const track of this.musicService.getQueue(guildId).reverse()) {
+      if (
+        seen.has(track.url) ||
+        track.url.length > CHOICE_TEXT_LIMIT ||
+        !track.title.toLowerCase().includes(needle)
+      ) {
+        continue;
+      }
+
+      seen.add(track.url);
+      choices.push({
+        name: this.truncate(`🕘 ${track.title}`),
+        value: track.url,
+      });
+
+      if (choices.length >= MAX_RECENT_CHOICES) {
+        break;
+      }
+    }
+
+    return choices;
+  }
+
+  private getSourceChoices(
+    value: string,
+  ): ApplicationCommandOptionChoiceData<string>[] {
+    const needle = value.trim().toLowerCase();
+    return this.musicService
+      .getSearchSources()
+      .filter((source) => source.toLowerCase().includes(needle))
+      .map((source) => ({ name: source, value: source }));
+  }
+
+  private async getSuggestionChoices(
+    query: string,
+  ): Promise<ApplicationCommandOptionChoiceData<string>[]> {
+    if (!query || this.isUrl(query)) {
+      return [];
+    }
+
+    const key = query.toLowerCase();
+    let suggestions = this.suggestions.get(key);
+
+    if (!suggestions) {
+      try {
+        suggestions = await this.musicService.getSearchSuggestions(query);
+      } catch (error) {
+        this.logger.debug(`Failed to fetch suggestions for "${query}"`, error);
+        return [];
+      }
+      this.suggestions.set(key, suggestions);
+    }
+
+    return suggestions
+      .filter((suggestion) => suggestion.length <= CHOICE_TEXT_LIMIT)
+      .map((suggestion) => ({ name: suggestion, value: suggestion }));
+  }
+
+  private async respond(
+    interaction: AutocompleteInteraction,
+    choices: ApplicationCommandOptionChoiceData<string>[],
+  ): Promise<void> {
+    try {
+      await interaction.respond(choices);
+    } catch (error) {
+      // The user may have kept typing and Discord already discarded this request
+      this.logger.debug('Failed to respond to play autocomplete', error);
+    }
+  }
+
+  private isUrl(str: string): boolean {
+    try {
+      const url = new URL(str);
+      return url.protocol === 'http:' || url.protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  private truncate(text: string): string {
+    return text.length > CHOICE_TEXT_LIMIT
+      ? `${text.slice(0, CHOICE_TEXT_LIMIT - 1)}…`
+      : text;
+  }
+}
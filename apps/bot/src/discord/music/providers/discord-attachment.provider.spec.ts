@@ -0,0 +1,123 @@
+import { PassThrough } from 'node:stream';
+import { StreamType } from '@discordjs/voice';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockProbeMedia, mockSpawnFfmpeg } = vi.hoisted(() => ({
+  mockProbeMedia: vi.fn(),
+  mockSpawnFfmpeg: vi.fn(),
+}));
+
+vi.mock('../ffmpeg.util', () => ({
+  probeMedia: mockProbeMedia,
+  spawnFfmpeg: mockSpawnFfmpeg,
+}));
+
+import { DiscordAttachmentProvider } from './discord-attachment.provider';
+
+const ATTACHMENT_URL =
+  'https://cdn.discordapp.com/attachments/123456789/987654321/my_voice_memo.m4a?ex=6700&is=6600&hm=abc123';
+
+const requester = { id: 'user-123', tag: 'user#1234' };
+
+describe('DiscordAttachmentProvider', () => {
+  let provider: DiscordAttachmentProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSpawnFfmpeg.mockReturnValue(new PassThrough());
+    mockProbeMedia.mockResolvedValue({ duration: 42.6, audioCodec: 'aac' });
+    provider = new DiscordAttachmentProvider();
+  });
+
+  describe('canHandle', () => {
+    it.each([
+      ATTACHMENT_URL,
+      'https://media.discordapp.net/attachments/1/2/clip.mp3',
+      'https://cdn.discordapp.com/ephemeral-attachments/1/2/clip.ogg',
+    ])('accepts %s', (url) => {
+      expect(provider.canHandle(url)).toBe(true);
+    });
+
+    it.each([
+      'https://cdn.discordapp.com/avatars/1/abc.png',
+      'https://example.com/attachments/1/2/clip.mp3',
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    ])('rejects %s', (url) => {
+      expect(provider.canHandle(url)).toBe(false);
+    });
+  });
+
+  describe('fetchTrackInfo', () => {
+    it('builds a track from the probed file', async () => {
+      const track = await provider.fetchTrackInfo(ATTACHMENT_URL, requester);
+
+      expect(mockProbeMedia).toHaveBeenCalledWith(ATTACHMENT_URL);
+      expect(track).toEqual({
+        url: ATTACHMENT_URL,
+        title: 'my voice memo',
+        duration: 43,
+        thumbnail: '',
+        requestedBy: 'user#1234',
+        requesterId: 'user-123',
+      });
+    });
+
+    it('rejects files without an audio stream', async () => {
+      mockProbeMedia.mockResolvedValue({ duration: 10 });
+
+      await expect(
+        provider.fetchTrackInfo(ATTACHMENT_URL, requester),
+      ).rejects.toThrow('This attachment does not contain any audio');
+    });
+  });
+
+  describe('getAudioInfo', () => {
+    it('transcodes non-Opus audio and seeks', async () => {
+      const info = await provider.getAudioInfo(ATTACHMENT_URL, {
+        startTimeMs: 5_000,
+      });
+
+      expect(mockSpawnFfmpeg).toHaveBeenCalledWith([
+        '-ss',
+        '5.000',
+        '-i',
+        ATTACHMENT_URL,
+        '-vn',
+        '-c:a',
+        'libopus',
+        '-b:a',
+        '128k',
+        '-f',
+        'ogg',
+        'pipe:1',
+      ]);
+      expect(info.streamType).toBe(StreamType.OggOpus);
+    });
+
+    it('reuses the probe from when the track was queued', async () => {
+      await provider.fetchTrackInfo(ATTACHMENT_URL, requester);
+      await provider.getAudioInfo(ATTACHMENT_URL);
+      await provider.getAudioInfo(ATTACHMENT_URL, { startTimeMs: 5_000 });
+
+      expect(mockProbeMedia).toHaveBeenCalledTimes(1);
+      expect(mockSpawnFfmpeg).toHaveBeenCalledTimes(2);
+    });
+
+    it('remuxes Opus audio without transcoding', async () => {
+      mockProbeMedia.mockResolvedValue({ duration: 10, audioCodec: 'opus' });
+
+      await provider.getAudioInfo(ATTACHMENT_URL);
+
+      expect(mockSpawnFfmpeg).toHaveBeenCalledWith([
+        '-i',
+        ATTACHMENT_URL,
+        '-vn',
+        '-c:a',
+        'copy',
+        '-f',
+        'ogg',
+        'pipe:1',
+      ]);
+    });
+  });
+});
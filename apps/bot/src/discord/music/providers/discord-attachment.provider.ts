@@ -0,0 +1,109 @@
+import { StreamType } from '@discordjs/voice';
+import { Injectable, Logger } from '@nestjs/common';
+import { regex } from 'arkregex';
+import { type MediaProbe, probeMedia, spawnFfmpeg } from '../ffmpeg.util';
+import { LruCache } from '../lru-cache';
+import type { Track, TrackRequester } from '../music-queue';
+import { MusicProvider } from './music-provider.decorator';
+import type {
+  AudioInfo,
+  AudioStreamOptions,
+  MusicProvider as MusicProviderInterface,
+} from './music-provider.interface';
+
+const ATTACHMENT_URL_PATTERN = regex(
+  '^https://(?:cdn\\.discordapp\\.com|media\\.discordapp\\.net)/(?:ephemeral-)?attachments/\\d+/\\d+/[^/?#]+(?:\\?.*)?$',
+);
+const OPUS_BITRATE = '128k';
+const PROBE_CACHE_SIZE = 500;
+
+export function isDiscordAttachmentUrl(url: string): boolean {
+  return ATTACHMENT_URL_PATTERN.test(url);
+}
+
+@MusicProvider()
+@Injectable()
+export class DiscordAttachmentProvider implements MusicProviderInterface {
+  public readonly name = 'Discord Attachment';
+  private readonly logger = new Logger(DiscordAttachmentProvider.name);
+  // Prefetches, seeks and stream retries would otherwise probe the file again
+  private readonly probes = new LruCache<string, MediaProbe>(PROBE_CACHE_SIZE);
+
+  public canHandle(url: string): boolean {
+    return isDiscordAttachmentUrl(url);
+  }
+
+  public async fetchTrackInfo(
+    url: string,
+    requester: TrackRequester,
+  ): Promise<Track> {
+    const probe = await this.probe(url);
+    if (!probe.audioCodec) {
+      throw new Error('This attachment does not contain any audio');
+    }
+
+    return {
+      url,
+      title: this.titleFromUrl(url),
+      duration: Math.round(probe.duration),
+      thumbnail: '',
+      requestedBy: requester.tag,
+      requesterId: requester.id,
+    };
+  }
+
+  public async getAudioInfo(
+    url: string,
+    options: AudioStreamOptions = {},
+  ): Promise<AudioInfo> {
+    const probe = await this.probe(url);
+    const startTimeMs = options.startTimeMs ?? 0;
+
+    this.logger.debug(
+      `attachment.stream: ${url} (${probe.audioCodec ?? 'unknown'})`,
+    );
+
+    const source = spawnFfmpeg([
+      ...(startTimeMs > 0 ? ['-ss', (startTimeMs / 1000).toFixed(3)] : []),
+      '-i',
+      url,
+      '-vn',
+      ...(probe.audioCodec === 'opus'
+        ? ['-c:a', 'copy']
+        : ['-c:a', 'libopus', '-b:a', OPUS_BITRATE]),
+      '-f',
+      'ogg',
+      'pipe:1',
+    ]);
+
+    return { source, streamType: StreamType.OggOpus };
+  }
+
+  public search(): Promise<Track> {
+    return Promise.reject(
+      new Error('Discord attachments do not support search'),
+    );
+  }
+
+  private async probe(url: string): Promise<MediaProbe> {
+    const cached = this.probes.get(url);
+    if (cached) {
+      return cached;
+    }
+
+    const probe = await probeMedia(url);
+    this.probes.set(url, probe);
+    return probe;
+  }
+
+  // Discord swaps spaces for underscores when it stores an upload
+  private titleFromUrl(url: string): string {
+    const filename = new URL(url).pathname.split('/').at(-1) ?? '';
+    return (
+      filename
+        .replace(/\.[^.]+$/, '')
+        .replaceAll('_', ' ')
+        .trim() || 'Attachment'
+    );
+  }
+}
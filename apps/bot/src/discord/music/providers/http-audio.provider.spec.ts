@@ -0,0 +1,448 @@
+import { PassThrough, Readable } from 'node:stream';
+import { StreamType } from '@discordjs/voice';
+import { Logger } from '@nestjs/common';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+
+const { mockSpawnFfmpeg, mockProbeMedia, mockLookup } = vi.hoisted(() => ({
+  mockSpawnFfmpeg: vi.fn(),
+  mockProbeMedia: vi.fn(),
+  mockLookup: vi.fn(),
+}));
+
+vi.mock('../ffmpeg.util', () => ({
+  spawnFfmpeg: mockSpawnFfmpeg,
+  probeMedia: mockProbeMedia,
+}));
+
+vi.mock('node:dns/promises', () => ({
+  lookup: mockLookup,
+}));
+
+import { HttpAudioProvider } from './http-audio.provider';
+
+const originalFetch = global.fetch;
+const mockFetch = vi.fn<typeof fetch>();
+
+function respond(
+  body: string | null,
+  headers: Record<string, string>,
+  status = 200,
+): Response {
+  return new Response(body, { status, headers });
+}
+
+const requester = { id: 'user-123', tag: 'user#1234' };
+
+describe('HttpAudioProvider', () => {
+  let provider: HttpAudioProvider;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSpawnFfmpeg.mockReturnValue(new PassThrough());
+    mockProbeMedia.mockResolvedValue({ duration: 0, audioCodec: 'mp3' });
+    mockLookup.mockResolvedValue([{ address: '93.184.215.14', family: 4 }]);
+    global.fetch = mockFetch;
+    provider = new HttpAudioProvider();
+  });
+
+  afterEach(() => {
+    vi.useRealTimers();
+    global.fetch = originalFetch;
+  });
+
+  describe('canHandle', () => {
+    it.each([
+      'https://example.com/song.mp3',
+      'http://radio.example:8000/stream',
+    ])('accepts %s', (url) => {
+      expect(provider.canHandle(url)).toBe(true);
+    });
+
+    it.each(['ftp://example.com/song.mp3', 'lofi beats'])(
+      'rejects %s',
+      (url) => {
+        expect(provider.canHandle(url)).toBe(false);
+      },
+    );
+  });
+
+  describe('fetchTrackInfo', () => {
+    it('names audio files after the file and probes their duration', async () => {
+      mockProbeMedia.mockResolvedValue({ duration: 183.4, audioCodec: 'mp3' });
+      mockFetch.mockResolvedValue(
+        respond('ID3', {
+          'content-type': 'audio/mpeg',
+          'content-length': '3',
+        }),
+      );
+
+      const track = await provider.fetchTrackInfo(
+        'https://cdn.example.com/music/My%20Song.mp3',
+        requester,
+      );
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://cdn.example.com/music/My%20Song.mp3',
+        expect.objectContaining({ headers: { 'Icy-MetaData': '1' } }),
+      );
+      expect(mockProbeMedia).toHaveBeenCalledWith(expect.any(Readable));
+      expect(track).toEqual({
+        url: 'https://cdn.example.com/music/My%20Song.mp3',
+        title: 'My Song',
+        duration: 183,
+        thumbnail: '',
+        requestedBy: 'user#1234',
+        requesterId: 'user-123',
+      });
+    });
+
+    it('leaves the duration unknown when probing fails', async () => {
+      vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+      mockProbeMedia.mockRejectedValue(new Error('ffprobe exited with code 1'));
+      mockFetch.mockResolvedValue(
+        respond('ID3', {
+          'content-type': 'audio/mpeg',
+          'content-length': '3',
+        }),
+      );
+
+      const track = await provider.fetchTrackInfo(
+        'https://cdn.example.com/song.mp3',
+        requester,
+      );
+
+      expect(track.duration).toBe(0);
+    });
+
+    it('marks Icecast streams as live and uses the station name', async () => {
+      mockFetch.mockResolvedValue(
+        respond('', {
+          'content-type': 'audio/mpeg',
+          'icy-name': 'Lofi Radio',
+          'icy-metaint': '16000',
+        }),
+      );
+
+      const track = await provider.fetchTrackInfo(
+        'http://radio.example:8000/lofi',
+        requester,
+      );
+
+      expect(track.title).toBe('Lofi Radio');
+      expect(track.duration).toBe(Number.POSITIVE_INFINITY);
+      expect(mockProbeMedia).not.toHaveBeenCalled();
+    });
+
+    it('follows the first entry of a .pls playlist', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          respond(
+            '[playlist]\nNumberOfEntries=2\nFile1=http://radio.example:8000/main\nFile2=http://radio.example:8000/backup\n',
+            { 'content-type': 'audio/x-scpls' },
+          ),
+        )
+        .mockResolvedValueOnce(
+          respond('', { 'content-type': 'audio/aac', 'icy-name': 'Main' }),
+        );
+
+      const track = await provider.fetchTrackInfo(
+        'https://radio.example/listen.pls',
+        requester,
+      );
+
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://radio.example:8000/main',
+        expect.anything(),
+      );
+      expect(track).toMatchObject({
+        url: 'https://radio.example/listen.pls',
+        title: 'Main',
+        duration: Number.POSITIVE_INFINITY,
+      });
+    });
+
+    it('follows the first entry of an .m3u playlist', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          respond('#EXTM3U\n#EXTINF:-1,Radio\nhttp://radio.example/live\n', {
+            'content-type': 'audio/x-mpegurl',
+          }),
+        )
+        .mockResolvedValueOnce(respond('', { 'content-type': 'audio/mpeg' }));
+
+      const track = await provider.fetchTrackInfo(
+        'https://radio.example/listen.m3u',
+        requester,
+      );
+
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://radio.example/live',
+        expect.anything(),
+      );
+      expect(track.duration).toBe(Number.POSITIVE_INFINITY);
+    });
+
+    it('refuses HLS playlists', async () => {
+      mockFetch.mockResolvedValue(
+        respond('#EXTM3U\n#EXT-X-TARGETDURATION:10\nsegment1.aac\n', {
+          'content-type': 'application/vnd.apple.mpegurl',
+        }),
+      );
+
+      await expect(
+        provider.fetchTrackInfo(
+          'https://radio.example/hls/live.m3u8',
+          requester,
+        ),
+      ).rejects.toThrow('HLS streams are not supported');
+      expect(mockFetch).toHaveBeenCalledOnce();
+    });
+
+    it('rejects non-audio content', async () => {
+      mockFetch.mockResolvedValue(
+        respond('<html></html>', { 'content-type': 'text/html' }),
+      );
+
+      await expect(
+        provider.fetchTrackInfo('https://example.com/', requester),
+      ).rejects.toThrow('URL does not point to an audio stream');
+    });
+
+    it('rejects playlists without streams', async () => {
+      mockFetch.mockResolvedValue(
+        respond('#EXTM3U\n', { 'content-type': 'audio/x-mpegurl' }),
+      );
+
+      await expect(
+        provider.fetchTrackInfo('https://example.com/empty.m3u', requester),
+      ).rejects.toThrow('Playlist does not contain any streams');
+    });
+
+    it('stops reading playlists at the size cap', async () => {
+      const cancel = vi.fn();
+      const line = new TextEncoder().encode('http://radio.example/live\n');
+      mockFetch
+        .mockResolvedValueOnce(
+          new Response(
+            new ReadableStream<Uint8Array>({
+              pull(controller) {
+                controller.enqueue(line);
+              },
+              cancel,
+            }),
+            { headers: { 'content-type': 'audio/x-mpegurl' } },
+          ),
+        )
+        .mockResolvedValueOnce(respond('', { 'content-type': 'audio/mpeg' }));
+
+      const track = await provider.fetchTrackInfo(
+        'https://radio.example/endless.m3u',
+        requester,
+      );
+
+      expect(cancel).toHaveBeenCalled();
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'http://radio.example/live',
+        expect.anything(),
+      );
+      expect(track.duration).toBe(Number.POSITIVE_INFINITY);
+    });
+
+    it('gives up on playlists that stall', async () => {
+      vi.useFakeTimers();
+      mockFetch.mockResolvedValue(
+        new Response(new ReadableStream<Uint8Array>(), {
+          headers: { 'content-type': 'audio/x-mpegurl' },
+        }),
+      );
+
+      let failure: unknown;
+      provider
+        .fetchTrackInfo('https://radio.example/stalled.m3u', requester)
+        .catch((error: unknown) => {
+          failure = error;
+        });
+
+      await vi.waitFor(async () => {
+        await vi.advanceTimersByTimeAsync(10_000);
+        expect(failure).toEqual(new Error('Timed out reading the playlist'));
+      });
+    });
+
+    it.each([
+      ['127.0.0.1', 4],
+      ['10.1.2.3', 4],
+      ['169.254.169.254', 4],
+      ['::ffff:192.168.1.1', 6],
+      ['::1', 6],
+      ['fe80::1', 6],
+    ])('refuses hosts resolving to %s', async (address, family) => {
+      mockLookup.mockResolvedValue([{ address, family }]);
+
+      await expect(
+        provider.fetchTrackInfo('http://intranet.example/song.mp3', requester),
+      ).rejects.toThrow('URL points to a private network address');
+      expect(mockFetch).not.toHaveBeenCalled();
+    });
+
+    it('checks every redirect hop', async () => {
+      mockLookup.mockImplementation((hostname: string) =>
+        Promise.resolve([
+          hostname === 'metadata.internal'
+            ? { address: '169.254.169.254', family: 4 }
+            : { address: '93.184.215.14', family: 4 },
+        ]),
+      );
+      mockFetch.mockResolvedValue(
+        respond(null, { location: 'http://metadata.internal/latest' }, 302),
+      );
+
+      await expect(
+        provider.fetchTrackInfo('https://example.com/song.mp3', requester),
+      ).rejects.toThrow('URL points to a private network address');
+      expect(mockFetch).toHaveBeenCalledExactlyOnceWith(
+        'https://example.com/song.mp3',
+        expect.objectContaining({ redirect: 'manual' }),
+      );
+    });
+
+    it('follows redirects to public hosts', async () => {
+      mockFetch
+        .mockResolvedValueOnce(
+          respond(null, { location: '/files/song.mp3' }, 301),
+        )
+        .mockResolvedValueOnce(
+          respond('ID3', {
+            'content-type': 'audio/mpeg',
+            'content-length': '3',
+          }),
+        );
+
+      const track = await provider.fetchTrackInfo(
+        'https://example.com/song',
+        requester,
+      );
+
+      expect(mockFetch).toHaveBeenLastCalledWith(
+        'https://example.com/files/song.mp3',
+        expect.anything(),
+      );
+      expect(track.duration).toBe(0);
+    });
+
+    it('rejects failed requests', async () => {
+      mockFetch.mockResolvedValue(respond(null, {}, 404));
+
+      await expect(
+        provider.fetchTrackInfo('https://example.com/missing.mp3', requester),
+      ).rejects.toThrow('Audio URL returned 404');
+    });
+  });
+
+  describe('getAudioInfo', () => {
+    it('transcodes the fetched file from the requested offset', async () => {
+      mockFetch.mockResolvedValue(
+        respond('ID3', {
+          'content-type': 'audio/mpeg',
+          'content-length': '3',
+        }),
+      );
+
+      const info = await provider.getAudioInfo(
+        'https://cdn.example.com/song.mp3',
+        { startTimeMs: 42_500 },
+      );
+
+      expect(mockSpawnFfmpeg).toHaveBeenCalledWith(
+        [
+          '-i',
+          'pipe:0',
+          '-ss',
+          '42.500',
+          '-vn',
+          '-c:a',
+          'libopus',
+          '-b:a',
+          '128k',
+          '-f',
+          'ogg',
+          'pipe:1',
+        ],
+        expect.any(Readable),
+      );
+      expect(info.streamType).toBe(StreamType.OggOpus);
+      expect(info.metadata).toBeUndefined();
+
+      const input = mockSpawnFfmpeg.mock.calls[0]?.[1] as Readable;
+      const chunks: Buffer[] = [];
+      for await (const chunk of input) {
+        chunks.push(chunk as Buffer);
+      }
+      expect(Buffer.concat(chunks).toString()).toBe('ID3');
+    });
+
+    it('never lets ffmpeg resolve the host again', async () => {
+      mockFetch.mockResolvedValue(
+        respond('ID3', {
+          'content-type': 'audio/mpeg',
+          'content-length': '3',
+        }),
+      );
+
+      await provider.getAudioInfo('https://rebind.example/song.mp3');
+
+      expect(mockLookup).toHaveBeenCalledOnce();
+      expect(mockSpawnFfmpeg.mock.calls[0]?.[0]).not.toContain(
+        'https://rebind.example/song.mp3',
+      );
+    });
+
+    it('pipes ICY streams through the metadata parser', async () => {
+      const audio = Buffer.from('abcd');
+      const metadata = Buffer.alloc(33);
+      metadata[0] = 2;
+      metadata.write("StreamTitle='Now';", 1);
+      mockFetch.mockResolvedValue(
+        new Response(Buffer.concat([audio, metadata, audio]), {
+          headers: {
+            'content-type': 'audio/mpeg',
+            'icy-metaint': '4',
+          },
+        }),
+      );
+
+      const info = await provider.getAudioInfo('http://radio.example/live', {
+        startTimeMs: 10_000,
+      });
+
+      expect(mockSpawnFfmpeg).toHaveBeenCalledWith(
+        [
+          '-i',
+          'pipe:0',
+          '-vn',
+          '-c:a',
+          'libopus',
+          '-b:a',
+          '128k',
+          '-f',
+          'ogg',
+          'pipe:1',
+        ],
+        info.metadata,
+      );
+
+      const input = mockSpawnFfmpeg.mock.calls[0]?.[1] as Readable;
+      const titles: string[] = [];
+      info.metadata?.on('metadata', ({ title }) => {
+        titles.push(title);
+      });
+      const chunks: Buffer[] = [];
+      for await (const chunk of input) {
+        chunks.push(chunk as Buffer);
+      }
+
+      expect(Buffer.concat(chunks).toString()).toBe('abcdabcd');
+      expect(titles).toEqual(['Now']);
+    });
+  });
+});
@@ -0,0 +1,357 @@
+import { lookup } from 'node:dns/promises';
+import { BlockList } from 'node:net';
+import { Readable, pipeline } from 'node:stream';
+import { StreamType } from '@discordjs/voice';
+import { Injectable, Logger } from '@nestjs/common';
+import { probeMedia, spawnFfmpeg } from '../ffmpeg.util';
+import type { Track, TrackRequester } from '../music-queue';
+import { IcyMetadataParser } from './icy-metadata-parser';
+import { MusicProvider } from './music-provider.decorator';
+import type {
+  AudioInfo,
+  AudioStreamOptions,
+  MusicProvider as MusicProviderInterface,
+} from './music-provider.interface';
+
+const PROBE_TIMEOUT_MS = 10_000;
+const MAX_PLAYLIST_DEPTH = 3;
+const MAX_PLAYLIST_BYTES = 64 * 1024;
+const MAX_REDIRECTS = 5;
+const OPUS_BITRATE = '128k';
+const PLAYLIST_CONTENT_TYPES = new Set([
+  'audio/x-mpegurl',
+  'audio/mpegurl',
+  'application/x-mpegurl',
+  'application/vnd.apple.mpegurl',
+  'audio/x-scpls',
+  'application/pls+xml',
+]);
+const PLAYLIST_EXTENSION_PATTERN = /\.(?:m3u8?|pls)$/i;
+const AUDIO_EXTENSION_PATTERN = /\.(?:mp3|ogg|oga|opus|flac|wav|m4a|aac)$/i;
+
+// Users pick the URL, so the bot must not be usable to reach its own network
+const PRIVATE_ADDRESSES = new BlockList();
+for (const [network, prefix] of [
+  ['0.0.0.0', 8],
+  ['10.0.0.0', 8],
+  ['100.64.0.0', 10],
+  ['127.0.0.0', 8],
+  ['169.254.0.0', 16],
+  ['172.16.0.0', 12],
+  ['192.168.0.0', 16],
+] as const) {
+  PRIVATE_ADDRESSES.addSubnet(network, prefix, 'ipv4');
+}
+PRIVATE_ADDRESSES.addAddress('::', 'ipv6');
+PRIVATE_ADDRESSES.addAddress('::1', 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fc00::', 7, 'ipv6');
+PRIVATE_ADDRESSES.addSubnet('fe80::', 10, 'ipv6');
+
+interface ResolvedStream {
+  url: string;
+  title: string;
+  live: boolean;
+  metaInt?: number;
+  // Left open so the stream can be played or probed from the checked connection
+  response?: Response;
+}
+
+// Accepts any http(s) URL, so it must be consulted last
+@MusicProvider({ priority: -100 })
+@Injectable()
+export class HttpAudioProvider implements MusicProviderInterface {
+  public readonly name = 'HTTP Audio';
+  private readonly logger = new Logger(HttpAudioProvider.name);
+
+  public canHandle(url: string): boolean {
+    try {
+      const { protocol } = new URL(url);
+      return protocol === 'http:' || protocol === 'https:';
+    } catch {
+      return false;
+    }
+  }
+
+  public async fetchTrackInfo(
+    url: string,
+    requester: TrackRequester,
+  ): Promise<Track> {
+    const stream = await this.resolve(url);
+    if (stream.live) {
+      await stream.response?.body?.cancel();
+    }
+
+    return {
+      url,
+      title: stream.title,
+      duration: stream.live
+        ? Number.POSITIVE_INFINITY
+        : await this.probeDuration(stream),
+      thumbnail: '',
+      requestedBy: requester.tag,
+      requesterId: requester.id,
+    };
+  }
+
+  public async getAudioInfo(
+    url: string,
+    options: AudioStreamOptions = {},
+  ): Promise<AudioInfo> {
+    const stream = await this.resolve(url);
+    const body = stream.response?.body;
+    if (!body) {
+      throw new Error('Audio URL returned an empty response');
+    }
+
+    this.logger.debug(
+      `http.stream: ${stream.url} (${stream.live ? 'live' : 'file'})`,
+    );
+
+    // ffmpeg only reads the response the bot fetched, so it never resolves or follows a host itself
+    const input = Readable.fromWeb(
+      body as Parameters<typeof Readable.fromWeb>[0],
+    );
+
+    if (stream.live && stream.metaInt) {
+      const parser = new IcyMetadataParser(stream.metaInt);
+      // Tearing down the pipeline also cancels the radio connection
+      pipeline(input, parser, () => undefined);
+
+      const source = spawnFfmpeg(
+        ['-i', 'pipe:0', ...this.encodeArgs()],
+        parser,
+      );
+
+      return { source, streamType: StreamType.OggOpus, metadata: parser };
+    }
+
+    // Live streams can't be seeked, and a pipe can't either, so files decode up to the offset
+    const startTimeMs = stream.live ? 0 : (options.startTimeMs ?? 0);
+    const source = spawnFfmpeg(
+      [
+        '-i',
+        'pipe:0',
+        ...(startTimeMs > 0 ? ['-ss', (startTimeMs / 1000).toFixed(3)] : []),
+        ...this.encodeArgs(),
+      ],
+      input,
+    );
+
+    return { source, streamType: StreamType.OggOpus };
+  }
+
+  public search(): Promise<Track> {
+    return Promise.reject(new Error('HTTP audio does not support search'));
+  }
+
+  private async resolve(url: string, depth = 0): Promise<ResolvedStream> {
+    const { response, url: responseUrl } = await this.request(url);
+    const contentType = this.getContentType(response);
+    const { pathname, hostname } = new URL(url);
+
+    if (
+      PLAYLIST_CONTENT_TYPES.has(contentType) ||
+      PLAYLIST_EXTENSION_PATTERN.test(pathname)
+    ) {
+      const text = await this.readPlaylist(response);
+
+      // ffmpeg would fetch every HLS variant and segment itself, past the address checks
+      if (text.includes('#EXT-X-')) {
+        throw new Error('HLS streams are not supported');
+      }
+
+      const [entry] = this.parsePlaylist(text);
+      if (!entry) {
+        throw new Error('Playlist does not contain any streams');
+      }
+      if (depth >= MAX_PLAYLIST_DEPTH) {
+        throw new Error('Playlist nesting is too deep');
+      }
+
+      return this.resolve(entry, depth + 1);
+    }
+
+    const isAudio =
+      contentType.startsWith('audio/') ||
+      contentType === 'application/ogg' ||
+      ((contentType === '' || contentType === 'application/octet-stream') &&
+        AUDIO_EXTENSION_PATTERN.test(pathname));
+    if (!isAudio) {
+      await response.body?.cancel();
+      throw new Error('URL does not point to an audio stream');
+    }
+
+    const icyName = response.headers.get('icy-name')?.trim() ?? '';
+    const metaInt = Number(response.headers.get('icy-metaint'));
+    const live =
+      [...response.headers.keys()].some((name) => name.startsWith('icy-')) ||
+      !response.headers.has('content-length');
+
+    return {
+      url: responseUrl,
+      title: live
+        ? icyName.length > 0
+          ? icyName
+          : hostname
+        : (this.titleFromPath(pathname) ?? hostname),
+      live,
+      ...(Number.isInteger(metaInt) && metaInt > 0 && { metaInt }),
+      response,
+    };
+  }
+
+  private async probeDuration(stream: ResolvedStream): Promise<number> {
+    const body = stream.response?.body;
+    if (!body) {
+      return 0;
+    }
+
+    try {
+      const probe = await probeMedia(
+        Readable.fromWeb(body as Parameters<typeof Readable.fromWeb>[0]),
+      );
+      return Math.round(probe.duration);
+    } catch (error) {
+      this.logger.warn(
+        `http.probe.failed: ${stream.url} (${error instanceof Error ? error.message : String(error)})`,
+      );
+      return 0;
+    }
+  }
+
+  private async request(
+    url: string,
+  ): Promise<{ response: Response; url: string }> {
+    // Only the headers are bounded; radio bodies never finish
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      controller.abort();
+    }, PROBE_TIMEOUT_MS);
+
+    try {
+      let target = url;
+      // Redirects are followed by hand so every hop is checked
+      for (let redirects = 0; ; redirects++) {
+        await this.assertPublicHost(target);
+        const response = await fetch(target, {
+          headers: { 'Icy-MetaData': '1' },
+          redirect: 'manual',
+          signal: controller.signal,
+        });
+
+        const location = response.headers.get('location');
+        if (response.status >= 300 && response.status < 400 && location) {
+          await response.body?.cancel();
+          if (redirects >= MAX_REDIRECTS) {
+            throw new Error('Audio URL redirected too many times');
+          }
+          target = new URL(location, target).href;
+          continue;
+        }
+
+        if (!response.ok) {
+          await response.body?.cancel();
+          throw new Error(`Audio URL returned ${String(response.status)}`);
+        }
+        return { response, url: target };
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+  }
+
+  private async assertPublicHost(url: string): Promise<void> {
+    const hostname = new URL(url).hostname.replace(/^\[(.*)\]$/, '$1');
+    const addresses = await lookup(hostname, { all: true });
+    if (
+      addresses.some(({ address, family }) =>
+        PRIVATE_ADDRESSES.check(address, family === 6 ? 'ipv6' : 'ipv4'),
+      )
+    ) {
+      throw new Error('URL points to a private network address');
+    }
+  }
+
+  // Playlists are tiny, so a body that keeps going is cut off rather than buffered
+  private async readPlaylist(response: Response): Promise<string> {
+    const reader = response.body?.getReader();
+    if (!reader) {
+      return '';
+    }
+
+    const chunks: Uint8Array[] = [];
+    let size = 0;
+    const controller = new AbortController();
+    const timeout = setTimeout(() => {
+      controller.abort();
+      void reader.cancel();
+    }, PROBE_TIMEOUT_MS);
+
+    try {
+      while (size < MAX_PLAYLIST_BYTES) {
+        const { done, value } = await reader.read();
+        if (done) {
+          break;
+        }
+
+        chunks.push(value);
+        size += value.length;
+      }
+    } finally {
+      clearTimeout(timeout);
+    }
+
+    if (controller.signal.aborted) {
+      throw new Error('Timed out reading the playlist');
+    }
+    if (size >= MAX_PLAYLIST_BYTES) {
+      await reader.cancel();
+    }
+
+    return Buffer.concat(chunks)
+      .subarray(0, MAX_PLAYLIST_BYTES)
+      .toString('utf8');
+  }
+
+  private getContentType(response: Response): string {
+    return (
+      response.headers
+        .get('content-type')
+        ?.split(';')[0]
+        ?.trim()
+        .toLowerCase() ?? ''
+    );
+  }
+
+  private parsePlaylist(text: string): string[] {
+    return text
+      .split(/\r?\n/)
+      .map((line) => line.trim())
+      .map((line) => /^File\d+=(.+)$/i.exec(line)?.[1] ?? line)
+      .filter((line) => /^https?:\/\//i.test(line));
+  }
+
+  private titleFromPath(pathname: string): string | undefined {
+    const segment = pathname.split('/').at(-1) ?? '';
+    let filename: string;
+    try {
+      filename = decodeURIComponent(segment);
+    } catch {
+      filename = segment;
+    }
+    return filename.replace(/\.[^.]+$/, '') || undefined;
+  }
+
+  private encodeArgs(): string[] {
+    return [
+      '-vn',
+      '-c:a',
+      'libopus',
+      '-b:a',
+      OPUS_BITRATE,
+      '-f',
+      'ogg',
+      'pipe:1',
+    ];
+  }
+}
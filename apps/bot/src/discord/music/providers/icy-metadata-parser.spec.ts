@@ -0,0 +1,102 @@
+import { describe, expect, it } from 'vitest';
+import { IcyMetadataParser } from './icy-metadata-parser';
+import type { StreamMetadata } from './music-provider.interface';
+
+function metadataBlock(text: string): Buffer {
+  const length = Math.ceil(text.length / 16);
+  const block = Buffer.alloc(1 + length * 16);
+  block[0] = length;
+  block.write(text, 1, 'utf-8');
+  return block;
+}
+
+async function parse(
+  metaInt: number,
+  chunks: Buffer[],
+): Promise<{ audio: Buffer; titles: string[] }> {
+  const parser = new IcyMetadataParser(metaInt);
+  const titles: string[] = [];
+  const audio: Buffer[] = [];
+
+  parser.on('metadata', ({ title }: StreamMetadata) => {
+    titles.push(title);
+  });
+  parser.on('data', (chunk: Buffer) => {
+    audio.push(chunk);
+  });
+
+  const finished = new Promise((resolve) => parser.on('end', resolve));
+  for (const chunk of chunks) {
+    parser.write(chunk);
+  }
+  parser.end();
+  await finished;
+
+  return { audio: Buffer.concat(audio), titles };
+}
+
+describe('IcyMetadataParser', () => {
+  it('strips metadata blocks and emits stream titles', async () => {
+    const stream = Buffer.concat([
+      Buffer.from('aaaa'),
+      metadataBlock("StreamTitle='Artist - Song';"),
+      Buffer.from('bbbb'),
+      Buffer.from([0]),
+      Buffer.from('cc'),
+    ]);
+
+    const { audio, titles } = await parse(4, [stream]);
+
+    expect(audio.toString()).toBe('aaaabbbbcc');
+    expect(titles).toEqual(['Artist - Song']);
+  });
+
+  it('handles blocks split across chunks', async () => {
+    const stream = Buffer.concat([
+      Buffer.from('aaaa'),
+      metadataBlock("StreamTitle='Split Title';StreamUrl='';"),
+      Buffer.from('bbbb'),
+    ]);
+    const chunks = Array.from({ length: stream.length }, (_, i) =>
+      stream.subarray(i, i + 1),
+    );
+
+    const { audio, titles } = await parse(4, chunks);
+
+    expect(audio.toString()).toBe('aaaabbbb');
+    expect(titles).toEqual(['Split Title']);
+  });
+
+  it('only emits when the title changes', async () => {
+    const stream = Buffer.concat([
+      Buffer.from('aa'),
+      metadataBlock("StreamTitle='Same';"),
+      Buffer.from('bb'),
+      metadataBlock("StreamTitle='Same';"),
+      Buffer.from('cc'),
+      metadataBlock("StreamTitle='';"),
+      Buffer.from('dd'),
+      metadataBlock("StreamTitle='Different';"),
+    ]);
+
+    const { titles } = await parse(2, [stream]);
+
+    expect(titles).toEqual(['Same', 'Different']);
+  });
+
+  it('replays the current title to late listeners', async () => {
+    const parser = new IcyMetadataParser(2);
+    parser.resume();
+    parser.write(
+      Buffer.concat([Buffer.from('aa'), metadataBlock("StreamTitle='Early';")]),
+    );
+    await new Promise((resolve) => setImmediate(resolve));
+
+    const titles: string[] = [];
+    parser.on('metadata', ({ title }: StreamMetadata) => {
+      titles.push(title);
+    });
+
+    expect(titles).toEqual(['Early']);
+  });
+});
@@ -0,0 +1,82 @@
+import { Transform, type TransformCallback } from 'node:stream';
+import type { StreamMetadata } from './music-provider.interface';
+
+const METADATA_BLOCK_SIZE = 16;
+const STREAM_TITLE_PATTERN = /StreamTitle='(.*?)';/s;
+
+/**
+ * Strips interleaved ICY metadata blocks out of a Shoutcast/Icecast stream
+ * and emits `metadata` whenever the announced stream title changes.
+ */
+export class IcyMetadataParser extends Transform {
+  private audioRemaining: number;
+  private metadataRemaining: number | undefined;
+  private metadataChunks: Buffer[] = [];
+  private lastTitle: string | undefined;
+
+  public constructor(private readonly metaInt: number) {
+    super();
+    this.audioRemaining = metaInt;
+
+    // The stream starts flowing before playback subscribes, so late listeners get the current title
+    this.on('newListener', (event, listener) => {
+      if (event === 'metadata' && this.lastTitle) {
+        (listener as (metadata: StreamMetadata) => void)({
+          title: this.lastTitle,
+        });
+      }
+    });
+  }
+
+  public override _transform(
+    chunk: Buffer,
+    _encoding: BufferEncoding,
+    callback: TransformCallback,
+  ): void {
+    let offset = 0;
+
+    while (offset < chunk.length) {
+      if (this.audioRemaining > 0) {
+        const length = Math.min(this.audioRemaining, chunk.length - offset);
+        this.push(chunk.subarray(offset, offset + length));
+        this.audioRemaining -= length;
+        offset += length;
+      } else if (this.metadataRemaining === undefined) {
+        const metadataLength = (chunk[offset] ?? 0) * METADATA_BLOCK_SIZE;
+        offset++;
+
+        if (metadataLength === 0) {
+          this.audioRemaining = this.metaInt;
+        } else {
+          this.metadataRemaining = metadataLength;
+        }
+      } else {
+        const length = Math.min(this.metadataRemaining, chunk.length - offset);
+        this.metadataChunks.push(chunk.subarray(offset, offset + length));
+        this.metadataRemaining -= length;
+        offset += length;
+
+        if (this.metadataRemaining === 0) {
+          this.handleMetadata(Buffer.concat(this.metadataChunks));
+          this.metadataChunks = [];
+          this.metadataRemaining = undefined;
+          this.audioRemaining = this.metaInt;
+        }
+      }
+    }
+
+    callback();
+  }
+
+  private handleMetadata(block: Buffer): void {
+    const text = block.toString('utf-8').replace(/\0+$/, '');
+    const title = STREAM_TITLE_PATTERN.exec(text)?.[1]?.trim();
+
+    if (!title || title === this.lastTitle) {
+      return;
+    }
+
+    this.lastTitle = title;
+    this.emit('metadata', { title } satisfies StreamMetadata);
+  }
+}
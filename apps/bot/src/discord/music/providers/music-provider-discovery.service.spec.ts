@@ -1,7 +1,10 @@
 import { beforeEach, describe, expect, it, vi } from 'vitest';
 import { DiscoveryService, Reflector } from '@nestjs/core';
 import { MusicProviderDiscovery } from './music-provider-discovery.service';
-import { MUSIC_PROVIDER_KEY } from './music-provider.decorator';
+import {
+  MUSIC_PROVIDER_KEY,
+  type MusicProviderOptions,
+} from './music-provider.decorator';
 import type { MusicProvider } from './music-provider.interface';
 
 describe('MusicProviderDiscovery', () => {
@@ -22,7 +25,7 @@ describe('MusicProviderDiscovery', () => {
     } as unknown as DiscoveryService;
 
     reflector = {
-      get: vi.fn().mockReturnValue(false),
+      get: vi.fn().mockReturnValue(undefined),
     } as unknown as Reflector;
 
     service = new MusicProviderDiscovery(discoveryService, reflector);
@@ -47,10 +50,13 @@ describe('MusicProviderDiscovery', () => {
       ] as ReturnType<DiscoveryService['getProviders']>);
 
       vi.mocked(reflector.get).mockImplementation((key, target) => {
-        if (key === MUSIC_PROVIDER_KEY) {
-          return target === YouTubeProvider || target === SoundCloudProvider;
+        if (
+          key === MUSIC_PROVIDER_KEY &&
+          (target === YouTubeProvider || target === SoundCloudProvider)
+        ) {
+          return {};
         }
-        return false;
+        return undefined;
       });
 
       service.onModuleInit();
@@ -94,7 +100,7 @@ describe('MusicProviderDiscovery', () => {
         { metatype: YouTubeProvider, instance: undefined },
       ] as unknown as ReturnType<DiscoveryService['getProviders']>);
 
-      vi.mocked(reflector.get).mockReturnValue(true);
+      vi.mocked(reflector.get).mockReturnValue({});
 
       service.onModuleInit();
 
@@ -103,8 +109,62 @@ describe('MusicProviderDiscovery', () => {
   });
 
   describe('getProviders', () => {
+    const youTube = createMockProvider('YouTube');
+    const soundCloud = createMockProvider('SoundCloud');
+    const httpAudio = createMockProvider('HTTP Audio');
+    const attachments = createMockProvider('Discord Attachment');
+
+    beforeEach(() => {
+      // eslint-disable-next-line @typescript-eslint/no-extraneous-class
+      class HttpAudioProvider {}
+      // eslint-disable-next-line @typescript-eslint/no-extraneous-class
+      class YouTubeProvider {}
+      // eslint-disable-next-line @typescript-eslint/no-extraneous-class
+      class AttachmentProvider {}
+      // eslint-disable-next-line @typescript-eslint/no-extraneous-class
+      class SoundCloudProvider {}
+
+      const options = new Map<unknown, MusicProviderOptions>([
+        [HttpAudioProvider, { priority: -100 }],
+        [
+          YouTubeProvider,
+          { priority: 100, capabilities: ['search', 'fallback'] },
+        ],
+        [AttachmentProvider, {}],
+        [SoundCloudProvider, { priority: 50, capabilities: ['search'] }],
+      ]);
+
+      vi.mocked(discoveryService.getProviders).mockReturnValue([
+        { metatype: HttpAudioProvider, instance: httpAudio },
+        { metatype: YouTubeProvider, instance: youTube },
+        { metatype: AttachmentProvider, instance: attachments },
+        { metatype: SoundCloudProvider, instance: soundCloud },
+      ] as ReturnType<DiscoveryService['getProviders']>);
+      vi.mocked(reflector.get).mockImplementation((_key, target) =>
+        options.get(target),
+      );
+    });
+
     it('returns empty array before onModuleInit', () => {
       expect(service.getProviders()).toEqual([]);
     });
+
+    it('orders providers by descending priority', () => {
+      service.onModuleInit();
+
+      expect(service.getProviders()).toEqual([
+        youTube,
+        soundCloud,
+        attachments,
+        httpAudio,
+      ]);
+    });
+
+    it('filters providers by capability', () => {
+      service.onModuleInit();
+
+      expect(service.getProviders('search')).toEqual([youTube, soundCloud]);
+      expect(service.getProviders('fallback')).toEqual([youTube]);
+    });
   });
 });
@@ -1,13 +1,23 @@
 import { Injectable, OnModuleInit } from '@nestjs/common';
 import { DiscoveryService, Reflector } from '@nestjs/core';
-import { MUSIC_PROVIDER_KEY } from './music-provider.decorator';
+import {
+  MUSIC_PROVIDER_KEY,
+  type MusicProviderCapability,
+  type MusicProviderOptions,
+} from './music-provider.decorator';
 import type { MusicProvider } from './music-provider.interface';
 
 export const MUSIC_PROVIDERS = Symbol('MUSIC_PROVIDERS');
 
+interface DiscoveredProvider {
+  instance: MusicProvider;
+  priority: number;
+  capabilities: Set<MusicProviderCapability>;
+}
+
 @Injectable()
 export class MusicProviderDiscovery implements OnModuleInit {
-  private providers: MusicProvider[] = [];
+  private providers: DiscoveredProvider[] = [];
 
   public constructor(
     private readonly discoveryService: DiscoveryService,
@@ -18,19 +28,36 @@ export class MusicProviderDiscovery implements OnModuleInit {
     const wrappers = this.discoveryService.getProviders();
 
     this.providers = wrappers
-      .filter((wrapper) => {
-        if (!wrapper.metatype) {
-          return false;
+      .flatMap((wrapper): DiscoveredProvider[] => {
+        if (!wrapper.metatype || !wrapper.instance) {
+          return [];
         }
-        return (
-          this.reflector.get(MUSIC_PROVIDER_KEY, wrapper.metatype) === true
+
+        const options = this.reflector.get<MusicProviderOptions | undefined>(
+          MUSIC_PROVIDER_KEY,
+          wrapper.metatype,
         );
+        if (!options) {
+          return [];
+        }
+
+        return [
+          {
+            instance: wrapper.instance as MusicProvider,
+            priority: options.priority ?? 0,
+            capabilities: new Set(options.capabilities),
+          },
+        ];
       })
-      .map((wrapper) => wrapper.instance as MusicProvider)
-      .filter(Boolean);
+      // Array#sort is stable, so equal priorities keep their registration order
+      .sort((a, b) => b.priority - a.priority);
   }
 
-  public getProviders(): MusicProvider[] {
-    return this.providers;
+  public getProviders(capability?: MusicProviderCapability): MusicProvider[] {
+    return this.providers
+      .filter(
+        (provider) => !capability || provider.capabilities.has(capability),
+      )
+      .map((provider) => provider.instance);
   }
 }
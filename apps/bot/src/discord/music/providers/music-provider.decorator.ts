@@ -2,9 +2,21 @@ import { Injectable, SetMetadata } from '@nestjs/common';
 
 export const MUSIC_PROVIDER_KEY = Symbol('MUSIC_PROVIDER');
 
-export function MusicProvider(): ClassDecorator {
+// `search` providers answer free-text queries and can be picked as a source;
+// `fallback` providers stand in by title when another provider can't stream a track
+export type MusicProviderCapability = 'search' | 'fallback';
+
+export interface MusicProviderOptions {
+  // Higher priorities are consulted first
+  priority?: number;
+  capabilities?: MusicProviderCapability[];
+}
+
+export function MusicProvider(
+  options: MusicProviderOptions = {},
+): ClassDecorator {
   return (target) => {
     Injectable()(target);
-    SetMetadata(MUSIC_PROVIDER_KEY, true)(target);
+    SetMetadata(MUSIC_PROVIDER_KEY, options)(target);
   };
 }
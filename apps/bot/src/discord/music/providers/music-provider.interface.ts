@@ -1,10 +1,42 @@
 import type { Readable } from 'node:stream';
 import { StreamType } from '@discordjs/voice';
-import type { Track } from '../music-queue';
+import type { Track, TrackRequester } from '../music-queue';
+
+export interface StreamMetadata {
+  title: string;
+}
+
+export interface StreamMetadataSource {
+  on(event: 'metadata', listener: (metadata: StreamMetadata) => void): unknown;
+}
 
 export interface AudioInfo {
   source: Readable | string;
   streamType: StreamType;
+  metadata?: StreamMetadataSource;
+  // How much louder than YouTube's playback reference the track is, when known
+  loudnessDb?: number;
+}
+
+export interface AudioStreamOptions {
+  startTimeMs?: number;
+}
+
+export interface PlaylistFetchOptions {
+  limit: number;
+  onProgress?: (loaded: number) => void;
+}
+
+export interface PlaylistInfo {
+  title: string;
+  url: string;
+  tracks: Track[];
+  truncated: boolean;
+}
+
+export interface SearchResult {
+  track: Track;
+  channel: string;
 }
 
 export interface MusicProvider {
@@ -12,11 +44,33 @@ export interface MusicProvider {
 
   canHandle(url: string): boolean;
 
-  fetchTrackInfo(url: string, requestedBy: string): Promise<Track>;
+  fetchTrackInfo(url: string, requester: TrackRequester): Promise<Track>;
+
+  getAudioInfo(url: string, options?: AudioStreamOptions): Promise<AudioInfo>;
+
+  search(query: string, requester: TrackRequester): Promise<Track>;
+
+  searchMany?(
+    query: string,
+    requester: TrackRequester,
+    limit: number,
+  ): Promise<SearchResult[]>;
+
+  getSuggestions?(query: string): Promise<string[]>;
+
+  getRelated?(
+    url: string,
+    requester: TrackRequester,
+    limit: number,
+  ): Promise<Track[]>;
 
-  getAudioInfo(url: string): Promise<AudioInfo>;
+  isPlaylist?(url: string): boolean;
 
-  search(query: string, requestedBy: string): Promise<Track>;
+  fetchPlaylist?(
+    url: string,
+    requester: TrackRequester,
+    options: PlaylistFetchOptions,
+  ): Promise<PlaylistInfo>;
 }
 
 export const MUSIC_PROVIDER = Symbol('MUSIC_PROVIDER');
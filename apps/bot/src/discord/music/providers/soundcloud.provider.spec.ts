@@ -0,0 +1,279 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { StreamType } from '@discordjs/voice';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { YtDlpService } from '../yt-dlp.service';
+
+const { mockSpawnFfmpeg } = vi.hoisted(() => ({
+  mockSpawnFfmpeg: vi.fn(),
+}));
+
+vi.mock('../ffmpeg.util', () => ({
+  spawnFfmpeg: mockSpawnFfmpeg,
+}));
+
+import { SoundCloudProvider } from './soundcloud.provider';
+
+function loadFixture(name: string): unknown {
+  return JSON.parse(
+    readFileSync(
+      join(__dirname, '__fixtures__', 'soundcloud', `${name}.json`),
+      'utf-8',
+    ),
+  ) as unknown;
+}
+
+const requester = { id: 'user-123', tag: 'user#1234' };
+
+describe('SoundCloudProvider', () => {
+  let provider: SoundCloudProvider;
+  let ytDlp: YtDlpService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    mockSpawnFfmpeg.mockReturnValue(new PassThrough());
+
+    ytDlp = {
+      dumpJson: vi.fn(),
+      getAudioInfo: vi.fn().mockResolvedValue({
+        url: 'https://cf-hls-opus-media.sndcdn.com/playlist/abc.64.opus/playlist.m3u8',
+        codec: 'opus',
+        container: 'opus',
+      }),
+    } as unknown as YtDlpService;
+
+    provider = new SoundCloudProvider(ytDlp);
+    provider.onModuleInit();
+  });
+
+  describe('canHandle', () => {
+    it.each([
+      'https://soundcloud.com/forss/flickermood',
+      'https://www.soundcloud.com/forss/flickermood?in=forss/sets/soulhack',
+      'https://m.soundcloud.com/forss/flickermood',
+      'https://soundcloud.com/forss/private-track/s-AbCdEf123',
+      'https://soundcloud.com/forss/sets/soulhack',
+      'https://on.soundcloud.com/aBcD1234',
+    ])('accepts %s', (url) => {
+      expect(provider.canHandle(url)).toBe(true);
+    });
+
+    it.each([
+      'https://soundcloud.com/forss',
+      'https://soundcloud.com/',
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      'https://notsoundcloud.com/forss/flickermood',
+      'flickermood',
+    ])('rejects %s', (url) => {
+      expect(provider.canHandle(url)).toBe(false);
+    });
+  });
+
+  describe('isPlaylist', () => {
+    it('returns true for sets', () => {
+      expect(
+        provider.isPlaylist('https://soundcloud.com/forss/sets/soulhack'),
+      ).toBe(true);
+    });
+
+    it('returns false for tracks', () => {
+      expect(
+        provider.isPlaylist('https://soundcloud.com/forss/flickermood'),
+      ).toBe(false);
+    });
+  });
+
+  describe('fetchTrackInfo', () => {
+    it('maps yt-dlp track info to a track', async () => {
+      vi.mocked(ytDlp.dumpJson).mockResolvedValue(loadFixture('track'));
+
+      const track = await provider.fetchTrackInfo(
+        'https://on.soundcloud.com/aBcD1234',
+        requester,
+      );
+
+      expect(ytDlp.dumpJson).toHaveBeenCalledWith(
+        'https://on.soundcloud.com/aBcD1234',
+      );
+      expect(track).toEqual({
+        url: 'https://soundcloud.com/forss/flickermood',
+        title: 'Flickermood',
+        duration: 214,
+        thumbnail:
+          'https://i1.sndcdn.com/artworks-000000000001-abcdef-t500x500.jpg',
+        requestedBy: 'user#1234',
+        requesterId: 'user-123',
+      });
+    });
+
+    it('rejects links that resolve to a set', async () => {
+      vi.mocked(ytDlp.dumpJson).mockResolvedValue(loadFixture('set'));
+
+      await expect(
+        provider.fetchTrackInfo('https://soundcloud.com/forss/sets', requester),
+      ).rejects.toThrow('This SoundCloud link is a set, not a track');
+    });
+  });
+
+  describe('fetchPlaylist', () => {
+    it('maps set entries and skips unavailable tracks', async () => {
+      vi.mocked(ytDlp.dumpJson).mockResolvedValue(loadFixture('set'));
+      const onProgress = vi.fn();
+
+      const playlist = await provider.fetchPlaylist(
+        'https://soundcloud.com/forss/sets/soulhack',
+        requester,
+        { limit: 200, onProgress },
+      );
+
+      expect(ytDlp.dumpJson).toHaveBeenCalledWith(
+        'https://soundcloud.com/forss/sets/soulhack',
+        { playlistEnd: 200 },
+      );
+      expect(playlist.title).toBe('Soulhack');
+      expect(playlist.url).toBe('https://soundcloud.com/forss/sets/soulhack');
+      expect(playlist.tracks).toEqual([
+        {
+          url: 'https://soundcloud.com/forss/flickermood',
+          title: 'Flickermood',
+          duration: 214,
+          thumbnail:
+            'https://i1.sndcdn.com/artworks-000000000001-abcdef-original.jpg',
+          requestedBy: 'user#1234',
+          requesterId: 'user-123',
+        },
+        {
+          url: 'https://soundcloud.com/forss/journeyman',
+          title: 'Journeyman',
+          duration: 281,
+          thumbnail: '',
+          requestedBy: 'user#1234',
+          requesterId: 'user-123',
+        },
+      ]);
+      expect(playlist.truncated).toBe(true);
+      expect(onProgress).toHaveBeenCalledWith(2);
+    });
+
+    it('caps the set at the limit', async () => {
+      vi.mocked(ytDlp.dumpJson).mockResolvedValue(loadFixture('set'));
+
+      const playlist = await provider.fetchPlaylist(
+        'https://soundcloud.com/forss/sets/soulhack',
+        requester,
+        { limit: 1 },
+      );
+
+      expect(playlist.tracks).toHaveLength(1);
+      expect(playlist.truncated).toBe(true);
+    });
+  });
+
+  describe('searchMany', () => {
+    it('searches with the scsearch prefix and maps results', async () => {
+      vi.mocked(ytDlp.dumpJson).mockResolvedValue(loadFixture('search'));
+
+      const results = await provider.searchMany('lofi beats', requester, 2);
+
+      expect(ytDlp.dumpJson).toHaveBeenCalledWith('scsearch2:lofi beats');
+      expect(results).toEqual([
+        {
+          track: {
+            url: 'https://soundcloud.com/chillhopdotcom/lofi-beats-to-study-to',
+            title: 'lofi beats to study to',
+            duration: 3600,
+            thumbnail:
+              'https://i1.sndcdn.com/artworks-000000000003-ghijkl-original.jpg',
+            requestedBy: 'user#1234',
+            requesterId: 'user-123',
+          },
+          channel: 'Chillhop Music',
+        },
+        {
+          track: {
+            url: 'https://soundcloud.com/someone/rainy-lofi',
+            title: 'rainy lofi',
+            duration: 145,
+            thumbnail: '',
+            requestedBy: 'user#1234',
+            requesterId: 'user-123',
+          },
+          channel: 'SoundCloud',
+        },
+      ]);
+    });
+  });
+
+  describe('search', () => {
+    it('returns the first result', async () => {
+      vi.mocked(ytDlp.dumpJson).mockResolvedValue(loadFixture('search'));
+
+      const track = await provider.search('lofi beats', requester);
+
+      expect(ytDlp.dumpJson).toHaveBeenCalledWith('scsearch1:lofi beats');
+      expect(track.title).toBe('lofi beats to study to');
+    });
+
+    it('throws when nothing is found', async () => {
+      vi.mocked(ytDlp.dumpJson).mockResolvedValue({
+        _type: 'playlist',
+        entries: [],
+      });
+
+      await expect(provider.search('zzzz', requester)).rejects.toThrow(
+        'No search results found',
+      );
+    });
+  });
+
+  describe('getAudioInfo', () => {
+    it('remuxes Opus HLS streams into Ogg', async () => {
+      const info = await provider.getAudioInfo(
+        'https://soundcloud.com/forss/flickermood',
+      );
+
+      expect(ytDlp.getAudioInfo).toHaveBeenCalledWith(
+        'https://soundcloud.com/forss/flickermood',
+      );
+      expect(mockSpawnFfmpeg).toHaveBeenCalledWith([
+        '-i',
+        'https://cf-hls-opus-media.sndcdn.com/playlist/abc.64.opus/playlist.m3u8',
+        '-vn',
+        '-c:a',
+        'copy',
+        '-f',
+        'ogg',
+        'pipe:1',
+      ]);
+      expect(info.streamType).toBe(StreamType.OggOpus);
+    });
+
+    it('transcodes progressive MP3 streams and seeks', async () => {
+      vi.mocked(ytDlp.getAudioInfo).mockResolvedValue({
+        url: 'https://cf-media.sndcdn.com/abc.128.mp3',
+        codec: 'mp3',
+        container: 'mp3',
+      });
+
+      await provider.getAudioInfo('https://soundcloud.com/forss/flickermood', {
+        startTimeMs: 42_500,
+      });
+
+      expect(mockSpawnFfmpeg).toHaveBeenCalledWith([
+        '-ss',
+        '42.500',
+        '-i',
+        'https://cf-media.sndcdn.com/abc.128.mp3',
+        '-vn',
+        '-c:a',
+        'libopus',
+        '-b:a',
+        '128k',
+        '-f',
+        'ogg',
+        'pipe:1',
+      ]);
+    });
+  });
+});
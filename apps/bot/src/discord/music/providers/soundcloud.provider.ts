@@ -0,0 +1,183 @@
+import { StreamType } from '@discordjs/voice';
+import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { regex } from 'arkregex';
+import { spawnFfmpeg } from '../ffmpeg.util';
+import type { Track, TrackRequester } from '../music-queue';
+import { YtDlpService } from '../yt-dlp.service';
+import { MusicProvider } from './music-provider.decorator';
+import type {
+  AudioInfo,
+  AudioStreamOptions,
+  MusicProvider as MusicProviderInterface,
+  PlaylistFetchOptions,
+  PlaylistInfo,
+  SearchResult,
+} from './music-provider.interface';
+
+const TRACK_URL_PATTERN = regex(
+  '^https?://(?:www\\.|m\\.)?soundcloud\\.com/[\\w-]+/[\\w-]+(?:/s-[\\w-]+)?/?(?:[?#].*)?$',
+);
+const SET_URL_PATTERN = regex(
+  '^https?://(?:www\\.|m\\.)?soundcloud\\.com/[\\w-]+/sets/[\\w-]+(?:/s-[\\w-]+)?/?(?:[?#].*)?$',
+);
+const SHORT_URL_PATTERN = regex('^https?://on\\.soundcloud\\.com/\\w+/?$');
+const OPUS_BITRATE = '128k';
+
+interface SoundCloudThumbnail {
+  url?: string;
+}
+
+interface SoundCloudInfo {
+  _type?: string;
+  title?: string;
+  duration?: number;
+  thumbnail?: string;
+  thumbnails?: SoundCloudThumbnail[];
+  webpage_url?: string;
+  url?: string;
+  uploader?: string;
+  playlist_count?: number;
+  entries?: (SoundCloudInfo | null)[];
+}
+
+@MusicProvider({ priority: 50, capabilities: ['search', 'fallback'] })
+@Injectable()
+export class SoundCloudProvider
+  implements MusicProviderInterface, OnModuleInit
+{
+  public readonly name = 'SoundCloud';
+  private readonly logger = new Logger(SoundCloudProvider.name);
+
+  public constructor(private readonly ytDlp: YtDlpService) {}
+
+  public onModuleInit(): void {
+    this.logger.log('SoundCloud provider initialized with yt-dlp backend');
+  }
+
+  public canHandle(url: string): boolean {
+    return (
+      TRACK_URL_PATTERN.test(url) ||
+      SET_URL_PATTERN.test(url) ||
+      SHORT_URL_PATTERN.test(url)
+    );
+  }
+
+  public isPlaylist(url: string): boolean {
+    return SET_URL_PATTERN.test(url);
+  }
+
+  public async fetchTrackInfo(
+    url: string,
+    requester: TrackRequester,
+  ): Promise<Track> {
+    const info = (await this.ytDlp.dumpJson(url)) as SoundCloudInfo;
+    if (info._type === 'playlist') {
+      throw new Error('This SoundCloud link is a set, not a track');
+    }
+
+    return this.toTrack(info, requester);
+  }
+
+  public async fetchPlaylist(
+    url: string,
+    requester: TrackRequester,
+    options: PlaylistFetchOptions,
+  ): Promise<PlaylistInfo> {
+    const info = (await this.ytDlp.dumpJson(url, {
+      playlistEnd: options.limit,
+    })) as SoundCloudInfo;
+
+    const tracks = this.playableEntries(info.entries)
+      .slice(0, options.limit)
+      .map((entry) => this.toTrack(entry, requester));
+    options.onProgress?.(tracks.length);
+
+    return {
+      title: info.title ?? 'SoundCloud Set',
+      url: info.webpage_url ?? url,
+      tracks,
+      truncated: (info.playlist_count ?? tracks.length) > tracks.length,
+    };
+  }
+
+  public async getAudioInfo(
+    url: string,
+    options: AudioStreamOptions = {},
+  ): Promise<AudioInfo> {
+    const audio = await this.ytDlp.getAudioInfo(url);
+    const startTimeMs = options.startTimeMs ?? 0;
+
+    this.logger.debug(
+      `soundcloud.stream: ${url} (${audio.codec}/${audio.container})`,
+    );
+
+    // Progressive MP3 and HLS playlists both go through ffmpeg; Opus is remuxed, anything else transcoded
+    const source = spawnFfmpeg([
+      ...(startTimeMs > 0 ? ['-ss', (startTimeMs / 1000).toFixed(3)] : []),
+      '-i',
+      audio.url,
+      '-vn',
+      ...(audio.codec === 'opus'
+        ? ['-c:a', 'copy']
+        : ['-c:a', 'libopus', '-b:a', OPUS_BITRATE]),
+      '-f',
+      'ogg',
+      'pipe:1',
+    ]);
+
+    return { source, streamType: StreamType.OggOpus };
+  }
+
+  public async search(
+    query: string,
+    requester: TrackRequester,
+  ): Promise<Track> {
+    const [result] = await this.searchMany(query, requester, 1);
+    if (!result) {
+      throw new Error('No search results found');
+    }
+
+    return result.track;
+  }
+
+  public async searchMany(
+    query: string,
+    requester: TrackRequester,
+    limit: number,
+  ): Promise<SearchResult[]> {
+    const info = (await this.ytDlp.dumpJson(
+      `scsearch${String(limit)}:${query}`,
+    )) as SoundCloudInfo;
+
+    return this.playableEntries(info.entries).map((entry) => ({
+      track: this.toTrack(entry, requester),
+      channel: entry.uploader ?? 'SoundCloud',
+    }));
+  }
+
+  // yt-dlp leaves null entries for tracks it could not resolve (e.g. geo-blocked)
+  private playableEntries(
+    entries: SoundCloudInfo['entries'],
+  ): SoundCloudInfo[] {
+    return (entries ?? []).filter(
+      (entry): entry is SoundCloudInfo => entry !== null,
+    );
+  }
+
+  private toTrack(info: SoundCloudInfo, requester: TrackRequester): Track {
+    const url = info.webpage_url ?? info.url;
+    if (!url) {
+      throw new Error('SoundCloud did not return a track URL');
+    }
+
+    return {
+      url,
+      title: info.title ?? 'Unknown Title',
+      duration: Math.round(info.duration ?? 0),
+      // yt-dlp orders thumbnails from lowest to highest preference
+      thumbnail: info.thumbnail ?? info.thumbnails?.at(-1)?.url ?? '',
+      requestedBy: requester.tag,
+      requesterId: requester.id,
+    };
+  }
+}
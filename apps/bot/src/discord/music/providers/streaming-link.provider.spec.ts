@@ -0,0 +1,199 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { PassThrough } from 'node:stream';
+import { StreamType } from '@discordjs/voice';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type {
+  SearchResultMetadata,
+  YouTubeStreamService,
+} from '../youtube/youtube-stream.service';
+import { StreamingLinkProvider } from './streaming-link.provider';
+import type { YouTubeProvider } from './youtube.provider';
+
+const originalFetch = global.fetch;
+const mockFetch = vi.fn<typeof fetch>();
+
+function readFixture(name: string): string {
+  return readFileSync(
+    join(__dirname, '__fixtures__', 'streaming', name),
+    'utf-8',
+  );
+}
+
+const TRACK_URL = 'https://open.spotify.com/track/4PTG3Z6ehGkBFwjybzWkR8';
+const PLAYLIST_URL = 'https://open.spotify.com/playlist/37i9dQZF1DX4UtSsGT1Sbe';
+const TOPIC_URL = 'https://www.youtube.com/watch?v=34Ig3X59_qA';
+
+const requester = { id: 'user-123', tag: 'user#1234' };
+
+describe('StreamingLinkProvider', () => {
+  let provider: StreamingLinkProvider;
+  let streamService: YouTubeStreamService;
+  let youtubeProvider: YouTubeProvider;
+  let searchResults: SearchResultMetadata[];
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = mockFetch;
+    mockFetch.mockImplementation((input) =>
+      Promise.resolve(
+        new Response(
+          readFixture(
+            typeof input === 'string' && input.includes('/playlist/')
+              ? 'spotify-playlist.html'
+              : 'spotify-track.html',
+          ),
+        ),
+      ),
+    );
+
+    searchResults = JSON.parse(
+      readFixture('youtube-search.json'),
+    ) as SearchResultMetadata[];
+    streamService = {
+      searchMany: vi.fn().mockResolvedValue(searchResults),
+    } as unknown as YouTubeStreamService;
+    youtubeProvider = {
+      getAudioInfo: vi.fn().mockResolvedValue({
+        source: new PassThrough(),
+        streamType: StreamType.WebmOpus,
+      }),
+    } as unknown as YouTubeProvider;
+
+    provider = new StreamingLinkProvider(streamService, youtubeProvider);
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('canHandle', () => {
+    it.each([
+      TRACK_URL,
+      'https://music.apple.com/us/song/never-gonna-give-you-up/1558534271',
+      'https://www.deezer.com/track/3135556',
+    ])('accepts %s', (url) => {
+      expect(provider.canHandle(url)).toBe(true);
+    });
+
+    it.each([
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      'https://soundcloud.com/forss/flickermood',
+      'never gonna give you up',
+    ])('rejects %s', (url) => {
+      expect(provider.canHandle(url)).toBe(false);
+    });
+  });
+
+  describe('isPlaylist', () => {
+    it('detects collections for each service', () => {
+      expect(provider.isPlaylist(PLAYLIST_URL)).toBe(true);
+      expect(
+        provider.isPlaylist(
+          'https://music.apple.com/us/album/whenever-you-need-somebody/1558533900',
+        ),
+      ).toBe(true);
+      expect(provider.isPlaylist('https://www.deezer.com/album/302127')).toBe(
+        true,
+      );
+      expect(provider.isPlaylist(TRACK_URL)).toBe(false);
+    });
+  });
+
+  describe('fetchTrackInfo', () => {
+    it('keeps the streaming link and the source metadata', async () => {
+      const track = await provider.fetchTrackInfo(TRACK_URL, requester);
+
+      expect(track).toEqual({
+        url: TRACK_URL,
+        title: 'Rick Astley - Never Gonna Give You Up',
+        duration: 214,
+        thumbnail:
+          'https://image-cdn-ak.spotifycdn.com/image/ab67616d0000b27315ebbedaacef61af244262a8',
+        requestedBy: 'user#1234',
+        requesterId: 'user-123',
+      });
+      expect(streamService.searchMany).toHaveBeenCalledWith(
+        'Rick Astley - Never Gonna Give You Up',
+        5,
+      );
+    });
+
+    it('fails when nothing on YouTube matches', async () => {
+      vi.mocked(streamService.searchMany).mockResolvedValue(
+        searchResults.filter((result) => result.title.includes('Hours')),
+      );
+
+      await expect(
+        provider.fetchTrackInfo(TRACK_URL, requester),
+      ).rejects.toThrow(
+        'Could not find "Rick Astley - Never Gonna Give You Up" on YouTube',
+      );
+    });
+
+    it('rejects collection links', async () => {
+      await expect(
+        provider.fetchTrackInfo(PLAYLIST_URL, requester),
+      ).rejects.toThrow('This Spotify link is not a single track');
+    });
+  });
+
+  describe('fetchPlaylist', () => {
+    it('queues entries without searching YouTube', async () => {
+      const onProgress = vi.fn();
+
+      const playlist = await provider.fetchPlaylist(PLAYLIST_URL, requester, {
+        limit: 2,
+        onProgress,
+      });
+
+      expect(playlist.title).toBe('80s Hits');
+      expect(playlist.tracks.map((track) => track.title)).toEqual([
+        'Rick Astley - Never Gonna Give You Up',
+        'a-ha - Take on Me',
+      ]);
+      expect(playlist.truncated).toBe(true);
+      expect(onProgress).toHaveBeenCalledWith(2);
+      expect(streamService.searchMany).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('getAudioInfo', () => {
+    it('streams the match found when the track was requested', async () => {
+      await provider.fetchTrackInfo(TRACK_URL, requester);
+
+      await provider.getAudioInfo(TRACK_URL, { startTimeMs: 30_000 });
+
+      expect(streamService.searchMany).toHaveBeenCalledTimes(1);
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(youtubeProvider.getAudioInfo).toHaveBeenCalledWith(TOPIC_URL, {
+        startTimeMs: 30_000,
+      });
+    });
+
+    it('matches playlist entries when they start playing', async () => {
+      await provider.fetchPlaylist(PLAYLIST_URL, requester, { limit: 10 });
+
+      await provider.getAudioInfo(TRACK_URL);
+
+      expect(mockFetch).toHaveBeenCalledTimes(1);
+      expect(youtubeProvider.getAudioInfo).toHaveBeenCalledWith(TOPIC_URL, {});
+    });
+
+    it('refetches metadata for tracks restored from a saved queue', async () => {
+      await provider.getAudioInfo(TRACK_URL);
+
+      expect(mockFetch).toHaveBeenCalledWith(
+        'https://open.spotify.com/embed/track/4PTG3Z6ehGkBFwjybzWkR8',
+        expect.any(Object),
+      );
+      expect(youtubeProvider.getAudioInfo).toHaveBeenCalledWith(TOPIC_URL, {});
+    });
+  });
+
+  it('does not support search', async () => {
+    await expect(provider.search()).rejects.toThrow(
+      'Streaming links do not support search',
+    );
+  });
+});
@@ -0,0 +1,153 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { LruCache } from '../lru-cache';
+import type { Track, TrackRequester } from '../music-queue';
+import { YouTubeStreamService } from '../youtube/youtube-stream.service';
+import { MusicProvider } from './music-provider.decorator';
+import type {
+  AudioInfo,
+  AudioStreamOptions,
+  MusicProvider as MusicProviderInterface,
+  PlaylistFetchOptions,
+  PlaylistInfo,
+} from './music-provider.interface';
+import { AppleMusicSource } from './streaming/apple-music.source';
+import { DeezerSource } from './streaming/deezer.source';
+import { SpotifySource } from './streaming/spotify.source';
+import type {
+  LinkedTrack,
+  StreamingSource,
+} from './streaming/streaming-source.interface';
+import { buildSearchQuery, pickBestMatch } from './streaming/track-matcher';
+import { YouTubeProvider } from './youtube.provider';
+
+const MATCH_CANDIDATES = 5;
+const CACHE_SIZE = 1000;
+
+/**
+ * Plays Spotify, Apple Music and Deezer links by matching each track to a
+ * YouTube upload. Playlist entries are only matched when they start playing,
+ * so large playlists queue instantly.
+ */
+@MusicProvider()
+@Injectable()
+export class StreamingLinkProvider implements MusicProviderInterface {
+  public readonly name = 'Streaming Links';
+  private readonly logger = new Logger(StreamingLinkProvider.name);
+  private readonly sources: StreamingSource[] = [
+    new SpotifySource(),
+    new AppleMusicSource(),
+    new DeezerSource(),
+  ];
+  private readonly linkedTracks = new LruCache<string, LinkedTrack>(CACHE_SIZE);
+  private readonly matches = new LruCache<string, string>(CACHE_SIZE);
+
+  public constructor(
+    private readonly streamService: YouTubeStreamService,
+    private readonly youtubeProvider: YouTubeProvider,
+  ) {}
+
+  public canHandle(url: string): boolean {
+    return this.sources.some((source) => source.canHandle(url));
+  }
+
+  public isPlaylist(url: string): boolean {
+    return this.getSource(url).isCollection(url);
+  }
+
+  public async fetchTrackInfo(
+    url: string,
+    requester: TrackRequester,
+  ): Promise<Track> {
+    const source = this.getSource(url);
+    if (source.isCollection(url)) {
+      throw new Error(`This ${source.name} link is not a single track`);
+    }
+
+    const linked = await source.fetchTrack(url);
+    this.linkedTracks.set(linked.url, linked);
+    // Match up front so a song that isn't on YouTube fails when it's requested
+    await this.resolveYouTubeUrl(linked);
+
+    return this.toTrack(linked, requester);
+  }
+
+  public async fetchPlaylist(
+    url: string,
+    requester: TrackRequester,
+    options: PlaylistFetchOptions,
+  ): Promise<PlaylistInfo> {
+    const collection = await this.getSource(url).fetchCollection(
+      url,
+      options.limit,
+    );
+    for (const linked of collection.tracks) {
+      this.linkedTracks.set(linked.url, linked);
+    }
+    options.onProgress?.(collection.tracks.length);
+
+    return {
+      title: collection.title,
+      url: collection.url,
+      tracks: collection.tracks.map((linked) =>
+        this.toTrack(linked, requester),
+      ),
+      truncated: collection.total > collection.tracks.length,
+    };
+  }
+
+  public async getAudioInfo(
+    url: string,
+    options: AudioStreamOptions = {},
+  ): Promise<AudioInfo> {
+    // Restored queues skip fetchTrackInfo, so the metadata may need refetching
+    const linked =
+      this.linkedTracks.get(url) ?? (await this.getSource(url).fetchTrack(url));
+    const youtubeUrl = await this.resolveYouTubeUrl(linked);
+
+    return this.youtubeProvider.getAudioInfo(youtubeUrl, options);
+  }
+
+  public search(): Promise<Track> {
+    return Promise.reject(new Error('Streaming links do not support search'));
+  }
+
+  private async resolveYouTubeUrl(linked: LinkedTrack): Promise<string> {
+    const cached = this.matches.get(linked.url);
+    if (cached) {
+      return cached;
+    }
+
+    const query = buildSearchQuery(linked);
+    const candidates = await this.streamService.searchMany(
+      query,
+      MATCH_CANDIDATES,
+    );
+    const match = pickBestMatch(linked, candidates);
+    if (!match) {
+      throw new Error(`Could not find "${query}" on YouTube`);
+    }
+
+    this.logger.debug(`streaming.match: ${linked.url} -> ${match.url}`);
+    this.matches.set(linked.url, match.url);
+    return match.url;
+  }
+
+  private getSource(url: string): StreamingSource {
+    const source = this.sources.find((candidate) => candidate.canHandle(url));
+    if (!source) {
+      throw new Error(`Unsupported streaming link: ${url}`);
+    }
+    return source;
+  }
+
+  private toTrack(linked: LinkedTrack, requester: TrackRequester): Track {
+    return {
+      url: linked.url,
+      title: buildSearchQuery(linked),
+      duration: Math.round(linked.durationMs / 1000),
+      thumbnail: linked.artwork ?? '',
+      requestedBy: requester.tag,
+      requesterId: requester.id,
+    };
+  }
+}
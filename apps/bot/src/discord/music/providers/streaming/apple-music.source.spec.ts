@@ -0,0 +1,143 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { AppleMusicSource } from './apple-music.source';
+
+const originalFetch = global.fetch;
+const mockFetch = vi.fn<typeof fetch>();
+
+function fixtureResponse(name: string): Response {
+  return new Response(
+    readFileSync(
+      join(__dirname, '..', '__fixtures__', 'streaming', name),
+      'utf-8',
+    ),
+  );
+}
+
+describe('AppleMusicSource', () => {
+  let source: AppleMusicSource;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = mockFetch;
+    source = new AppleMusicSource();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('isCollection', () => {
+    it.each([
+      [
+        'https://music.apple.com/us/album/whenever-you-need-somebody/1558533900',
+        true,
+      ],
+      [
+        'https://music.apple.com/gb/playlist/pure-throwback/pl.u-8aAVZAoCmo6RAd',
+        true,
+      ],
+      [
+        'https://music.apple.com/us/album/whenever-you-need-somebody/1558533900?i=1558534271',
+        false,
+      ],
+      [
+        'https://music.apple.com/us/song/never-gonna-give-you-up/1558534271',
+        false,
+      ],
+    ])('%s -> %s', (url, expected) => {
+      expect(source.canHandle(url)).toBe(true);
+      expect(source.isCollection(url)).toBe(expected);
+    });
+
+    it('does not handle other sites', () => {
+      expect(source.canHandle('https://www.apple.com/music/')).toBe(false);
+    });
+  });
+
+  it('looks up the song selected in an album link', async () => {
+    mockFetch.mockResolvedValue(fixtureResponse('apple-song.json'));
+
+    const track = await source.fetchTrack(
+      'https://music.apple.com/us/album/whenever-you-need-somebody/1558533900?i=1558534271',
+    );
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://itunes.apple.com/lookup?id=1558534271&country=us',
+      expect.any(Object),
+    );
+    expect(track).toEqual({
+      url: 'https://music.apple.com/us/album/never-gonna-give-you-up/1558533900?i=1558534271&uo=4',
+      title: 'Never Gonna Give You Up',
+      artists: ['Rick Astley'],
+      durationMs: 213_574,
+      artwork:
+        'https://is1-ssl.mzstatic.com/image/thumb/Music124/v4/f2/6e/1b/f26e1b2c-3b38-1b8a-6d29-5b0f2c1f8e3f/4050538669681.jpg/600x600bb.jpg',
+    });
+  });
+
+  it('lists album songs without the collection entry', async () => {
+    mockFetch.mockResolvedValue(fixtureResponse('apple-album.json'));
+
+    const collection = await source.fetchCollection(
+      'https://music.apple.com/us/album/whenever-you-need-somebody/1558533900',
+      100,
+    );
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://itunes.apple.com/lookup?id=1558533900&country=us&entity=song&limit=200',
+      expect.any(Object),
+    );
+    expect(collection.title).toBe('Whenever You Need Somebody (2022 Remaster)');
+    expect(collection.total).toBe(10);
+    expect(collection.tracks.map((track) => track.title)).toEqual([
+      'Never Gonna Give You Up',
+      'Whenever You Need Somebody',
+    ]);
+  });
+
+  it('reads playlists from the page schema', async () => {
+    mockFetch.mockResolvedValue(fixtureResponse('apple-playlist.html'));
+
+    const collection = await source.fetchCollection(
+      'https://music.apple.com/gb/playlist/pure-throwback/pl.u-8aAVZAoCmo6RAd',
+      100,
+    );
+
+    expect(collection.title).toBe('Pure Throwback');
+    expect(collection.tracks).toEqual([
+      expect.objectContaining({
+        url: 'https://music.apple.com/us/song/never-gonna-give-you-up/1558534271',
+        artists: ['Rick Astley'],
+        durationMs: 213_000,
+      }),
+      expect.objectContaining({
+        title: 'Take on Me',
+        artists: ['a-ha'],
+        durationMs: 225_000,
+      }),
+    ]);
+  });
+
+  it('rejects albums passed as a song', async () => {
+    await expect(
+      source.fetchTrack(
+        'https://music.apple.com/us/album/whenever-you-need-somebody/1558533900',
+      ),
+    ).rejects.toThrow('This Apple Music link is not a song');
+    expect(mockFetch).not.toHaveBeenCalled();
+  });
+
+  it('fails when the lookup finds nothing', async () => {
+    mockFetch.mockResolvedValue(
+      new Response(JSON.stringify({ resultCount: 0, results: [] })),
+    );
+
+    await expect(
+      source.fetchTrack(
+        'https://music.apple.com/us/song/never-gonna-give-you-up/1558534271',
+      ),
+    ).rejects.toThrow('Apple Music did not return any metadata for this link');
+  });
+});
@@ -0,0 +1,219 @@
+import { regex } from 'arkregex';
+import { requestJson, requestText } from './request.util';
+import type {
+  LinkedCollection,
+  LinkedTrack,
+  StreamingSource,
+} from './streaming-source.interface';
+
+const APPLE_MUSIC_URL_PATTERN = regex(
+  '^https://(?:geo\\.)?music\\.apple\\.com/([a-z]{2})/(album|song|playlist)/(?:[^/?#]+/)?([\\w.-]+)(?:\\?(?:[^#]*&)?i=(\\d+))?',
+);
+const LD_JSON_PATTERN =
+  /<script[^>]*type="application\/ld\+json"[^>]*>(.+?)<\/script>/gs;
+const ISO_DURATION_PATTERN = /^PT(?:(\d+)H)?(?:(\d+)M)?(?:(\d+(?:\.\d+)?)S)?$/;
+const MAX_LOOKUP_RESULTS = 200;
+
+interface ITunesResult {
+  wrapperType?: string;
+  kind?: string;
+  trackName?: string;
+  collectionName?: string;
+  artistName?: string;
+  trackTimeMillis?: number;
+  trackViewUrl?: string;
+  collectionViewUrl?: string;
+  artworkUrl100?: string;
+  trackCount?: number;
+}
+
+interface ITunesLookup {
+  results?: ITunesResult[];
+}
+
+interface SchemaArtist {
+  name?: string;
+}
+
+interface SchemaRecording {
+  name?: string;
+  url?: string;
+  duration?: string;
+  byArtist?: SchemaArtist | SchemaArtist[];
+  audio?: { byArtist?: SchemaArtist | SchemaArtist[] };
+}
+
+interface SchemaPlaylist {
+  '@type'?: string;
+  name?: string;
+  image?: string;
+  track?: SchemaRecording[];
+}
+
+interface AppleMusicLink {
+  country: string;
+  type: string;
+  id: string;
+  songId: string | undefined;
+}
+
+// Songs and albums come from the keyless iTunes Lookup API; playlists only exist on the web page
+export class AppleMusicSource implements StreamingSource {
+  public readonly name = 'Apple Music';
+
+  public canHandle(url: string): boolean {
+    return APPLE_MUSIC_URL_PATTERN.test(url);
+  }
+
+  public isCollection(url: string): boolean {
+    const link = this.parseLink(url);
+    return link !== undefined && link.type !== 'song' && !link.songId;
+  }
+
+  public async fetchTrack(url: string): Promise<LinkedTrack> {
+    const link = this.parseLink(url);
+    if (!link || this.isCollection(url)) {
+      throw new Error('This Apple Music link is not a song');
+    }
+
+    const [song] = this.songs(
+      await this.lookup(link.songId ?? link.id, link.country),
+    );
+    if (!song) {
+      throw new Error('Apple Music did not return any metadata for this link');
+    }
+
+    return this.toLinkedTrack(song);
+  }
+
+  public async fetchCollection(
+    url: string,
+    limit: number,
+  ): Promise<LinkedCollection> {
+    const link = this.parseLink(url);
+    if (!link) {
+      throw new Error('Invalid Apple Music URL');
+    }
+
+    if (link.type === 'playlist') {
+      return this.fetchPlaylist(url, limit);
+    }
+
+    const results = await this.lookup(link.id, link.country, 'song');
+    const album = results.find((result) => result.wrapperType === 'collection');
+    const songs = this.songs(results);
+
+    return {
+      title: album?.collectionName ?? 'Apple Music Album',
+      url: album?.collectionViewUrl ?? url,
+      tracks: songs.slice(0, limit).map((song) => this.toLinkedTrack(song)),
+      total: album?.trackCount ?? songs.length,
+    };
+  }
+
+  private async fetchPlaylist(
+    url: string,
+    limit: number,
+  ): Promise<LinkedCollection> {
+    const html = await requestText(url);
+    const playlist = [...html.matchAll(LD_JSON_PATTERN)]
+      .map((match) => JSON.parse(match[1] ?? 'null') as SchemaPlaylist | null)
+      .find((schema) => schema?.['@type'] === 'MusicPlaylist');
+    if (!playlist) {
+      throw new Error('Apple Music did not return any metadata for this link');
+    }
+
+    const recordings = playlist.track ?? [];
+    const tracks: LinkedTrack[] = [];
+    for (const recording of recordings.slice(0, limit)) {
+      if (!recording.name || !recording.url) {
+        continue;
+      }
+
+      tracks.push({
+        url: recording.url,
+        title: recording.name,
+        artists: this.schemaArtists(
+          recording.byArtist ?? recording.audio?.byArtist,
+        ),
+        durationMs: this.parseIsoDuration(recording.duration),
+        ...(playlist.image && { artwork: playlist.image }),
+      });
+    }
+
+    return {
+      title: playlist.name ?? 'Apple Music Playlist',
+      url,
+      tracks,
+      total: recordings.length,
+    };
+  }
+
+  private async lookup(
+    id: string,
+    country: string,
+    entity?: string,
+  ): Promise<ITunesResult[]> {
+    const params = new URLSearchParams({ id, country });
+    if (entity) {
+      params.set('entity', entity);
+      params.set('limit', String(MAX_LOOKUP_RESULTS));
+    }
+
+    const response = (await requestJson(
+      `https://itunes.apple.com/lookup?${params.toString()}`,
+    )) as ITunesLookup;
+    return response.results ?? [];
+  }
+
+  private songs(results: ITunesResult[]): ITunesResult[] {
+    return results.filter(
+      (result) =>
+        result.wrapperType === 'track' &&
+        result.kind === 'song' &&
+        result.trackViewUrl !== undefined,
+    );
+  }
+
+  private toLinkedTrack(song: ITunesResult): LinkedTrack {
+    return {
+      url: song.trackViewUrl ?? '',
+      title: song.trackName ?? 'Unknown Title',
+      artists: song.artistName ? [song.artistName] : [],
+      durationMs: song.trackTimeMillis ?? 0,
+      // iTunes serves any artwork size by rewriting the dimensions in the URL
+      ...(song.artworkUrl100 && {
+        artwork: song.artworkUrl100.replace('100x100bb', '600x600bb'),
+      }),
+    };
+  }
+
+  private schemaArtists(
+    byArtist: SchemaArtist | SchemaArtist[] | undefined,
+  ): string[] {
+    const artists = Array.isArray(byArtist) ? byArtist : [byArtist];
+    return artists.flatMap((artist) => (artist?.name ? [artist.name] : []));
+  }
+
+  private parseIsoDuration(duration: string | undefined): number {
+    const match = ISO_DURATION_PATTERN.exec(duration ?? '');
+    if (!match) {
+      return 0;
+    }
+
+    const [, hours = '0', minutes = '0', seconds = '0'] = match;
+    return Math.round(
+      (Number(hours) * 3600 + Number(minutes) * 60 + Number(seconds)) * 1000,
+    );
+  }
+
+  private parseLink(url: string): AppleMusicLink | undefined {
+    const match = APPLE_MUSIC_URL_PATTERN.exec(url);
+    if (!match) {
+      return undefined;
+    }
+
+    const [, country, type, id, songId] = match;
+    return { country, type, id, songId };
+  }
+}
@@ -0,0 +1,109 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { DeezerSource } from './deezer.source';
+
+const originalFetch = global.fetch;
+const mockFetch = vi.fn<typeof fetch>();
+
+function fixtureResponse(name: string): Response {
+  return new Response(
+    readFileSync(
+      join(__dirname, '..', '__fixtures__', 'streaming', name),
+      'utf-8',
+    ),
+  );
+}
+
+describe('DeezerSource', () => {
+  let source: DeezerSource;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = mockFetch;
+    source = new DeezerSource();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('canHandle', () => {
+    it.each([
+      'https://www.deezer.com/track/3135556',
+      'https://www.deezer.com/en/album/302127',
+      'https://deezer.com/fr/playlist/1313621735',
+    ])('accepts %s', (url) => {
+      expect(source.canHandle(url)).toBe(true);
+    });
+
+    it.each([
+      'https://www.deezer.com/artist/27',
+      'https://deezer.page.link/abc',
+      'https://api.deezer.com/track/3135556',
+    ])('rejects %s', (url) => {
+      expect(source.canHandle(url)).toBe(false);
+    });
+  });
+
+  it('reads a track from the public API', async () => {
+    mockFetch.mockResolvedValue(fixtureResponse('deezer-track.json'));
+
+    const track = await source.fetchTrack(
+      'https://www.deezer.com/en/track/3135556',
+    );
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://api.deezer.com/track/3135556',
+      expect.any(Object),
+    );
+    expect(track).toEqual({
+      url: 'https://www.deezer.com/track/3135556',
+      title: 'Harder, Better, Faster, Stronger',
+      artists: ['Daft Punk'],
+      durationMs: 224_000,
+      artwork:
+        'https://e-cdns-images.dzcdn.net/images/cover/2e018122cb56986277102d2041a592c8/1000x1000-000000-80-0-0.jpg',
+    });
+  });
+
+  it('reads playlist entries and reports the full size', async () => {
+    mockFetch.mockResolvedValue(fixtureResponse('deezer-playlist.json'));
+
+    const collection = await source.fetchCollection(
+      'https://www.deezer.com/playlist/1313621735',
+      100,
+    );
+
+    expect(collection.title).toBe('Electro Classics');
+    expect(collection.total).toBe(50);
+    expect(collection.tracks[1]).toEqual({
+      url: 'https://www.deezer.com/track/1109731',
+      title: 'Around the World',
+      artists: ['Daft Punk'],
+      durationMs: 429_000,
+      artwork:
+        'https://e-cdns-images.dzcdn.net/images/playlist/abc/1000x1000-000000-80-0-0.jpg',
+    });
+  });
+
+  it('surfaces API errors returned with a 200 status', async () => {
+    mockFetch.mockResolvedValue(
+      new Response(
+        JSON.stringify({
+          error: { type: 'DataException', message: 'no data', code: 800 },
+        }),
+      ),
+    );
+
+    await expect(
+      source.fetchTrack('https://www.deezer.com/track/1'),
+    ).rejects.toThrow('Deezer: no data');
+  });
+
+  it('rejects collections passed as a track', async () => {
+    await expect(
+      source.fetchTrack('https://www.deezer.com/album/302127'),
+    ).rejects.toThrow('This Deezer link is not a track');
+  });
+});
@@ -0,0 +1,118 @@
+import { regex } from 'arkregex';
+import { requestJson } from './request.util';
+import type {
+  LinkedCollection,
+  LinkedTrack,
+  StreamingSource,
+} from './streaming-source.interface';
+
+const DEEZER_URL_PATTERN = regex(
+  '^https://(?:www\\.)?deezer\\.com/(?:[a-z]{2}(?:-[a-z]{2})?/)?(track|album|playlist)/(\\d+)',
+);
+
+interface DeezerTrack {
+  title?: string;
+  duration?: number;
+  link?: string;
+  artist?: { name?: string };
+  contributors?: { name?: string }[];
+  album?: { cover_xl?: string };
+}
+
+interface DeezerCollection {
+  title?: string;
+  link?: string;
+  cover_xl?: string;
+  picture_xl?: string;
+  nb_tracks?: number;
+  tracks?: { data?: DeezerTrack[] };
+}
+
+interface DeezerError {
+  error?: { message?: string };
+}
+
+export class DeezerSource implements StreamingSource {
+  public readonly name = 'Deezer';
+
+  public canHandle(url: string): boolean {
+    return DEEZER_URL_PATTERN.test(url);
+  }
+
+  public isCollection(url: string): boolean {
+    const type = DEEZER_URL_PATTERN.exec(url)?.[1];
+    return type === 'album' || type === 'playlist';
+  }
+
+  public async fetchTrack(url: string): Promise<LinkedTrack> {
+    if (this.isCollection(url)) {
+      throw new Error('This Deezer link is not a track');
+    }
+
+    const track = (await this.fetchEntity(url)) as DeezerTrack;
+    const linked = this.toLinkedTrack(track);
+    if (!linked) {
+      throw new Error('Deezer did not return any metadata for this link');
+    }
+
+    return linked;
+  }
+
+  public async fetchCollection(
+    url: string,
+    limit: number,
+  ): Promise<LinkedCollection> {
+    const collection = (await this.fetchEntity(url)) as DeezerCollection;
+    const artwork = collection.cover_xl ?? collection.picture_xl;
+    const entries = collection.tracks?.data ?? [];
+
+    return {
+      title: collection.title ?? 'Deezer Playlist',
+      url: collection.link ?? url,
+      tracks: entries
+        .slice(0, limit)
+        .flatMap((entry) => this.toLinkedTrack(entry, artwork) ?? []),
+      total: collection.nb_tracks ?? entries.length,
+    };
+  }
+
+  private async fetchEntity(url: string): Promise<unknown> {
+    const match = DEEZER_URL_PATTERN.exec(url);
+    if (!match) {
+      throw new Error('Invalid Deezer URL');
+    }
+
+    const [, type, id] = match;
+    const entity = await requestJson(`https://api.deezer.com/${type}/${id}`);
+
+    // The API reports failures in a 200 response
+    const { error } = entity as DeezerError;
+    if (error) {
+      throw new Error(`Deezer: ${error.message ?? 'Unknown error'}`);
+    }
+
+    return entity;
+  }
+
+  private toLinkedTrack(
+    track: DeezerTrack,
+    fallbackArtwork?: string,
+  ): LinkedTrack | undefined {
+    if (!track.title || !track.link) {
+      return undefined;
+    }
+
+    const artwork = track.album?.cover_xl ?? fallbackArtwork;
+    const artists = (track.contributors ?? [track.artist]).flatMap((artist) =>
+      artist?.name ? [artist.name] : [],
+    );
+
+    return {
+      url: track.link,
+      title: track.title,
+      artists,
+      durationMs: (track.duration ?? 0) * 1000,
+      ...(artwork && { artwork }),
+    };
+  }
+}
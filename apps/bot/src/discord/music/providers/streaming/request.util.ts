@@ -0,0 +1,20 @@
+const REQUEST_TIMEOUT_MS = 10_000;
+
+export async function requestText(url: string): Promise<string> {
+  const response = await fetch(url, {
+    headers: { 'User-Agent': 'starwave-bot' },
+    signal: AbortSignal.timeout(REQUEST_TIMEOUT_MS),
+  });
+
+  if (!response.ok) {
+    throw new Error(
+      `${new URL(url).hostname} returned ${String(response.status)}`,
+    );
+  }
+
+  return response.text();
+}
+
+export async function requestJson(url: string): Promise<unknown> {
+  return JSON.parse(await requestText(url)) as unknown;
+}
@@ -0,0 +1,134 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SpotifySource } from './spotify.source';
+
+const originalFetch = global.fetch;
+const mockFetch = vi.fn<typeof fetch>();
+
+function fixtureResponse(name: string): Response {
+  return new Response(
+    readFileSync(
+      join(__dirname, '..', '__fixtures__', 'streaming', name),
+      'utf-8',
+    ),
+  );
+}
+
+describe('SpotifySource', () => {
+  let source: SpotifySource;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+    global.fetch = mockFetch;
+    source = new SpotifySource();
+  });
+
+  afterEach(() => {
+    global.fetch = originalFetch;
+  });
+
+  describe('canHandle', () => {
+    it.each([
+      'https://open.spotify.com/track/4PTG3Z6ehGkBFwjybzWkR8',
+      'https://open.spotify.com/intl-de/track/4PTG3Z6ehGkBFwjybzWkR8?si=abc',
+      'https://open.spotify.com/album/6N9PS4QXF1D0OWPk0Sxtb4',
+      'https://open.spotify.com/playlist/37i9dQZF1DX4UtSsGT1Sbe',
+    ])('accepts %s', (url) => {
+      expect(source.canHandle(url)).toBe(true);
+    });
+
+    it.each([
+      'https://open.spotify.com/artist/0gxyHStUsqpMadRV0Di1Qt',
+      'https://open.spotify.com/track/short',
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+    ])('rejects %s', (url) => {
+      expect(source.canHandle(url)).toBe(false);
+    });
+  });
+
+  it('reads track metadata from the embed page', async () => {
+    mockFetch.mockResolvedValue(fixtureResponse('spotify-track.html'));
+
+    const track = await source.fetchTrack(
+      'https://open.spotify.com/intl-de/track/4PTG3Z6ehGkBFwjybzWkR8?si=abc',
+    );
+
+    expect(mockFetch).toHaveBeenCalledWith(
+      'https://open.spotify.com/embed/track/4PTG3Z6ehGkBFwjybzWkR8',
+      expect.any(Object),
+    );
+    expect(track).toEqual({
+      url: 'https://open.spotify.com/track/4PTG3Z6ehGkBFwjybzWkR8',
+      title: 'Never Gonna Give You Up',
+      artists: ['Rick Astley'],
+      durationMs: 213_573,
+      artwork:
+        'https://image-cdn-ak.spotifycdn.com/image/ab67616d0000b27315ebbedaacef61af244262a8',
+    });
+  });
+
+  it('skips unplayable playlist entries and splits artists', async () => {
+    mockFetch.mockResolvedValue(fixtureResponse('spotify-playlist.html'));
+
+    const collection = await source.fetchCollection(
+      'https://open.spotify.com/playlist/37i9dQZF1DX4UtSsGT1Sbe',
+      100,
+    );
+
+    expect(collection.title).toBe('80s Hits');
+    expect(collection.total).toBe(3);
+    expect(collection.tracks.map((track) => track.title)).toEqual([
+      'Never Gonna Give You Up',
+      'Take on Me',
+      'Under Pressure',
+    ]);
+    expect(collection.tracks[2]).toMatchObject({
+      url: 'https://open.spotify.com/track/0ikz6tENMONtK6qGkOrU3c',
+      artists: ['Queen', 'David Bowie'],
+      durationMs: 248_440,
+    });
+  });
+
+  it('applies the playlist limit', async () => {
+    mockFetch.mockResolvedValue(fixtureResponse('spotify-playlist.html'));
+
+    const collection = await source.fetchCollection(
+      'https://open.spotify.com/playlist/37i9dQZF1DX4UtSsGT1Sbe',
+      1,
+    );
+
+    expect(collection.tracks).toHaveLength(1);
+    expect(collection.total).toBe(3);
+  });
+
+  it('rejects collections passed as a track', async () => {
+    mockFetch.mockResolvedValue(fixtureResponse('spotify-playlist.html'));
+
+    await expect(
+      source.fetchTrack(
+        'https://open.spotify.com/playlist/37i9dQZF1DX4UtSsGT1Sbe',
+      ),
+    ).rejects.toThrow('This Spotify link is not a track');
+  });
+
+  it('fails when the page has no embed data', async () => {
+    mockFetch.mockResolvedValue(new Response('<html></html>'));
+
+    await expect(
+      source.fetchTrack(
+        'https://open.spotify.com/track/4PTG3Z6ehGkBFwjybzWkR8',
+      ),
+    ).rejects.toThrow('Spotify did not return any metadata for this link');
+  });
+
+  it('surfaces HTTP errors', async () => {
+    mockFetch.mockResolvedValue(new Response('', { status: 404 }));
+
+    await expect(
+      source.fetchTrack(
+        'https://open.spotify.com/track/4PTG3Z6ehGkBFwjybzWkR8',
+      ),
+    ).rejects.toThrow('open.spotify.com returned 404');
+  });
+});
@@ -0,0 +1,147 @@
+import { regex } from 'arkregex';
+import { requestText } from './request.util';
+import type {
+  LinkedCollection,
+  LinkedTrack,
+  StreamingSource,
+} from './streaming-source.interface';
+
+const SPOTIFY_URL_PATTERN = regex(
+  '^https://open\\.spotify\\.com/(?:intl-[a-z]{2}(?:-[A-Za-z]{2})?/)?(track|album|playlist)/([A-Za-z0-9]{22})',
+);
+const NEXT_DATA_PATTERN =
+  /<script id="__NEXT_DATA__" type="application\/json">(.+?)<\/script>/s;
+
+interface SpotifyImage {
+  url?: string;
+}
+
+interface SpotifyTrackListItem {
+  uri?: string;
+  title?: string;
+  subtitle?: string;
+  duration?: number;
+  isPlayable?: boolean;
+}
+
+interface SpotifyEntity {
+  type?: string;
+  id?: string;
+  name?: string;
+  title?: string;
+  duration?: number;
+  artists?: { name?: string }[];
+  visualIdentity?: { image?: SpotifyImage[] };
+  coverArt?: { sources?: SpotifyImage[] };
+  trackList?: SpotifyTrackListItem[];
+}
+
+interface SpotifyEmbedData {
+  props?: {
+    pageProps?: {
+      state?: { data?: { entity?: SpotifyEntity } };
+    };
+  };
+}
+
+// Spotify's public embed pages carry the metadata the Web API would need a token for
+export class SpotifySource implements StreamingSource {
+  public readonly name = 'Spotify';
+
+  public canHandle(url: string): boolean {
+    return SPOTIFY_URL_PATTERN.test(url);
+  }
+
+  public isCollection(url: string): boolean {
+    const type = SPOTIFY_URL_PATTERN.exec(url)?.[1];
+    return type === 'album' || type === 'playlist';
+  }
+
+  public async fetchTrack(url: string): Promise<LinkedTrack> {
+    const entity = await this.fetchEntity(url);
+    if (entity.type !== 'track' || !entity.id) {
+      throw new Error('This Spotify link is not a track');
+    }
+
+    const artwork = this.pickArtwork(entity);
+    return {
+      url: this.trackUrl(entity.id),
+      title: entity.name ?? entity.title ?? 'Unknown Title',
+      artists: (entity.artists ?? []).flatMap((artist) =>
+        artist.name ? [artist.name] : [],
+      ),
+      durationMs: entity.duration ?? 0,
+      ...(artwork && { artwork }),
+    };
+  }
+
+  public async fetchCollection(
+    url: string,
+    limit: number,
+  ): Promise<LinkedCollection> {
+    const entity = await this.fetchEntity(url);
+    const artwork = this.pickArtwork(entity);
+    const items = (entity.trackList ?? []).filter(
+      (item) => item.isPlayable !== false,
+    );
+
+    const tracks: LinkedTrack[] = [];
+    for (const item of items.slice(0, limit)) {
+      const id = item.uri?.split(':').at(-1);
+      if (!id || !item.title) {
+        continue;
+      }
+
+      tracks.push({
+        url: this.trackUrl(id),
+        title: item.title,
+        artists: (item.subtitle ?? '')
+          .split(/,\s*/)
+          .map((artist) => artist.trim())
+          .filter((artist) => artist.length > 0),
+        durationMs: item.duration ?? 0,
+        ...(artwork && { artwork }),
+      });
+    }
+
+    return {
+      title: entity.name ?? entity.title ?? 'Spotify Playlist',
+      url,
+      tracks,
+      total: items.length,
+    };
+  }
+
+  private async fetchEntity(url: string): Promise<SpotifyEntity> {
+    const match = SPOTIFY_URL_PATTERN.exec(url);
+    if (!match) {
+      throw new Error('Invalid Spotify URL');
+    }
+
+    const [, type, id] = match;
+    const html = await requestText(
+      `https://open.spotify.com/embed/${type}/${id}`,
+    );
+    const json = NEXT_DATA_PATTERN.exec(html)?.[1];
+    const entity = json
+      ? (JSON.parse(json) as SpotifyEmbedData).props?.pageProps?.state?.data
+          ?.entity
+      : undefined;
+    if (!entity) {
+      throw new Error('Spotify did not return any metadata for this link');
+    }
+
+    return entity;
+  }
+
+  private pickArtwork(entity: SpotifyEntity): string | undefined {
+    return (
+      entity.visualIdentity?.image?.at(-1)?.url ??
+      entity.coverArt?.sources?.at(-1)?.url
+    );
+  }
+
+  private trackUrl(id: string): string {
+    return `https://open.spotify.com/track/${id}`;
+  }
+}
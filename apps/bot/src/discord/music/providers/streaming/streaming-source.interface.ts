@@ -0,0 +1,26 @@
+export interface LinkedTrack {
+  url: string;
+  title: string;
+  artists: string[];
+  durationMs: number;
+  artwork?: string;
+}
+
+export interface LinkedCollection {
+  title: string;
+  url: string;
+  tracks: LinkedTrack[];
+  total: number;
+}
+
+export interface StreamingSource {
+  readonly name: string;
+
+  canHandle(url: string): boolean;
+
+  isCollection(url: string): boolean;
+
+  fetchTrack(url: string): Promise<LinkedTrack>;
+
+  fetchCollection(url: string, limit: number): Promise<LinkedCollection>;
+}
@@ -0,0 +1,179 @@
+import { readFileSync } from 'node:fs';
+import { join } from 'node:path';
+import { describe, expect, it } from 'vitest';
+import type { SearchResultMetadata } from '../../youtube/youtube-stream.service';
+import type { LinkedTrack } from './streaming-source.interface';
+import {
+  buildSearchQuery,
+  MIN_MATCH_SCORE,
+  pickBestMatch,
+  scoreMatch,
+} from './track-matcher';
+
+function loadSearchResults(name: string): SearchResultMetadata[] {
+  return JSON.parse(
+    readFileSync(
+      join(__dirname, '..', '__fixtures__', 'streaming', `${name}.json`),
+      'utf-8',
+    ),
+  ) as SearchResultMetadata[];
+}
+
+const rickroll: LinkedTrack = {
+  url: 'https://open.spotify.com/track/4PTG3Z6ehGkBFwjybzWkR8',
+  title: 'Never Gonna Give You Up',
+  artists: ['Rick Astley'],
+  durationMs: 213_573,
+};
+
+function findByUrl(
+  results: SearchResultMetadata[],
+  videoId: string,
+): SearchResultMetadata {
+  const result = results.find((candidate) => candidate.url.endsWith(videoId));
+  if (!result) {
+    throw new Error(`Fixture is missing ${videoId}`);
+  }
+  return result;
+}
+
+describe('track-matcher', () => {
+  describe('buildSearchQuery', () => {
+    it('joins the artists before the title', () => {
+      expect(
+        buildSearchQuery({
+          ...rickroll,
+          title: 'Under Pressure',
+          artists: ['Queen', 'David Bowie'],
+        }),
+      ).toBe('Queen, David Bowie - Under Pressure');
+    });
+
+    it('uses the bare title when there are no artists', () => {
+      expect(buildSearchQuery({ ...rickroll, artists: [] })).toBe(
+        'Never Gonna Give You Up',
+      );
+    });
+  });
+
+  describe('pickBestMatch', () => {
+    it('prefers the official audio upload from recorded search results', () => {
+      const match = pickBestMatch(
+        rickroll,
+        loadSearchResults('youtube-search'),
+      );
+
+      expect(match?.url).toBe('https://www.youtube.com/watch?v=34Ig3X59_qA');
+    });
+
+    it('matches collaborations when only one artist owns the channel', () => {
+      const match = pickBestMatch(
+        {
+          url: 'https://open.spotify.com/track/0ikz6tENMONtK6qGkOrU3c',
+          title: 'Under Pressure',
+          artists: ['Queen', 'David Bowie'],
+          durationMs: 248_440,
+        },
+        loadSearchResults('youtube-search-collab'),
+      );
+
+      expect(match?.url).toBe('https://www.youtube.com/watch?v=YoDh_gHDvkk');
+    });
+
+    it('returns undefined when no candidate is close enough', () => {
+      const results = loadSearchResults('youtube-search');
+
+      expect(
+        pickBestMatch(rickroll, [
+          findByUrl(results, '7XkdkpgSkqs'),
+          findByUrl(results, 'BBJa32lCaaY'),
+        ]),
+      ).toBeUndefined();
+    });
+
+    it('returns undefined without candidates', () => {
+      expect(pickBestMatch(rickroll, [])).toBeUndefined();
+    });
+  });
+
+  describe('scoreMatch', () => {
+    const results = loadSearchResults('youtube-search');
+
+    it('ranks the studio recording above live, cover and looped uploads', () => {
+      const official = scoreMatch(rickroll, findByUrl(results, 'dQw4w9WgXcQ'));
+
+      for (const videoId of ['7XkdkpgSkqs', '3KANI2dpXLw', 'BBJa32lCaaY']) {
+        expect(scoreMatch(rickroll, findByUrl(results, videoId))).toBeLessThan(
+          official,
+        );
+      }
+    });
+
+    it('keeps variants that the source title asks for', () => {
+      const live = findByUrl(results, '7XkdkpgSkqs');
+
+      expect(
+        scoreMatch(
+          {
+            ...rickroll,
+            title: 'Never Gonna Give You Up - Live at Glastonbury',
+            durationMs: 241_000,
+          },
+          live,
+        ),
+      ).toBeGreaterThanOrEqual(MIN_MATCH_SCORE);
+    });
+
+    it('penalises a large duration mismatch', () => {
+      const official = findByUrl(results, 'dQw4w9WgXcQ');
+
+      expect(
+        scoreMatch({ ...rickroll, durationMs: 400_000 }, official),
+      ).toBeLessThan(scoreMatch(rickroll, official));
+    });
+
+    it('ignores featured artists in the title', () => {
+      const candidate: SearchResultMetadata = {
+        title: 'The Kid LAROI, Justin Bieber - STAY (Official Video)',
+        duration: 158,
+        thumbnail: '',
+        url: 'https://www.youtube.com/watch?v=kTJczUoc26U',
+        channel: 'TheKidLAROIVEVO',
+      };
+
+      expect(
+        scoreMatch(
+          {
+            url: 'https://www.deezer.com/track/1400000000',
+            title: 'STAY (feat. Justin Bieber)',
+            artists: ['The Kid LAROI', 'Justin Bieber'],
+            durationMs: 141_000,
+          },
+          candidate,
+        ),
+      ).toBeGreaterThanOrEqual(MIN_MATCH_SCORE);
+    });
+
+    it('normalises accents and punctuation', () => {
+      const candidate: SearchResultMetadata = {
+        title: 'Beyonce - Déjà Vu ft. JAY Z',
+        duration: 240,
+        thumbnail: '',
+        url: 'https://www.youtube.com/watch?v=RQ9BWndKEgs',
+        channel: 'beyonceVEVO',
+      };
+
+      expect(
+        scoreMatch(
+          {
+            url: 'https://www.deezer.com/track/1234',
+            title: 'Deja Vu',
+            artists: ['Beyoncé', 'JAY-Z'],
+            durationMs: 240_000,
+          },
+          candidate,
+        ),
+      ).toBeCloseTo(1);
+    });
+  });
+});
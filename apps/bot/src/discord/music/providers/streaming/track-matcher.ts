@@ -0,0 +1,131 @@
+import type { SearchResultMetadata } from '../../youtube/youtube-stream.service';
+import type { LinkedTrack } from './streaming-source.interface';
+
+export const MIN_MATCH_SCORE = 0.55;
+
+const TITLE_WEIGHT = 0.45;
+const ARTIST_WEIGHT = 0.3;
+const DURATION_WEIGHT = 0.25;
+const OFFICIAL_AUDIO_BONUS = 0.1;
+const VARIANT_PENALTY = 0.35;
+
+// Uploads like these rarely match the studio recording unless the source title asks for them
+const VARIANT_KEYWORDS = [
+  'live',
+  'cover',
+  'remix',
+  'karaoke',
+  'instrumental',
+  'acoustic',
+  'sped up',
+  'slowed',
+  'nightcore',
+  '8d',
+  'reaction',
+  'hour',
+  'hours',
+];
+
+export function buildSearchQuery(track: LinkedTrack): string {
+  return track.artists.length > 0
+    ? `${track.artists.join(', ')} - ${track.title}`
+    : track.title;
+}
+
+export function scoreMatch(
+  track: LinkedTrack,
+  candidate: SearchResultMetadata,
+): number {
+  const candidateText = normalize(`${candidate.title} ${candidate.channel}`);
+  const candidateTokens = new Set(candidateText.split(' '));
+  const compactCandidate = candidateText.replaceAll(' ', '');
+
+  const titleTokens = tokenize(stripFeaturing(track.title));
+  const titleScore =
+    titleTokens.length > 0
+      ? titleTokens.filter((token) => candidateTokens.has(token)).length /
+        titleTokens.length
+      : 0;
+
+  // Channel names often glue the artist together ("RickAstleyVEVO")
+  const artistScore =
+    track.artists.length > 0
+      ? track.artists.filter((artist) =>
+          compactCandidate.includes(normalize(artist).replaceAll(' ', '')),
+        ).length / track.artists.length
+      : 0.5;
+
+  const sourceText = normalize(track.title);
+  const penalty = VARIANT_KEYWORDS.filter(
+    (keyword) =>
+      containsPhrase(normalize(candidate.title), keyword) &&
+      !containsPhrase(sourceText, keyword),
+  ).length;
+
+  return (
+    TITLE_WEIGHT * titleScore +
+    ARTIST_WEIGHT * artistScore +
+    DURATION_WEIGHT * durationScore(track.durationMs, candidate.duration) +
+    (candidate.channel.endsWith(' - Topic') ? OFFICIAL_AUDIO_BONUS : 0) -
+    VARIANT_PENALTY * penalty
+  );
+}
+
+export function pickBestMatch(
+  track: LinkedTrack,
+  candidates: SearchResultMetadata[],
+): SearchResultMetadata | undefined {
+  let best: SearchResultMetadata | undefined;
+  let bestScore = MIN_MATCH_SCORE;
+
+  for (const candidate of candidates) {
+    const score = scoreMatch(track, candidate);
+    if (score >= bestScore) {
+      best = candidate;
+      bestScore = score;
+    }
+  }
+
+  return best;
+}
+
+function durationScore(expectedMs: number, actualSeconds: number): number {
+  if (expectedMs <= 0 || actualSeconds <= 0) {
+    return 0.5;
+  }
+
+  const difference = Math.abs(expectedMs / 1000 - actualSeconds);
+  if (difference <= 3) {
+    return 1;
+  }
+  if (difference <= 10) {
+    return 0.75;
+  }
+  if (difference <= 30) {
+    return 0.35;
+  }
+  return 0;
+}
+
+function normalize(text: string): string {
+  return text
+    .normalize('NFKD')
+    .replace(/\p{M}/gu, '')
+    .toLowerCase()
+    .replace(/[^\p{L}\p{N}]+/gu, ' ')
+    .trim();
+}
+
+function tokenize(text: string): string[] {
+  return normalize(text)
+    .split(' ')
+    .filter((token) => token.length > 0);
+}
+
+function stripFeaturing(title: string): string {
+  return title.replace(/[([]?\b(?:feat|ft)\b\.?[^)\]]*[)\]]?/gi, '');
+}
+
+function containsPhrase(text: string, phrase: string): boolean {
+  return ` ${text} `.includes(` ${phrase} `);
+}
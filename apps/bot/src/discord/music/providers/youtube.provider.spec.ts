@@ -1,11 +1,26 @@
 import { StreamType } from '@discordjs/voice';
-import { Readable } from 'node:stream';
+import { Logger } from '@nestjs/common';
+import type { ConfigService } from '@nestjs/config';
+import { PassThrough, Readable } from 'node:stream';
 import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Config } from '../../../config/config.type';
 import type {
+  PlaylistMetadata,
+  SearchResultMetadata,
   VideoMetadata,
   YouTubeStreamService,
 } from '../youtube/youtube-stream.service';
-import { YouTubeProvider } from './youtube.provider';
+import type { YtDlpService } from '../yt-dlp.service';
+
+const { mockSpawnFfmpeg } = vi.hoisted(() => ({
+  mockSpawnFfmpeg: vi.fn(),
+}));
+
+vi.mock('../ffmpeg.util', () => ({
+  spawnFfmpeg: mockSpawnFfmpeg,
+}));
+
+import { type YouTubeBackend, YouTubeProvider } from './youtube.provider';
 
 function createMockStreamService(
   overrides: Partial<YouTubeStreamService> = {},
@@ -23,22 +38,79 @@ function createMockStreamService(
       thumbnail: 'https://example.com/search-thumb.jpg',
       url: 'https://www.youtube.com/watch?v=searchResult',
     } satisfies VideoMetadata),
+    searchMany: vi.fn().mockResolvedValue([
+      {
+        title: 'Search Result Video',
+        duration: 240,
+        thumbnail: 'https://example.com/search-thumb.jpg',
+        url: 'https://www.youtube.com/watch?v=searchResult',
+        channel: 'Test Channel',
+      },
+    ] satisfies SearchResultMetadata[]),
+    getRelated: vi.fn().mockResolvedValue([
+      {
+        title: 'Related Video',
+        duration: 210,
+        thumbnail: 'https://example.com/related-thumb.jpg',
+        url: 'https://www.youtube.com/watch?v=related0001',
+      },
+    ] satisfies VideoMetadata[]),
+    getSearchSuggestions: vi.fn().mockResolvedValue(['test suggestion']),
     getAudioStream: vi.fn().mockResolvedValue({
       source: Readable.from([]),
       streamType: StreamType.WebmOpus,
     }),
+    getPlaylist: vi.fn().mockResolvedValue({
+      title: 'Test Playlist',
+      url: 'https://www.youtube.com/playlist?list=PLtest',
+      videos: [
+        {
+          title: 'Playlist Video',
+          duration: 200,
+          thumbnail: 'https://example.com/playlist-thumb.jpg',
+          url: 'https://www.youtube.com/watch?v=playlist001',
+        },
+      ],
+      truncated: true,
+    } satisfies PlaylistMetadata),
     ...overrides,
   } as unknown as YouTubeStreamService;
 }
 
+function createConfigService(
+  backend?: YouTubeBackend,
+): ConfigService<Config, true> {
+  return {
+    get: vi.fn().mockReturnValue(backend ? { backend } : undefined),
+  } as unknown as ConfigService<Config, true>;
+}
+
+const requester = { id: 'user-123', tag: 'user#1234' };
+
 describe('YouTubeProvider', () => {
   let provider: YouTubeProvider;
   let mockStreamService: YouTubeStreamService;
+  let ytDlp: YtDlpService;
 
   beforeEach(() => {
     vi.clearAllMocks();
+    vi.spyOn(Logger.prototype, 'log').mockImplementation(() => undefined);
+    vi.spyOn(Logger.prototype, 'warn').mockImplementation(() => undefined);
+    mockSpawnFfmpeg.mockReturnValue(new PassThrough());
+
     mockStreamService = createMockStreamService();
-    provider = new YouTubeProvider(mockStreamService);
+    ytDlp = {
+      getAudioInfo: vi.fn().mockResolvedValue({
+        url: 'https://rr1---sn-abc.googlevideo.com/videoplayback?itag=251',
+        codec: 'opus',
+        container: 'webm',
+      }),
+    } as unknown as YtDlpService;
+    provider = new YouTubeProvider(
+      mockStreamService,
+      ytDlp,
+      createConfigService(),
+    );
     provider.onModuleInit();
   });
 
@@ -78,7 +150,7 @@ describe('YouTubeProvider', () => {
     it('returns track info for valid URL', async () => {
       const track = await provider.fetchTrackInfo(
         'https://youtube.com/watch?v=dQw4w9WgXcQ',
-        'user#1234',
+        requester,
       );
 
       expect(track).toMatchObject({
@@ -87,24 +159,95 @@ describe('YouTubeProvider', () => {
         duration: 180,
         thumbnail: 'https://example.com/thumb.jpg',
         requestedBy: 'user#1234',
+        requesterId: 'user-123',
       });
       expect(mockStreamService.getMetadata).toHaveBeenCalledWith('dQw4w9WgXcQ');
     });
 
     it('normalizes video ID to canonical URL via getMetadata', async () => {
-      await provider.fetchTrackInfo('dQw4w9WgXcQ', 'user#1234');
+      await provider.fetchTrackInfo('dQw4w9WgXcQ', requester);
 
       expect(mockStreamService.getMetadata).toHaveBeenCalledWith('dQw4w9WgXcQ');
     });
 
     it('throws error for invalid URL', async () => {
       await expect(
-        provider.fetchTrackInfo('https://example.com/not-youtube', 'user#1234'),
+        provider.fetchTrackInfo('https://example.com/not-youtube', requester),
       ).rejects.toThrow('Invalid YouTube URL');
       expect(mockStreamService.getMetadata).not.toHaveBeenCalled();
     });
   });
 
+  describe('isPlaylist', () => {
+    it.each([
+      'https://www.youtube.com/playlist?list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf',
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=PLrAXtmErZgOeiKm4sgNOknGvNjby9efdf',
+      'https://music.youtube.com/playlist?list=OLAK5uy_kxIfTXvD0ZQ8hpDE6aakYt3qPFE1EBLq4',
+    ])('returns true for %s', (url) => {
+      expect(provider.isPlaylist(url)).toBe(true);
+      expect(provider.canHandle(url)).toBe(true);
+    });
+
+    it.each([
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      'https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=RDdQw4w9WgXcQ',
+      'https://example.com/playlist?list=PLtest',
+    ])('returns false for %s', (url) => {
+      expect(provider.isPlaylist(url)).toBe(false);
+    });
+
+    it('still handles mix URLs as single videos', () => {
+      expect(
+        provider.canHandle(
+          'https://www.youtube.com/watch?v=dQw4w9WgXcQ&list=RDdQw4w9WgXcQ',
+        ),
+      ).toBe(true);
+    });
+  });
+
+  describe('fetchPlaylist', () => {
+    it('expands playlist videos into tracks', async () => {
+      const onProgress = vi.fn();
+
+      const playlist = await provider.fetchPlaylist(
+        'https://music.youtube.com/playlist?list=OLAK5uy_album',
+        requester,
+        { limit: 50, onProgress },
+      );
+
+      expect(mockStreamService.getPlaylist).toHaveBeenCalledWith(
+        'OLAK5uy_album',
+        { limit: 50, onProgress },
+      );
+      expect(playlist).toEqual({
+        title: 'Test Playlist',
+        url: 'https://www.youtube.com/playlist?list=PLtest',
+        truncated: true,
+        tracks: [
+          {
+            title: 'Playlist Video',
+            duration: 200,
+            thumbnail: 'https://example.com/playlist-thumb.jpg',
+            url: 'https://www.youtube.com/watch?v=playlist001',
+            requestedBy: 'user#1234',
+            requesterId: 'user-123',
+          },
+        ],
+      });
+    });
+
+    it('throws error for non-playlist URL', async () => {
+      await expect(
+        provider.fetchPlaylist(
+          'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+          requester,
+          { limit: 50 },
+        ),
+      ).rejects.toThrow('Invalid YouTube playlist URL');
+      expect(mockStreamService.getPlaylist).not.toHaveBeenCalled();
+    });
+  });
+
   describe('getAudioInfo', () => {
     it('delegates to YouTubeStreamService.getAudioStream and returns Readable source', async () => {
       const audioInfo = await provider.getAudioInfo(
@@ -115,6 +258,16 @@ describe('YouTubeProvider', () => {
       expect(audioInfo.streamType).toBe(StreamType.WebmOpus);
       expect(mockStreamService.getAudioStream).toHaveBeenCalledWith(
         'dQw4w9WgXcQ',
+        {},
+      );
+    });
+
+    it('forwards the start offset to the stream service', async () => {
+      await provider.getAudioInfo('dQw4w9WgXcQ', { startTimeMs: 42_000 });
+
+      expect(mockStreamService.getAudioStream).toHaveBeenCalledWith(
+        'dQw4w9WgXcQ',
+        { startTimeMs: 42_000 },
       );
     });
 
@@ -125,7 +278,12 @@ describe('YouTubeProvider', () => {
       expect(mockStreamService.getAudioStream).not.toHaveBeenCalled();
     });
 
-    it('propagates stream service errors', async () => {
+    it('propagates stream service errors with the sabr backend', async () => {
+      provider = new YouTubeProvider(
+        mockStreamService,
+        ytDlp,
+        createConfigService('sabr'),
+      );
       vi.mocked(mockStreamService.getAudioStream).mockRejectedValueOnce(
         new Error('SABR stream failed'),
       );
@@ -133,6 +291,89 @@ describe('YouTubeProvider', () => {
       await expect(provider.getAudioInfo('dQw4w9WgXcQ')).rejects.toThrow(
         'SABR stream failed',
       );
+      expect(ytDlp.getAudioInfo).not.toHaveBeenCalled();
+      expect(Logger.prototype.log).toHaveBeenCalledWith(
+        'youtube.backend.failed: dQw4w9WgXcQ (sabr=0 ytdlp=0 fallback=0 failed=1)',
+      );
+    });
+
+    it('retries through yt-dlp when SABR fails', async () => {
+      vi.mocked(mockStreamService.getAudioStream).mockRejectedValueOnce(
+        new Error('PoToken minting failed'),
+      );
+
+      const audioInfo = await provider.getAudioInfo('dQw4w9WgXcQ', {
+        startTimeMs: 42_000,
+      });
+
+      expect(ytDlp.getAudioInfo).toHaveBeenCalledWith(
+        'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+      );
+      expect(mockSpawnFfmpeg).toHaveBeenCalledWith([
+        '-ss',
+        '42.000',
+        '-i',
+        'https://rr1---sn-abc.googlevideo.com/videoplayback?itag=251',
+        '-vn',
+        '-c:a',
+        'copy',
+        '-f',
+        'ogg',
+        'pipe:1',
+      ]);
+      expect(audioInfo.streamType).toBe(StreamType.OggOpus);
+      expect(Logger.prototype.log).toHaveBeenCalledWith(
+        'youtube.backend.served: dQw4w9WgXcQ via ytdlpFallback (sabr=0 ytdlp=0 fallback=1 failed=0)',
+      );
+    });
+
+    it('fails when the yt-dlp fallback fails too', async () => {
+      vi.mocked(mockStreamService.getAudioStream).mockRejectedValueOnce(
+        new Error('SABR stream failed'),
+      );
+      vi.mocked(ytDlp.getAudioInfo).mockRejectedValueOnce(
+        new Error('yt-dlp binary not ready'),
+      );
+
+      await expect(provider.getAudioInfo('dQw4w9WgXcQ')).rejects.toThrow(
+        'yt-dlp binary not ready',
+      );
+      expect(Logger.prototype.log).toHaveBeenCalledWith(
+        'youtube.backend.failed: dQw4w9WgXcQ (sabr=0 ytdlp=0 fallback=0 failed=1)',
+      );
+    });
+
+    it('only uses yt-dlp with the ytdlp backend', async () => {
+      provider = new YouTubeProvider(
+        mockStreamService,
+        ytDlp,
+        createConfigService('ytdlp'),
+      );
+      vi.mocked(ytDlp.getAudioInfo).mockResolvedValueOnce({
+        url: 'https://rr1---sn-abc.googlevideo.com/videoplayback?itag=140',
+        codec: 'mp4a.40.2',
+        container: 'm4a',
+      });
+
+      await provider.getAudioInfo('dQw4w9WgXcQ');
+
+      expect(mockStreamService.getAudioStream).not.toHaveBeenCalled();
+      expect(mockSpawnFfmpeg).toHaveBeenCalledWith(
+        expect.arrayContaining(['-c:a', 'libopus', '-b:a', '128k']),
+      );
+      expect(Logger.prototype.log).toHaveBeenCalledWith(
+        'youtube.backend.served: dQw4w9WgXcQ via ytdlp (sabr=0 ytdlp=1 fallback=0 failed=0)',
+      );
+    });
+
+    it('logs running totals of the path that served each track', async () => {
+      await provider.getAudioInfo('dQw4w9WgXcQ');
+      await provider.getAudioInfo('dQw4w9WgXcQ');
+
+      expect(ytDlp.getAudioInfo).not.toHaveBeenCalled();
+      expect(Logger.prototype.log).toHaveBeenLastCalledWith(
+        'youtube.backend.served: dQw4w9WgXcQ via sabr (sabr=2 ytdlp=0 fallback=0 failed=0)',
+      );
     });
   });
 
@@ -144,7 +385,7 @@ describe('YouTubeProvider', () => {
 
   describe('search', () => {
     it('returns track info from search query', async () => {
-      const track = await provider.search('test query', 'user#1234');
+      const track = await provider.search('test query', requester);
 
       expect(track).toMatchObject({
         url: 'https://www.youtube.com/watch?v=searchResult',
@@ -152,11 +393,12 @@ describe('YouTubeProvider', () => {
         duration: 240,
         thumbnail: 'https://example.com/search-thumb.jpg',
         requestedBy: 'user#1234',
+        requesterId: 'user-123',
       });
     });
 
     it('delegates search to YouTubeStreamService', async () => {
-      await provider.search('my search query', 'user#1234');
+      await provider.search('my search query', requester);
 
       expect(mockStreamService.search).toHaveBeenCalledWith('my search query');
     });
@@ -166,9 +408,79 @@ describe('YouTubeProvider', () => {
         new Error('No search results found'),
       );
 
-      await expect(provider.search('nonexistent', 'user#1234')).rejects.toThrow(
+      await expect(provider.search('nonexistent', requester)).rejects.toThrow(
         'No search results found',
       );
     });
   });
+
+  describe('searchMany', () => {
+    it('maps search results to tracks with channel names', async () => {
+      const results = await provider.searchMany('test query', requester, 3);
+
+      expect(mockStreamService.searchMany).toHaveBeenCalledWith(
+        'test query',
+        3,
+      );
+      expect(results).toEqual([
+        {
+          track: {
+            url: 'https://www.youtube.com/watch?v=searchResult',
+            title: 'Search Result Video',
+            duration: 240,
+            thumbnail: 'https://example.com/search-thumb.jpg',
+            requestedBy: 'user#1234',
+            requesterId: 'user-123',
+          },
+          channel: 'Test Channel',
+        },
+      ]);
+    });
+  });
+
+  describe('getSuggestions', () => {
+    it('delegates to YouTubeStreamService', async () => {
+      await expect(provider.getSuggestions('test')).resolves.toEqual([
+        'test suggestion',
+      ]);
+      expect(mockStreamService.getSearchSuggestions).toHaveBeenCalledWith(
+        'test',
+      );
+    });
+  });
+
+  describe('getRelated', () => {
+    it('maps related videos to tracks', async () => {
+      const tracks = await provider.getRelated(
+        'https://www.youtube.com/watch?v=dQw4w9WgXcQ',
+        { id: '', tag: 'Autoplay' },
+        5,
+      );
+
+      expect(mockStreamService.getRelated).toHaveBeenCalledWith(
+        'dQw4w9WgXcQ',
+        5,
+      );
+      expect(tracks).toEqual([
+        {
+          url: 'https://www.youtube.com/watch?v=related0001',
+          title: 'Related Video',
+          duration: 210,
+          thumbnail: 'https://example.com/related-thumb.jpg',
+          requestedBy: 'Autoplay',
+          requesterId: '',
+        },
+      ]);
+    });
+
+    it('throws for invalid URLs', async () => {
+      await expect(
+        provider.getRelated(
+          'https://example.com/video',
+          { id: '', tag: 'Autoplay' },
+          5,
+        ),
+      ).rejects.toThrow('Invalid YouTube URL');
+    });
+  });
 });
@@ -1,37 +1,114 @@
+import { StreamType } from '@discordjs/voice';
 import { Injectable, Logger, OnModuleInit } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
 import { regex } from 'arkregex';
-import type { Track } from '../music-queue';
+import type { Config } from '../../../config/config.type';
+import { spawnFfmpeg } from '../ffmpeg.util';
+import type { Track, TrackRequester } from '../music-queue';
 import { YouTubeStreamService } from '../youtube/youtube-stream.service';
+import { YtDlpService } from '../yt-dlp.service';
 import { MusicProvider } from './music-provider.decorator';
 import type {
   AudioInfo,
+  AudioStreamOptions,
   MusicProvider as MusicProviderInterface,
+  PlaylistFetchOptions,
+  PlaylistInfo,
+  SearchResult,
 } from './music-provider.interface';
 
 const YOUTUBE_URL_PATTERN = regex(
   '(?:youtube\\.com/(?:watch\\?v=|embed/|shorts/)|youtu\\.be/)([a-zA-Z0-9_-]{11})',
 );
 const VIDEO_ID_PATTERN = regex('^([a-zA-Z0-9_-]{11})$');
+const PLAYLIST_URL_PATTERN = regex(
+  '(?:youtube\\.com/(?:watch|playlist)\\?(?:[^#]*&)?list=)([a-zA-Z0-9_-]+)',
+);
+// Auto-generated mixes (RD…) are endless radio lists that cannot be browsed
+const MIX_PLAYLIST_PREFIX = 'RD';
+const OPUS_BITRATE = '128k';
+
+export type YouTubeBackend = NonNullable<
+  NonNullable<Config['youtube']>['backend']
+>;
+
+// Which path served each track, so a broken SABR or PoToken setup shows up in the logs
+interface YouTubeBackendStats {
+  sabr: number;
+  ytdlp: number;
+  ytdlpFallback: number;
+  failed: number;
+}
 
-@MusicProvider()
+type YouTubeStreamPath = Exclude<keyof YouTubeBackendStats, 'failed'>;
+
+@MusicProvider({ priority: 100, capabilities: ['search', 'fallback'] })
 @Injectable()
 export class YouTubeProvider implements MusicProviderInterface, OnModuleInit {
   public readonly name = 'YouTube';
   private readonly logger = new Logger(YouTubeProvider.name);
+  private readonly backend: YouTubeBackend;
+  private readonly stats: YouTubeBackendStats = {
+    sabr: 0,
+    ytdlp: 0,
+    ytdlpFallback: 0,
+    failed: 0,
+  };
 
-  public constructor(private readonly streamService: YouTubeStreamService) {}
+  public constructor(
+    private readonly streamService: YouTubeStreamService,
+    private readonly ytDlp: YtDlpService,
+    configService: ConfigService<Config, true>,
+  ) {
+    this.backend =
+      configService.get('youtube', { infer: true })?.backend ??
+      'sabr-then-ytdlp';
+  }
 
   public onModuleInit(): void {
-    this.logger.log('YouTube provider initialized with youtubei.js backend');
+    this.logger.log(
+      `YouTube provider initialized with ${this.backend} backend`,
+    );
   }
 
   public canHandle(url: string): boolean {
-    return this.extractVideoId(url) !== null;
+    return this.extractVideoId(url) !== null || this.isPlaylist(url);
+  }
+
+  public isPlaylist(url: string): boolean {
+    return this.extractPlaylistId(url) !== null;
+  }
+
+  public async fetchPlaylist(
+    url: string,
+    requester: TrackRequester,
+    options: PlaylistFetchOptions,
+  ): Promise<PlaylistInfo> {
+    const playlistId = this.extractPlaylistId(url);
+    if (!playlistId) {
+      throw new Error('Invalid YouTube playlist URL');
+    }
+
+    const playlist = await this.streamService.getPlaylist(playlistId, options);
+
+    return {
+      title: playlist.title,
+      url: playlist.url,
+      tracks: playlist.videos.map((video) => ({
+        url: video.url,
+        title: video.title,
+        duration: video.duration,
+        thumbnail: video.thumbnail,
+        requestedBy: requester.tag,
+        requesterId: requester.id,
+      })),
+      truncated: playlist.truncated,
+    };
   }
 
   public async fetchTrackInfo(
     url: string,
-    requestedBy: string,
+    requester: TrackRequester,
   ): Promise<Track> {
     const videoId = this.extractVideoId(url);
     if (!videoId) {
@@ -45,20 +122,40 @@ export class YouTubeProvider implements MusicProviderInterface, OnModuleInit {
       title: metadata.title,
       duration: metadata.duration,
       thumbnail: metadata.thumbnail,
-      requestedBy,
+      requestedBy: requester.tag,
+      requesterId: requester.id,
     };
   }
 
-  public async getAudioInfo(url: string): Promise<AudioInfo> {
+  public async getAudioInfo(
+    url: string,
+    options: AudioStreamOptions = {},
+  ): Promise<AudioInfo> {
     const videoId = this.extractVideoId(url);
     if (!videoId) {
       throw new Error('Invalid YouTube URL');
     }
 
-    return this.streamService.getAudioStream(videoId);
+    try {
+      const [path, audio] = await this.acquireAudio(videoId, options);
+      this.stats[path]++;
+      this.logger.log(
+        `youtube.backend.served: ${videoId} via ${path} ${this.formatStats()}`,
+      );
+      return audio;
+    } catch (error) {
+      this.stats.failed++;
+      this.logger.log(
+        `youtube.backend.failed: ${videoId} ${this.formatStats()}`,
+      );
+      throw error;
+    }
   }
 
-  public async search(query: string, requestedBy: string): Promise<Track> {
+  public async search(
+    query: string,
+    requester: TrackRequester,
+  ): Promise<Track> {
     const metadata = await this.streamService.search(query);
 
     return {
@@ -66,10 +163,121 @@ export class YouTubeProvider implements MusicProviderInterface, OnModuleInit {
       title: metadata.title,
       duration: metadata.duration,
       thumbnail: metadata.thumbnail,
-      requestedBy,
+      requestedBy: requester.tag,
+      requesterId: requester.id,
     };
   }
 
+  public async searchMany(
+    query: string,
+    requester: TrackRequester,
+    limit: number,
+  ): Promise<SearchResult[]> {
+    const results = await this.streamService.searchMany(query, limit);
+
+    return results.map((result) => ({
+      track: {
+        url: result.url,
+        title: result.title,
+        duration: result.duration,
+        thumbnail: result.thumbnail,
+        requestedBy: requester.tag,
+        requesterId: requester.id,
+      },
+      channel: result.channel,
+    }));
+  }
+
+  public async getSuggestions(query: string): Promise<string[]> {
+    return this.streamService.getSearchSuggestions(query);
+  }
+
+  public async getRelated(
+    url: string,
+    requester: TrackRequester,
+    limit: number,
+  ): Promise<Track[]> {
+    const videoId = this.extractVideoId(url);
+    if (!videoId) {
+      throw new Error('Invalid YouTube URL');
+    }
+
+    const related = await this.streamService.getRelated(videoId, limit);
+
+    return related.map((metadata) => ({
+      url: metadata.url,
+      title: metadata.title,
+      duration: metadata.duration,
+      thumbnail: metadata.thumbnail,
+      requestedBy: requester.tag,
+      requesterId: requester.id,
+    }));
+  }
+
+  private async acquireAudio(
+    videoId: string,
+    options: AudioStreamOptions,
+  ): Promise<[YouTubeStreamPath, AudioInfo]> {
+    if (this.backend === 'ytdlp') {
+      return ['ytdlp', await this.getYtDlpAudio(videoId, options)];
+    }
+
+    try {
+      return [
+        'sabr',
+        await this.streamService.getAudioStream(videoId, options),
+      ];
+    } catch (error) {
+      if (this.backend === 'sabr') {
+        throw error;
+      }
+
+      this.logger.warn(
+        `youtube.backend.fallback: ${videoId} retrying through yt-dlp (${error instanceof Error ? error.message : String(error)})`,
+      );
+      return ['ytdlpFallback', await this.getYtDlpAudio(videoId, options)];
+    }
+  }
+
+  private async getYtDlpAudio(
+    videoId: string,
+    options: AudioStreamOptions,
+  ): Promise<AudioInfo> {
+    const audio = await this.ytDlp.getAudioInfo(
+      `https://www.youtube.com/watch?v=${videoId}`,
+    );
+    const startTimeMs = options.startTimeMs ?? 0;
+
+    const source = spawnFfmpeg([
+      ...(startTimeMs > 0 ? ['-ss', (startTimeMs / 1000).toFixed(3)] : []),
+      '-i',
+      audio.url,
+      '-vn',
+      ...(audio.codec === 'opus'
+        ? ['-c:a', 'copy']
+        : ['-c:a', 'libopus', '-b:a', OPUS_BITRATE]),
+      '-f',
+      'ogg',
+      'pipe:1',
+    ]);
+
+    return { source, streamType: StreamType.OggOpus };
+  }
+
+  private formatStats(): string {
+    const { sabr, ytdlp, ytdlpFallback, failed } = this.stats;
+    return `(sabr=${String(sabr)} ytdlp=${String(ytdlp)} fallback=${String(ytdlpFallback)} failed=${String(failed)})`;
+  }
+
+  private extractPlaylistId(url: string): string | null {
+    const playlistId = PLAYLIST_URL_PATTERN.exec(url)?.[1];
+    if (!playlistId || playlistId.startsWith(MIX_PLAYLIST_PREFIX)) {
+      return null;
+    }
+
+    return playlistId;
+  }
+
   private extractVideoId(url: string): string | null {
     const urlMatch = YOUTUBE_URL_PATTERN.exec(url);
     if (urlMatch?.[1]) {
@@ -0,0 +1,187 @@
+import type { ButtonBuilder, StringSelectMenuBuilder } from 'discord.js';
+import { ComponentType } from 'discord.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { LoopMode, type Track } from './music-queue';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+import { QueueViewService } from './queue-view.service';
+
+const createTrack = (n: number): Track => ({
+  url: `https://youtube.com/watch?v=${String(n)}`,
+  title: `Track ${String(n)}`,
+  duration: 100 + n,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+});
+
+interface RowLike {
+  components: (ButtonBuilder | StringSelectMenuBuilder)[];
+}
+
+describe('QueueViewService', () => {
+  let service: QueueViewService;
+  let musicService: MusicService;
+
+  beforeEach(() => {
+    musicService = {
+      getQueue: vi
+        .fn()
+        .mockReturnValue(
+          Array.from({ length: 23 }, (_, i) => createTrack(i + 1)),
+        ),
+      getCurrentIndex: vi.fn().mockReturnValue(11),
+      getLoopMode: vi.fn().mockReturnValue(LoopMode.Queue),
+    } as unknown as MusicService;
+
+    const nowPlayingService = {
+      getAccentColor: vi.fn().mockReturnValue(0x5865f2),
+    } as unknown as NowPlayingService;
+
+    service = new QueueViewService(musicService, nowPlayingService);
+  });
+
+  it('renders a page with row actions and paging controls', () => {
+    const [container] = service.build('guild-123', 1);
+
+    expect(container?.data.accent_color).toBe(0x5865f2);
+
+    const json = container?.toJSON();
+    const [list, footer, , playNextRow, removeRow, buttonRow] =
+      json?.components ?? [];
+
+    expect(list).toMatchObject({ type: ComponentType.TextDisplay });
+    const lines = (list as { content: string }).content.split('\n');
+    expect(lines[0]).toBe('### 🎵 Music Queue');
+    expect(lines[1]).toBe(
+      '**11.** [Track 11](https://youtube.com/watch?v=11) • 1:51',
+    );
+    expect(lines[2]).toBe(
+      '▶️ **12.** [Track 12](https://youtube.com/watch?v=12) • 1:52',
+    );
+    expect(lines).toHaveLength(11);
+
+    // 111 + 112 + ... + 120 seconds
+    expect(footer).toMatchObject({
+      content: '-# Page 2/3 • 23 tracks • 19:15 on this page • Loop: 🔁 queue',
+    });
+
+    expect(playNextRow).toMatchObject({
+      components: [{ custom_id: 'music_queue_next/1' }],
+    });
+    expect(removeRow).toMatchObject({
+      components: [{ custom_id: 'music_queue_remove/1' }],
+    });
+    const options = (
+      removeRow as { components: { options: { value: string }[] }[] }
+    ).components[0]?.options;
+    expect(options?.map((option) => option.value)).toEqual(
+      [10, 12, 13, 14, 15, 16, 17, 18, 19].map(
+        (index) =>
+          `${String(index)}:https://youtube.com/watch?v=${String(index + 1)}`,
+      ),
+    );
+
+    expect(buttonRow).toMatchObject({
+      components: [
+        { custom_id: 'music_queue/first/1', disabled: false },
+        { custom_id: 'music_queue/prev/1', disabled: false },
+        { custom_id: 'music_queue/now/1', disabled: true },
+        { custom_id: 'music_queue/next/1', disabled: false },
+        { custom_id: 'music_queue/last/1', disabled: false },
+      ],
+    });
+  });
+
+  it('clamps the page to the queue size', () => {
+    const [container] = service.build('guild-123', 99);
+
+    const buttonRow = container?.components.at(-1) as unknown as RowLike;
+    expect(buttonRow.components.map((button) => button.data)).toMatchObject([
+      { custom_id: 'music_queue/first/2', disabled: false },
+      { custom_id: 'music_queue/prev/2', disabled: false },
+      { custom_id: 'music_queue/now/2', disabled: false },
+      { custom_id: 'music_queue/next/2', disabled: true },
+      { custom_id: 'music_queue/last/2', disabled: true },
+    ]);
+  });
+
+  it('omits row actions when only the current track is on the page', () => {
+    vi.mocked(musicService.getQueue).mockReturnValue([createTrack(1)]);
+    vi.mocked(musicService.getCurrentIndex).mockReturnValue(0);
+
+    const [container] = service.build('guild-123', 0);
+
+    const rows = container
+      ?.toJSON()
+      .components.filter(
+        (component) => component.type === ComponentType.ActionRow,
+      );
+    expect(rows).toHaveLength(1);
+  });
+
+  it('shows a notice when the queue is empty', () => {
+    vi.mocked(musicService.getQueue).mockReturnValue([]);
+
+    const [container] = service.build('guild-123', 0);
+
+    expect(container?.toJSON().components).toEqual([
+      {
+        type: ComponentType.TextDisplay,
+        content: '### 🎵 Music Queue\nThe queue is empty.',
+      },
+    ]);
+  });
+
+  describe('resolveSelection', () => {
+    it('returns the index while the same track is there', () => {
+      expect(
+        service.resolveSelection(
+          'guild-123',
+          '14:https://youtube.com/watch?v=15',
+        ),
+      ).toBe(14);
+    });
+
+    it.each([
+      [
+        'a different track moved into place',
+        '14:https://youtube.com/watch?v=99',
+      ],
+      ['the position is past the end', '40:https://youtube.com/watch?v=41'],
+      ['the value is malformed', 'nope'],
+    ])('rejects the pick when %s', (_, value) => {
+      expect(service.resolveSelection('guild-123', value)).toBeUndefined();
+    });
+
+    it('matches long URLs by the part that fits in the value', () => {
+      const track = {
+        ...createTrack(1),
+        url: `https://cdn.discordapp.com/attachments/1/2/clip.mp3?hm=${'a'.repeat(120)}`,
+      };
+      vi.mocked(musicService.getQueue).mockReturnValue([track, track]);
+      vi.mocked(musicService.getCurrentIndex).mockReturnValue(0);
+
+      const [container] = service.build('guild-123', 0);
+      const removeRow = container?.toJSON().components[4] as {
+        components: { options: { value: string }[] }[];
+      };
+      const value = removeRow.components[0]?.options[0]?.value ?? '';
+
+      expect(value).toHaveLength(100);
+      expect(service.resolveSelection('guild-123', value)).toBe(1);
+    });
+  });
+
+  describe('resolvePage', () => {
+    it.each([
+      ['first', 0],
+      ['prev', 1],
+      ['now', 1],
+      ['next', 3],
+      ['last', Number.MAX_SAFE_INTEGER],
+    ] as const)('resolves %s', (navigation, expected) => {
+      expect(service.resolvePage('guild-123', navigation, 2)).toBe(expected);
+    });
+  });
+});
@@ -0,0 +1,208 @@
+import { Injectable } from '@nestjs/common';
+import {
+  ActionRowBuilder,
+  ButtonBuilder,
+  ButtonStyle,
+  ContainerBuilder,
+  SeparatorBuilder,
+  StringSelectMenuBuilder,
+  TextDisplayBuilder,
+} from 'discord.js';
+import {
+  formatDuration,
+  isLiveTrack,
+  LoopMode,
+  type Track,
+} from './music-queue';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+
+export const QUEUE_PAGE_BUTTON_PREFIX = 'music_queue';
+export const QUEUE_REMOVE_SELECT_PREFIX = 'music_queue_remove';
+export const QUEUE_PLAY_NEXT_SELECT_PREFIX = 'music_queue_next';
+
+export type QueueNavigation = 'first' | 'prev' | 'now' | 'next' | 'last';
+
+const QUEUE_PAGE_SIZE = 10;
+const SELECT_TEXT_LIMIT = 100;
+
+const LOOP_MODE_EMOJI: Record<LoopMode, string> = {
+  [LoopMode.None]: '➡️',
+  [LoopMode.Track]: '🔂',
+  [LoopMode.Queue]: '🔁',
+};
+
+@Injectable()
+export class QueueViewService {
+  public constructor(
+    private readonly musicService: MusicService,
+    private readonly nowPlayingService: NowPlayingService,
+  ) {}
+
+  public getNowPlayingPage(guildId: string): number {
+    return Math.floor(
+      this.musicService.getCurrentIndex(guildId) / QUEUE_PAGE_SIZE,
+    );
+  }
+
+  // Menus can outlive the queue they were drawn from, so a pick only counts
+  // while the same track still sits at that position
+  public resolveSelection(
+    guildId: string,
+    value: string | undefined,
+  ): number | undefined {
+    if (value === undefined) {
+      return undefined;
+    }
+
+    const index = Number.parseInt(value, 10);
+    const track = this.musicService.getQueue(guildId).at(index);
+    if (Number.isNaN(index) || index < 0 || !track) {
+      return undefined;
+    }
+
+    return this.selectValue(index, track) === value ? index : undefined;
+  }
+
+  public resolvePage(
+    guildId: string,
+    navigation: QueueNavigation,
+    page: number,
+  ): number {
+    switch (navigation) {
+      case 'first':
+        return 0;
+      case 'prev':
+        return page - 1;
+      case 'now':
+        return this.getNowPlayingPage(guildId);
+      case 'next':
+        return page + 1;
+      case 'last':
+        return Number.MAX_SAFE_INTEGER;
+    }
+  }
+
+  public build(guildId: string, page: number): ContainerBuilder[] {
+    const tracks = this.musicService.getQueue(guildId);
+    const currentIndex = this.musicService.getCurrentIndex(guildId);
+
+    const container = new ContainerBuilder().setAccentColor(
+      this.nowPlayingService.getAccentColor(guildId),
+    );
+
+    if (tracks.length === 0) {
+      return [
+        container.addTextDisplayComponents(
+          new TextDisplayBuilder().setContent(
+            '### 🎵 Music Queue\nThe queue is empty.',
+          ),
+        ),
+      ];
+    }
+
+    // The queue may have shrunk since the page was rendered
+    const totalPages = Math.ceil(tracks.length / QUEUE_PAGE_SIZE);
+    const currentPage = Math.min(Math.max(0, page), totalPages - 1);
+    const offset = currentPage * QUEUE_PAGE_SIZE;
+    const pageTracks = tracks.slice(offset, offset + QUEUE_PAGE_SIZE);
+
+    const lines = pageTracks.map((track, i) => {
+      const index = offset + i;
+      const marker = index === currentIndex ? '▶️ ' : '';
+      return `${marker}**${String(index + 1)}.** [${track.title}](${track.url}) • ${formatDuration(track.duration)}`;
+    });
+
+    const pageDuration = pageTracks
+      .filter((track) => !isLiveTrack(track))
+      .reduce((total, track) => total + track.duration, 0);
+    const loopMode = this.musicService.getLoopMode(guildId);
+
+    container
+      .addTextDisplayComponents(
+        new TextDisplayBuilder().setContent(
+          `### 🎵 Music Queue\n${lines.join('\n')}`,
+        ),
+        new TextDisplayBuilder().setContent(
+          `-# Page ${String(currentPage + 1)}/${String(totalPages)} • ${String(tracks.length)} tracks • ${formatDuration(pageDuration)} on this page • Loop: ${LOOP_MODE_EMOJI[loopMode]} ${loopMode}`,
+        ),
+      )
+      .addSeparatorComponents(new SeparatorBuilder());
+
+    const editable = pageTracks
+      .map((track, i) => ({ track, index: offset + i }))
+      .filter(({ index }) => index !== currentIndex);
+
+    if (editable.length > 0) {
+      const options = editable.map(({ track, index }) => ({
+        label: this.truncate(`${String(index + 1)}. ${track.title}`),
+        description: this.truncate(
+          `${formatDuration(track.duration)} • Requested by ${track.requestedBy}`,
+        ),
+        value: this.selectValue(index, track),
+      }));
+
+      container.addActionRowComponents(
+        new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+          new StringSelectMenuBuilder()
+            .setCustomId(
+              `${QUEUE_PLAY_NEXT_SELECT_PREFIX}/${String(currentPage)}`,
+            )
+            .setPlaceholder('Play a track next')
+            .addOptions(options),
+        ),
+        new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(
+          new StringSelectMenuBuilder()
+            .setCustomId(`${QUEUE_REMOVE_SELECT_PREFIX}/${String(currentPage)}`)
+            .setPlaceholder('Remove a track')
+            .addOptions(options),
+        ),
+      );
+    }
+
+    const isFirst = currentPage === 0;
+    const isLast = currentPage >= totalPages - 1;
+
+    container.addActionRowComponents(
+      new ActionRowBuilder<ButtonBuilder>().addComponents(
+        this.buildNavButton('first', currentPage, '⏮️', isFirst),
+        this.buildNavButton('prev', currentPage, '◀️', isFirst),
+        this.buildNavButton(
+          'now',
+          currentPage,
+          '🎵',
+          currentPage === this.getNowPlayingPage(guildId),
+        ).setLabel('Now Playing'),
+        this.buildNavButton('next', currentPage, '▶️', isLast),
+        this.buildNavButton('last', currentPage, '⏭️', isLast),
+      ),
+    );
+
+    return [container];
+  }
+
+  private buildNavButton(
+    navigation: QueueNavigation,
+    page: number,
+    emoji: string,
+    disabled: boolean,
+  ): ButtonBuilder {
+    return new ButtonBuilder()
+      .setCustomId(`${QUEUE_PAGE_BUTTON_PREFIX}/${navigation}/${String(page)}`)
+      .setEmoji(emoji)
+      .setStyle(ButtonStyle.Secondary)
+      .setDisabled(disabled);
+  }
+
+  // Select values are capped like labels, so long URLs are cut rather than
+  // ellipsised to keep the comparison exact
+  private selectValue(index: number, track: Track): string {
+    return `${String(index)}:${track.url}`.slice(0, SELECT_TEXT_LIMIT);
+  }
+
+  private truncate(text: string): string {
+    return text.length > SELECT_TEXT_LIMIT
+      ? `${text.slice(0, SELECT_TEXT_LIMIT - 1)}…`
+      : text;
+  }
+}
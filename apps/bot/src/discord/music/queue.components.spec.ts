@@ -0,0 +1,198 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+import type {
+  ButtonInteraction,
+  StringSelectMenuInteraction,
+} from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Track } from './music-queue';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+import { QueueComponents } from './queue.components';
+import { QueueViewService } from './queue-view.service';
+
+const mockTrack: Track = {
+  url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+  title: 'Test Video',
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+};
+
+function createInteraction(): StringSelectMenuInteraction {
+  return {
+    guildId: 'guild-123',
+    inGuild: vi.fn().mockReturnValue(true),
+    reply: vi.fn().mockResolvedValue(undefined),
+    deferUpdate: vi.fn().mockResolvedValue(undefined),
+    editReply: vi.fn().mockResolvedValue(undefined),
+  } as unknown as StringSelectMenuInteraction;
+}
+
+describe('QueueComponents', () => {
+  let components: QueueComponents;
+  let musicService: MusicService;
+  let nowPlayingService: NowPlayingService;
+  let queueView: QueueViewService;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    musicService = {
+      moveToNext: vi.fn().mockReturnValue(mockTrack),
+      remove: vi.fn().mockReturnValue(mockTrack),
+    } as unknown as MusicService;
+
+    nowPlayingService = {
+      sendNowPlaying: vi.fn().mockResolvedValue(undefined),
+    } as unknown as NowPlayingService;
+
+    queueView = {
+      build: vi.fn().mockReturnValue(['queue']),
+      resolvePage: vi.fn().mockReturnValue(3),
+      resolveSelection: vi.fn((_: string, value: string) =>
+        Number.parseInt(value, 10),
+      ),
+    } as unknown as QueueViewService;
+
+    components = new QueueComponents(
+      musicService,
+      nowPlayingService,
+      queueView,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  describe('onPageButton', () => {
+    it('renders the resolved page in place', async () => {
+      const interaction = createInteraction() as unknown as ButtonInteraction;
+
+      await components.onPageButton([interaction], 'next', '2');
+
+      expect(queueView.resolvePage).toHaveBeenCalledWith(
+        'guild-123',
+        'next',
+        2,
+      );
+      expect(interaction.deferUpdate).toHaveBeenCalled();
+      expect(queueView.build).toHaveBeenCalledWith('guild-123', 3);
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        components: ['queue'],
+      });
+    });
+
+    it('does nothing when not in guild', async () => {
+      const interaction = createInteraction() as unknown as ButtonInteraction;
+      vi.mocked(interaction.inGuild).mockReturnValue(false);
+
+      await components.onPageButton([interaction], 'next', '2');
+
+      expect(queueView.build).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onPlayNextSelect', () => {
+    it('asks for a refresh when the queue changed', async () => {
+      vi.mocked(queueView.resolveSelection).mockReturnValue(undefined);
+      const interaction = createInteraction();
+
+      await components.onPlayNextSelect([interaction], '1', [
+        '14:https://youtube.com/watch?v=15',
+      ]);
+
+      expect(musicService.moveToNext).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content:
+          'The queue changed since this list was shown. Refresh it with `/music queue` and try again.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('moves the track and rerenders the same page', async () => {
+      const interaction = createInteraction();
+
+      await components.onPlayNextSelect([interaction], '1', [
+        '14:https://youtube.com/watch?v=15',
+      ]);
+
+      expect(queueView.resolveSelection).toHaveBeenCalledWith(
+        'guild-123',
+        '14:https://youtube.com/watch?v=15',
+      );
+      expect(musicService.moveToNext).toHaveBeenCalledWith('guild-123', 14);
+      expect(queueView.build).toHaveBeenCalledWith('guild-123', 1);
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        components: ['queue'],
+      });
+      expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith(
+        'guild-123',
+      );
+    });
+
+    it('replies when the track is gone', async () => {
+      vi.mocked(musicService.moveToNext).mockReturnValue(undefined);
+      const interaction = createInteraction();
+
+      await components.onPlayNextSelect([interaction], '1', [
+        '14:https://youtube.com/watch?v=15',
+      ]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'That track is no longer in the queue.',
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(interaction.editReply).not.toHaveBeenCalled();
+    });
+  });
+
+  describe('onRemoveSelect', () => {
+    it('asks for a refresh when the queue changed', async () => {
+      vi.mocked(queueView.resolveSelection).mockReturnValue(undefined);
+      const interaction = createInteraction();
+
+      await components.onRemoveSelect([interaction], '0', [
+        '3:https://youtube.com/watch?v=4',
+      ]);
+
+      expect(musicService.remove).not.toHaveBeenCalled();
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content:
+          'The queue changed since this list was shown. Refresh it with `/music queue` and try again.',
+        flags: MessageFlags.Ephemeral,
+      });
+    });
+
+    it('removes the track and rerenders the same page', async () => {
+      const interaction = createInteraction();
+
+      await components.onRemoveSelect([interaction], '0', [
+        '3:https://youtube.com/watch?v=4',
+      ]);
+
+      expect(musicService.remove).toHaveBeenCalledWith('guild-123', 3);
+      expect(queueView.build).toHaveBeenCalledWith('guild-123', 0);
+      expect(interaction.editReply).toHaveBeenCalledWith({
+        components: ['queue'],
+      });
+    });
+
+    it('replies when the track is gone', async () => {
+      vi.mocked(musicService.remove).mockReturnValue(undefined);
+      const interaction = createInteraction();
+
+      await components.onRemoveSelect([interaction], '0', [
+        '3:https://youtube.com/watch?v=4',
+      ]);
+
+      expect(interaction.reply).toHaveBeenCalledWith({
+        content: 'That track is no longer in the queue.',
+        flags: MessageFlags.Ephemeral,
+      });
+      expect(nowPlayingService.sendNowPlaying).not.toHaveBeenCalled();
+    });
+  });
+});
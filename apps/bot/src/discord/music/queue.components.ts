@@ -0,0 +1,122 @@
+import { Injectable } from '@nestjs/common';
+import { MessageFlags } from 'discord.js';
+import {
+  Button,
+  type ButtonContext,
+  ComponentParam,
+  Ctx,
+  SelectedStrings,
+  StringSelect,
+  type StringSelectContext,
+} from 'necord';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+import {
+  QUEUE_PAGE_BUTTON_PREFIX,
+  QUEUE_PLAY_NEXT_SELECT_PREFIX,
+  QUEUE_REMOVE_SELECT_PREFIX,
+  type QueueNavigation,
+  QueueViewService,
+} from './queue-view.service';
+
+const QUEUE_CHANGED_MESSAGE =
+  'The queue changed since this list was shown. Refresh it with `/music queue` and try again.';
+
+@Injectable()
+export class QueueComponents {
+  public constructor(
+    private readonly musicService: MusicService,
+    private readonly nowPlayingService: NowPlayingService,
+    private readonly queueView: QueueViewService,
+  ) {}
+
+  @Button(`${QUEUE_PAGE_BUTTON_PREFIX}/:navigation/:page`)
+  public async onPageButton(
+    @Ctx() [interaction]: ButtonContext,
+    @ComponentParam('navigation') navigation: QueueNavigation,
+    @ComponentParam('page') page: string,
+  ) {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    const guildId = interaction.guildId;
+    await interaction.deferUpdate();
+    await interaction.editReply({
+      components: this.queueView.build(
+        guildId,
+        this.queueView.resolvePage(guildId, navigation, Number(page)),
+      ),
+    });
+  }
+
+  @StringSelect(`${QUEUE_PLAY_NEXT_SELECT_PREFIX}/:page`)
+  public async onPlayNextSelect(
+    @Ctx() [interaction]: StringSelectContext,
+    @ComponentParam('page') page: string,
+    @SelectedStrings() [value]: string[],
+  ) {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    const guildId = interaction.guildId;
+    const index = this.queueView.resolveSelection(guildId, value);
+    if (index === undefined) {
+      return interaction.reply({
+        content: QUEUE_CHANGED_MESSAGE,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const moved = this.musicService.moveToNext(guildId, index);
+    if (!moved) {
+      return interaction.reply({
+        content: 'That track is no longer in the queue.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferUpdate();
+    await interaction.editReply({
+      components: this.queueView.build(guildId, Number(page)),
+    });
+    await this.nowPlayingService.sendNowPlaying(guildId);
+    return;
+  }
+
+  @StringSelect(`${QUEUE_REMOVE_SELECT_PREFIX}/:page`)
+  public async onRemoveSelect(
+    @Ctx() [interaction]: StringSelectContext,
+    @ComponentParam('page') page: string,
+    @SelectedStrings() [value]: string[],
+  ) {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    const guildId = interaction.guildId;
+    const index = this.queueView.resolveSelection(guildId, value);
+    if (index === undefined) {
+      return interaction.reply({
+        content: QUEUE_CHANGED_MESSAGE,
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const removed = this.musicService.remove(guildId, index);
+    if (!removed) {
+      return interaction.reply({
+        content: 'That track is no longer in the queue.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    await interaction.deferUpdate();
+    await interaction.editReply({
+      components: this.queueView.build(guildId, Number(page)),
+    });
+    await this.nowPlayingService.sendNowPlaying(guildId);
+    return;
+  }
+}
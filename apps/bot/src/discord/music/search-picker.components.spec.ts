@@ -0,0 +1,200 @@
+/* eslint-disable @typescript-eslint/no-deprecated */
+import type {
+  GuildMember,
+  StringSelectMenuInteraction,
+  VoiceChannel,
+} from 'discord.js';
+import { MessageFlags } from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { VoiceService } from '../voice/voice.service';
+import type { Track } from './music-queue';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+import { SearchPickerComponents } from './search-picker.components';
+import { SearchPickerService } from './search-picker.service';
+
+const mockTrack: Track = {
+  url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+  title: 'Test Video',
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+};
+
+const secondTrack: Track = { ...mockTrack, title: 'Second Video' };
+
+describe('SearchPickerComponents', () => {
+  let components: SearchPickerComponents;
+  let musicService: MusicService;
+  let voiceService: VoiceService;
+  let nowPlayingService: NowPlayingService;
+  let searchPicker: SearchPickerService;
+  let mockInteraction: StringSelectMenuInteraction;
+  let mockVoiceChannel: VoiceChannel;
+
+  beforeEach(() => {
+    vi.clearAllMocks();
+
+    mockVoiceChannel = { id: 'voice-123' } as unknown as VoiceChannel;
+
+    mockInteraction = {
+      guildId: 'guild-123',
+      channelId: 'channel-123',
+      user: { id: 'user-123' },
+      message: { id: 'message-123' },
+      guild: {
+        members: {
+          cache: {
+            get: vi.fn().mockReturnValue({
+              voice: { channel: mockVoiceChannel },
+            }),
+          },
+        },
+      },
+      inGuild: vi.fn().mockReturnValue(true),
+      reply: vi.fn().mockResolvedValue(undefined),
+      deferUpdate: vi.fn().mockResolvedValue(undefined),
+      editReply: vi.fn().mockResolvedValue(undefined),
+    } as unknown as StringSelectMenuInteraction;
+
+    musicService = {
+      playTracks: vi.fn().mockResolvedValue(undefined),
+      setupAutoPlay: vi.fn(),
+    } as unknown as MusicService;
+
+    voiceService = {
+      isConnected: vi.fn().mockReturnValue(false),
+      join: vi.fn().mockResolvedValue({}),
+    } as unknown as VoiceService;
+
+    nowPlayingService = {
+      setChannelForGuild: vi.fn(),
+      sendNowPlaying: vi.fn().mockResolvedValue(undefined),
+    } as unknown as NowPlayingService;
+
+    searchPicker = {
+      take: vi.fn().mockReturnValue({
+        status: 'taken',
+        session: {
+          userId: 'user-123',
+          guildId: 'guild-123',
+          results: [
+            { track: mockTrack, channel: 'Test Channel' },
+            { track: secondTrack, channel: 'Test Channel' },
+          ],
+        },
+      }),
+      buildAddedComponents: vi.fn().mockReturnValue(['added']),
+      buildNoticeComponents: vi.fn().mockReturnValue(['notice']),
+    } as unknown as SearchPickerService;
+
+    components = new SearchPickerComponents(
+      musicService,
+      voiceService,
+      nowPlayingService,
+      searchPicker,
+    );
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('queues the selected tracks and updates the picker', async () => {
+    await components.onSelect([mockInteraction], ['1', '0']);
+
+    expect(searchPicker.take).toHaveBeenCalledWith('message-123', 'user-123');
+    expect(mockInteraction.deferUpdate).toHaveBeenCalled();
+    expect(voiceService.join).toHaveBeenCalledWith(mockVoiceChannel);
+    expect(nowPlayingService.setChannelForGuild).toHaveBeenCalledWith(
+      'guild-123',
+      'channel-123',
+    );
+    expect(musicService.playTracks).toHaveBeenCalledWith('guild-123', [
+      secondTrack,
+      mockTrack,
+    ]);
+    expect(musicService.setupAutoPlay).toHaveBeenCalledWith('guild-123');
+    expect(mockInteraction.editReply).toHaveBeenCalledWith({
+      components: ['added'],
+    });
+    expect(nowPlayingService.sendNowPlaying).toHaveBeenCalledWith('guild-123');
+  });
+
+  it('does not rejoin when already connected', async () => {
+    vi.mocked(voiceService.isConnected).mockReturnValue(true);
+
+    await components.onSelect([mockInteraction], ['0']);
+
+    expect(voiceService.join).not.toHaveBeenCalled();
+    expect(musicService.playTracks).toHaveBeenCalledWith('guild-123', [
+      mockTrack,
+    ]);
+  });
+
+  it('does nothing when not in guild', async () => {
+    vi.mocked(mockInteraction.inGuild).mockReturnValue(false);
+
+    await components.onSelect([mockInteraction], ['0']);
+
+    expect(searchPicker.take).not.toHaveBeenCalled();
+  });
+
+  it('requires the user to be in a voice channel', async () => {
+    const guild = mockInteraction.guild;
+    if (guild) {
+      vi.mocked(guild.members.cache.get).mockReturnValue({
+        voice: { channel: null },
+      } as unknown as GuildMember);
+    }
+
+    await components.onSelect([mockInteraction], ['0']);
+
+    expect(mockInteraction.reply).toHaveBeenCalledWith({
+      content: 'You must be in a voice channel to use this command.',
+      flags: MessageFlags.Ephemeral,
+    });
+    expect(searchPicker.take).not.toHaveBeenCalled();
+  });
+
+  it('replies when the search has expired', async () => {
+    vi.mocked(searchPicker.take).mockReturnValue({ status: 'expired' });
+
+    await components.onSelect([mockInteraction], ['0']);
+
+    expect(mockInteraction.reply).toHaveBeenCalledWith({
+      content: 'This search has expired. Run `/music search` again.',
+      flags: MessageFlags.Ephemeral,
+    });
+    expect(musicService.playTracks).not.toHaveBeenCalled();
+  });
+
+  it('tells other members only the searcher can pick', async () => {
+    vi.mocked(searchPicker.take).mockReturnValue({ status: 'not-requester' });
+
+    await components.onSelect([mockInteraction], ['0']);
+
+    expect(mockInteraction.reply).toHaveBeenCalledWith({
+      content: 'Only the person who searched can pick from these results.',
+      flags: MessageFlags.Ephemeral,
+    });
+    expect(musicService.playTracks).not.toHaveBeenCalled();
+  });
+
+  it('shows a notice when playback fails', async () => {
+    vi.mocked(musicService.playTracks).mockRejectedValue(
+      new Error('Stream unavailable'),
+    );
+
+    await components.onSelect([mockInteraction], ['0']);
+
+    expect(searchPicker.buildNoticeComponents).toHaveBeenCalledWith(
+      'guild-123',
+      'Failed to play: Stream unavailable',
+    );
+    expect(mockInteraction.editReply).toHaveBeenCalledWith({
+      components: ['notice'],
+    });
+  });
+});
@@ -0,0 +1,94 @@
+import { Injectable, Logger } from '@nestjs/common';
+import { MessageFlags } from 'discord.js';
+import {
+  Ctx,
+  SelectedStrings,
+  StringSelect,
+  type StringSelectContext,
+} from 'necord';
+import { VoiceService } from '../voice/voice.service';
+import type { Track } from './music-queue';
+import { MusicService } from './music.service';
+import { NowPlayingService } from './now-playing.service';
+import {
+  SEARCH_PICKER_SELECT_ID,
+  SearchPickerService,
+} from './search-picker.service';
+
+@Injectable()
+export class SearchPickerComponents {
+  private readonly logger = new Logger(SearchPickerComponents.name);
+
+  public constructor(
+    private readonly musicService: MusicService,
+    private readonly voiceService: VoiceService,
+    private readonly nowPlayingService: NowPlayingService,
+    private readonly searchPicker: SearchPickerService,
+  ) {}
+
+  @StringSelect(SEARCH_PICKER_SELECT_ID)
+  public async onSelect(
+    @Ctx() [interaction]: StringSelectContext,
+    @SelectedStrings() selected: string[],
+  ) {
+    if (!interaction.inGuild()) {
+      return;
+    }
+
+    const member = interaction.guild?.members.cache.get(interaction.user.id);
+    const voiceChannel = member?.voice.channel;
+    if (!voiceChannel) {
+      return interaction.reply({
+        content: 'You must be in a voice channel to use this command.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const picked = this.searchPicker.take(
+      interaction.message.id,
+      interaction.user.id,
+    );
+    if (picked.status !== 'taken') {
+      return interaction.reply({
+        content:
+          picked.status === 'not-requester'
+            ? 'Only the person who searched can pick from these results.'
+            : 'This search has expired. Run `/music search` again.',
+        flags: MessageFlags.Ephemeral,
+      });
+    }
+
+    const { session } = picked;
+    const tracks = selected
+      .map((value) => session.results[Number(value)]?.track)
+      .filter((track): track is Track => track !== undefined);
+
+    await interaction.deferUpdate();
+
+    const guildId = interaction.guildId;
+
+    try {
+      if (!this.voiceService.isConnected(guildId)) {
+        await this.voiceService.join(voiceChannel);
+      }
+
+      this.nowPlayingService.setChannelForGuild(guildId, interaction.channelId);
+      await this.musicService.playTracks(guildId, tracks);
+      this.musicService.setupAutoPlay(guildId);
+
+      await interaction.editReply({
+        components: this.searchPicker.buildAddedComponents(guildId, tracks),
+      });
+      await this.nowPlayingService.sendNowPlaying(guildId);
+      return;
+    } catch (error) {
+      this.logger.error('Failed to play search selection', error);
+      return interaction.editReply({
+        components: this.searchPicker.buildNoticeComponents(
+          guildId,
+          `Failed to play: ${error instanceof Error ? error.message : 'Unknown error'}`,
+        ),
+      });
+    }
+  }
+}
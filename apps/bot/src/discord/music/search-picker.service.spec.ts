@@ -0,0 +1,174 @@
+import type {
+  ChatInputCommandInteraction,
+  ContainerBuilder,
+  StringSelectMenuBuilder,
+} from 'discord.js';
+import { ComponentType, MessageFlags } from 'discord.js';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Track } from './music-queue';
+import { NowPlayingService } from './now-playing.service';
+import type { SearchResult } from './providers/music-provider.interface';
+import {
+  SEARCH_PICKER_SELECT_ID,
+  SearchPickerService,
+} from './search-picker.service';
+
+const mockTrack: Track = {
+  url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+  title: 'Test Video',
+  duration: 3725,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'user#1234',
+  requesterId: 'user-123',
+};
+
+const results: SearchResult[] = [
+  { track: mockTrack, channel: 'Test Channel' },
+  {
+    track: {
+      ...mockTrack,
+      title: 'x'.repeat(120),
+      duration: 65,
+      thumbnail: '',
+    },
+    channel: 'Other Channel',
+  },
+];
+
+function findSelect(container: ContainerBuilder): StringSelectMenuBuilder {
+  const row = container.components.find(
+    (component) => component.data.type === ComponentType.ActionRow,
+  ) as { components: StringSelectMenuBuilder[] } | undefined;
+  const select = row?.components[0];
+  if (!select) {
+    throw new Error('Select menu not found');
+  }
+  return select;
+}
+
+describe('SearchPickerService', () => {
+  let service: SearchPickerService;
+  let nowPlayingService: NowPlayingService;
+  let interaction: ChatInputCommandInteraction;
+
+  beforeEach(() => {
+    vi.useFakeTimers();
+
+    nowPlayingService = {
+      getAccentColor: vi.fn().mockReturnValue(0x5865f2),
+    } as unknown as NowPlayingService;
+
+    interaction = {
+      user: { id: 'user-123' },
+      editReply: vi.fn().mockResolvedValue({ id: 'message-123' }),
+    } as unknown as ChatInputCommandInteraction;
+
+    service = new SearchPickerService(nowPlayingService);
+  });
+
+  afterEach(() => {
+    service.onModuleDestroy();
+    vi.useRealTimers();
+    vi.restoreAllMocks();
+  });
+
+  describe('open', () => {
+    it('renders a components v2 picker with one option per result', async () => {
+      await service.open(interaction, 'guild-123', results);
+
+      const reply = vi.mocked(interaction.editReply).mock.calls[0]?.[0] as {
+        components: ContainerBuilder[];
+        flags: MessageFlags[];
+      };
+      expect(reply.flags).toEqual([MessageFlags.IsComponentsV2]);
+
+      const container = reply.components[0];
+      if (!container) {
+        throw new Error('Container not found');
+      }
+      expect(container.data.accent_color).toBe(0x5865f2);
+      expect(nowPlayingService.getAccentColor).toHaveBeenCalledWith(
+        'guild-123',
+      );
+
+      const types = container.components.map(
+        (component) => component.data.type,
+      );
+      expect(types).toEqual([
+        ComponentType.TextDisplay,
+        ComponentType.Separator,
+        ComponentType.Section,
+        ComponentType.TextDisplay,
+        ComponentType.ActionRow,
+      ]);
+
+      const select = findSelect(container);
+      expect(select.data.custom_id).toBe(SEARCH_PICKER_SELECT_ID);
+      expect(select.data.min_values).toBe(1);
+      expect(select.data.max_values).toBe(2);
+      expect(select.options.map((option) => option.data)).toEqual([
+        {
+          label: '1. Test Video',
+          description: 'Test Channel • 1:02:05',
+          value: '0',
+        },
+        {
+          label: `2. ${'x'.repeat(96)}…`,
+          description: 'Other Channel • 1:05',
+          value: '1',
+        },
+      ]);
+    });
+
+    it('expires the picker after the timeout', async () => {
+      await service.open(interaction, 'guild-123', results);
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(interaction.editReply).toHaveBeenCalledTimes(2);
+      expect(service.take('message-123', 'user-123')).toEqual({
+        status: 'expired',
+      });
+    });
+  });
+
+  describe('take', () => {
+    it('returns the session once for the user who searched', async () => {
+      await service.open(interaction, 'guild-123', results);
+
+      expect(service.take('message-123', 'other-user')).toEqual({
+        status: 'not-requester',
+      });
+      expect(service.take('message-123', 'user-123')).toEqual({
+        status: 'taken',
+        session: { userId: 'user-123', guildId: 'guild-123', results },
+      });
+      expect(service.take('message-123', 'user-123')).toEqual({
+        status: 'expired',
+      });
+    });
+
+    it('cancels the expiry timer', async () => {
+      await service.open(interaction, 'guild-123', results);
+      service.take('message-123', 'user-123');
+
+      await vi.advanceTimersByTimeAsync(60_000);
+
+      expect(interaction.editReply).toHaveBeenCalledTimes(1);
+    });
+  });
+
+  describe('buildAddedComponents', () => {
+    it('lists the added tracks', () => {
+      const [container] = service.buildAddedComponents('guild-123', [
+        mockTrack,
+        { ...mockTrack, title: 'Second', duration: 65 },
+      ]);
+
+      expect(container?.components[0]?.toJSON()).toMatchObject({
+        content:
+          '### ✅ Added 2 Tracks to Queue\n• **Test Video** (1:02:05)\n• **Second** (1:05)',
+      });
+    });
+  });
+});
@@ -0,0 +1,206 @@
+import { Injectable, Logger, OnModuleDestroy } from '@nestjs/common';
+import {
+  ActionRowBuilder,
+  type ChatInputCommandInteraction,
+  ContainerBuilder,
+  MessageFlags,
+  SectionBuilder,
+  SeparatorBuilder,
+  StringSelectMenuBuilder,
+  TextDisplayBuilder,
+  ThumbnailBuilder,
+} from 'discord.js';
+import { formatDuration, type Track } from './music-queue';
+import { NowPlayingService } from './now-playing.service';
+import type { SearchResult } from './providers/music-provider.interface';
+
+export const SEARCH_PICKER_SELECT_ID = 'music_search_select';
+
+const PICKER_TIMEOUT_MS = 60_000;
+const SELECT_TEXT_LIMIT = 100;
+
+export interface SearchPickerSession {
+  userId: string;
+  guildId: string;
+  results: SearchResult[];
+}
+
+export type SearchPickerTakeResult =
+  | { status: 'taken'; session: SearchPickerSession }
+  | { status: 'expired' | 'not-requester' };
+
+interface PendingPicker extends SearchPickerSession {
+  interaction: ChatInputCommandInteraction;
+  timeout: NodeJS.Timeout;
+}
+
+@Injectable()
+export class SearchPickerService implements OnModuleDestroy {
+  private readonly logger = new Logger(SearchPickerService.name);
+  private readonly pickers = new Map<string, PendingPicker>();
+
+  public constructor(private readonly nowPlayingService: NowPlayingService) {}
+
+  public onModuleDestroy(): void {
+    for (const picker of this.pickers.values()) {
+      clearTimeout(picker.timeout);
+    }
+    this.pickers.clear();
+  }
+
+  public async open(
+    interaction: ChatInputCommandInteraction,
+    guildId: string,
+    results: SearchResult[],
+  ): Promise<void> {
+    const message = await interaction.editReply({
+      components: this.buildPickerComponents(guildId, results),
+      flags: [MessageFlags.IsComponentsV2],
+    });
+
+    const timeout = setTimeout(() => {
+      void this.expire(message.id);
+    }, PICKER_TIMEOUT_MS);
+
+    this.pickers.set(message.id, {
+      userId: interaction.user.id,
+      guildId,
+      results,
+      interaction,
+      timeout,
+    });
+  }
+
+  public take(messageId: string, userId: string): SearchPickerTakeResult {
+    const picker = this.pickers.get(messageId);
+    if (!picker) {
+      return { status: 'expired' };
+    }
+    if (picker.userId !== userId) {
+      return { status: 'not-requester' };
+    }
+
+    clearTimeout(picker.timeout);
+    this.pickers.delete(messageId);
+
+    return {
+      status: 'taken',
+      session: {
+        userId: picker.userId,
+        guildId: picker.guildId,
+        results: picker.results,
+      },
+    };
+  }
+
+  public buildAddedComponents(
+    guildId: string,
+    tracks: Track[],
+  ): ContainerBuilder[] {
+    const lines = tracks.map(
+      (track) => `• **${track.title}** (${formatDuration(track.duration)})`,
+    );
+    const heading =
+      tracks.length === 1
+        ? '### ✅ Added to Queue'
+        : `### ✅ Added ${String(tracks.length)} Tracks to Queue`;
+
+    return this.buildNoticeComponents(
+      guildId,
+      `${heading}\n${lines.join('\n')}`,
+    );
+  }
+
+  public buildNoticeComponents(
+    guildId: string,
+    content: string,
+  ): ContainerBuilder[] {
+    return [
+      new ContainerBuilder()
+        .setAccentColor(this.nowPlayingService.getAccentColor(guildId))
+        .addTextDisplayComponents(new TextDisplayBuilder().setContent(content)),
+    ];
+  }
+
+  private async expire(messageId: string): Promise<void> {
+    const picker = this.pickers.get(messageId);
+    if (!picker) {
+      return;
+    }
+
+    this.pickers.delete(messageId);
+
+    try {
+      await picker.interaction.editReply({
+        components: this.buildNoticeComponents(
+          picker.guildId,
+          '### ⌛ Search expired\nRun `/music search` again to pick a track.',
+        ),
+      });
+    } catch (error) {
+      this.logger.debug(
+        `Could not mark search picker ${messageId} as expired`,
+        error,
+      );
+    }
+  }
+
+  private buildPickerComponents(
+    guildId: string,
+    results: SearchResult[],
+  ): ContainerBuilder[] {
+    const container = new ContainerBuilder()
+      .setAccentColor(this.nowPlayingService.getAccentColor(guildId))
+      .addTextDisplayComponents(
+        new TextDisplayBuilder().setContent(
+          `### 🔎 Search Results\nPick one or more tracks to add to the queue.`,
+        ),
+      )
+      .addSeparatorComponents(new SeparatorBuilder());
+
+    results.forEach((result, index) => {
+      const text = new TextDisplayBuilder().setContent(
+        `**${String(index + 1)}. ${result.track.title}**\n${result.channel} • ${formatDuration(result.track.duration)}`,
+      );
+
+      if (result.track.thumbnail) {
+        container.addSectionComponents(
+          new SectionBuilder()
+            .addTextDisplayComponents(text)
+            .setThumbnailAccessory(
+              new ThumbnailBuilder().setURL(result.track.thumbnail),
+            ),
+        );
+      } else {
+        container.addTextDisplayComponents(text);
+      }
+    });
+
+    const select = new StringSelectMenuBuilder()
+      .setCustomId(SEARCH_PICKER_SELECT_ID)
+      .setPlaceholder('Choose tracks to play')
+      .setMinValues(1)
+      .setMaxValues(results.length)
+      .addOptions(
+        results.map((result, index) => ({
+          label: this.truncate(`${String(index + 1)}. ${result.track.title}`),
+          description: this.truncate(
+            `${result.channel} • ${formatDuration(result.track.duration)}`,
+          ),
+          value: String(index),
+        })),
+      );
+
+    container.addActionRowComponents(
+      new ActionRowBuilder<StringSelectMenuBuilder>().addComponents(select),
+    );
+
+    return [container];
+  }
+
+  private truncate(text: string): string {
+    return text.length > SELECT_TEXT_LIMIT
+      ? `${text.slice(0, SELECT_TEXT_LIMIT - 1)}…`
+      : text;
+  }
+}
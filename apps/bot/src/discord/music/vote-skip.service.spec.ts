@@ -0,0 +1,215 @@
+import type { ConfigService } from '@nestjs/config';
+import { Collection, type GuildMember } from 'discord.js';
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import type { Config } from '../../config/config.type';
+import { Role } from '../authorization/role.enum';
+import type { RoleGuard } from '../authorization/role.guard';
+import type { VoiceService } from '../voice/voice.service';
+import type { Track } from './music-queue';
+import type { MusicService } from './music.service';
+import { VoteSkipService } from './vote-skip.service';
+
+const mockTrack: Track = {
+  url: 'https://youtube.com/watch?v=dQw4w9WgXcQ',
+  title: 'Test Video',
+  duration: 180,
+  thumbnail: 'https://example.com/thumb.jpg',
+  requestedBy: 'requester#0001',
+  requesterId: 'requester',
+};
+
+describe('VoteSkipService', () => {
+  let service: VoteSkipService;
+  let musicService: MusicService;
+  let voiceService: VoiceService;
+  let roleGuard: RoleGuard;
+  let listeners: Collection<string, GuildMember>;
+
+  function createMember(id: string, bot = false): GuildMember {
+    const member = {
+      id,
+      user: { bot, tag: `${id}#0001` },
+      roles: { cache: new Collection([[`${id}-role`, {}]]) },
+      guild: {
+        channels: {
+          cache: {
+            get: (channelId: string) =>
+              channelId === 'voice-1'
+                ? { isVoiceBased: () => true, members: listeners }
+                : undefined,
+          },
+        },
+      },
+    } as unknown as GuildMember;
+    return member;
+  }
+
+  function join(...ids: string[]): GuildMember[] {
+    return ids.map((id) => {
+      const member = createMember(id);
+      listeners.set(id, member);
+      return member;
+    });
+  }
+
+  function createService(voteSkip?: { enabled?: boolean; threshold?: number }) {
+    const configService = {
+      get: vi.fn().mockReturnValue(voteSkip ? { voteSkip } : undefined),
+    } as unknown as ConfigService<Config, true>;
+    return new VoteSkipService(
+      musicService,
+      voiceService,
+      roleGuard,
+      configService,
+    );
+  }
+
+  beforeEach(() => {
+    listeners = new Collection();
+    listeners.set('bot', createMember('bot', true));
+
+    musicService = {
+      getNowPlaying: vi.fn().mockReturnValue(mockTrack),
+      skip: vi.fn().mockReturnValue(undefined),
+    } as unknown as MusicService;
+
+    voiceService = {
+      getChannelId: vi.fn().mockReturnValue('voice-1'),
+    } as unknown as VoiceService;
+
+    roleGuard = {
+      hasRole: vi.fn().mockReturnValue(false),
+    } as unknown as RoleGuard;
+
+    service = createService({ enabled: true, threshold: 0.5 });
+  });
+
+  it('skips immediately when voting is disabled', () => {
+    service = createService();
+    const [alice] = join('alice', 'bob', 'carol');
+
+    expect(service.requestSkip('guild-123', alice)).toEqual({
+      status: 'skipped',
+      nextTrack: undefined,
+    });
+    expect(vi.mocked(musicService.skip)).toHaveBeenCalledWith('guild-123');
+  });
+
+  it('needs the configured fraction of non-bot listeners', () => {
+    const [alice, bob] = join('alice', 'bob', 'carol');
+
+    expect(service.requestSkip('guild-123', alice)).toEqual({
+      status: 'voted',
+      votes: 1,
+      required: 2,
+    });
+    expect(service.requestSkip('guild-123', alice)).toEqual({
+      status: 'already-voted',
+      votes: 1,
+      required: 2,
+    });
+    expect(service.getTally('guild-123')).toEqual({ votes: 1, required: 2 });
+    expect(vi.mocked(musicService.skip)).not.toHaveBeenCalled();
+
+    expect(service.requestSkip('guild-123', bob).status).toBe('skipped');
+    expect(vi.mocked(musicService.skip)).toHaveBeenCalledTimes(1);
+    expect(service.getTally('guild-123')).toBeUndefined();
+  });
+
+  it('lets the requester skip their own track', () => {
+    join('alice', 'bob');
+    const requester = join('requester')[0];
+
+    expect(service.requestSkip('guild-123', requester).status).toBe('skipped');
+  });
+
+  it('matches the requester by user id', () => {
+    const [alice] = join('alice', 'bob', 'carol');
+    vi.mocked(musicService.getNowPlaying).mockReturnValue({
+      ...mockTrack,
+      requestedBy: 'alice#0001',
+    });
+
+    expect(service.requestSkip('guild-123', alice).status).toBe('voted');
+  });
+
+  it('lets admins skip without a vote', () => {
+    const [alice] = join('alice', 'bob', 'carol');
+    vi.mocked(roleGuard.hasRole).mockReturnValue(true);
+
+    expect(service.requestSkip('guild-123', alice).status).toBe('skipped');
+    expect(vi.mocked(roleGuard.hasRole)).toHaveBeenCalledWith(
+      'guild-123',
+      ['alice-role'],
+      Role.Admin,
+    );
+  });
+
+  it('lets only the requester or an admin change tracks without a vote', () => {
+    const [alice, requester] = join('alice', 'requester');
+
+    expect(service.canSkipWithoutVote('guild-123', alice)).toBe(false);
+    expect(service.canSkipWithoutVote('guild-123', undefined)).toBe(false);
+    expect(service.canSkipWithoutVote('guild-123', requester)).toBe(true);
+
+    vi.mocked(roleGuard.hasRole).mockReturnValue(true);
+    expect(service.canSkipWithoutVote('guild-123', alice)).toBe(true);
+  });
+
+  it('lets anyone change tracks when voting is disabled', () => {
+    service = createService();
+    const [alice] = join('alice');
+
+    expect(service.canSkipWithoutVote('guild-123', alice)).toBe(true);
+  });
+
+  it('reports when nothing is playing', () => {
+    const [alice] = join('alice');
+    vi.mocked(musicService.getNowPlaying).mockReturnValue(undefined);
+
+    expect(service.requestSkip('guild-123', alice)).toEqual({
+      status: 'nothing-playing',
+    });
+    expect(vi.mocked(musicService.skip)).not.toHaveBeenCalled();
+  });
+
+  it('requires a listener even when voting is disabled', () => {
+    service = createService();
+    join('alice');
+    vi.mocked(roleGuard.hasRole).mockReturnValue(true);
+
+    expect(service.requestSkip('guild-123', createMember('dave'))).toEqual({
+      status: 'not-listening',
+    });
+    expect(vi.mocked(musicService.skip)).not.toHaveBeenCalled();
+  });
+
+  it('rejects votes from members outside the voice channel', () => {
+    join('alice', 'bob');
+
+    expect(service.requestSkip('guild-123', createMember('dave'))).toEqual({
+      status: 'not-listening',
+    });
+  });
+
+  it('drops votes from listeners who left', () => {
+    const [alice, bob] = join('alice', 'bob', 'carol', 'dave');
+    service.requestSkip('guild-123', alice);
+    listeners.delete('alice');
+
+    expect(service.requestSkip('guild-123', bob)).toEqual({
+      status: 'voted',
+      votes: 1,
+      required: 2,
+    });
+  });
+
+  it('resets the votes when the next track starts', () => {
+    const [alice] = join('alice', 'bob', 'carol');
+    service.requestSkip('guild-123', alice);
+
+    service.handleTrackStart('guild-123');
+
+    expect(service.getTally('guild-123')).toBeUndefined();
+  });
+});
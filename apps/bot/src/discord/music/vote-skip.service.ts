@@ -0,0 +1,171 @@
+import { Injectable } from '@nestjs/common';
+import { ConfigService } from '@nestjs/config';
+import { OnEvent } from '@nestjs/event-emitter';
+import type { GuildMember } from 'discord.js';
+import type { Config } from '../../config/config.type';
+import { Role } from '../authorization/role.enum';
+import { RoleGuard } from '../authorization/role.guard';
+import { VOICE_EVENTS, VoiceService } from '../voice/voice.service';
+import type { Track } from './music-queue';
+import { MUSIC_EVENTS, MusicService } from './music.service';
+
+const DEFAULT_VOTE_THRESHOLD = 0.5;
+
+export const VOTE_REQUIRED_MESSAGE =
+  'Only the requester or an admin can change tracks while vote-skip is on. Use `/music skip` to vote.';
+
+export interface SkipTally {
+  votes: number;
+  required: number;
+}
+
+export type SkipResult =
+  | { status: 'skipped'; nextTrack: Track | undefined }
+  | ({ status: 'voted' | 'already-voted' } & SkipTally)
+  | { status: 'not-listening' | 'nothing-playing' };
+
+interface SkipVote {
+  track: Track;
+  voters: Set<string>;
+  required: number;
+}
+
+@Injectable()
+export class VoteSkipService {
+  private readonly votes = new Map<string, SkipVote>();
+  private readonly enabled: boolean;
+  private readonly threshold: number;
+
+  public constructor(
+    private readonly musicService: MusicService,
+    private readonly voiceService: VoiceService,
+    private readonly roleGuard: RoleGuard,
+    configService: ConfigService<Config, true>,
+  ) {
+    const voteSkip = configService.get('music', { infer: true })?.voteSkip;
+    this.enabled = voteSkip?.enabled ?? false;
+    this.threshold = voteSkip?.threshold ?? DEFAULT_VOTE_THRESHOLD;
+  }
+
+  @OnEvent(MUSIC_EVENTS.TRACK_START)
+  public handleTrackStart(guildId: string): void {
+    this.votes.delete(guildId);
+  }
+
+  @OnEvent(MUSIC_EVENTS.QUEUE_END)
+  public handleQueueEnd(guildId: string): void {
+    this.votes.delete(guildId);
+  }
+
+  @OnEvent(VOICE_EVENTS.LEFT)
+  public handleVoiceLeft(guildId: string): void {
+    this.votes.delete(guildId);
+  }
+
+  public requestSkip(
+    guildId: string,
+    member: GuildMember | undefined,
+  ): SkipResult {
+    const track = this.musicService.getNowPlaying(guildId);
+    if (!track) {
+      return { status: 'nothing-playing' };
+    }
+
+    const listeners = this.getListeners(guildId, member);
+    if (!member || !listeners?.has(member.id)) {
+      return { status: 'not-listening' };
+    }
+
+    if (this.canSkipWithoutVote(guildId, member)) {
+      return this.skip(guildId);
+    }
+
+    let vote = this.votes.get(guildId);
+    if (vote?.track !== track) {
+      vote = { track, voters: new Set(), required: 0 };
+      this.votes.set(guildId, vote);
+    }
+
+    const alreadyVoted = vote.voters.has(member.id);
+    vote.voters.add(member.id);
+    // Votes from listeners who have since left no longer count
+    for (const voter of vote.voters) {
+      if (!listeners.has(voter)) {
+        vote.voters.delete(voter);
+      }
+    }
+    vote.required = Math.max(1, Math.ceil(listeners.size * this.threshold));
+
+    if (vote.voters.size >= vote.required) {
+      return this.skip(guildId);
+    }
+
+    return {
+      status: alreadyVoted ? 'already-voted' : 'voted',
+      votes: vote.voters.size,
+      required: vote.required,
+    };
+  }
+
+  // Jumping elsewhere in the queue also ends the current track, so it follows the same rule
+  public canSkipWithoutVote(
+    guildId: string,
+    member: GuildMember | undefined,
+  ): boolean {
+    const track = this.musicService.getNowPlaying(guildId);
+    if (!track || !this.enabled) {
+      return true;
+    }
+
+    return (
+      member !== undefined &&
+      (this.isRequester(member, track) ||
+        this.roleGuard.hasRole(
+          guildId,
+          [...member.roles.cache.keys()],
+          Role.Admin,
+        ))
+    );
+  }
+
+  public getTally(guildId: string): SkipTally | undefined {
+    const vote = this.votes.get(guildId);
+    if (
+      !vote ||
+      vote.voters.size === 0 ||
+      vote.track !== this.musicService.getNowPlaying(guildId)
+    ) {
+      return undefined;
+    }
+
+    return { votes: vote.voters.size, required: vote.required };
+  }
+
+  private skip(guildId: string): SkipResult {
+    this.votes.delete(guildId);
+    return { status: 'skipped', nextTrack: this.musicService.skip(guildId) };
+  }
+
+  private isRequester(member: GuildMember, track: Track): boolean {
+    return track.requesterId === member.id;
+  }
+
+  private getListeners(
+    guildId: string,
+    member: GuildMember | undefined,
+  ): Set<string> | undefined {
+    const channelId = this.voiceService.getChannelId(guildId);
+    const channel = channelId
+      ? member?.guild.channels.cache.get(channelId)
+      : undefined;
+    if (!channel?.isVoiceBased()) {
+      return undefined;
+    }
+
+    return new Set(
+      channel.members
+        .filter((listener) => !listener.user.bot)
+        .map((listener) => listener.id),
+    );
+  }
+}
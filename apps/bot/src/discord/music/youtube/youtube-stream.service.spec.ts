@@ -24,6 +24,9 @@ interface MockVideoInfo {
     server_abr_streaming_url?: string;
   };
   player_config?: {
+    audio_config?: {
+      loudness_db?: number;
+    };
     media_common_config?: {
       media_ustreamer_request_config?: {
         video_playback_ustreamer_config?: string;
@@ -40,15 +43,25 @@ interface MockSearchVideo {
     seconds?: number;
   };
   thumbnails?: { url?: string }[];
+  author?: { name?: string };
 }
 
 interface MockSearchResults {
   videos?: MockSearchVideo[];
 }
 
+interface MockPlaylistPage {
+  info?: { title?: string };
+  items?: (MockSearchVideo & { is_playable?: boolean; is_live?: boolean })[];
+  has_continuation?: boolean;
+  getContinuation?: ReturnType<typeof vi.fn>;
+}
+
 interface MockInnertubeClient {
   actions: Record<string, never>;
   getInfo: ReturnType<typeof vi.fn>;
+  getPlaylist: ReturnType<typeof vi.fn>;
+  getSearchSuggestions: ReturnType<typeof vi.fn>;
   search: ReturnType<typeof vi.fn>;
   session: {
     context: {
@@ -70,6 +83,7 @@ interface MockSabrStreamInstance {
   setPoToken: ReturnType<typeof vi.fn>;
   setStreamingURL: ReturnType<typeof vi.fn>;
   setUstreamerConfig: ReturnType<typeof vi.fn>;
+  abort: ReturnType<typeof vi.fn>;
   handlers: Map<string, (reloadPlaybackContext: unknown) => void>;
 }
 
@@ -123,6 +137,7 @@ const {
       this.setPoToken = vi.fn();
       this.setStreamingURL = vi.fn();
       this.setUstreamerConfig = vi.fn();
+      this.abort = vi.fn();
       mockSabrInstances.push(this);
     }),
   };
@@ -151,6 +166,12 @@ vi.mock('googlevideo/utils', () => ({
     AUDIO_ONLY: 1,
   },
   buildSabrFormat: mockBuildSabrFormat,
+  FormatKeyUtils: {
+    fromFormat: (format: { itag: number }) => String(format.itag),
+    fromFormatInitializationMetadata: (metadata: {
+      formatId: { itag: number };
+    }) => String(metadata.formatId.itag),
+  },
 }));
 
 import { YouTubeStreamService } from './youtube-stream.service';
@@ -194,10 +215,21 @@ function createAudioStream(): ReadableStream<Uint8Array> {
   });
 }
 
+function createPlaylistItems(start: number, count: number) {
+  return Array.from({ length: count }, (_, i) => ({
+    id: `video${String(start + i).padStart(6, '0')}`,
+    title: { toString: () => `Video ${String(start + i)}` },
+    duration: { seconds: 200 },
+    thumbnails: [{ url: `https://example.com/${String(start + i)}.jpg` }],
+  }));
+}
+
 function createClient(): MockInnertubeClient {
   return {
     actions: {},
     getInfo: vi.fn().mockResolvedValue(createInfo()),
+    getPlaylist: vi.fn(),
+    getSearchSuggestions: vi.fn().mockResolvedValue(['lofi hip hop']),
     search: vi.fn().mockResolvedValue({
       videos: [
         {
@@ -490,6 +522,240 @@ describe('YouTubeStreamService', () => {
     });
   });
 
+  describe('getRelated', () => {
+    it('maps watch-next lockups and compact videos to metadata', async () => {
+      client.getInfo.mockResolvedValueOnce({
+        watch_next_feed: [
+          {
+            content_type: 'VIDEO',
+            content_id: 'lockup12345',
+            metadata: { title: { toString: () => 'Lockup Video' } },
+            content_image: {
+              image: [{ url: 'https://example.com/lockup.jpg' }],
+              overlays: [{ badges: [{ text: '1:02:03' }] }],
+            },
+          },
+          { content_type: 'PLAYLIST', content_id: 'PLplaylist' },
+          {
+            content_type: 'VIDEO',
+            content_id: 'livelockup1',
+            content_image: { overlays: [{ badges: [{ text: 'LIVE' }] }] },
+          },
+          {
+            video_id: 'dQw4w9WgXcQ',
+            title: 'Same Video',
+            duration: { seconds: 213 },
+          },
+          {
+            video_id: 'compact1234',
+            title: 'Compact Video',
+            duration: { seconds: 95 },
+            thumbnails: [{ url: 'https://example.com/compact.jpg' }],
+          },
+          {
+            video_id: 'overlimit12',
+            title: 'Over Limit',
+            duration: { seconds: 60 },
+          },
+        ],
+      });
+
+      const related = await service.getRelated(
+        'https://youtube.com/watch?v=dQw4w9WgXcQ',
+        2,
+      );
+
+      expect(related).toEqual([
+        {
+          title: 'Lockup Video',
+          duration: 3723,
+          thumbnail: 'https://example.com/lockup.jpg',
+          url: 'https://www.youtube.com/watch?v=lockup12345',
+        },
+        {
+          title: 'Compact Video',
+          duration: 95,
+          thumbnail: 'https://example.com/compact.jpg',
+          url: 'https://www.youtube.com/watch?v=compact1234',
+        },
+      ]);
+      expect(client.getInfo).toHaveBeenCalledWith('dQw4w9WgXcQ', {
+        po_token: 'content-po-token',
+      });
+      expect(debugSpy).toHaveBeenCalledWith('youtube.related: dQw4w9WgXcQ');
+    });
+
+    it('returns an empty list when there is no watch-next feed', async () => {
+      await expect(service.getRelated('dQw4w9WgXcQ', 5)).resolves.toEqual([]);
+    });
+  });
+
+  describe('getSearchSuggestions', () => {
+    it('returns Innertube search suggestions', async () => {
+      await expect(service.getSearchSuggestions('lofi')).resolves.toEqual([
+        'lofi hip hop',
+      ]);
+      expect(client.getSearchSuggestions).toHaveBeenCalledWith('lofi');
+      expect(debugSpy).toHaveBeenCalledWith('youtube.suggestions: lofi');
+    });
+  });
+
+  describe('searchMany', () => {
+    it('returns up to the requested number of results with channels', async () => {
+      client.search.mockResolvedValueOnce({
+        videos: [
+          {
+            id: 'first123456',
+            title: 'First',
+            duration: { seconds: 100 },
+            author: { name: 'First Channel' },
+          },
+          { title: 'Missing Id' },
+          { id: 'second12345', title: 'Second' },
+          { id: 'third123456', title: 'Third' },
+        ],
+      } satisfies MockSearchResults);
+
+      const results = await service.searchMany('lofi', 2);
+
+      expect(results).toEqual([
+        {
+          title: 'First',
+          duration: 100,
+          thumbnail: '',
+          url: 'https://www.youtube.com/watch?v=first123456',
+          channel: 'First Channel',
+        },
+        {
+          title: 'Second',
+          duration: 0,
+          thumbnail: '',
+          url: 'https://www.youtube.com/watch?v=second12345',
+          channel: 'Unknown Channel',
+        },
+      ]);
+      expect(debugSpy).toHaveBeenCalledWith('youtube.search: lofi (limit 2)');
+    });
+
+    it('returns an empty list when nothing matches', async () => {
+      client.search.mockResolvedValueOnce({
+        videos: [],
+      } satisfies MockSearchResults);
+
+      await expect(service.searchMany('missing', 5)).resolves.toEqual([]);
+    });
+  });
+
+  describe('getPlaylist', () => {
+    it('maps playlist items to video metadata', async () => {
+      client.getPlaylist.mockResolvedValueOnce({
+        info: { title: 'My Playlist' },
+        items: createPlaylistItems(1, 2),
+        has_continuation: false,
+      } satisfies MockPlaylistPage);
+
+      const playlist = await service.getPlaylist('PL1234567890', {
+        limit: 200,
+      });
+
+      expect(client.getPlaylist).toHaveBeenCalledWith('PL1234567890');
+      expect(playlist).toEqual({
+        title: 'My Playlist',
+        url: 'https://www.youtube.com/playlist?list=PL1234567890',
+        truncated: false,
+        videos: [
+          {
+            title: 'Video 1',
+            duration: 200,
+            thumbnail: 'https://example.com/1.jpg',
+            url: 'https://www.youtube.com/watch?v=video000001',
+          },
+          {
+            title: 'Video 2',
+            duration: 200,
+            thumbnail: 'https://example.com/2.jpg',
+            url: 'https://www.youtube.com/watch?v=video000002',
+          },
+        ],
+      });
+      expect(logSpy).toHaveBeenCalledWith(
+        'youtube.playlist.fetched: PL1234567890 (2 videos)',
+      );
+    });
+
+    it('follows continuations and reports progress per page', async () => {
+      const secondPage: MockPlaylistPage = {
+        items: createPlaylistItems(3, 2),
+        has_continuation: false,
+      };
+      client.getPlaylist.mockResolvedValueOnce({
+        info: { title: 'Album' },
+        items: createPlaylistItems(1, 2),
+        has_continuation: true,
+        getContinuation: vi.fn().mockResolvedValue(secondPage),
+      } satisfies MockPlaylistPage);
+      const onProgress = vi.fn();
+
+      const playlist = await service.getPlaylist('OLAK5uy_abcdefghijklmnop', {
+        limit: 200,
+        onProgress,
+      });
+
+      expect(playlist.title).toBe('Album');
+      expect(playlist.videos).toHaveLength(4);
+      expect(playlist.truncated).toBe(false);
+      expect(onProgress).toHaveBeenNthCalledWith(1, 2);
+      expect(onProgress).toHaveBeenNthCalledWith(2, 4);
+    });
+
+    it('stops at the limit and flags the playlist as truncated', async () => {
+      const getContinuation = vi.fn();
+      client.getPlaylist.mockResolvedValueOnce({
+        info: { title: 'Huge' },
+        items: createPlaylistItems(1, 5),
+        has_continuation: true,
+        getContinuation,
+      } satisfies MockPlaylistPage);
+
+      const playlist = await service.getPlaylist('PLhuge', { limit: 3 });
+
+      expect(playlist.videos).toHaveLength(3);
+      expect(playlist.truncated).toBe(true);
+      expect(getContinuation).not.toHaveBeenCalled();
+      expect(logSpy).toHaveBeenCalledWith(
+        'youtube.playlist.fetched: PLhuge (3 videos, truncated)',
+      );
+    });
+
+    it('does not flag truncation when the limit matches the playlist size', async () => {
+      client.getPlaylist.mockResolvedValueOnce({
+        info: { title: 'Exact' },
+        items: createPlaylistItems(1, 3),
+        has_continuation: false,
+      } satisfies MockPlaylistPage);
+
+      const playlist = await service.getPlaylist('PLexact', { limit: 3 });
+
+      expect(playlist.truncated).toBe(false);
+    });
+
+    it('skips unplayable, live and id-less entries', async () => {
+      client.getPlaylist.mockResolvedValueOnce({
+        items: [
+          ...createPlaylistItems(1, 1),
+          { ...createPlaylistItems(2, 1)[0], is_playable: false },
+          { ...createPlaylistItems(3, 1)[0], is_live: true },
+          { title: 'No id' },
+        ],
+      } satisfies MockPlaylistPage);
+
+      const playlist = await service.getPlaylist('PLmixed', { limit: 200 });
+
+      expect(playlist.title).toBe('Unknown Playlist');
+      expect(playlist.videos.map((video) => video.title)).toEqual(['Video 1']);
+    });
+  });
+
   describe('getAudioStream', () => {
     it('returns a Node Readable stream with StreamType.WebmOpus when SABR succeeds', async () => {
       mockSabrStart.mockResolvedValueOnce({ audioStream: createAudioStream() });
@@ -529,6 +795,184 @@ describe('YouTubeStreamService', () => {
       audioInfo.source.destroy();
     });
 
+    it('reports the loudness from the player response', async () => {
+      const info = createInfo();
+      client.getInfo.mockResolvedValueOnce({
+        ...info,
+        player_config: {
+          ...info.player_config,
+          audio_config: { loudness_db: 4.2 },
+        },
+      });
+      mockSabrStart.mockResolvedValueOnce({ audioStream: createAudioStream() });
+
+      const audioInfo = await service.getAudioStream('dQw4w9WgXcQ');
+
+      expect(audioInfo.loudnessDb).toBe(4.2);
+      audioInfo.source.destroy();
+    });
+
+    it('starts a single SABR stream from the beginning when no offset is requested', async () => {
+      mockSabrStart.mockResolvedValueOnce({ audioStream: createAudioStream() });
+
+      const audioInfo = await service.getAudioStream('dQw4w9WgXcQ', {
+        startTimeMs: 0,
+      });
+
+      expect(audioInfo.streamType).toBe(StreamType.WebmOpus);
+      expect(MockSabrStream).toHaveBeenCalledTimes(1);
+      expect(mockSabrStart).toHaveBeenCalledWith({
+        enabledTrackTypes: 1,
+        preferOpus: true,
+        maxRetries: 3,
+      });
+      audioInfo.source.destroy();
+    });
+
+    it('restarts SABR at the requested offset behind the stream header', async () => {
+      const videoFormat = {
+        itag: 248,
+        lastModified: '100',
+        bitrate: 1_000_000,
+        approxDurationMs: 212_000,
+      };
+      const audioFormat = {
+        itag: 251,
+        lastModified: '200',
+        bitrate: 128_000,
+        mimeType: 'audio/webm; codecs="opus"',
+        approxDurationMs: 212_000,
+      };
+      mockSabrStart.mockImplementationOnce(() => {
+        mockSabrInstances[0]?.handlers.get('formatInitialization')?.({
+          formatInitializationMetadata: {
+            formatId: { itag: 251 },
+            initRange: { start: 0, end: 3 },
+          },
+        });
+
+        return Promise.resolve({
+          audioStream: new ReadableStream<Uint8Array>({
+            start(controller) {
+              controller.enqueue(new Uint8Array([1, 2, 3]));
+              controller.enqueue(new Uint8Array([4, 5, 6]));
+            },
+          }),
+          selectedFormats: { videoFormat, audioFormat },
+        });
+      });
+      mockSabrStart.mockResolvedValueOnce({
+        audioStream: new ReadableStream<Uint8Array>({
+          start(controller) {
+            controller.enqueue(new Uint8Array([9, 9]));
+            controller.close();
+          },
+        }),
+      });
+
+      const audioInfo = await service.getAudioStream('dQw4w9WgXcQ', {
+        startTimeMs: 83_500,
+      });
+
+      const received: Buffer[] = [];
+      for await (const chunk of audioInfo.source) {
+        received.push(Buffer.from(chunk as Uint8Array));
+      }
+
+      expect(audioInfo.streamType).toBe(StreamType.WebmOpus);
+      expect([...Buffer.concat(received)]).toEqual([1, 2, 3, 4, 9, 9]);
+      expect(MockSabrStream).toHaveBeenCalledTimes(2);
+      expect(mockSabrInstances[0]?.abort).toHaveBeenCalled();
+      expect(mockSabrStart).toHaveBeenLastCalledWith({
+        enabledTrackTypes: 1,
+        preferOpus: true,
+        maxRetries: 3,
+        state: expect.objectContaining({
+          durationMs: 212_000,
+          playerTimeMs: 83_500,
+          initializedFormats: [
+            expect.objectContaining({
+              formatKey: '248',
+              downloadedSegments: [],
+            }),
+            expect.objectContaining({
+              formatKey: '251',
+              formatInitializationMetadata: {
+                formatId: { itag: 251, lastModified: '200' },
+                mimeType: 'audio/webm; codecs="opus"',
+                durationUnits: '212000',
+                durationTimescale: '1000',
+              },
+              downloadedSegments: [
+                [0, expect.objectContaining({ durationMs: '83500' })],
+              ],
+            }),
+          ],
+        }) as unknown,
+      });
+      expect(logSpy).toHaveBeenCalledWith(
+        'youtube.stream.seek: dQw4w9WgXcQ to 83500ms',
+      );
+    });
+
+    it('resumes a failed stream by requesting SABR at the failure position', async () => {
+      const formats = {
+        videoFormat: { itag: 248, approxDurationMs: 600_000 },
+        audioFormat: { itag: 251, approxDurationMs: 600_000 },
+      };
+      mockSabrStart.mockResolvedValueOnce({
+        audioStream: createAudioStream(),
+        selectedFormats: formats,
+      });
+      const failed = await service.getAudioStream('dQw4w9WgXcQ');
+      failed.source.destroy();
+
+      mockSabrStart.mockImplementationOnce(() => {
+        mockSabrInstances[1]?.handlers.get('formatInitialization')?.({
+          formatInitializationMetadata: {
+            formatId: { itag: 251 },
+            initRange: { start: 0, end: 1 },
+          },
+        });
+
+        return Promise.resolve({
+          audioStream: createAudioStream(),
+          selectedFormats: formats,
+        });
+      });
+      mockSabrStart.mockResolvedValueOnce({ audioStream: createAudioStream() });
+
+      const resumed = await service.getAudioStream('dQw4w9WgXcQ', {
+        startTimeMs: 312_480,
+      });
+
+      expect(resumed.streamType).toBe(StreamType.WebmOpus);
+      expect(MockSabrStream).toHaveBeenCalledTimes(3);
+      expect(mockSabrInstances[1]?.abort).toHaveBeenCalled();
+      expect(mockSabrStart).toHaveBeenLastCalledWith(
+        expect.objectContaining({
+          state: expect.objectContaining({ playerTimeMs: 312_480 }) as unknown,
+        }),
+      );
+      resumed.source.destroy();
+    });
+
+    it('fails the seek when the header stream ends early', async () => {
+      mockSabrStart.mockResolvedValueOnce({
+        audioStream: createAudioStream(),
+        selectedFormats: {
+          videoFormat: { itag: 248 },
+          audioFormat: { itag: 251 },
+        },
+      });
+
+      await expect(
+        service.getAudioStream('dQw4w9WgXcQ', { startTimeMs: 5_000 }),
+      ).rejects.toThrow('SABR stream ended before its header was received');
+      expect(mockSabrInstances[0]?.abort).toHaveBeenCalled();
+      expect(MockSabrStream).toHaveBeenCalledTimes(1);
+    });
+
     it('registers a reloadPlayerResponse handler before starting SABR', async () => {
       mockSabrStart.mockResolvedValueOnce({ audioStream: createAudioStream() });
 
@@ -1,14 +1,26 @@
 import { Injectable, Logger } from '@nestjs/common';
 import { StreamType } from '@discordjs/voice';
 import { Constants, Platform, YTNodes, type Types } from 'youtubei.js';
-import { SabrStream } from 'googlevideo/sabr-stream';
+import {
+  SabrStream,
+  type InitializedFormat,
+  type SabrPlaybackOptions,
+  type SabrStreamConfig,
+  type SabrStreamState,
+} from 'googlevideo/sabr-stream';
+import type { SabrFormat } from 'googlevideo/shared-types';
 import type {
   ReloadPlaybackContext,
   StreamProtectionStatus,
 } from 'googlevideo/protos';
-import { buildSabrFormat, EnabledTrackTypes } from 'googlevideo/utils';
+import {
+  buildSabrFormat,
+  EnabledTrackTypes,
+  FormatKeyUtils,
+} from 'googlevideo/utils';
 import { Readable } from 'node:stream';
 import { regex } from 'arkregex';
+import type { AudioStreamOptions } from '../providers/music-provider.interface';
 import { InnertubeSessionService } from './innertube-session.service';
 
 const YOUTUBE_URL_PATTERN = regex(
@@ -20,6 +32,7 @@ const MAX_RECOVERY_ATTEMPTS = 3;
 const SESSION_REBUILD_ON_ATTEMPT = 3;
 const MAX_RELOAD_REMINTS = 3;
 const VIDEO_ID_PATTERN = regex('^([a-zA-Z0-9_-]{11})$');
+const TIMESTAMP_PATTERN = regex('^\\d+(?::\\d{2}){1,2}$');
 
 interface ThumbnailLike {
   url?: string;
@@ -45,6 +58,9 @@ interface VideoInfoLike {
     server_abr_streaming_url?: string;
   };
   player_config?: {
+    audio_config?: {
+      loudness_db?: number;
+    };
     media_common_config?: {
       media_ustreamer_request_config?: {
         video_playback_ustreamer_config?: string;
@@ -65,6 +81,39 @@ interface SearchResultLike {
     thumbnails?: ThumbnailLike[];
   };
   best_thumbnail?: ThumbnailLike;
+  author?: {
+    name?: string;
+  };
+}
+
+interface PlaylistItemLike extends SearchResultLike {
+  is_playable?: boolean;
+  is_live?: boolean;
+}
+
+interface PlaylistPageLike {
+  info?: {
+    title?: string;
+  };
+  items?: PlaylistItemLike[];
+  has_continuation?: boolean;
+  getContinuation: () => Promise<PlaylistPageLike>;
+}
+
+interface WatchNextItemLike extends SearchResultLike {
+  content_id?: string;
+  content_type?: string;
+  metadata?: {
+    title?: { toString: () => string };
+  } | null;
+  content_image?: {
+    image?: ThumbnailLike[];
+    overlays?: { badges?: { text?: string }[] }[];
+  } | null;
+}
+
+interface WatchNextInfoLike {
+  watch_next_feed?: WatchNextItemLike[] | null;
 }
 
 interface SearchResultsLike {
@@ -72,6 +121,17 @@ interface SearchResultsLike {
   results?: SearchResultLike[];
 }
 
+export interface YouTubeAudioStream {
+  source: Readable;
+  streamType: StreamType;
+  loudnessDb?: number;
+}
+
+interface SelectedSabrFormats {
+  videoFormat: SabrFormat;
+  audioFormat: SabrFormat;
+}
+
 interface ReloadedSabrConfig {
   serverAbrStreamingUrl: string | undefined;
   videoPlaybackUstreamerConfig: string | undefined;
@@ -84,6 +144,17 @@ export interface VideoMetadata {
   url: string;
 }
 
+export interface SearchResultMetadata extends VideoMetadata {
+  channel: string;
+}
+
+export interface PlaylistMetadata {
+  title: string;
+  url: string;
+  videos: VideoMetadata[];
+  truncated: boolean;
+}
+
 @Injectable()
 export class YouTubeStreamService {
   private readonly logger = new Logger(YouTubeStreamService.name);
@@ -125,15 +196,139 @@ export class YouTubeStreamService {
     };
   }
 
+  public async getSearchSuggestions(query: string): Promise<string[]> {
+    this.logger.debug(`youtube.suggestions: ${query}`);
+
+    const client = this.getClient();
+    return client.getSearchSuggestions(query);
+  }
+
+  public async searchMany(
+    query: string,
+    limit: number,
+  ): Promise<SearchResultMetadata[]> {
+    this.logger.debug(`youtube.search: ${query} (limit ${String(limit)})`);
+
+    const client = this.getClient();
+    const searchResults = (await client.search(query)) as SearchResultsLike;
+    const results: SearchResultMetadata[] = [];
+
+    for (const result of searchResults.videos ?? searchResults.results ?? []) {
+      const videoId = result.video_id ?? result.id;
+      if (!videoId) {
+        continue;
+      }
+
+      results.push({
+        title: this.getSearchTitle(result),
+        duration: result.duration?.seconds ?? 0,
+        thumbnail: this.getSearchThumbnail(result),
+        url: this.canonicalUrl(videoId),
+        channel: result.author?.name ?? 'Unknown Channel',
+      });
+
+      if (results.length >= limit) {
+        break;
+      }
+    }
+
+    return results;
+  }
+
+  public async getRelated(
+    videoIdOrUrl: string,
+    limit: number,
+  ): Promise<VideoMetadata[]> {
+    const videoId = this.extractVideoId(videoIdOrUrl);
+    this.logger.debug(`youtube.related: ${videoId}`);
+
+    const client = this.getClient();
+    const poToken = await this.session.generateContentPoToken(videoId);
+    const info = (await client.getInfo(videoId, {
+      po_token: poToken,
+    })) as WatchNextInfoLike;
+    const related: VideoMetadata[] = [];
+
+    for (const item of info.watch_next_feed ?? []) {
+      const video = this.videoFromWatchNextItem(item);
+      if (!video || video.url === this.canonicalUrl(videoId)) {
+        continue;
+      }
+
+      related.push(video);
+      if (related.length >= limit) {
+        break;
+      }
+    }
+
+    return related;
+  }
+
+  public async getPlaylist(
+    playlistId: string,
+    options: { limit: number; onProgress?: (loaded: number) => void },
+  ): Promise<PlaylistMetadata> {
+    this.logger.debug(`youtube.playlist.fetch: ${playlistId}`);
+
+    const client = this.getClient();
+    let page = (await client.getPlaylist(
+      playlistId,
+    )) as unknown as PlaylistPageLike;
+    const title = page.info?.title ?? 'Unknown Playlist';
+    const videos: VideoMetadata[] = [];
+    let truncated = false;
+
+    for (;;) {
+      const items = page.items ?? [];
+      let consumed = 0;
+      for (const item of items) {
+        if (videos.length >= options.limit) {
+          break;
+        }
+
+        consumed++;
+        const video = this.videoFromPlaylistItem(item);
+        if (video) {
+          videos.push(video);
+        }
+      }
+
+      options.onProgress?.(videos.length);
+
+      if (videos.length >= options.limit) {
+        truncated = consumed < items.length || page.has_continuation === true;
+        break;
+      }
+
+      if (!page.has_continuation) {
+        break;
+      }
+
+      page = await page.getContinuation();
+    }
+
+    this.logger.log(
+      `youtube.playlist.fetched: ${playlistId} (${String(videos.length)} videos${truncated ? ', truncated' : ''})`,
+    );
+
+    return {
+      title,
+      url: `https://www.youtube.com/playlist?list=${playlistId}`,
+      videos,
+      truncated,
+    };
+  }
+
   public async getAudioStream(
     videoIdOrUrl: string,
-  ): Promise<{ source: Readable; streamType: StreamType }> {
+    options: AudioStreamOptions = {},
+  ): Promise<YouTubeAudioStream> {
     const videoId = this.extractVideoId(videoIdOrUrl);
     let attempt = 0;
 
     while (attempt <= 1) {
       try {
-        return await this.acquireStream(videoId);
+        return await this.acquireStream(videoId, options.startTimeMs ?? 0);
       } catch (error: unknown) {
         if (attempt === 0 && this.isTokenError(error)) {
           this.logger.warn(
@@ -157,7 +352,8 @@ export class YouTubeStreamService {
 
   private async acquireStream(
     videoId: string,
-  ): Promise<{ source: Readable; streamType: StreamType }> {
+    startTimeMs: number,
+  ): Promise<YouTubeAudioStream> {
     const startedAt = Date.now();
     this.logger.debug(`youtube.stream.acquire: ${videoId}`);
 
@@ -191,6 +387,67 @@ export class YouTubeStreamService {
       throw new Error('No SABR ustreamer config available');
     }
 
+    const sabrConfig: SabrStreamConfig = {
+      formats:
+        streamingData.adaptive_formats?.map((format) =>
+          buildSabrFormat(format as Parameters<typeof buildSabrFormat>[0]),
+        ) ?? [],
+      serverAbrStreamingUrl,
+      videoPlaybackUstreamerConfig,
+      poToken,
+      clientInfo: this.getSabrClientInfo(client),
+    };
+    const playbackOptions: SabrPlaybackOptions = {
+      enabledTrackTypes: EnabledTrackTypes.AUDIO_ONLY,
+      preferOpus: true,
+      maxRetries: SABR_MAX_RETRIES,
+    };
+
+    let initSegment: Buffer | undefined;
+    let state: SabrStreamState | undefined;
+    if (startTimeMs > 0) {
+      this.logger.log(
+        `youtube.stream.seek: ${videoId} to ${String(startTimeMs)}ms`,
+      );
+
+      const probe = await this.readInitSegment(
+        this.createSabrStream(client, videoId, sabrConfig),
+        playbackOptions,
+      );
+      initSegment = probe.initSegment;
+      state = this.buildSeekState(probe.selectedFormats, startTimeMs);
+    }
+
+    const { audioStream } = await this.createSabrStream(
+      client,
+      videoId,
+      sabrConfig,
+    ).start({ ...playbackOptions, ...(state && { state }) });
+    const nodeStream = Readable.fromWeb(
+      audioStream as Parameters<typeof Readable.fromWeb>[0],
+    );
+    if (initSegment) {
+      nodeStream.unshift(initSegment);
+    }
+
+    this.logger.log(
+      `youtube.stream.acquired: ${videoId} [${String(Date.now() - startedAt)}ms]`,
+    );
+
+    const loudnessDb = info.player_config?.audio_config?.loudness_db;
+
+    return {
+      source: nodeStream,
+      streamType: StreamType.WebmOpus,
+      ...(loudnessDb !== undefined && { loudnessDb }),
+    };
+  }
+
+  private createSabrStream(
+    client: NonNullable<ReturnType<InnertubeSessionService['getClient']>>,
+    videoId: string,
+    config: SabrStreamConfig,
+  ): SabrStream {
     let recoveryPromise: Promise<void> | undefined;
     let reloadPromise: Promise<void> | undefined;
     let protectionAttempts = 0;
@@ -210,17 +467,7 @@ export class YouTubeStreamService {
       return fetch(input, init);
     };
 
-    const sabrStream = new SabrStream({
-      formats:
-        streamingData.adaptive_formats?.map((format) =>
-          buildSabrFormat(format as Parameters<typeof buildSabrFormat>[0]),
-        ) ?? [],
-      serverAbrStreamingUrl,
-      videoPlaybackUstreamerConfig,
-      poToken,
-      clientInfo: this.getSabrClientInfo(client),
-      fetch: gatedFetch,
-    });
+    const sabrStream = new SabrStream({ ...config, fetch: gatedFetch });
 
     sabrStream.on('finish', () => {
       streamClosed = true;
@@ -297,20 +544,104 @@ export class YouTubeStreamService {
       });
     });
 
-    const { audioStream } = await sabrStream.start({
-      enabledTrackTypes: EnabledTrackTypes.AUDIO_ONLY,
-      preferOpus: true,
-      maxRetries: SABR_MAX_RETRIES,
+    return sabrStream;
+  }
+
+  /**
+   * SABR only sends the container header when a format is first selected, so
+   * seeking reads it from a short-lived stream started at the beginning.
+   */
+  private async readInitSegment(
+    sabrStream: SabrStream,
+    playbackOptions: SabrPlaybackOptions,
+  ): Promise<{ initSegment: Buffer; selectedFormats: SelectedSabrFormats }> {
+    const initRangeEnds = new Map<string, number | undefined>();
+    sabrStream.on('formatInitialization', (format: InitializedFormat) => {
+      const metadata = format.formatInitializationMetadata;
+      initRangeEnds.set(
+        FormatKeyUtils.fromFormatInitializationMetadata(metadata),
+        metadata.initRange?.end,
+      );
     });
-    const nodeStream = Readable.fromWeb(
-      audioStream as Parameters<typeof Readable.fromWeb>[0],
-    );
 
-    this.logger.log(
-      `youtube.stream.acquired: ${videoId} [${String(Date.now() - startedAt)}ms]`,
-    );
+    const { audioStream, selectedFormats } =
+      await sabrStream.start(playbackOptions);
+    const audioFormatKey =
+      FormatKeyUtils.fromFormat(selectedFormats.audioFormat) ?? '';
+    const reader = audioStream.getReader();
+    const chunks: Uint8Array[] = [];
+    let received = 0;
+
+    try {
+      for (;;) {
+        const initRangeEnd = initRangeEnds.get(audioFormatKey);
+        if (initRangeEnd !== undefined && received > initRangeEnd) {
+          return {
+            initSegment: Buffer.concat(chunks).subarray(0, initRangeEnd + 1),
+            selectedFormats,
+          };
+        }
+
+        const { done, value } = await reader.read();
+        if (done) {
+          throw new Error('SABR stream ended before its header was received');
+        }
+
+        chunks.push(value);
+        received += value.length;
+      }
+    } finally {
+      sabrStream.abort();
+    }
+  }
+
+  /**
+   * Restored state that makes SABR continue from the offset: the audio
+   * format reports everything before it as already downloaded.
+   */
+  private buildSeekState(
+    { videoFormat, audioFormat }: SelectedSabrFormats,
+    startTimeMs: number,
+  ): SabrStreamState {
+    const audioFormatKey = FormatKeyUtils.fromFormat(audioFormat) ?? '';
+    const skippedSegment = {
+      formatIdKey: audioFormatKey,
+      segmentNumber: 0,
+      durationMs: String(startTimeMs),
+      mediaHeader: {},
+      bufferedChunks: [],
+    };
 
-    return { source: nodeStream, streamType: StreamType.WebmOpus };
+    return {
+      durationMs: audioFormat.approxDurationMs,
+      requestNumber: 0,
+      playerTimeMs: startTimeMs,
+      activeSabrContexts: [],
+      sabrContextUpdates: [],
+      cachedBufferedRanges: [],
+      initializedFormats: [videoFormat, audioFormat].map((format) => {
+        const formatKey = FormatKeyUtils.fromFormat(format) ?? '';
+
+        return {
+          formatKey,
+          formatInitializationMetadata: {
+            formatId: {
+              itag: format.itag,
+              lastModified: format.lastModified,
+              ...(format.xtags !== undefined && { xtags: format.xtags }),
+            },
+            ...(format.mimeType !== undefined && {
+              mimeType: format.mimeType,
+            }),
+            durationUnits: String(format.approxDurationMs),
+            durationTimescale: '1000',
+          },
+          downloadedSegments:
+            formatKey === audioFormatKey ? [[0, skippedSegment]] : [],
+          lastMediaHeaders: [],
+        };
+      }),
+    };
   }
 
   private async handleSabrReload(
@@ -502,6 +833,62 @@ export class YouTubeStreamService {
     );
   }
 
+  private videoFromPlaylistItem(
+    item: PlaylistItemLike,
+  ): VideoMetadata | undefined {
+    const videoId = item.video_id ?? item.id;
+    if (!videoId || item.is_playable === false || item.is_live === true) {
+      return undefined;
+    }
+
+    return {
+      title: this.getSearchTitle(item),
+      duration: item.duration?.seconds ?? 0,
+      thumbnail: this.getSearchThumbnail(item),
+      url: this.canonicalUrl(videoId),
+    };
+  }
+
+  private videoFromWatchNextItem(
+    item: WatchNextItemLike,
+  ): VideoMetadata | undefined {
+    // Newer watch pages render lockups instead of compact video renderers
+    if (item.content_type !== undefined) {
+      if (item.content_type !== 'VIDEO' || !item.content_id) {
+        return undefined;
+      }
+
+      const duration = this.parseTimestamp(
+        item.content_image?.overlays
+          ?.flatMap((overlay) => overlay.badges ?? [])
+          .find((badge) => badge.text)?.text,
+      );
+      if (duration === 0) {
+        return undefined;
+      }
+
+      return {
+        title: item.metadata?.title?.toString() ?? 'Unknown Title',
+        duration,
+        thumbnail: item.content_image?.image?.[0]?.url ?? '',
+        url: this.canonicalUrl(item.content_id),
+      };
+    }
+
+    const videoId = item.video_id ?? item.id;
+    const duration = item.duration?.seconds ?? 0;
+    if (!videoId || duration === 0) {
+      return undefined;
+    }
+
+    return {
+      title: this.getSearchTitle(item),
+      duration,
+      thumbnail: this.getSearchThumbnail(item),
+      url: this.canonicalUrl(videoId),
+    };
+  }
+
   private getSearchTitle(result: SearchResultLike): string {
     if (typeof result.title === 'string') {
       return result.title;
@@ -533,6 +920,16 @@ export class YouTubeStreamService {
     return Number.isFinite(parsed) ? parsed : 0;
   }
 
+  private parseTimestamp(value: string | undefined): number {
+    if (!value || !TIMESTAMP_PATTERN.test(value)) {
+      return 0;
+    }
+
+    return value
+      .split(':')
+      .reduce((total, part) => total * 60 + Number(part), 0);
+  }
+
   private isTokenError(error: unknown): boolean {
     if (!(error instanceof Error)) {
       return false;
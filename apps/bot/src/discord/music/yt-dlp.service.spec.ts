@@ -468,6 +468,55 @@ describe('YtDlpService', () => {
     });
   });
 
+  describe('dumpJson', () => {
+    beforeEach(async () => {
+      vi.mocked(existsSync).mockReturnValue(true);
+      vi.mocked(readFile).mockResolvedValue('2024.01.01');
+      service = new YtDlpService(configService);
+      await service.onModuleInit();
+    });
+
+    it('returns the parsed JSON for the target', async () => {
+      mockExecYtDlp.mockResolvedValueOnce(
+        JSON.stringify({ _type: 'playlist', entries: [] }),
+      );
+
+      const info = await service.dumpJson('scsearch5:lofi');
+
+      expect(info).toEqual({ _type: 'playlist', entries: [] });
+      expect(mockExecYtDlp).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.arrayContaining([
+          '--dump-single-json',
+          '--no-download',
+          'scsearch5:lofi',
+        ]),
+      );
+      expect(mockExecYtDlp.mock.calls[0]?.[1]).not.toContain('--playlist-end');
+    });
+
+    it('limits playlist entries when requested', async () => {
+      mockExecYtDlp.mockResolvedValueOnce('{}');
+
+      await service.dumpJson('https://soundcloud.com/artist/sets/album', {
+        playlistEnd: 50,
+      });
+
+      expect(mockExecYtDlp).toHaveBeenCalledWith(
+        expect.any(String),
+        expect.arrayContaining(['--playlist-end', '50']),
+      );
+    });
+
+    it('throws if service not ready', async () => {
+      const uninitializedService = new YtDlpService(configService);
+
+      await expect(uninitializedService.dumpJson('test')).rejects.toThrow(
+        'yt-dlp binary not ready',
+      );
+    });
+  });
+
   describe('forceUpdate', () => {
     beforeEach(async () => {
       vi.mocked(existsSync).mockReturnValue(true);
@@ -179,6 +179,27 @@ export class YtDlpService implements OnModuleInit {
     };
   }
 
+  public async dumpJson(
+    target: string,
+    options: { playlistEnd?: number } = {},
+  ): Promise<unknown> {
+    this.ensureReady();
+
+    const args = [
+      '--dump-single-json',
+      '--no-download',
+      ...(options.playlistEnd
+        ? ['--playlist-end', String(options.playlistEnd)]
+        : []),
+      ...this.getCookiesArgs(),
+      ...this.getExtractorArgs(),
+      target,
+    ];
+
+    const output = await execYtDlp(this.binaryPath, args);
+    return JSON.parse(output) as unknown;
+  }
+
   public async forceUpdate(): Promise<void> {
     const latestVersion = await this.fetchLatestVersion();
     await this.downloadBinary(latestVersion);
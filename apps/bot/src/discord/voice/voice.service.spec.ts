@@ -423,6 +423,36 @@ describe('VoiceService', () => {
     });
   });
 
+  describe('getPlaybackDuration', () => {
+    it('returns 0 when nothing has been played', () => {
+      expect(service.getPlaybackDuration('guild-123')).toBe(0);
+    });
+
+    it('returns the playback duration of the current resource', () => {
+      const mockPlayer = {
+        on: vi.fn(),
+        play: vi.fn(),
+      };
+      const mockConnection = {
+        subscribe: vi.fn(),
+      };
+
+      vi.mocked(discordVoice.getVoiceConnection).mockReturnValue(
+        mockConnection as unknown as discordVoice.VoiceConnection,
+      );
+      vi.mocked(discordVoice.createAudioPlayer).mockReturnValue(
+        mockPlayer as unknown as discordVoice.AudioPlayer,
+      );
+      vi.mocked(discordVoice.createAudioResource).mockReturnValue({
+        playbackDuration: 42_000,
+      } as never);
+
+      service.play('guild-123', 'test.mp3');
+
+      expect(service.getPlaybackDuration('guild-123')).toBe(42_000);
+    });
+  });
+
   describe('connection handling', () => {
     it('sets up disconnection handler on join', async () => {
       const connectionHandlers: Record<string, (...args: unknown[]) => void> =
@@ -670,7 +700,7 @@ describe('VoiceService', () => {
       });
 
       expect(errorSpy).toHaveBeenCalledWith(
-        'voice.player.error in guild guild-123: "No media parts or protocol updates received from server" after 55780ms of playback — stream died; Idle transition advances the queue',
+        'voice.player.error in guild guild-123: "No media parts or protocol updates received from server" after 55780ms of playback — stream died',
         'fake-stack',
       );
       expect(mockPlayer.stop).not.toHaveBeenCalled();
@@ -862,6 +892,41 @@ describe('VoiceService', () => {
       expect(service.setVolume('guild-123', -1)).toBe(0);
     });
 
+    it('applies the resource gain on top of the volume', () => {
+      const mockVolume = {
+        setVolume: vi.fn(),
+      };
+      const mockResource = {
+        volume: mockVolume,
+      };
+      const mockPlayer = {
+        on: vi.fn(),
+        play: vi.fn(),
+      };
+      const mockConnection = {
+        subscribe: vi.fn(),
+      };
+
+      vi.mocked(discordVoice.getVoiceConnection).mockReturnValue(
+        mockConnection as unknown as discordVoice.VoiceConnection,
+      );
+      vi.mocked(discordVoice.createAudioPlayer).mockReturnValue(
+        mockPlayer as unknown as discordVoice.AudioPlayer,
+      );
+      vi.mocked(discordVoice.createAudioResource).mockReturnValue(
+        mockResource as never,
+      );
+
+      service.play('guild-123', 'test.mp3', { gain: 0.5 });
+      expect(mockVolume.setVolume).toHaveBeenLastCalledWith(0.125);
+
+      const result = service.setVolume('guild-123', 1);
+
+      expect(mockVolume.setVolume).toHaveBeenLastCalledWith(0.5);
+      expect(result).toBe(1);
+      expect(service.getVolume('guild-123')).toBe(1);
+    });
+
     it('stores volume even when no resource exists', () => {
       const result = service.setVolume('guild-123', 0.5);
 
@@ -20,6 +20,8 @@ import type { Readable } from 'node:stream';
 export interface PlayOptions {
   inputType?: StreamType;
   inlineVolume?: boolean;
+  // Multiplied with the guild volume, e.g. to normalize the loudness of this resource
+  gain?: number;
 }
 
 export const VOICE_EVENTS = {
@@ -34,6 +36,7 @@ export class VoiceService {
   private readonly players = new Map<string, AudioPlayer>();
   private readonly resources = new Map<string, AudioResource>();
   private readonly volumes = new Map<string, number>();
+  private readonly gains = new Map<string, number>();
 
   public constructor(private readonly eventEmitter: EventEmitter2) {}
 
@@ -79,6 +82,10 @@ export class VoiceService {
     return !!getVoiceConnection(guildId);
   }
 
+  public getChannelId(guildId: string): string | undefined {
+    return getVoiceConnection(guildId)?.joinConfig.channelId ?? undefined;
+  }
+
   public play(
     guildId: string,
     stream: Readable | string,
@@ -99,6 +106,7 @@ export class VoiceService {
       inlineVolume: enableInlineVolume,
     });
 
+    this.gains.set(guildId, options.gain ?? 1);
     this.applyStoredVolume(guildId, resource);
 
     this.resources.set(guildId, resource);
@@ -114,7 +122,7 @@ export class VoiceService {
 
     const resource = this.resources.get(guildId);
     if (resource?.volume) {
-      resource.volume.setVolume(clampedVolume);
+      resource.volume.setVolume(clampedVolume * (this.gains.get(guildId) ?? 1));
       this.logger.debug(
         `Set volume to ${String(Math.round(clampedVolume * 100))}% in guild ${guildId}`,
       );
@@ -172,6 +180,10 @@ export class VoiceService {
     return this.players.get(guildId)?.state.status;
   }
 
+  public getPlaybackDuration(guildId: string): number {
+    return this.resources.get(guildId)?.playbackDuration ?? 0;
+  }
+
   private getOrCreatePlayer(guildId: string): AudioPlayer {
     let player = this.players.get(guildId);
     if (player) {
@@ -193,7 +205,7 @@ export class VoiceService {
   private setupPlayerHandlers(player: AudioPlayer, guildId: string): void {
     player.on('error', (error) => {
       this.logger.error(
-        `voice.player.error in guild ${guildId}: "${error.message}" after ${String(error.resource.playbackDuration)}ms of playback — stream died; Idle transition advances the queue`,
+        `voice.player.error in guild ${guildId}: "${error.message}" after ${String(error.resource.playbackDuration)}ms of playback — stream died`,
         error.stack,
       );
     });
@@ -210,12 +222,13 @@ export class VoiceService {
       this.players.delete(guildId);
     }
     this.resources.delete(guildId);
+    this.gains.delete(guildId);
   }
 
   private applyStoredVolume(guildId: string, resource: AudioResource): void {
     if (resource.volume) {
       const volume = this.volumes.get(guildId) ?? DEFAULT_VOLUME;
-      resource.volume.setVolume(volume);
+      resource.volume.setVolume(volume * (this.gains.get(guildId) ?? 1));
     }
   }
 
@@ -90,9 +90,19 @@ describe('Module imports', () => {
       SlashCommand: () => () => undefined,
       Options: () => () => undefined,
       StringOption: () => () => undefined,
+      BooleanOption: () => () => undefined,
       IntegerOption: () => () => undefined,
       NumberOption: () => () => undefined,
+      AttachmentOption: () => () => undefined,
+      MessageCommand: () => () => undefined,
+      TargetMessage: () => () => undefined,
       Button: () => () => undefined,
+      ComponentParam: () => () => undefined,
+      StringSelect: () => () => undefined,
+      SelectedStrings: () => () => undefined,
+      AutocompleteInterceptor: class MockAutocompleteInterceptor {
+        public intercept = vi.fn();
+      },
       createCommandGroupDecorator: () => () => (target: unknown) => target,
     }));
 
@@ -15,6 +15,7 @@ export default defineConfig({
         'src/main.ts',
         // Process spawn wrapper - mocked in tests
         'src/discord/music/yt-dlp.util.ts',
+        'src/discord/music/ffmpeg.util.ts',
       ],
       thresholds: {
         lines: 90,